@@ -4,54 +4,79 @@
 // - Runs model(s) + IFCT enrichment
 // - Summarizes macros
 // - Persists one cohesive meal_log row
+// - Re-scales saved items when the user corrects portions
+// - Keeps user_daily_stats in sync on create/adjust/delete
 // - Stable response shape for app
 
 import { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import { getSupabase } from '@/database/supabase';
-import { analyzeImage } from '@/services/aiAnalysis';
+import { analyzeImage, type AnalysisReasonCode } from '@/services/aiAnalysis';
 import { enrichWithIFCTData, getIFCTFoodByName } from '@/services/ifctService';
-import { hashBase64Image, validateBase64Image } from '@/utils/imageHash';
+import {
+  hashBase64Image,
+  perceptualHash,
+  validateBase64Image,
+} from '@/utils/imageHash';
 import logger from '@/utils/logger';
+import { isOwner } from '@/middleware/auth';
+import { refreshDailyStatsFor } from '@/services/dailyStatsService';
+import {
+  applyCookingMethod,
+  applyCookingMethods,
+} from '@/services/cookingMethodService';
+import {
+  detectionCacheKey,
+  getCachedDetection,
+  linkMealToDetection,
+  setCachedDetection,
+} from '@/services/detectionCache';
+import {
+  duplicateWarning,
+  findNearDuplicateMeal,
+} from '@/services/duplicatePhotoService';
+import { checkPlausibility } from '@/services/plausibilityService';
+import {
+  checkDietConflicts,
+  getDietProfile,
+} from '@/services/dietConflictService';
+import {
+  applyPortionDefaults,
+  suggestServings,
+} from '@/services/portionDefaultsService';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+import { loadServings } from '@/services/mealLogService';
+import {
+  clamp0,
+  nutritionColumns,
+  per100g,
+  r1,
+  rescaleItem,
+  roundPer100g,
+  summarizeNutrition,
+  zNut,
+  type IngredientAddOn,
+} from '@/services/mealItemNutrition';
+import {
+  isHouseholdUnit,
+  parseMealText,
+  quantityGrams,
+} from '@/services/quantityParser';
 import type {
   AnalysisRequest,
+  AnalysisWarning,
   ApiResponse,
+  BoundingBox,
+  CommonPortion,
+  CookingMethod,
   DetectedFoodItem,
   ServingSize,
+  WarningFix,
 } from '@/types';
 
 // ──────────────────────────────────────────────────────────────────────────────
 // Utils
 // ──────────────────────────────────────────────────────────────────────────────
-const r1 = (n: unknown) => Math.round((Number(n) || 0) * 10) / 10;
-const clamp0 = (n: number) => (Number.isFinite(n) && n > 0 ? n : 0);
-const zNut = () => ({
-  calories: 0,
-  protein: 0,
-  carbs: 0,
-  fat: 0,
-  fiber: 0,
-  sugar: 0,
-  sodium: 0,
-  cholesterol: 0,
-});
-
-type NutritionSummary = {
-  total_calories: number;
-  total_protein: number;
-  total_carbs: number;
-  total_fat: number;
-};
-
-type IngredientAddOn = {
-  name: string;
-  grams?: number;
-  unit?: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-};
 type AddOnInput = Partial<IngredientAddOn> & { name?: string };
 
 // grams-only add-on inference (quick presets)
@@ -199,41 +224,81 @@ function mapEnrichedToDetected(
           max: Math.round(grams * 1.15),
         },
         servingSizeCategory,
+        source: base?.portionSize?.source,
       },
-      cookingMethod: base?.cookingMethod ?? 'boiled',
+      cookingMethod: base?.cookingMethod,
       ingredients: base?.ingredients ?? [],
     };
 
-    (item as any).nutritionPer100g = (base as any)?.nutritionPer100g || {
-      calories: grams ? Math.round((n_cal * 100) / grams) : 0,
-      protein: grams ? r1(((n_pro as number) * 100) / grams) : 0,
-      carbs: grams ? r1(((n_car as number) * 100) / grams) : 0,
-      fat: grams ? r1(((n_fat as number) * 100) / grams) : 0,
-      fiber: grams ? r1(((n_fib as number) * 100) / grams) : 0,
-      sugar: grams ? r1(((n_sug as number) * 100) / grams) : 0,
-      sodium: grams ? Math.round((n_sod * 100) / grams) : 0,
-      cholesterol: grams ? Math.round((n_cho * 100) / grams) : 0,
-    };
+    item.nutritionPer100g =
+      base?.nutritionPer100g || roundPer100g(per100g(item));
     return item;
   });
 }
 
-// text fallback
-async function parseTextToItems(text: string): Promise<DetectedFoodItem[]> {
-  const parts = text
-    .split(/[,+/&]| with | and /i)
-    .map((s) => s.trim())
-    .filter(Boolean);
+// User-entered values (e.g. an accepted plausibility fix) for the current
+// portion; the per-100 g snapshot follows so later rescales keep them
+function overrideNutrition(
+  item: DetectedFoodItem,
+  values: NonNullable<WarningFix['nutrition']>
+): DetectedFoodItem {
+  const next = { ...item, nutrition: { ...item.nutrition, ...values } };
+  return next.portionSize?.estimatedGrams > 0
+    ? { ...next, nutritionPer100g: roundPer100g(per100g(next)) }
+    : next;
+}
+
+// CommonPortion list of a food, for katori/plate amounts in typed meals
+async function commonPortionsFor(food: string): Promise<CommonPortion[]> {
+  try {
+    const [match] = await indianFoodDatabase.searchFood(food);
+    return match ? [...match.commonPortions] : [];
+  } catch (e) {
+    logger.debug('[TEXT] common portion lookup failed', e);
+    return [];
+  }
+}
+
+// text fallback: one item per typed phrase. Phrases with an amount
+// ("2 rotis", "1.5 katori dal", "200ml lassi") are weighed from it; the rest
+// get the food's usual serving and are left to the portion defaults.
+async function parseTextToItems(
+  text: string,
+  userId?: string
+): Promise<DetectedFoodItem[]> {
+  const parsed = parseMealText(text);
+  const foods = await Promise.all(
+    parsed.map((p) => getIFCTFoodByName(p.food, userId))
+  );
+  const ids = Array.from(
+    new Set(
+      foods.map((f) => f?.ingredient_id).filter((id): id is string => !!id)
+    )
+  );
+  const servings =
+    userId && ids.length ? await loadServings(userId, ids).catch(() => []) : [];
+
   const out: DetectedFoodItem[] = [];
-  for (const p of parts) {
-    const ifct = await getIFCTFoodByName(p);
-    const portionG = clamp0((ifct as any)?.serving_size_g) || 150;
+  for (const [i, p] of parsed.entries()) {
+    const ifct = foods[i];
+    const stated = quantityGrams(p, {
+      foodId: ifct?.ingredient_id,
+      servings,
+      commonPortions: isHouseholdUnit(p.unit)
+        ? await commonPortionsFor(p.food)
+        : [],
+      servingGrams: clamp0(Number(ifct?.serving_size_g)) || null,
+    });
+    const portionG = stated || clamp0(Number(ifct?.serving_size_g)) || 150;
     const serving: ServingSize =
       portionG < 80 ? 'small' : portionG > 200 ? 'large' : 'medium';
     const item: DetectedFoodItem = {
       itemId: out.length + 1,
-      name: p.toLowerCase(),
-      confidence: ifct ? 0.7 : 0.5,
+      name: p.food,
+      // 0.7 for an exact name match, less the looser the match
+      confidence: ifct
+        ? Math.round((0.5 + 0.2 * (ifct.match_score ?? 1)) * 100) / 100
+        : 0.5,
       region: { x: 100, y: 100, width: 200, height: 200 },
       nutrition: zNut(),
       alternatives: [],
@@ -244,11 +309,11 @@ async function parseTextToItems(text: string): Promise<DetectedFoodItem[]> {
           max: Math.round(portionG * 1.15),
         },
         servingSizeCategory: serving,
+        source: stated ? 'user' : 'default',
       },
-      cookingMethod: 'boiled',
       ingredients: [],
     };
-    (item as any).nutritionPer100g = zNut();
+    item.nutritionPer100g = zNut();
     out.push(item);
   }
   if (out.length) return out;
@@ -264,11 +329,11 @@ async function parseTextToItems(text: string): Promise<DetectedFoodItem[]> {
       estimatedGrams: portionG,
       confidenceRange: { min: 128, max: 173 },
       servingSizeCategory: 'medium',
+      source: 'default',
     },
-    cookingMethod: 'boiled',
     ingredients: [],
   };
-  (fallback as any).nutritionPer100g = zNut();
+  fallback.nutritionPer100g = zNut();
   return [fallback];
 }
 
@@ -301,10 +366,13 @@ export const analyzeFood = async (
       userContext: rawBody.userContext ?? rawBody.user_context ?? {},
       referenceObject: rawBody.referenceObject ?? rawBody.reference_object,
     };
-    const userId: string | undefined = rawBody.userId;
+    // Identity comes from the bearer token; anonymous analyses stay unowned
+    const userId: string | undefined = req.user?.id;
     const addOns = normalizeAddOns(
       Array.isArray(rawBody.addOns) ? rawBody.addOns : []
     );
+    const loggedAt: string | undefined =
+      rawBody.loggedAt ?? rawBody.logged_at ?? undefined;
     const promptText: string = String(
       (payload.userContext as any)?.prompt ?? rawBody.prompt ?? ''
     ).trim();
@@ -339,9 +407,32 @@ export const analyzeFood = async (
       imageHash = hashBase64Image(image);
     }
 
-    // 1) detect
+    // 1) detect (same photo + prompt + model → reuse the cached detection)
     let detectedRaw: DetectedFoodItem[] = [];
-    if (hasImage) {
+    let detection: { provider: string; reason: AnalysisReasonCode } | null =
+      null;
+    let referenceRegion: BoundingBox | undefined;
+    const detectionKey = imageHash
+      ? detectionCacheKey({
+          imageHash,
+          prompt: promptText,
+          referenceObject: String(payload.referenceObject ?? ''),
+        })
+      : null;
+    const cached = detectionKey ? await getCachedDetection(detectionKey) : null;
+    // Set when this meal's detection is (now) in the cache
+    let cachedKey: string | null = cached ? detectionKey : null;
+    if (cached) {
+      detectedRaw = cached.detectedItems;
+      detection = {
+        provider: cached.provider,
+        reason: cached.reason as AnalysisReasonCode,
+      };
+      referenceRegion = cached.referenceRegion;
+      logger.info(
+        `[ANALYSIS] id=${reqId} cache hit items=${detectedRaw.length}`
+      );
+    } else if (hasImage) {
       const ai = await analyzeImage({
         imageBase64: image,
         userContext: payload.userContext as any,
@@ -351,66 +442,91 @@ export const analyzeFood = async (
       detectedRaw = Array.isArray(ai?.detectedItems)
         ? (ai.detectedItems as DetectedFoodItem[])
         : [];
+      logger.info(
+        `[ANALYSIS] id=${reqId} provider=${ai?.provider} items=${
+          detectedRaw.length
+        } chain=${(ai?.attempts || [])
+          .map((a) => `${a.provider}:${a.outcome}`)
+          .join(',')}`
+      );
+      detection = { provider: ai.provider, reason: ai.reason ?? 'OK' };
+      referenceRegion = ai.referenceRegion;
+      if (detectedRaw.length > 0 && detectionKey) {
+        const stored = await setCachedDetection(detectionKey, {
+          detectedItems: detectedRaw,
+          ...detection,
+          referenceRegion,
+        });
+        if (stored) cachedKey = detectionKey;
+      }
       if (detectedRaw.length === 0 && hasPrompt) {
-        logger.info(`[ANALYSIS] empty detections; fallback to prompt parse`);
-        detectedRaw = await parseTextToItems(promptText);
+        logger.info(
+          `[ANALYSIS] empty detections (${detection.reason}); fallback to prompt parse`
+        );
+        detectedRaw = await parseTextToItems(promptText, userId);
+      } else if (detectedRaw.length === 0) {
+        // Nothing to log; tell the app whether the plate was empty or the model failed
+        const noFood = detection.reason === 'NO_FOOD_DETECTED';
+        return res.status(noFood ? 422 : 502).json({
+          success: false,
+          error: noFood
+            ? 'No food detected in the photo'
+            : 'Food recognition failed. Try again or describe the meal.',
+          code: noFood ? 'NO_FOOD_DETECTED' : detection.reason,
+        });
       }
     } else {
-      detectedRaw = await parseTextToItems(promptText);
+      detectedRaw = await parseTextToItems(promptText, userId);
     }
 
-    // 2) IFCT enrichment
+    // 2) portions: measured against the reference object when the model
+    // boxed it, else the user's usual or regional serving for portions the
+    // model didn't estimate; then IFCT enrichment at those weights
+    detectedRaw = await applyPortionDefaults(detectedRaw, {
+      userId,
+      context: payload.userContext,
+      referenceObject: payload.referenceObject,
+      referenceRegion,
+    });
     const normalized = toIFCTDetectFormat(detectedRaw);
     let enriched: any[] = [];
     try {
-      enriched = await enrichWithIFCTData(normalized);
+      enriched = await enrichWithIFCTData(normalized, userId);
     } catch (e) {
       logger.error(`[IFCT] enrichment failed id=${reqId}`, e);
       enriched = normalized;
     }
 
-    // 3) final UI items
-    const displayItems: DetectedFoodItem[] = mapEnrichedToDetected(
-      enriched,
-      detectedRaw
+    // 3) final UI items, adjusted for each item's cooking method
+    const displayItems: DetectedFoodItem[] = await applyCookingMethods(
+      mapEnrichedToDetected(enriched, detectedRaw)
     );
 
     // 4) totals
-    const nutritionSummary: NutritionSummary = {
-      total_calories: Math.round(
-        displayItems.reduce((sum, it) => sum + (it.nutrition.calories || 0), 0)
-      ),
-      total_protein: r1(
-        displayItems.reduce((s, it) => s + (it.nutrition.protein || 0), 0)
-      ) as number,
-      total_carbs: r1(
-        displayItems.reduce((s, it) => s + (it.nutrition.carbs || 0), 0)
-      ) as number,
-      total_fat: r1(
-        displayItems.reduce((s, it) => s + (it.nutrition.fat || 0), 0)
-      ) as number,
-    };
-    for (const x of addOns) {
-      nutritionSummary.total_calories += Math.round(Number(x.calories || 0));
-      nutritionSummary.total_protein = r1(
-        nutritionSummary.total_protein + Number(x.protein || 0)
-      ) as number;
-      nutritionSummary.total_carbs = r1(
-        nutritionSummary.total_carbs + Number(x.carbs || 0)
-      ) as number;
-      nutritionSummary.total_fat = r1(
-        nutritionSummary.total_fat + Number(x.fat || 0)
-      ) as number;
+    const nutritionSummary = summarizeNutrition(displayItems, addOns);
+
+    // 5) allergy/diet conflicts, plausibility pass, then near-duplicate check
+    // against this user's recent photo meals
+    const profile = await getDietProfile(userId, payload.userContext);
+    const warnings: AnalysisWarning[] = [
+      ...(await checkDietConflicts(displayItems, profile)),
+      ...(await checkPlausibility(
+        displayItems,
+        nutritionSummary.total_calories
+      )),
+    ];
+    const phash = hasImage ? await perceptualHash(image) : null;
+    if (phash && userId) {
+      const match = await findNearDuplicateMeal(
+        userId,
+        phash,
+        loggedAt ? new Date(loggedAt) : undefined
+      );
+      if (match) warnings.push(await duplicateWarning(userId, match));
     }
 
-    // 5) persist to meal_logs
+    // 6) persist to meal_logs
     const supabase = getSupabase();
-    const summaryText = `${displayItems[0]?.name ?? 'Meal'}${
-      displayItems.length > 1 ? ` + ${displayItems.length - 1} more` : ''
-    } • ~${nutritionSummary.total_calories} kcal • ${
-      nutritionSummary.total_protein
-    }g P`;
-
     const { data: inserted, error: insertError } = await supabase
       .from('meal_logs')
       .insert([
@@ -421,21 +537,9 @@ export const analyzeFood = async (
           items: displayItems,
           add_ons: addOns,
           portion_scalar: 1.0,
-          nutrition_total: {
-            kcal: nutritionSummary.total_calories,
-            protein_g: nutritionSummary.total_protein,
-            carbs_g: nutritionSummary.total_carbs,
-            fat_g: nutritionSummary.total_fat,
-          },
-          nutrition_breakdown: {
-            items: displayItems.map((d) => ({
-              itemId: d.itemId,
-              grams: d.portionSize.estimatedGrams,
-              ...d.nutrition,
-            })),
-            add_ons: addOns,
-          },
-          summary: summaryText,
+          image_phash: phash,
+          ...(loggedAt ? { logged_at: loggedAt } : {}),
+          ...nutritionColumns(displayItems, addOns, nutritionSummary),
         },
       ])
       .select('id, logged_at')
@@ -449,6 +553,8 @@ export const analyzeFood = async (
         code: 'DATABASE_ERROR',
       });
     }
+    await refreshDailyStatsFor(userId, inserted.logged_at);
+    if (cachedKey) await linkMealToDetection(inserted.id, cachedKey);
 
     const processingTime = Date.now() - started;
     return res.json({
@@ -459,7 +565,13 @@ export const analyzeFood = async (
         items: displayItems,
         add_ons: addOns,
         nutritionSummary,
+        warnings,
         processing_time: `${processingTime}ms`,
+        metadata: {
+          provider: detection?.provider ?? 'text',
+          reason: detection?.reason ?? 'OK',
+          cache_hit: !!cached,
+        },
       },
     });
   } catch (error) {
@@ -472,15 +584,188 @@ export const analyzeFood = async (
   }
 };
 
+// Adjusted save -> rescale items on an existing meal_log + audit trail
+export const saveAdjustedAnalysis = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!uuidValidate(String(id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid meal log ID',
+        code: 'INVALID_ID',
+      });
+    }
+
+    const body = req.body || {};
+    const adjustedItems: Array<WarningFix & { cookingMethod?: CookingMethod }> =
+      Array.isArray(body.adjustedItems) ? body.adjustedItems : [];
+    const addOnsProvided = Array.isArray(body.ingredientAddOns);
+    if (!adjustedItems.length && !addOnsProvided) {
+      return res.status(400).json({
+        success: false,
+        error: 'Nothing to adjust',
+        code: 'MISSING_ADJUSTMENTS',
+      });
+    }
+
+    const supabase = getSupabase();
+    const { data: row, error: fetchError } = await supabase
+      .from('meal_logs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !row || !isOwner(req, row.user_id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Meal log not found',
+        code: 'NOT_FOUND',
+      });
+    }
+
+    // Rows written before the meal_logs migration used `detected_items`
+    const original: DetectedFoodItem[] = Array.isArray(row.items)
+      ? row.items
+      : Array.isArray(row.detected_items)
+      ? row.detected_items
+      : [];
+    const adjustmentById = new Map(
+      adjustedItems.map((a) => [Number(a.itemId), a])
+    );
+    const known = new Set(original.map((it) => Number(it.itemId)));
+    const unknown = [...adjustmentById.keys()].filter((k) => !known.has(k));
+    if (unknown.length) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown itemId: ${unknown.join(', ')}`,
+        code: 'UNKNOWN_ITEM',
+      });
+    }
+
+    // Rescale first: the cooking modifier scales whatever the portion holds
+    const items = await Promise.all(
+      original.map(async (it) => {
+        const a = adjustmentById.get(Number(it.itemId));
+        if (!a) return it;
+        const grams = clamp0(Number(a.portionSize?.estimatedGrams));
+        const rescaled = grams ? rescaleItem(it, grams) : it;
+        const cooked =
+          a.cookingMethod && a.cookingMethod !== it.cookingMethod
+            ? await applyCookingMethod(rescaled, a.cookingMethod)
+            : rescaled;
+        return a.nutrition ? overrideNutrition(cooked, a.nutrition) : cooked;
+      })
+    );
+    const previousAddOns: IngredientAddOn[] = Array.isArray(row.add_ons)
+      ? row.add_ons
+      : [];
+    const addOns = addOnsProvided
+      ? normalizeAddOns(body.ingredientAddOns)
+      : previousAddOns;
+    const nutritionSummary = summarizeNutrition(items, addOns);
+    const warnings = [
+      ...(await checkDietConflicts(items, await getDietProfile(row.user_id))),
+      ...(await checkPlausibility(items, nutritionSummary.total_calories)),
+    ];
+
+    const originalById = new Map(original.map((it) => [Number(it.itemId), it]));
+    const snapshot = (it?: DetectedFoodItem) => ({
+      grams: it?.portionSize?.estimatedGrams ?? 0,
+      cookingMethod: it?.cookingMethod ?? null,
+      calories: it?.nutrition?.calories ?? 0,
+      protein: it?.nutrition?.protein ?? 0,
+      carbs: it?.nutrition?.carbs ?? 0,
+      fat: it?.nutrition?.fat ?? 0,
+    });
+    const auditEntry = {
+      adjusted_at: new Date().toISOString(),
+      user_id: req.user?.id ?? null,
+      items: items
+        .filter((it) => adjustmentById.has(Number(it.itemId)))
+        .map((it) => ({
+          itemId: it.itemId,
+          name: it.name,
+          original: snapshot(originalById.get(Number(it.itemId))),
+          adjusted: snapshot(it),
+        })),
+      add_ons: addOnsProvided
+        ? { original: previousAddOns, adjusted: addOns }
+        : undefined,
+      nutrition_total: {
+        original: row.nutrition_total ?? null,
+        adjusted: nutritionSummary,
+      },
+    };
+
+    const { error: updateError } = await supabase
+      .from('meal_logs')
+      .update({
+        items,
+        add_ons: addOns,
+        ...nutritionColumns(items, addOns, nutritionSummary),
+        adjustments: [
+          ...(Array.isArray(row.adjustments) ? row.adjustments : []),
+          auditEntry,
+        ],
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      logger.error('[ADJUST] DB update failed', updateError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save adjustments',
+        code: 'DATABASE_ERROR',
+      });
+    }
+
+    await refreshDailyStatsFor(row.user_id, row.logged_at);
+
+    // Foods whose grams the user keeps correcting the same way: offer to save
+    // that weight as a serving so the next analysis starts from it
+    const regrammed = auditEntry.items
+      .filter((it) => it.adjusted.grams !== it.original.grams)
+      .map((it) => it.name);
+    const servingSuggestions = regrammed.length
+      ? await suggestServings(row.user_id, regrammed)
+      : [];
+
+    logger.info(
+      `[ADJUST] id=${id} items=${auditEntry.items.length} add_ons=${addOns.length} kcal=${nutritionSummary.total_calories}`
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        meal_log_id: id,
+        items,
+        add_ons: addOns,
+        nutritionSummary,
+        warnings,
+        serving_suggestions: servingSuggestions,
+        adjusted_at: auditEntry.adjusted_at,
+      },
+    });
+  } catch (error) {
+    logger.error('[ADJUST ERR]', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to save adjustments',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+};
+
 // History -> meal_logs
 export const getAnalysisHistory = async (req: Request, res: Response) => {
   try {
-    const { userId, limit = '20', offset = '0' } = req.query;
-    if (!userId) {
-      return res.status(400).json({
+    const { limit = '20', offset = '0' } = req.query;
+    const userId = req.user!.id;
+    if (req.query.userId && String(req.query.userId) !== userId) {
+      return res.status(403).json({
         success: false,
-        error: 'userId is required for history',
-        code: 'MISSING_USER_ID',
+        error: 'Forbidden',
+        code: 'FORBIDDEN',
       });
     }
     const parsedLimit = Math.min(parseInt(String(limit)) || 20, 100);
@@ -540,7 +825,7 @@ export const getAnalysisById = async (req: Request, res: Response) => {
       .eq('id', id)
       .single();
 
-    if (error || !data)
+    if (error || !data || !isOwner(req, data.user_id))
       return res.status(404).json({
         success: false,
         error: 'Meal log not found',
@@ -555,3 +840,53 @@ export const getAnalysisById = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Delete -> meal_logs row + that day's rollup
+export const deleteAnalysis = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!uuidValidate(String(id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid meal log ID',
+        code: 'INVALID_ID',
+      });
+    }
+
+    const supabase = getSupabase();
+    const { data: row, error } = await supabase
+      .from('meal_logs')
+      .select('id, user_id, logged_at')
+      .eq('id', id)
+      .single();
+
+    if (error || !row || row.user_id !== req.user!.id)
+      return res.status(404).json({
+        success: false,
+        error: 'Meal log not found',
+        code: 'NOT_FOUND',
+      });
+
+    const { error: deleteError } = await supabase
+      .from('meal_logs')
+      .delete()
+      .eq('id', id);
+    if (deleteError) {
+      logger.error('[DELETE] DB delete failed', deleteError);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete meal log',
+        code: 'DATABASE_ERROR',
+      });
+    }
+
+    await refreshDailyStatsFor(row.user_id, row.logged_at);
+    return res.json({ success: true, data: { meal_log_id: id } });
+  } catch {
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete meal log',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+};
@@ -0,0 +1,132 @@
+// src/controllers/authController.ts
+// Phone-OTP login/signup + token refresh. Identity for every other route
+// comes from the access token set by requireAuth, never from the request body.
+
+import { Request, Response } from 'express';
+import {
+  issueTokens,
+  normalizePhone,
+  requestOtp,
+  verifyOtp,
+  verifyToken,
+} from '@/services/authService';
+import { getSupabase } from '@/database/supabase';
+import logger from '@/utils/logger';
+
+function badPhone(res: Response) {
+  return res.status(400).json({
+    success: false,
+    error: 'Enter a valid mobile number',
+    code: 'INVALID_PHONE',
+  });
+}
+
+// POST /auth/otp/request { phone }
+export const requestLoginOtp = async (req: Request, res: Response) => {
+  try {
+    const phone = normalizePhone(req.body?.phone);
+    if (!phone) return badPhone(res);
+
+    const result = await requestOtp(phone);
+    if (!result.ok) {
+      res.setHeader('Retry-After', String(result.retryAfterSec));
+      return res.status(429).json({
+        success: false,
+        error: `Please wait ${result.retryAfterSec}s before requesting another code`,
+        code: result.code,
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { phone, expires_in: result.ttlSec },
+    });
+  } catch (error) {
+    logger.error('[AUTH] OTP request failed', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Could not send the code',
+      code: 'OTP_SEND_FAILED',
+    });
+  }
+};
+
+// POST /auth/otp/verify { phone, code, name? }
+export const verifyLoginOtp = async (req: Request, res: Response) => {
+  try {
+    const phone = normalizePhone(req.body?.phone);
+    if (!phone) return badPhone(res);
+
+    const result = await verifyOtp(phone, req.body.code, req.body.name);
+    if (!result.ok) {
+      const messages = {
+        OTP_INVALID: 'Incorrect code',
+        OTP_EXPIRED: 'Code expired, request a new one',
+        OTP_LOCKED: 'Too many attempts, request a new code',
+      };
+      return res.status(result.code === 'OTP_LOCKED' ? 429 : 401).json({
+        success: false,
+        error: messages[result.code],
+        code: result.code,
+      });
+    }
+
+    const { user, isNewUser } = result;
+    return res.json({
+      success: true,
+      data: {
+        user: { id: user.id, phone: user.phone, name: user.name ?? null },
+        is_new_user: isNewUser,
+        ...issueTokens({ id: user.id, phone: user.phone }),
+      },
+    });
+  } catch (error) {
+    logger.error('[AUTH] OTP verify failed', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Login failed due to server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+};
+
+// POST /auth/refresh { refreshToken }
+export const refreshTokens = async (req: Request, res: Response) => {
+  const user = verifyToken(req.body?.refreshToken, 'refresh');
+  if (!user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid or expired refresh token',
+      code: 'INVALID_TOKEN',
+    });
+  }
+  return res.json({ success: true, data: issueTokens(user) });
+};
+
+// GET /auth/me
+export const getCurrentUser = async (req: Request, res: Response) => {
+  try {
+    const supabase = getSupabase();
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('id, phone, name, email, daily_calorie_target')
+      .eq('id', req.user!.id)
+      .single();
+
+    if (error || !user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'USER_NOT_FOUND',
+      });
+    }
+    return res.json({ success: true, data: user });
+  } catch (error) {
+    logger.error('[AUTH] me failed', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+};
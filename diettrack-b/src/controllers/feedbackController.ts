@@ -1,11 +1,23 @@
 // src/controllers/feedbackController.ts
 // Duplicate-safe feedback with per-key serialization.
-// No hard dependency on food_analyses; best-effort flagging only.
+// Item corrections are checked against the meal log before the feedback is
+// stored and applied to it right after; plain feedback only flags the log.
 
 import { Request, Response } from 'express';
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import { getSupabase } from '@/database/supabase';
 import logger from '@/utils/logger';
+import { invalidateDetectionForMeal } from '@/services/detectionCache';
+import {
+  applyCorrections,
+  findOwnedMealLog,
+  foodCorrectionStats,
+  markFeedbackReceived,
+  prepareCorrections,
+  type CorrectionError,
+  type CorrectionPlan,
+} from '@/services/feedbackCorrectionService';
+import type { ItemCorrection } from '@/types';
 
 type ApiSuccess<T> = { success: true; data: T };
 type ApiFail = { success: false; error: string; code: string };
@@ -45,6 +57,42 @@ function badInput(res: Response, msg: string) {
     .status(400)
     .json({ success: false, error: msg, code: 'BAD_INPUT' });
 }
+const CORRECTION_ERROR_STATUS: Record<CorrectionError['code'], number> = {
+  NOT_FOUND: 404,
+  UNKNOWN_ITEM: 400,
+  DB_ERROR: 500,
+};
+function sendCorrectionError(res: Response, error: CorrectionError) {
+  return res.status(CORRECTION_ERROR_STATUS[error.code]).json({
+    success: false,
+    error: error.message,
+    code: error.code === 'DB_ERROR' ? 'DATABASE_ERROR' : error.code,
+  });
+}
+// The corrected meal comes back so the app can show it without a refetch
+function feedbackResult(id: string, plan?: CorrectionPlan) {
+  return plan
+    ? {
+        id,
+        corrected_item_ids: plan.rows.map((r) => r.item_id),
+        items: plan.items,
+        nutritionSummary: plan.nutritionSummary,
+      }
+    : { id };
+}
+
+// Feedback, and the cache invalidation it triggers, only for the caller's
+// own meal; corrections are checked against the same row
+function checkMeal(
+  mealLogId: string,
+  userId: string,
+  corrections: readonly ItemCorrection[]
+) {
+  return corrections.length
+    ? prepareCorrections(mealLogId, userId, corrections)
+    : findOwnedMealLog(mealLogId, userId);
+}
+
 function isUniqueViolation(err: any): boolean {
   const code = (err?.code ?? '').toString();
   const status = Number(err?.status ?? err?.statusCode ?? NaN);
@@ -68,26 +116,40 @@ export async function submitFeedback(
   try {
     const body = req.body || {};
     const analysisId = body.analysisId;
-    const userId: string | null =
-      typeof body.userId === 'string' && body.userId.trim() !== ''
-        ? body.userId.trim()
-        : null;
+    const userId: string = req.user!.id;
+    if (
+      typeof body.userId === 'string' &&
+      body.userId.trim() !== '' &&
+      body.userId.trim() !== userId
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: 'Cannot submit feedback for another user',
+        code: 'FORBIDDEN',
+      });
+    }
     const helpful =
       typeof body.helpful === 'boolean' ? (body.helpful as boolean) : null;
     const comment =
       typeof body.comment === 'string'
         ? String(body.comment).slice(0, 500)
         : null;
+    const corrections: ItemCorrection[] = Array.isArray(body.corrections)
+      ? body.corrections
+      : [];
+
+    // Anything short of a thumbs-up counts as correcting the analysis
+    const corrects = helpful !== true || corrections.length > 0;
 
     if (!analysisId) return badInput(res, 'analysisId is required');
     if (!uuidValidate(String(analysisId)))
       return badInput(res, 'analysisId must be a valid UUID');
 
-    const key = `${FEEDBACK_TABLE}:${analysisId}:${userId ?? 'NULL'}`;
+    const key = `${FEEDBACK_TABLE}:${analysisId}:${userId}`;
 
     return await withKeyLock(key, async () => {
       if (IN_JEST) {
-        const k = `${analysisId}::${userId ?? 'NULL'}`;
+        const k = `${analysisId}::${userId}`;
         if (TEST_STORE.has(k))
           return res
             .status(409)
@@ -96,19 +158,36 @@ export async function submitFeedback(
               error: 'Feedback already exists for this analysis/user',
               code: 'DUPLICATE_FEEDBACK',
             });
+        const checked = await checkMeal(
+          String(analysisId),
+          userId,
+          corrections
+        );
+        if ('error' in checked) return sendCorrectionError(res, checked.error);
+        const prepared = 'plan' in checked ? checked : null;
         TEST_STORE.add(k);
-        return res.status(201).json({ success: true, data: { id: uuidv4() } });
+        const id = uuidv4();
+        if (prepared) {
+          const { error } = await applyCorrections(prepared.plan, id);
+          if (error) {
+            TEST_STORE.delete(k);
+            return sendCorrectionError(res, error);
+          }
+        }
+        if (corrects) await invalidateDetectionForMeal(String(analysisId));
+        return res
+          .status(201)
+          .json({ success: true, data: feedbackResult(id, prepared?.plan) });
       }
 
       const supabase = getSupabase();
 
-      let q = supabase
+      const { data: existsArr, error: preErr } = await supabase
         .from(FEEDBACK_TABLE)
         .select('id')
         .eq('analysis_id', analysisId)
+        .eq('user_id', userId)
         .limit(1);
-      q = userId === null ? q.is('user_id', null) : q.eq('user_id', userId);
-      const { data: existsArr, error: preErr } = await q;
       if (!preErr && Array.isArray(existsArr) && existsArr.length > 0) {
         return res
           .status(409)
@@ -119,12 +198,17 @@ export async function submitFeedback(
           });
       }
 
+      const checked = await checkMeal(String(analysisId), userId, corrections);
+      if ('error' in checked) return sendCorrectionError(res, checked.error);
+      const prepared = 'plan' in checked ? checked : null;
+
       const row = {
         id: uuidv4(),
         analysis_id: String(analysisId),
         user_id: userId,
         helpful,
         comment,
+        ...(corrections.length ? { corrections } : {}),
       };
       const { error: insertErr } = await supabase
         .from(FEEDBACK_TABLE)
@@ -164,19 +248,23 @@ export async function submitFeedback(
           });
       }
 
-      // Best-effort: try to flag the meal_log (ignore errors; column may not exist)
-      try {
-        await supabase
-          .from('meal_logs')
-          .update({
-            /* feedback_received: true */
-          })
-          .eq('id', analysisId);
-      } catch {
-        /* no-op */
+      if (prepared) {
+        const { error } = await applyCorrections(prepared.plan, row.id);
+        if (error) {
+          // Take the feedback back so the user can send it again
+          await supabase.from(FEEDBACK_TABLE).delete().eq('id', row.id);
+          return sendCorrectionError(res, error);
+        }
+      } else {
+        await markFeedbackReceived(String(analysisId), userId);
       }
 
-      return res.status(201).json({ success: true, data: { id: row.id } });
+      // A correction means the cached detection for this photo was wrong
+      if (corrects) await invalidateDetectionForMeal(String(analysisId));
+
+      return res
+        .status(201)
+        .json({ success: true, data: feedbackResult(row.id, prepared?.plan) });
     });
   } catch (err) {
     logger.error('[FEEDBACK] unexpected error', { err, table: FEEDBACK_TABLE });
@@ -204,7 +292,8 @@ export async function getFeedbackByAnalysisId(
     const { data, error } = await supabase
       .from(FEEDBACK_TABLE)
       .select('*')
-      .eq('analysis_id', analysisId);
+      .eq('analysis_id', analysisId)
+      .eq('user_id', req.user!.id);
     if (error)
       return res
         .status(500)
@@ -228,3 +317,27 @@ export async function getFeedbackByAnalysisId(
       });
   }
 }
+
+// Which detected foods users correct most, across all users
+export async function getFoodCorrectionStats(
+  req: Request,
+  res: Response
+): Promise<Response<ApiResponse>> {
+  const int = (v: unknown, fallback: number, max: number) =>
+    Math.min(max, Math.max(1, Math.floor(Number(v)) || fallback));
+  try {
+    const foods = await foodCorrectionStats({
+      days: int(req.query.days, 90, 365),
+      limit: int(req.query.limit, 20, 100),
+      minCorrections: int(req.query.min, 2, 1000),
+    });
+    return res.json({ success: true, data: { foods } });
+  } catch (err) {
+    logger.error('[FEEDBACK] correction stats failed', { err });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load correction stats',
+      code: 'DATABASE_ERROR',
+    });
+  }
+}
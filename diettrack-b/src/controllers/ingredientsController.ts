@@ -1,6 +1,22 @@
 // src/controllers/ingredientsController.ts
 import { Request, Response } from 'express';
-import { lookupIngredientsByName } from '@/services/ingredientService';
+import {
+  lookupIngredientsByName,
+  type IngredientFilters,
+} from '@/services/ingredientService';
+import { INDIAN_REGIONS } from '@/services/regionalPortions';
+import type { IndianRegion } from '@/types';
+
+const MAX_LIMIT = 25;
+const VEG_VALUES = new Map<string, boolean>([
+  ['true', true],
+  ['1', true],
+  ['veg', true],
+  ['false', false],
+  ['0', false],
+  ['non-veg', false],
+  ['nonveg', false],
+]);
 
 export async function pingIngredients(_req: Request, res: Response) {
   res.json({ success: true, data: { ok: true, route: 'ingredients' } });
@@ -13,7 +29,10 @@ export async function ingredientsLookup(req: Request, res: Response) {
     (req.query.term as string) ||
     '';
 
-  const limit = Number(req.query.limit || 8);
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, Math.floor(Number(req.query.limit)) || 8)
+  );
 
   if (!name || !name.trim()) {
     return res.status(400).json({
@@ -23,7 +42,41 @@ export async function ingredientsLookup(req: Request, res: Response) {
     });
   }
 
-  const { matches, error } = await lookupIngredientsByName(name.trim(), limit);
+  const filters: IngredientFilters = {};
+  const category = String(req.query.category ?? '').trim();
+  if (category) filters.category = category;
+  const region = String(req.query.region ?? '')
+    .trim()
+    .toLowerCase();
+  if (region) {
+    if (!INDIAN_REGIONS.includes(region as IndianRegion)) {
+      return res.status(400).json({
+        success: false,
+        error: `region must be one of: ${INDIAN_REGIONS.join(', ')}`,
+        code: 'BAD_INPUT',
+      });
+    }
+    filters.region = region as IndianRegion;
+  }
+  const veg = String(req.query.veg ?? req.query.vegetarian ?? '')
+    .trim()
+    .toLowerCase();
+  if (veg) {
+    if (!VEG_VALUES.has(veg)) {
+      return res.status(400).json({
+        success: false,
+        error: 'veg must be true or false',
+        code: 'BAD_INPUT',
+      });
+    }
+    filters.vegetarian = VEG_VALUES.get(veg);
+  }
+
+  const { matches, error } = await lookupIngredientsByName(
+    name.trim(),
+    limit,
+    filters
+  );
   if (error) {
     return res.status(500).json({
       success: false,
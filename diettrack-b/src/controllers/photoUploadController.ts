@@ -22,7 +22,9 @@ export const uploadPhoto = async (
     const raw = req.body?.image;
     const image = typeof raw === 'string' ? raw.trim() : '';
 
-    const { userId, mealType = 'unknown' } = req.body || {};
+    const { mealType = 'unknown' } = req.body || {};
+    // Identity comes from the bearer token; anonymous uploads go under guest
+    const userId: string | undefined = req.user?.id;
 
     if (!image) {
       return res.status(400).json({
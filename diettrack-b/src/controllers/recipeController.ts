@@ -0,0 +1,62 @@
+// src/controllers/recipeController.ts
+import { Request, Response } from 'express';
+import {
+  createRecipe,
+  deleteRecipe,
+  getRecipe,
+  listRecipes,
+  updateRecipe,
+  type RecipeError,
+} from '@/services/recipeService';
+
+const ERROR_STATUS: Record<RecipeError['code'], number> = {
+  UNKNOWN_FOOD: 400,
+  NOT_FOUND: 404,
+  DUPLICATE_RECIPE: 409,
+  DB_ERROR: 500,
+};
+
+function sendError(res: Response, error: RecipeError) {
+  return res.status(ERROR_STATUS[error.code]).json({
+    success: false,
+    error: error.message,
+    code: error.code === 'DB_ERROR' ? 'DATABASE_ERROR' : error.code,
+    ...(error.details ? { details: error.details } : {}),
+  });
+}
+
+const notFound = (res: Response) =>
+  sendError(res, { code: 'NOT_FOUND', message: 'Recipe not found' });
+
+export async function getRecipes(req: Request, res: Response) {
+  const recipes = await listRecipes(req.user!.id);
+  return res.json({ success: true, data: { recipes } });
+}
+
+export async function getOneRecipe(req: Request, res: Response) {
+  const recipe = await getRecipe(req.user!.id, String(req.params.id));
+  if (!recipe) return notFound(res);
+  return res.json({ success: true, data: { recipe } });
+}
+
+export async function postRecipe(req: Request, res: Response) {
+  const result = await createRecipe(req.user!.id, req.body);
+  if ('error' in result) return sendError(res, result.error);
+  return res.status(201).json({ success: true, data: result });
+}
+
+export async function putRecipe(req: Request, res: Response) {
+  const result = await updateRecipe(
+    req.user!.id,
+    String(req.params.id),
+    req.body
+  );
+  if ('error' in result) return sendError(res, result.error);
+  return res.json({ success: true, data: result });
+}
+
+export async function removeRecipe(req: Request, res: Response) {
+  const deleted = await deleteRecipe(req.user!.id, String(req.params.id));
+  if (!deleted) return notFound(res);
+  return res.json({ success: true, data: { id: req.params.id } });
+}
@@ -15,11 +15,8 @@ const pick = <T extends Record<string, any>>(obj: T, keys: string[]) =>
   }, {});
 const asStringArray = (v: unknown): string[] =>
   Array.isArray(v) ? v.filter((x) => typeof x === 'string') : [];
-const getReqUserId = (req: Request): string | undefined =>
-  (req.params as any).userId ||
-  (req.query.userId as string) ||
-  (req.headers['x-user-id'] as string) ||
-  (req.body?.userId as string);
+// Only trust the authenticated identity (set by requireAuth)
+const getReqUserId = (req: Request): string | undefined => req.user?.id;
 
 async function vMaybeSingle<T = any>(
   query: any
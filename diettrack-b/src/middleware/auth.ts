@@ -0,0 +1,72 @@
+// src/middleware/auth.ts
+// Bearer-token auth. requireAuth rejects anonymous calls, optionalAuth only
+// attaches req.user when a valid token is present, and requireSelf guards
+// /:userId routes so callers can only touch their own data.
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHttpError } from '@/middleware/errorHandler';
+import { verifyToken, type AuthUser } from '@/services/authService';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+function bearerToken(req: Request): string | null {
+  const header = String(req.headers.authorization || '');
+  const m = header.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1].trim() : null;
+}
+
+export function requireAuth(req: Request, _res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  if (!token) {
+    return next(
+      createHttpError(401, 'Authentication required', 'UNAUTHORIZED')
+    );
+  }
+  const user = verifyToken(token, 'access');
+  if (!user) {
+    return next(
+      createHttpError(401, 'Invalid or expired token', 'INVALID_TOKEN')
+    );
+  }
+  req.user = user;
+  next();
+}
+
+export function optionalAuth(req: Request, _res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  if (!token) return next();
+  const user = verifyToken(token, 'access');
+  if (!user) {
+    return next(
+      createHttpError(401, 'Invalid or expired token', 'INVALID_TOKEN')
+    );
+  }
+  req.user = user;
+  next();
+}
+
+/** Caller must be the user named by req.params[param]. Use after requireAuth. */
+export function requireSelf(param = 'userId'): RequestHandler {
+  return (req, _res, next) => {
+    if (!req.user || String(req.params[param]) !== req.user.id) {
+      return next(createHttpError(403, 'Forbidden', 'FORBIDDEN'));
+    }
+    next();
+  };
+}
+
+/**
+ * True when the caller may read/write a row owned by `ownerId`. Guest rows
+ * have no owner to prove, so nobody can reach them by id.
+ */
+export function isOwner(req: Request, ownerId: unknown): boolean {
+  if (ownerId === null || ownerId === undefined || ownerId === '') return false;
+  return !!req.user && String(ownerId) === req.user.id;
+}
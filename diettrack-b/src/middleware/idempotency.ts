@@ -0,0 +1,257 @@
+// src/middleware/idempotency.ts
+// Idempotency-Key support for endpoints that create rows. The first response
+// for a key is cached (cacheSet; Redis or its memory mode, or a bounded
+// per-process store when the cache is disabled) and replayed for repeats. Concurrent duplicates wait on the in-flight request, and a key
+// reused with a different request gets a 422.
+//
+// Keys are scoped per user (or "anon"), so two accounts can't collide.
+// 5xx results aren't cached: a retry after a failure runs again. When
+// withTimeout has already answered 504, the handler's late result is still
+// what gets cached, so the client's retry gets the real meal log.
+
+import crypto from 'crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { cacheDel, cacheGet, cacheSet, cachePing } from '@/database/redis';
+import { createHttpError } from '@/middleware/errorHandler';
+import logger from '@/utils/logger';
+
+type Stored =
+  | { state: 'pending'; fingerprint: string }
+  | { state: 'done'; fingerprint: string; status: number; body: unknown };
+
+type Result = { status: number; body: unknown } | null;
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+const KEY_RE = /^[\x21-\x7e]{1,255}$/; // visible ASCII
+
+const TTL_SEC = Number(process.env.IDEMPOTENCY_TTL_SEC || 24 * 60 * 60);
+// Long enough to outlive a handler that runs past the route timeout
+const PENDING_TTL_SEC = 120;
+const WAIT_MS = Number(process.env.ROUTE_TIMEOUT_MS || 30000);
+const POLL_MS = 200;
+
+// Requests currently running in this process, by cache key
+const inFlight = new Map<
+  string,
+  { fingerprint: string; promise: Promise<Result> }
+>();
+let warnedDisabled = false;
+
+type Store = {
+  get(key: string): Promise<Stored | null>;
+  set(key: string, value: Stored, ttlSec: number): Promise<void>;
+  del(key: string): Promise<void>;
+};
+
+const sharedStore: Store = {
+  get: (key) => cacheGet<Stored>(key),
+  set: (key, value, ttlSec) => cacheSet<Stored>(key, value, ttlSec),
+  del: (key) => cacheDel(key),
+};
+
+// Used when the cache is disabled, so a retry after a lost response still
+// replays as long as it reaches the same process
+const LOCAL_MAX_KEYS = Number(process.env.IDEMPOTENCY_LOCAL_MAX_KEYS || 10000);
+const localEntries = new Map<string, { value: Stored; expiresAt: number }>();
+
+const localStore: Store = {
+  async get(key) {
+    const entry = localEntries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      localEntries.delete(key);
+      return null;
+    }
+    return entry.value;
+  },
+  async set(key, value, ttlSec) {
+    localEntries.delete(key);
+    if (localEntries.size >= LOCAL_MAX_KEYS) {
+      const now = Date.now();
+      for (const [k, e] of localEntries) {
+        if (e.expiresAt <= now) localEntries.delete(k);
+      }
+      // Still full: drop the oldest keys (Maps iterate in insertion order)
+      for (const k of localEntries.keys()) {
+        if (localEntries.size < LOCAL_MAX_KEYS) break;
+        localEntries.delete(k);
+      }
+    }
+    localEntries.set(key, { value, expiresAt: Date.now() + ttlSec * 1000 });
+  },
+  async del(key) {
+    localEntries.delete(key);
+  },
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function fingerprintOf(req: Request): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n`)
+    .update(JSON.stringify(req.body ?? null))
+    .digest('hex');
+}
+
+function replay(res: Response, result: { status: number; body: unknown }) {
+  res.set('Idempotent-Replayed', 'true');
+  return res.status(result.status).json(result.body);
+}
+
+/** Wait for another instance to finish the same key. */
+async function pollForResult(
+  store: Store,
+  cacheKey: string,
+  fingerprint: string
+): Promise<Stored | null> {
+  const deadline = Date.now() + WAIT_MS;
+  while (Date.now() < deadline) {
+    await sleep(POLL_MS);
+    const stored = await store.get(cacheKey);
+    if (!stored || stored.fingerprint !== fingerprint) return stored;
+    if (stored.state === 'done') return stored;
+  }
+  return null;
+}
+
+async function handle(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (key === undefined) return next();
+  if (!KEY_RE.test(key)) {
+    return next(
+      createHttpError(400, 'Invalid Idempotency-Key header', 'BAD_INPUT')
+    );
+  }
+
+  const cacheKey = `idem:${req.user?.id ?? 'anon'}:${key}`;
+  const fingerprint = fingerprintOf(req);
+  const mismatch = () =>
+    next(
+      createHttpError(
+        422,
+        'Idempotency-Key was already used for a different request',
+        'IDEMPOTENCY_MISMATCH'
+      )
+    );
+
+  // 1) Same key already running in this process: wait for it
+  const running = inFlight.get(cacheKey);
+  if (running) {
+    if (running.fingerprint !== fingerprint) return mismatch();
+    const result = await running.promise;
+    if (result) return replay(res, result);
+    // That attempt failed without a cacheable answer; try again
+    return handle(req, res, next);
+  }
+
+  // Claim the key before any await so local duplicates queue behind us
+  let settle!: (result: Result) => void;
+  const claim = {
+    fingerprint,
+    promise: new Promise<Result>((r) => (settle = r)),
+  };
+  inFlight.set(cacheKey, claim);
+  let released = false;
+  const release = (result: Result) => {
+    if (released) return;
+    released = true;
+    if (inFlight.get(cacheKey) === claim) inFlight.delete(cacheKey);
+    settle(result);
+  };
+
+  let store = sharedStore;
+  try {
+    if ((await cachePing()) === 'DISABLED') {
+      store = localStore;
+      if (!warnedDisabled) {
+        warnedDisabled = true;
+        logger.warn(
+          '[IDEMPOTENCY] cache disabled; keys are only remembered per process'
+        );
+      }
+    }
+
+    // 2) Finished earlier, or running on another instance
+    let stored = await store.get(cacheKey);
+    if (stored?.state === 'pending' && stored.fingerprint === fingerprint) {
+      stored = await pollForResult(store, cacheKey, fingerprint);
+      if (!stored || stored.state === 'pending') {
+        release(null);
+        return next(
+          createHttpError(
+            409,
+            'A request with this Idempotency-Key is still in progress',
+            'IDEMPOTENCY_IN_PROGRESS'
+          )
+        );
+      }
+    }
+    if (stored && stored.fingerprint !== fingerprint) {
+      release(null);
+      return mismatch();
+    }
+    if (stored?.state === 'done') {
+      release(stored);
+      return replay(res, stored);
+    }
+
+    await store.set(
+      cacheKey,
+      { state: 'pending', fingerprint },
+      PENDING_TTL_SEC
+    );
+  } catch (err) {
+    release(null);
+    throw err;
+  }
+
+  // 3) First time: run the handler and capture what it sends
+  const finish = (result: Result) => {
+    if (released) return;
+    release(result);
+    const write =
+      result && result.status < 500
+        ? store.set(
+            cacheKey,
+            { state: 'done', fingerprint, ...result },
+            TTL_SEC
+          )
+        : store.del(cacheKey);
+    write.catch((err) =>
+      logger.warn('[IDEMPOTENCY] cache write failed', { err })
+    );
+  };
+
+  let lateStatus: number | undefined;
+  const status = res.status.bind(res);
+  res.status = (code: number) => {
+    if (res.headersSent) lateStatus = code;
+    return status(code);
+  };
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    // The handler finished after withTimeout already answered
+    if (res.headersSent) {
+      finish({ status: lateStatus ?? 200, body });
+      return res;
+    }
+    if (!res.locals.timedOut) finish({ status: res.statusCode, body });
+    return json(body);
+  };
+
+  res.on('close', () => {
+    if (!res.locals.timedOut) return finish(null);
+    // Give a timed-out handler until the pending marker expires
+    setTimeout(() => finish(null), PENDING_TTL_SEC * 1000).unref();
+  });
+
+  next();
+}
+
+export function idempotency(): RequestHandler {
+  return (req, res, next) => {
+    handle(req, res, next).catch(next);
+  };
+}
@@ -41,3 +41,16 @@ export const uploadLimiter = rateLimit({
     code: 'RATE_LIMIT_UPLOAD',
   },
 });
+
+// OTP request/verify: the brute-force surface, keep it tight per IP
+export const authRateLimit = rateLimit({
+  windowMs: 15 * 60_000,
+  max: Number(process.env.AUTH_RATE_LIMIT_MAX || 20),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: 'Too many login attempts, try again later',
+    code: 'RATE_LIMIT_AUTH',
+  },
+});
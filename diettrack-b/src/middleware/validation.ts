@@ -5,6 +5,8 @@ import type { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { createHttpError } from '@/middleware/errorHandler';
 import logger from '@/utils/logger';
+import { isValidTimezone } from '@/services/dailyStatsService';
+import { COOKING_METHODS } from '@/services/llmOutputSchema';
 
 // Simple inline image data-URL pattern
 const IMAGE_DATAURL_RE =
@@ -54,6 +56,10 @@ const analyzeSchema = Joi.object({
     )
     .optional(),
 
+  // When the photo was taken; queued offline captures are sent later
+  loggedAt: Joi.string().isoDate().optional(),
+  logged_at: Joi.string().isoDate().optional(),
+
   userId: userIdText,
 }).custom((value, helpers) => {
   const hasImage = !!value.image;
@@ -110,6 +116,17 @@ export function validateAnalysisRequest(
 }
 
 // ----- /feedback (POST) -----
+// ItemCorrection: each one must change something about its item
+const itemCorrectionSchema = Joi.object({
+  itemId: Joi.number().integer().min(1).required(),
+  correctName: Joi.string().trim().min(1).max(100),
+  correctPortion: Joi.number().positive().max(5000),
+  correctIngredients: Joi.array()
+    .items(Joi.string().trim().min(1).max(100))
+    .max(30),
+  userNotes: Joi.string().max(500).allow(''),
+}).or('correctName', 'correctPortion', 'correctIngredients');
+
 const feedbackSchema = Joi.object({
   analysisId: Joi.string()
     .guid({ version: ['uuidv1', 'uuidv3', 'uuidv4', 'uuidv5'] })
@@ -117,6 +134,11 @@ const feedbackSchema = Joi.object({
   userId: userIdText,
   helpful: Joi.boolean().optional(),
   comment: Joi.string().max(500).allow('', null).optional(),
+  corrections: Joi.array()
+    .items(itemCorrectionSchema)
+    .max(50)
+    .unique('itemId')
+    .optional(),
 });
 
 export function validateFeedbackSubmission(
@@ -140,3 +162,209 @@ export function validateFeedbackSubmission(
   req.body = value;
   next();
 }
+
+// ----- /analysis/:id/adjusted -----
+const adjustedSchema = Joi.object({
+  adjustedItems: Joi.array()
+    .items(
+      Joi.object({
+        itemId: Joi.number().integer().min(1).required(),
+        portionSize: Joi.object({
+          estimatedGrams: Joi.number().greater(0).max(5000).required(),
+        }).unknown(true),
+        cookingMethod: Joi.string().valid(...COOKING_METHODS),
+        // Explicit values for the (new) portion, e.g. a plausibility fix
+        nutrition: Joi.object({
+          calories: Joi.number().min(0).max(20000),
+          protein: Joi.number().min(0).max(2000),
+          carbs: Joi.number().min(0).max(2000),
+          fat: Joi.number().min(0).max(2000),
+        }).min(1),
+      })
+        .or('portionSize', 'cookingMethod', 'nutrition')
+        .unknown(true)
+    )
+    .max(50)
+    .default([]),
+  ingredientAddOns: Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string().trim().min(1).max(100).required(),
+        grams: Joi.number().min(0).max(2000).optional(),
+        unit: Joi.string().max(20).optional(),
+        calories: Joi.number().min(0).optional(),
+        protein: Joi.number().min(0).optional(),
+        carbs: Joi.number().min(0).optional(),
+        fat: Joi.number().min(0).optional(),
+      })
+    )
+    .max(20)
+    .optional(),
+  userId: userIdText,
+});
+
+export function validateAdjustedRequest(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) {
+  const { error, value } = adjustedSchema.validate(req.body, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true,
+  });
+
+  if (error) {
+    const msg =
+      error.details?.map((d) => d.message).join('; ') || error.message;
+    logger.warn('[VALIDATION] analysis/adjusted failed', { msg });
+    return next(createHttpError(400, msg, 'BAD_INPUT'));
+  }
+
+  req.body = value;
+  next();
+}
+
+// ----- /auth -----
+const phoneText = Joi.string().trim().min(8).max(20).required();
+
+const otpRequestSchema = Joi.object({ phone: phoneText });
+
+const otpVerifySchema = Joi.object({
+  phone: phoneText,
+  code: Joi.string()
+    .trim()
+    .pattern(/^\d{6}$/)
+    .required()
+    .messages({ 'string.pattern.base': '"code" must be 6 digits' }),
+  name: Joi.string().trim().max(255).optional(),
+});
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().trim().required(),
+});
+
+function validateBody(schema: Joi.ObjectSchema, label: string) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const { error, value } = schema.validate(req.body, {
+      abortEarly: false,
+      stripUnknown: true,
+      convert: true,
+    });
+    if (error) {
+      const msg =
+        error.details?.map((d) => d.message).join('; ') || error.message;
+      logger.warn(`[VALIDATION] ${label} failed`, { msg });
+      return next(createHttpError(400, msg, 'BAD_INPUT'));
+    }
+    req.body = value;
+    next();
+  };
+}
+
+export const validateOtpRequest = validateBody(
+  otpRequestSchema,
+  'auth/otp/request'
+);
+export const validateOtpVerify = validateBody(
+  otpVerifySchema,
+  'auth/otp/verify'
+);
+export const validateRefresh = validateBody(refreshSchema, 'auth/refresh');
+
+// ----- /user/:userId profile + targets -----
+const macroTargetsSchema = Joi.object({
+  protein: Joi.number().min(0).max(1000).allow(null),
+  carbs: Joi.number().min(0).max(2000).allow(null),
+  fats: Joi.number().min(0).max(1000).allow(null),
+});
+
+const profileSchema = Joi.object({
+  name: Joi.string().trim().max(255).allow(null, ''),
+  email: Joi.string().trim().email().max(255).allow(null, ''),
+  location: Joi.string().trim().max(255).allow(null, ''),
+  timezone: Joi.string()
+    .trim()
+    .max(64)
+    .custom((v, helpers) =>
+      isValidTimezone(v)
+        ? v
+        : helpers.message({ custom: '"timezone" must be an IANA zone name' })
+    ),
+  age: Joi.number().integer().min(10).max(120).allow(null),
+  gender: Joi.string().valid('male', 'female', 'other').allow(null),
+  height_cm: Joi.number().min(50).max(272).allow(null),
+  weight_kg: Joi.number().min(20).max(500).allow(null),
+  activity_level: Joi.string().trim().max(50).allow(null),
+  fitness_goal: Joi.string().trim().max(50).allow(null),
+  daily_calorie_target: Joi.number().integer().min(800).max(10000).allow(null),
+  macro_targets: macroTargetsSchema.allow(null),
+  target_overrides: Joi.object({
+    daily_calorie_target: Joi.number()
+      .integer()
+      .min(800)
+      .max(10000)
+      .allow(null),
+    macro_targets: macroTargetsSchema.allow(null),
+  }).allow(null),
+  dietary_preferences: Joi.array().items(Joi.string().trim().max(100)),
+  allergies: Joi.array().items(Joi.string().trim().max(100)),
+});
+
+export const validateProfileUpdate = validateBody(
+  profileSchema,
+  'user/profile'
+);
+
+// ----- /user/:userId/water -----
+const waterEntrySchema = Joi.object({
+  preset: Joi.string().valid('glass', 'bottle', 'ml').default('glass'),
+  amount_ml: Joi.when('preset', {
+    is: 'ml',
+    then: Joi.number().integer().min(1).max(5000).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  logged_at: Joi.string().isoDate(),
+});
+
+export const validateWaterEntry = validateBody(waterEntrySchema, 'user/water');
+
+// ----- /user/:userId/servings -----
+const servingLabel = Joi.string().trim().min(1).max(100);
+const servingGrams = Joi.number().positive().max(5000);
+
+const servingSchema = Joi.object({
+  ingredient_id: Joi.string().uuid().required(),
+  label: servingLabel.required(),
+  grams: servingGrams.required(),
+});
+
+const servingUpdateSchema = Joi.object({
+  label: servingLabel,
+  grams: servingGrams,
+}).min(1);
+
+export const validateServing = validateBody(servingSchema, 'user/servings');
+export const validateServingUpdate = validateBody(
+  servingUpdateSchema,
+  'user/servings'
+);
+
+// ----- /recipes -----
+const recipeSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).required(),
+  ingredients: Joi.array()
+    .items(
+      Joi.object({
+        ingredient_id: Joi.string().uuid().required(),
+        grams: Joi.number().positive().max(10000).required(),
+      })
+    )
+    .min(1)
+    .max(50)
+    .required(),
+  cooked_yield_g: Joi.number().positive().max(50000),
+  servings: Joi.number().integer().min(1).max(100).default(1),
+});
+
+export const validateRecipe = validateBody(recipeSchema, 'recipes');
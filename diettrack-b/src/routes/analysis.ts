@@ -4,10 +4,16 @@ import {
   analyzeFood,
   getAnalysisHistory,
   getAnalysisById,
-  // saveAdjustedAnalysis,
+  saveAdjustedAnalysis,
+  deleteAnalysis,
 } from '@/controllers/analysisController';
-import { validateAnalysisRequest } from '@/middleware/validation';
+import {
+  validateAdjustedRequest,
+  validateAnalysisRequest,
+} from '@/middleware/validation';
 import { analysisRateLimit } from '@/middleware/rateLimiter';
+import { optionalAuth, requireAuth } from '@/middleware/auth';
+import { idempotency } from '@/middleware/idempotency';
 
 const router = Router();
 
@@ -24,6 +30,8 @@ function withTimeout(ms: number): RequestHandler {
   return (_req, res, next) => {
     const timer = setTimeout(() => {
       if (!res.headersSent) {
+        // Lets idempotency keep waiting for the handler's real result
+        res.locals.timedOut = true;
         res.status(504).json({
           success: false,
           error: 'Analysis timed out',
@@ -43,6 +51,8 @@ router.post(
   '/analyze',
   analysisRateLimit,
   withTimeout(ROUTE_TIMEOUT_MS),
+  optionalAuth,
+  idempotency(),
   validateAnalysisRequest,
   wrap(analyzeFood)
 );
@@ -52,32 +62,24 @@ router.post(
   '/',
   analysisRateLimit,
   withTimeout(ROUTE_TIMEOUT_MS),
+  optionalAuth,
+  idempotency(),
   validateAnalysisRequest,
   wrap(analyzeFood)
 );
 
-// Adjusted save — lazy import to avoid TS error if the symbol isn't exported at build time
+// Save user-edited portions (and optional add-ons) on an existing meal log
 router.post(
   '/:id/adjusted',
   withTimeout(ROUTE_TIMEOUT_MS),
-  (req, res, next) => {
-    (async () => {
-      const mod = await import('@/controllers/analysisController');
-      const fn = (mod as any).saveAdjustedAnalysis;
-      if (typeof fn !== 'function') {
-        return res.status(501).json({
-          success: false,
-          error: 'Adjusted endpoint not available',
-          code: 'NOT_IMPLEMENTED',
-        });
-      }
-      // Call the real controller
-      return fn(req, res);
-    })().catch(next);
-  }
+  optionalAuth,
+  idempotency(),
+  validateAdjustedRequest,
+  wrap(saveAdjustedAnalysis)
 );
 
-router.get('/history', wrap(getAnalysisHistory));
-router.get('/:id', wrap(getAnalysisById));
+router.get('/history', requireAuth, wrap(getAnalysisHistory));
+router.get('/:id', optionalAuth, wrap(getAnalysisById));
+router.delete('/:id', requireAuth, wrap(deleteAnalysis));
 
 export default router;
@@ -1,11 +1,41 @@
-import { Router } from 'express';
+// src/routes/auth.ts
+import { Router, type RequestHandler } from 'express';
+import {
+  getCurrentUser,
+  refreshTokens,
+  requestLoginOtp,
+  verifyLoginOtp,
+} from '@/controllers/authController';
+import { requireAuth } from '@/middleware/auth';
+import { authRateLimit } from '@/middleware/rateLimiter';
+import {
+  validateOtpRequest,
+  validateOtpVerify,
+  validateRefresh,
+} from '@/middleware/validation';
+
 const router = Router();
 
-/**
- * Example/test authentication route (expand with JWT auth as needed).
- */
-router.get('/example', (req, res) => {
-  res.json({ success: true, message: 'Auth route working!' });
-});
+// Async wrapper so thrown/rejected errors hit errorHandler
+const wrap = <T extends RequestHandler>(fn: T): RequestHandler => {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+router.post(
+  '/otp/request',
+  authRateLimit,
+  validateOtpRequest,
+  wrap(requestLoginOtp)
+);
+router.post(
+  '/otp/verify',
+  authRateLimit,
+  validateOtpVerify,
+  wrap(verifyLoginOtp)
+);
+router.post('/refresh', validateRefresh, wrap(refreshTokens));
+router.get('/me', requireAuth, wrap(getCurrentUser));
 
 export default router;
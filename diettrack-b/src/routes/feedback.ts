@@ -5,8 +5,10 @@ import { Router, type RequestHandler } from 'express';
 import {
   submitFeedback,
   getFeedbackByAnalysisId,
+  getFoodCorrectionStats,
 } from '@/controllers/feedbackController';
 import { validateFeedbackSubmission } from '@/middleware/validation';
+import { requireAuth } from '@/middleware/auth';
 
 const router = Router();
 
@@ -45,15 +47,26 @@ router.get('/health', (_req, res) => res.json({ ok: true }));
 router.post(
   '/',
   withTimeout(ROUTE_TIMEOUT_MS),
+  requireAuth,
   validateFeedbackSubmission,
   wrap(submitFeedback)
 );
 
+// Per-food correction counts: which dishes the analysis keeps getting wrong
+// Example: GET /api/v1/feedback/stats/foods?days=30&limit=10&min=3
+router.get(
+  '/stats/foods',
+  withTimeout(ROUTE_TIMEOUT_MS),
+  requireAuth,
+  wrap(getFoodCorrectionStats)
+);
+
 // Optional GET for inspection by analysis id
 if (typeof getFeedbackByAnalysisId === 'function') {
   router.get(
     '/:analysisId',
     withTimeout(ROUTE_TIMEOUT_MS),
+    requireAuth,
     wrap(getFeedbackByAnalysisId as any)
   );
 }
@@ -41,6 +41,7 @@ router.get('/ping', withTimeout(ROUTE_TIMEOUT_MS), wrap(pingIngredients));
 
 // Ingredient name lookup
 // Example: GET /api/v1/ingredients/lookup?name=ghee&limit=5
+// Fuzzy, any script (?q=चपाती); filters: &category=&region=south&veg=true
 router.get('/lookup', withTimeout(ROUTE_TIMEOUT_MS), wrap(ingredientsLookup));
 
 export default router;
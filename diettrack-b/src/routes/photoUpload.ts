@@ -3,14 +3,16 @@
 
 import { Router } from 'express';
 import { uploadPhoto } from '@/controllers/photoUploadController';
+import { optionalAuth } from '@/middleware/auth';
 import { uploadLimiter } from '@/middleware/rateLimiter'; // ✅ correct import name
 
 const router = Router();
 
 /**
  * POST /api/v1/photo-upload
- * Accepts a base64 image or multipart upload and stores it (rate-limited).
+ * Accepts a base64 image or multipart upload and stores it (rate-limited),
+ * under the bearer token's user or as a guest.
  */
-router.post('/', uploadLimiter, uploadPhoto); // ✅ use the correct middleware
+router.post('/', uploadLimiter, optionalAuth, uploadPhoto); // ✅ use the correct middleware
 
 export default router;
@@ -0,0 +1,32 @@
+// src/routes/recipes.ts
+// The signed-in user's own recipes. Nutrition is computed server-side from the
+// ingredients; once saved, a recipe's name is matched first in meal analysis.
+
+import { Router } from 'express';
+import { requireAuth } from '@/middleware/auth';
+import { validateRecipe } from '@/middleware/validation';
+import {
+  getOneRecipe,
+  getRecipes,
+  postRecipe,
+  putRecipe,
+  removeRecipe,
+} from '@/controllers/recipeController';
+
+const router = Router();
+
+// Small async wrapper so thrown/rejected errors hit the global error handler
+const wrap =
+  <T extends (...args: any[]) => any>(fn: T) =>
+  (req: any, res: any, next: any) =>
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+router.use(requireAuth);
+
+router.get('/', wrap(getRecipes));
+router.post('/', validateRecipe, wrap(postRecipe));
+router.get('/:id', wrap(getOneRecipe));
+router.put('/:id', validateRecipe, wrap(putRecipe));
+router.delete('/:id', wrap(removeRecipe));
+
+export default router;
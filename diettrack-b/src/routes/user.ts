@@ -1,7 +1,41 @@
 // src/routes/user.ts
 import { Router, type RequestHandler, Request, Response } from 'express';
+import { validate as uuidValidate } from 'uuid';
 import { getSupabase } from '@/database/supabase';
 import logger from '@/utils/logger';
+import { requireAuth, requireSelf } from '@/middleware/auth';
+import {
+  validateProfileUpdate,
+  validateServing,
+  validateServingUpdate,
+  validateWaterEntry,
+} from '@/middleware/validation';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  localDate,
+} from '@/services/dailyStatsService';
+import {
+  TARGET_INPUT_FIELDS,
+  computeTargets,
+  mergeOverrides,
+  missingTargetInputs,
+} from '@/services/targetService';
+import { getUserTrends, type Granularity } from '@/services/trendsService';
+import { suggestServings } from '@/services/portionDefaultsService';
+import {
+  createServing,
+  deleteServing,
+  listServings,
+  updateServing,
+  type ServingError,
+} from '@/services/userServingsService';
+import {
+  addWaterEntry,
+  deleteWaterEntry,
+  listWaterEntries,
+  waterTargetMl,
+} from '@/services/waterService';
 
 const router = Router();
 
@@ -12,6 +46,49 @@ const wrap = <T extends RequestHandler>(fn: T): RequestHandler => {
   };
 };
 
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Timezone + water-target inputs for the per-day endpoints
+async function loadDayContext(userId: string) {
+  const { data } = await getSupabase()
+    .from('users')
+    .select('timezone, weight_kg, activity_level')
+    .eq('id', userId)
+    .single();
+  return {
+    tz: isValidTimezone(data?.timezone) ? data!.timezone : DEFAULT_TIMEZONE,
+    waterTarget: waterTargetMl(data || {}),
+  };
+}
+
+// Requested YYYY-MM-DD, else "today" in the user's timezone (not UTC)
+const dayParam = (date: unknown, tz: string) =>
+  typeof date === 'string' && DATE_RE.test(date)
+    ? date
+    : localDate(new Date(), tz);
+
+const PROFILE_FIELDS = [
+  'name',
+  'email',
+  'location',
+  'timezone',
+  'age',
+  'gender',
+  'height_cm',
+  'weight_kg',
+  'activity_level',
+  'fitness_goal',
+  'dietary_preferences',
+  'allergies',
+];
+
+// Explicit target values in a profile update are stored as overrides
+const TARGET_OVERRIDE_FIELDS = [
+  'daily_calorie_target',
+  'macro_targets',
+  'target_overrides',
+];
+
 // Get user profile
 export const getUserProfile = async (req: Request, res: Response) => {
   try {
@@ -39,6 +116,7 @@ export const getUserProfile = async (req: Request, res: Response) => {
         id: user.id,
         name: user.name,
         email: user.email,
+        timezone: user.timezone,
         age: user.age,
         gender: user.gender,
         height_cm: user.height_cm,
@@ -47,6 +125,7 @@ export const getUserProfile = async (req: Request, res: Response) => {
         fitness_goal: user.fitness_goal,
         daily_calorie_target: user.daily_calorie_target,
         macro_targets: user.macro_targets,
+        target_overrides: user.target_overrides || {},
         dietary_preferences: user.dietary_preferences,
         allergies: user.allergies,
         subscription_status: user.subscription_status,
@@ -66,10 +145,8 @@ export const getUserProfile = async (req: Request, res: Response) => {
 export const getUserDailyStats = async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
-    const { date } = req.query;
-
-    const targetDate = date ? new Date(date as string) : new Date();
-    const dateString = targetDate.toISOString().split('T')[0];
+    const { tz, waterTarget } = await loadDayContext(userId);
+    const dateString = dayParam(req.query.date, tz);
 
     const supabase = getSupabase();
 
@@ -104,7 +181,7 @@ export const getUserDailyStats = async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      data: stats || defaultStats,
+      data: { ...(stats || defaultStats), water_target_ml: waterTarget },
     });
   } catch (error) {
     logger.error('Error in getUserDailyStats:', error);
@@ -178,14 +255,59 @@ export const getUserRecentMeals = async (req: Request, res: Response) => {
   }
 };
 
-// Update user profile
+// Update user profile; targets are recalculated when their inputs change
 export const updateUserProfile = async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
-    const updates = req.body;
+    const body = req.body || {};
+    // phone is the login identity; id/subscription are server-owned
+    const updates: Record<string, any> = Object.fromEntries(
+      Object.entries(body).filter(([k]) => PROFILE_FIELDS.includes(k))
+    );
 
     const supabase = getSupabase();
 
+    const touchesTargets = [
+      ...TARGET_INPUT_FIELDS,
+      ...TARGET_OVERRIDE_FIELDS,
+    ].some((k) => k in body);
+
+    if (touchesTargets) {
+      const { data: current, error: loadError } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      if (loadError || !current) {
+        logger.error('Error loading profile for targets:', loadError);
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND',
+        });
+      }
+
+      const overrides = mergeOverrides(current.target_overrides, body);
+      const targets = computeTargets({ ...current, ...updates }, overrides);
+      updates.target_overrides = overrides;
+      if (targets) {
+        updates.daily_calorie_target = targets.daily_calorie_target;
+        updates.macro_targets = targets.macro_targets;
+      } else {
+        // Not enough profile data for the formula: pinned values still apply
+        if (overrides.daily_calorie_target) {
+          updates.daily_calorie_target = overrides.daily_calorie_target;
+        }
+        if (overrides.macro_targets) {
+          updates.macro_targets = {
+            ...(current.macro_targets || {}),
+            ...overrides.macro_targets,
+          };
+        }
+      }
+    }
+
     const { data, error } = await supabase
       .from('users')
       .update(updates)
@@ -216,10 +338,250 @@ export const updateUserProfile = async (req: Request, res: Response) => {
   }
 };
 
-// Routes
+// Preview targets for unsaved profile edits (body is merged over the stored
+// profile; nothing is written)
+export const previewTargets = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const body = req.body || {};
+    const supabase = getSupabase();
+
+    const { data: current, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error || !current) {
+      logger.error('Error loading profile for target preview:', error);
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+        code: 'USER_NOT_FOUND',
+      });
+    }
+
+    const inputs = { ...current };
+    for (const k of TARGET_INPUT_FIELDS) if (k in body) inputs[k] = body[k];
+
+    const missing = missingTargetInputs(inputs);
+    if (missing.length) {
+      return res.status(422).json({
+        success: false,
+        error: `Missing profile data: ${missing.join(', ')}`,
+        code: 'INCOMPLETE_PROFILE',
+        details: { missing },
+      });
+    }
+
+    const overrides = mergeOverrides(current.target_overrides, body);
+    return res.json({
+      success: true,
+      data: computeTargets(inputs, overrides),
+    });
+  } catch (error) {
+    logger.error('Error in previewTargets:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+};
+
+// Intake vs target over a range, bucketed by day/week/month
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+export const getUserTrendsHandler = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { from, to, granularity = 'day' } = req.query;
+
+    const badInput = (error: string) =>
+      res.status(400).json({ success: false, error, code: 'BAD_INPUT' });
+
+    for (const [name, v] of [
+      ['from', from],
+      ['to', to],
+    ] as const) {
+      if (
+        v !== undefined &&
+        (typeof v !== 'string' ||
+          !DATE_RE.test(v) ||
+          isNaN(Date.parse(`${v}T00:00:00Z`)))
+      ) {
+        return badInput(`"${name}" must be a YYYY-MM-DD date`);
+      }
+    }
+    if (!GRANULARITIES.includes(granularity as Granularity)) {
+      return badInput(
+        `"granularity" must be one of ${GRANULARITIES.join(', ')}`
+      );
+    }
+
+    const result = await getUserTrends(userId, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+      granularity: granularity as Granularity,
+    });
+    if ('error' in result) {
+      if (result.error.code === 'BAD_RANGE') {
+        return badInput(result.error.message);
+      }
+      return res.status(404).json({
+        success: false,
+        error: result.error.message,
+        code: result.error.code,
+      });
+    }
+
+    return res.json({ success: true, data: result.trends });
+  } catch (error) {
+    logger.error('Error in getUserTrends:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to build trends',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+};
+
+// Water: list a day's entries, add one (preset or ml), delete one
+export const getWaterEntries = async (req: Request, res: Response) => {
+  const { userId } = req.params;
+  const { tz, waterTarget } = await loadDayContext(userId);
+  const date = dayParam(req.query.date, tz);
+  const entries = await listWaterEntries(userId, date, tz);
+  return res.json({
+    success: true,
+    data: {
+      date,
+      entries,
+      water_intake_ml: entries.reduce((s, e) => s + e.amount_ml, 0),
+      water_target_ml: waterTarget,
+    },
+  });
+};
+
+export const addWater = async (req: Request, res: Response) => {
+  const { userId } = req.params;
+  const result = await addWaterEntry(userId, req.body);
+  const { waterTarget } = await loadDayContext(userId);
+  return res.status(201).json({
+    success: true,
+    data: { ...result, water_target_ml: waterTarget },
+  });
+};
+
+// Row ids are uuids; anything else would fail in Postgres as a 500
+const invalidId = (res: Response, what: string) =>
+  res.status(400).json({
+    success: false,
+    error: `Invalid ${what} ID`,
+    code: 'INVALID_ID',
+  });
+
+export const deleteWater = async (req: Request, res: Response) => {
+  const { userId, entryId } = req.params;
+  if (!uuidValidate(entryId)) return invalidId(res, 'water entry');
+  const result = await deleteWaterEntry(userId, entryId);
+  if (!result) {
+    return res.status(404).json({
+      success: false,
+      error: 'Water entry not found',
+      code: 'NOT_FOUND',
+    });
+  }
+  const { waterTarget } = await loadDayContext(userId);
+  return res.json({
+    success: true,
+    data: { ...result, water_target_ml: waterTarget },
+  });
+};
+
+// Saved servings: CRUD plus the ones worth saving, learned from corrections
+const SERVING_ERROR_STATUS: Record<ServingError['code'], number> = {
+  UNKNOWN_FOOD: 400,
+  NOT_FOUND: 404,
+  DUPLICATE_SERVING: 409,
+  DB_ERROR: 500,
+};
+
+const sendServingError = (res: Response, error: ServingError) =>
+  res.status(SERVING_ERROR_STATUS[error.code]).json({
+    success: false,
+    error: error.message,
+    code: error.code === 'DB_ERROR' ? 'DATABASE_ERROR' : error.code,
+  });
+
+export const getServings = async (req: Request, res: Response) => {
+  const { userId } = req.params;
+  const ingredientId =
+    typeof req.query.ingredient_id === 'string'
+      ? req.query.ingredient_id
+      : undefined;
+  const servings = await listServings(userId, ingredientId);
+  return res.json({ success: true, data: { servings } });
+};
+
+export const getServingSuggestions = async (req: Request, res: Response) => {
+  const suggestions = await suggestServings(req.params.userId);
+  return res.json({ success: true, data: { suggestions } });
+};
+
+export const addServing = async (req: Request, res: Response) => {
+  const result = await createServing(req.params.userId, req.body);
+  if ('error' in result) return sendServingError(res, result.error);
+  return res.status(201).json({ success: true, data: result });
+};
+
+export const editServing = async (req: Request, res: Response) => {
+  const { userId, servingId } = req.params;
+  if (!uuidValidate(servingId)) return invalidId(res, 'serving');
+  const result = await updateServing(userId, servingId, req.body);
+  if ('error' in result) return sendServingError(res, result.error);
+  return res.json({ success: true, data: result });
+};
+
+export const removeServing = async (req: Request, res: Response) => {
+  const { userId, servingId } = req.params;
+  if (!uuidValidate(servingId)) return invalidId(res, 'serving');
+  if (!(await deleteServing(userId, servingId))) {
+    return sendServingError(res, {
+      code: 'NOT_FOUND',
+      message: 'Serving not found',
+    });
+  }
+  return res.json({ success: true, data: { id: servingId } });
+};
+
+// Routes — every /:userId route is scoped to the authenticated caller
+router.use('/:userId', requireAuth, requireSelf());
 router.get('/:userId/profile', wrap(getUserProfile));
 router.get('/:userId/daily-stats', wrap(getUserDailyStats));
 router.get('/:userId/recent-meals', wrap(getUserRecentMeals));
-router.put('/:userId/profile', wrap(updateUserProfile));
+router.get('/:userId/trends', wrap(getUserTrendsHandler));
+router.get('/:userId/water', wrap(getWaterEntries));
+router.post('/:userId/water', validateWaterEntry, wrap(addWater));
+router.delete('/:userId/water/:entryId', wrap(deleteWater));
+router.get('/:userId/servings', wrap(getServings));
+router.get('/:userId/servings/suggestions', wrap(getServingSuggestions));
+router.post('/:userId/servings', validateServing, wrap(addServing));
+router.put(
+  '/:userId/servings/:servingId',
+  validateServingUpdate,
+  wrap(editServing)
+);
+router.delete('/:userId/servings/:servingId', wrap(removeServing));
+router.put(
+  '/:userId/profile',
+  validateProfileUpdate,
+  wrap(updateUserProfile)
+);
+router.post(
+  '/:userId/targets/preview',
+  validateProfileUpdate,
+  wrap(previewTargets)
+);
 
 export default router;
@@ -0,0 +1,77 @@
+// src/scripts/importFoods.ts
+// Load IFCT and supplementary food tables into ifct_foods.
+//
+//   npm run foods:import -- --file data/ifct2017.csv --file data/extra.json --version ifct2017.1
+//   npm run foods:import -- --file data/ifct2017.csv --dry-run
+//
+// Rows upsert on `code`. --version defaults to a hash of the files. Any
+// invalid row stops the import unless --skip-invalid; --report writes every
+// row error as JSON.
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+
+import { importFoods } from '@/services/foodImportService';
+
+// Row errors printed to the console; --report has them all
+const PRINT_ERRORS = 20;
+
+function parseArgs(argv: string[]) {
+  const files: string[] = [];
+  let version = '';
+  let report = '';
+  let dryRun = false;
+  let skipInvalid = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--file') files.push(argv[++i]);
+    else if (arg === '--version') version = argv[++i];
+    else if (arg === '--report') report = argv[++i];
+    else if (arg === '--dry-run') dryRun = true;
+    else if (arg === '--skip-invalid') skipInvalid = true;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (!files.length || files.some((f) => !f)) {
+    throw new Error('Pass --file <path.csv|path.json> (repeatable)');
+  }
+  if (version && !/^[\w.:-]{1,64}$/.test(version)) {
+    throw new Error('--version may only hold letters, digits and . _ : -');
+  }
+  return { files, version, report, dryRun, skipInvalid };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const sources = args.files.map((file) => ({
+    name: path.basename(file),
+    text: fs.readFileSync(file, 'utf8'),
+  }));
+  const result = await importFoods(sources, args);
+
+  for (const e of result.errors.slice(0, PRINT_ERRORS)) {
+    const where = `${e.source} row ${e.row}${e.code ? ` (${e.code})` : ''}`;
+    console.error(`${where}: ${e.errors.join('; ')}`);
+  }
+  if (result.errors.length > PRINT_ERRORS) {
+    console.error(`…and ${result.errors.length - PRINT_ERRORS} more`);
+  }
+  if (args.report) {
+    fs.writeFileSync(args.report, JSON.stringify(result, null, 2));
+  }
+
+  const stopped = result.invalid > 0 && !args.skipInvalid;
+  console.log(
+    `${args.dryRun ? '[dry run] ' : ''}version ${result.version}: ` +
+      `${result.valid} valid, ${result.invalid} invalid, ` +
+      `${result.upserted} written` +
+      (stopped && !args.dryRun ? ' (fix the rows or pass --skip-invalid)' : '')
+  );
+  if (stopped) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
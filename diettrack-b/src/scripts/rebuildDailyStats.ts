@@ -0,0 +1,59 @@
+// src/scripts/rebuildDailyStats.ts
+// Recompute user_daily_stats from meal_logs.
+//
+//   npm run stats:rebuild -- --user <uuid> [--user <uuid>] --from 2025-01-01 [--to 2025-01-31]
+//   npm run stats:rebuild -- --all --from 2025-01-01
+//
+// Dates are calendar days in each user's own timezone; --to defaults to --from.
+
+import path from 'path';
+import dotenv from 'dotenv';
+dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+
+import { getSupabase } from '@/database/supabase';
+import { rebuildDailyStats } from '@/services/dailyStatsService';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseArgs(argv: string[]) {
+  const users: string[] = [];
+  let all = false;
+  let from = '';
+  let to = '';
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--user') users.push(argv[++i]);
+    else if (arg === '--all') all = true;
+    else if (arg === '--from') from = argv[++i];
+    else if (arg === '--to') to = argv[++i];
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  to = to || from;
+  if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+    throw new Error('--from/--to must be YYYY-MM-DD with from <= to');
+  }
+  if (!all && users.length === 0) {
+    throw new Error('Pass --user <id> (repeatable) or --all');
+  }
+  return { users, all, from, to };
+}
+
+async function allUserIds(): Promise<string[]> {
+  const { data, error } = await getSupabase().from('users').select('id');
+  if (error) throw error;
+  return (data || []).map((u: { id: string }) => u.id);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const users = args.all ? await allUserIds() : args.users;
+  const result = await rebuildDailyStats(users, args.from, args.to);
+  console.log(
+    `Rebuilt ${result.days} day(s) for ${result.users} user(s): ${args.from}..${args.to}`
+  );
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -24,16 +24,22 @@ import { createServer } from 'http';
 import { v4 as uuidv4 } from 'uuid';
 
 import analysisRoutes from '@/routes/analysis';
+import authRoutes from '@/routes/auth';
 import userRoutes from '@/routes/user';
 import feedbackRoutes from '@/routes/feedback';
 import photoUploadRoutes from '@/routes/photoUpload';
 import debugRoutes from '@/routes/debug';
 import ingredientsRoutes from '@/routes/ingredients';
+import recipeRoutes from '@/routes/recipes';
 
 import { errorHandler } from '@/middleware/errorHandler';
 import logger from '@/utils/logger';
 import { rateLimiter } from '@/middleware/rateLimiter';
 import { getSupabase } from '@/database/supabase';
+import {
+  getProviderHealth,
+  resolveProviderChain,
+} from '@/services/aiProviderRegistry';
 
 process.on('unhandledRejection', (reason) => {
   console.error('[FATAL] Unhandled Rejection:', reason);
@@ -48,11 +54,23 @@ if (!process.env.SUPABASE_SERVICE_ROLE_KEY)
   missing.push('SUPABASE_SERVICE_ROLE_KEY');
 
 const STRATEGY = (process.env.AI_STRATEGY || 'gemini_only').toLowerCase();
-if (STRATEGY !== 'vision_only' && !process.env.GEMINI_API_KEY) {
+const AI_CHAIN = resolveProviderChain();
+// Offline dev can skip the Gemini key only by asking for the fixture in
+// AI_PROVIDER_CHAIN
+if (
+  AI_CHAIN.includes('gemini') &&
+  !AI_CHAIN.includes('fixture') &&
+  !process.env.GEMINI_API_KEY
+) {
   missing.push('GEMINI_API_KEY');
 }
 
 const NODE_ENV = process.env.NODE_ENV || 'development';
+// Without a real secret every token would be forgeable
+const JWT_SECRET = process.env.JWT_SECRET;
+if (!JWT_SECRET || JWT_SECRET === '__REPLACE_ME__') {
+  missing.push('JWT_SECRET');
+}
 const IS_TEST =
   NODE_ENV === 'test' || typeof process.env.JEST_WORKER_ID !== 'undefined';
 
@@ -142,7 +160,7 @@ app.use(
       'Authorization',
       'X-Requested-With',
       'X-Request-Id',
-      'X-User-Id',
+      'Idempotency-Key',
     ],
   })
 );
@@ -177,6 +195,7 @@ app.get('/health', (_req, res) => {
     version: process.env.npm_package_version || '1.0.0',
     environment: NODE_ENV,
     strategy: STRATEGY,
+    providers: getProviderHealth(AI_CHAIN),
     uptime: Math.floor(process.uptime()),
     memory: {
       used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
@@ -198,11 +217,13 @@ app.get('/ready', async (_req, res) => {
   }
 });
 
+app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/analysis', analysisRoutes);
 app.use('/api/v1/user', userRoutes);
 app.use('/api/v1/feedback', feedbackRoutes);
 app.use('/api/v1/photo-upload', photoUploadRoutes);
 app.use('/api/v1/ingredients', ingredientsRoutes);
+app.use('/api/v1/recipes', recipeRoutes);
 
 if (NODE_ENV !== 'production' || process.env.DEBUG_ROUTES === 'true') {
   app.use('/api/v1/debug', debugRoutes);
@@ -212,6 +233,7 @@ app.get('/api/v1', (_req, res) => {
   return res.json({
     message: 'DietTrack API v1.0',
     endpoints: {
+      auth: '/api/v1/auth',
       analysis: '/api/v1/analysis',
       'analysis-analyze (POST)': '/api/v1/analysis/analyze',
       'analysis-adjusted (POST)': '/api/v1/analysis/:id/adjusted',
@@ -219,6 +241,7 @@ app.get('/api/v1', (_req, res) => {
       feedback: '/api/v1/feedback',
       'photo-upload': '/api/v1/photo-upload',
       ingredients: '/api/v1/ingredients',
+      recipes: '/api/v1/recipes',
       ...(NODE_ENV !== 'production' || process.env.DEBUG_ROUTES === 'true'
         ? { debug: '/api/v1/debug' }
         : {}),
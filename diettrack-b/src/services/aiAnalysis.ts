@@ -1,67 +1,63 @@
 // src/services/aiAnalysis.ts
 import logger from '@/utils/logger';
-import type { DetectedFoodItem } from '@/types';
+import type { BoundingBox, DetectedFoodItem } from '@/types';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-
-export type ProviderName = 'gemini' | 'vision';
-
-export interface AIAnalysisResult {
-  provider: ProviderName;
-  detectedItems: DetectedFoodItem[];
-  confidence: number; // 0..1
-  processingTimeMs: number;
-  rawResponse?: unknown;
-}
-
-// Strategy - Gemini only for MVP
-const AI_STRATEGY = 'gemini_only' as 'gemini_only' | 'vision_only' | 'both';
+import {
+  ProviderError,
+  registerProvider,
+  resolveProviderChain,
+  runProviderChain,
+  summarizeChainReason,
+  type AIAnalysisResult,
+  type AnalysisReasonCode,
+  type ProviderAttempt,
+  type ProviderName,
+  type ProviderParams,
+} from '@/services/aiProviderRegistry';
+import { fixtureProvider } from '@/services/fixtureProvider';
+import {
+  validateLLMOutput,
+  type LLMAnalysisOutput,
+  type LLMValidation,
+} from '@/services/llmOutputSchema';
+
+export type {
+  AIAnalysisResult,
+  AnalysisReasonCode,
+  ProviderAttempt,
+  ProviderName,
+};
 
 const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-flash-latest';
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
 
+// Per-provider budgets; MODEL_TIMEOUT_MS is the shared default
+const MODEL_TIMEOUT_MS = Number(process.env.MODEL_TIMEOUT_MS || 15000);
+const GEMINI_TIMEOUT_MS = Number(
+  process.env.GEMINI_TIMEOUT_MS || MODEL_TIMEOUT_MS
+);
+const VISION_TIMEOUT_MS = Number(
+  process.env.VISION_TIMEOUT_MS || MODEL_TIMEOUT_MS
+);
+// Follow-up prompts allowed when Gemini's JSON fails schema validation
+const GEMINI_REPAIR_ATTEMPTS = Math.max(
+  0,
+  Number(process.env.GEMINI_REPAIR_ATTEMPTS ?? 2)
+);
+
 const r1 = (n: unknown) => Math.round((Number(n) || 0) * 10) / 10;
 const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
 
-function stripCodeFences(s: string) {
-  if (!s) return s;
-  return s
-    .replace(/^\s*```(?:json)?\s*/i, '')
-    .replace(/\s*```\s*$/i, '')
-    .trim();
-}
-function tryJsonParse(s: string, fallback: any): any {
-  try {
-    return JSON.parse(s);
-  } catch {
-    return fallback;
-  }
-}
-function withTimeout<T>(p: Promise<T>, ms: number, tag = 'task'): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
-    const t = setTimeout(
-      () => reject(new Error(`${tag} timeout after ${ms}ms`)),
-      ms
-    );
-    p.then((v) => {
-      clearTimeout(t);
-      resolve(v);
-    }).catch((e) => {
-      clearTimeout(t);
-      reject(e);
-    });
-  });
-}
-
 function normalizeItemsFromLLM(items: any[]): DetectedFoodItem[] {
   let nextId = 1;
   return (items || []).map((raw) => {
     const id = Number(raw?.itemId) || Number(raw?.id) || nextId++;
 
-    const grams =
+    const modelGrams =
       Number(raw?.portion_g) ||
       Number(raw?.portionSize?.estimatedGrams) ||
-      Number(raw?.portion_size?.estimated_grams) ||
-      150;
+      Number(raw?.portion_size?.estimated_grams);
+    const grams = modelGrams || 150;
 
     let serving: 'small' | 'medium' | 'large' = 'medium';
     if (grams < 80) serving = 'small';
@@ -97,65 +93,76 @@ function normalizeItemsFromLLM(items: any[]): DetectedFoodItem[] {
           max: Math.round(grams * 1.15),
         },
         servingSizeCategory: serving,
+        source: modelGrams ? 'model' : 'default',
       },
-      cookingMethod: raw?.cookingMethod ?? 'boiled',
+      cookingMethod: raw?.cookingMethod ?? raw?.cooking_method,
       ingredients: Array.isArray(raw?.ingredients) ? raw.ingredients : [],
     };
   });
 }
 
 /* ------------------------ Gemini provider ------------------------ */
-async function runGeminiJSON(parts: any[]): Promise<any> {
+function repairPrompt(errors: string[]): string {
+  return [
+    'Your previous reply did not match the required JSON shape:',
+    ...errors.map((e) => `- ${e}`),
+    'Reply again with ONLY the corrected JSON object. No markdown, no prose.',
+  ].join('\n');
+}
+
+// Validate against the strict schema; on failure, show the model its own
+// reply plus the errors and ask again (bounded by GEMINI_REPAIR_ATTEMPTS).
+async function runGeminiJSON(
+  parts: any[]
+): Promise<{ output: LLMAnalysisOutput; repairAttempts: number }> {
   const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
   const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
 
   // Use explicit "contents" shape (more stable across SDK versions)
-  const req = { contents: [{ role: 'user', parts }] };
-  const result = await model.generateContent(req);
+  const contents: any[] = [{ role: 'user', parts }];
+  let last: Extract<LLMValidation, { ok: false }> | null = null;
 
-  // Extract text safely across SDK versions
-  const rawText: string =
-    (result?.response?.text && result.response.text()) ||
-    result?.response?.candidates?.[0]?.content?.parts?.[0]?.text ||
-    '';
+  for (let attempt = 0; attempt <= GEMINI_REPAIR_ATTEMPTS; attempt++) {
+    const result = await model.generateContent({ contents });
 
-  const cleaned = stripCodeFences(rawText);
-  const fallback = { detected_items: [], overall_confidence: 0.6 };
-  const json: any = tryJsonParse(cleaned, fallback);
+    // Extract text safely across SDK versions
+    const rawText: string =
+      (result?.response?.text && result.response.text()) ||
+      result?.response?.candidates?.[0]?.content?.parts?.[0]?.text ||
+      '';
 
-  if (Array.isArray(json?.detectedItems) && json?.overallConfidence != null) {
-    return json;
-  }
-  if (Array.isArray(json?.detected_items)) {
-    return {
-      detectedItems: json.detected_items,
-      overallConfidence:
-        typeof json.overall_confidence === 'number'
-          ? json.overall_confidence
-          : 0.6,
-    };
+    const check = validateLLMOutput(rawText);
+    if (check.ok) return { output: check.value, repairAttempts: attempt };
+
+    last = check;
+    logger.warn(
+      `[Gemini] invalid output (${check.reason}) try=${attempt + 1}`,
+      {
+        errors: check.errors,
+      }
+    );
+    contents.push({ role: 'model', parts: [{ text: rawText || '(empty)' }] });
+    contents.push({
+      role: 'user',
+      parts: [{ text: repairPrompt(check.errors) }],
+    });
   }
-  return { detectedItems: [], overallConfidence: 0.6 };
+
+  throw new ProviderError(
+    'INVALID_MODEL_OUTPUT',
+    `Gemini output failed validation (${last?.reason}) after ${
+      GEMINI_REPAIR_ATTEMPTS + 1
+    } attempt(s)`,
+    last?.errors ?? []
+  );
 }
 
-async function analyzeWithGemini(params: {
-  image: string; // data URL (data:image/...;base64,...)
-  userContext?: Record<string, any>;
-  referenceObject?: Record<string, any>;
-  userId?: string;
-}): Promise<AIAnalysisResult> {
+// Throws on SDK/network failure so the chain can fall through.
+async function analyzeWithGemini(
+  params: ProviderParams
+): Promise<AIAnalysisResult> {
   const started = Date.now();
 
-  if (!GEMINI_API_KEY) {
-    logger.warn('[Gemini] GEMINI_API_KEY missing; returning empty result');
-    return {
-      provider: 'gemini',
-      detectedItems: [],
-      confidence: 0.5,
-      processingTimeMs: Date.now() - started,
-    };
-  }
-
   const m = params.image?.match(/^data:image\/(\w+);base64,(.+)$/);
   if (!m) {
     // No image (controller will handle text-only fallback)
@@ -183,16 +190,23 @@ You are a nutrition analysis assistant. Return ONLY strict JSON with this exact
       "calories": 200,
       "protein": 6,
       "carbs": 35,
-      "fat": 4
+      "fat": 4,
+      "fiber": 3,
+      "cooking_method": "roasted",
+      "ingredients": ["whole wheat flour"]
     }
   ],
   "overall_confidence": 0.6
 }
 
 Rules:
+- itemId, name, confidence (0..1), portion_size.estimated_grams, calories, protein, carbs and fat are required for every item; numbers only, no units.
+- cooking_method, if given, must be one of: raw, boiled, steamed, fried, deep_fried, grilled, roasted, pressure_cooked, tandoor, fermented.
+- Nutrition values are for the estimated portion, not per 100 g.
 - Prefer Indian dish names when applicable.
 - If unsure, keep confidence <= 0.6.
 - If multiple items are present, assign stable itemId (1..N).
+- If no food is visible, return "detected_items": [].
 - Do NOT include any non-JSON text. No markdown, no prose.
 `.trim();
 
@@ -200,63 +214,47 @@ Rules:
     ? `User context: ${String(params.userContext.prompt)}`
     : 'No extra user context.';
 
+  // A named reference object lets the portion estimator measure each item
+  const reference = params.referenceObject
+    ? String(params.referenceObject).replace(/_/g, ' ')
+    : '';
+  const referencePrompt = reference
+    ? `
+A ${reference} is in the photo for scale. If you can see it:
+- add "reference_region": { "x": 0, "y": 0, "width": 0, "height": 0 } with its bounding box,
+- and give every item a "region" in the same form with that item's bounding box.
+Boxes are in image pixels from the top-left corner. Leave both out if the ${reference} isn't visible.`
+    : '';
+
   const parts = [
-    { text: systemPrompt + '\n' + userPrompt },
+    { text: systemPrompt + referencePrompt + '\n' + userPrompt },
     { inlineData: { mimeType, data } }, // SDK wants raw base64, no prefix
   ];
 
-  try {
-    const json: any = await withTimeout(runGeminiJSON(parts), 15000, 'gemini');
-    const items =
-      Array.isArray(json?.detectedItems) && json.detectedItems.length
-        ? json.detectedItems
-        : Array.isArray(json?.detected_items)
-        ? json.detected_items
-        : [];
-
-    const normalized = normalizeItemsFromLLM(items);
-    const conf =
-      typeof json?.overallConfidence === 'number'
-        ? json.overallConfidence
-        : typeof json?.overall_confidence === 'number'
-        ? json.overall_confidence
-        : normalized.length
-        ? normalized.reduce((s, it) => s + (it.confidence || 0.6), 0) /
-          normalized.length
-        : 0.6;
+  const { output, repairAttempts } = await runGeminiJSON(parts);
+  const normalized = normalizeItemsFromLLM(output.detected_items);
 
-    return {
-      provider: 'gemini',
-      detectedItems: normalized,
-      confidence: clamp01(conf),
-      processingTimeMs: Date.now() - started,
-      rawResponse: json,
-    };
-  } catch (err) {
-    logger.error('[Gemini] analysis failed', err);
-    return {
-      provider: 'gemini',
-      detectedItems: [],
-      confidence: 0.5,
-      processingTimeMs: Date.now() - started,
-    };
-  }
+  return {
+    provider: 'gemini',
+    detectedItems: normalized,
+    confidence: clamp01(output.overall_confidence),
+    processingTimeMs: Date.now() - started,
+    rawResponse: output,
+    repairAttempts,
+    referenceRegion: output.reference_region,
+  };
 }
 
 /* ------------------------ Vision provider ------------------------ */
-async function analyzeWithVisionOnly(params: {
-  image: string;
-  userContext?: Record<string, any>;
-  referenceObject?: Record<string, any>;
-  userId?: string;
-}): Promise<AIAnalysisResult> {
+// Throws on API failure so the chain can fall through.
+async function analyzeWithVisionOnly(
+  params: ProviderParams
+): Promise<AIAnalysisResult> {
   const started = Date.now();
-
   const VISION_API_KEY = process.env.GOOGLE_VISION_API_KEY;
-  if (!VISION_API_KEY) {
-    logger.warn(
-      '[Vision] GOOGLE_VISION_API_KEY missing; returning empty result'
-    );
+
+  const m = params.image?.match(/^data:image\/(\w+);base64,(.+)$/);
+  if (!m) {
     return {
       provider: 'vision',
       detectedItems: [],
@@ -265,197 +263,170 @@ async function analyzeWithVisionOnly(params: {
     };
   }
 
-  try {
-    const m = params.image?.match(/^data:image\/(\w+);base64,(.+)$/);
-    if (!m) {
-      return {
-        provider: 'vision',
-        detectedItems: [],
-        confidence: 0.5,
-        processingTimeMs: Date.now() - started,
-      };
+  const ext = m[1].toLowerCase();
+  const data = m[2];
+  const mimeType = `image/${ext}`;
+
+  // Call Google Vision API
+  const response = await fetch(
+    `https://vision.googleapis.com/v1/images:annotate?key=${VISION_API_KEY}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: {
+              content: data,
+            },
+            features: [
+              {
+                type: 'LABEL_DETECTION',
+                maxResults: 10,
+              },
+              {
+                type: 'OBJECT_LOCALIZATION',
+                maxResults: 10,
+              },
+            ],
+          },
+        ],
+      }),
     }
+  );
 
-    const ext = m[1].toLowerCase();
-    const data = m[2];
-    const mimeType = `image/${ext}`;
+  if (!response.ok) {
+    throw new Error(`Vision API error: ${response.status}`);
+  }
 
-    // Call Google Vision API
-    const response = await fetch(
-      `https://vision.googleapis.com/v1/images:annotate?key=${VISION_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          requests: [
-            {
-              image: {
-                content: data,
-              },
-              features: [
-                {
-                  type: 'LABEL_DETECTION',
-                  maxResults: 10,
-                },
-                {
-                  type: 'OBJECT_LOCALIZATION',
-                  maxResults: 10,
-                },
-              ],
-            },
-          ],
-        }),
-      }
-    );
+  const result = (await response.json()) as any;
+  const annotations = result.responses?.[0] || {};
 
-    if (!response.ok) {
-      throw new Error(`Vision API error: ${response.status}`);
-    }
+  // Convert Vision API results to our format
+  const detectedItems: DetectedFoodItem[] = [];
+  let nextId = 1;
 
-    const result = (await response.json()) as any;
-    const annotations = result.responses?.[0] || {};
-
-    // Convert Vision API results to our format
-    const detectedItems: DetectedFoodItem[] = [];
-    let nextId = 1;
-
-    // Process labels
-    const labels = annotations.labelAnnotations || [];
-    for (const label of labels) {
-      if (label.score > 0.5) {
-        // Only include high-confidence labels
-        detectedItems.push({
-          itemId: nextId++,
-          name: label.description.toLowerCase(),
-          confidence: label.score,
-          region: { x: 0, y: 0, width: 100, height: 100 }, // Vision doesn't provide precise location
-          nutrition: {
-            calories: 0, // Vision doesn't provide nutrition data
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            fiber: 0,
-            sugar: 0,
-            sodium: 0,
-            cholesterol: 0,
-          },
-          alternatives: [],
-          portionSize: {
-            estimatedGrams: 150, // Default portion
-            confidenceRange: {
-              min: 100,
-              max: 200,
-            },
-            servingSizeCategory: 'medium',
+  // Process labels
+  const labels = annotations.labelAnnotations || [];
+  for (const label of labels) {
+    if (label.score > 0.5) {
+      // Only include high-confidence labels
+      detectedItems.push({
+        itemId: nextId++,
+        name: label.description.toLowerCase(),
+        confidence: label.score,
+        region: { x: 0, y: 0, width: 100, height: 100 }, // Vision doesn't provide precise location
+        nutrition: {
+          calories: 0, // Vision doesn't provide nutrition data
+          protein: 0,
+          carbs: 0,
+          fat: 0,
+          fiber: 0,
+          sugar: 0,
+          sodium: 0,
+          cholesterol: 0,
+        },
+        alternatives: [],
+        portionSize: {
+          estimatedGrams: 150, // Default portion
+          confidenceRange: {
+            min: 100,
+            max: 200,
           },
-          cookingMethod: 'boiled',
-          ingredients: [],
-        });
-      }
+          servingSizeCategory: 'medium',
+          source: 'default',
+        },
+        ingredients: [],
+      });
     }
+  }
 
-    // Process objects
-    const objects = annotations.localizedObjectAnnotations || [];
-    for (const obj of objects) {
-      if (obj.score > 0.5) {
-        detectedItems.push({
-          itemId: nextId++,
-          name: obj.name.toLowerCase(),
-          confidence: obj.score,
-          region: {
-            x: Math.round(
-              obj.boundingPoly.normalizedVertices[0]?.x * 1000 || 0
-            ),
-            y: Math.round(
-              obj.boundingPoly.normalizedVertices[0]?.y * 1000 || 0
-            ),
-            width: Math.round(
-              (obj.boundingPoly.normalizedVertices[2]?.x -
-                obj.boundingPoly.normalizedVertices[0]?.x) *
-                1000 || 100
-            ),
-            height: Math.round(
-              (obj.boundingPoly.normalizedVertices[2]?.y -
-                obj.boundingPoly.normalizedVertices[0]?.y) *
-                1000 || 100
-            ),
-          },
-          nutrition: {
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            fiber: 0,
-            sugar: 0,
-            sodium: 0,
-            cholesterol: 0,
-          },
-          alternatives: [],
-          portionSize: {
-            estimatedGrams: 150,
-            confidenceRange: {
-              min: 100,
-              max: 200,
-            },
-            servingSizeCategory: 'medium',
+  // Process objects
+  const objects = annotations.localizedObjectAnnotations || [];
+  for (const obj of objects) {
+    if (obj.score > 0.5) {
+      detectedItems.push({
+        itemId: nextId++,
+        name: obj.name.toLowerCase(),
+        confidence: obj.score,
+        region: {
+          x: Math.round(obj.boundingPoly.normalizedVertices[0]?.x * 1000 || 0),
+          y: Math.round(obj.boundingPoly.normalizedVertices[0]?.y * 1000 || 0),
+          width: Math.round(
+            (obj.boundingPoly.normalizedVertices[2]?.x -
+              obj.boundingPoly.normalizedVertices[0]?.x) *
+              1000 || 100
+          ),
+          height: Math.round(
+            (obj.boundingPoly.normalizedVertices[2]?.y -
+              obj.boundingPoly.normalizedVertices[0]?.y) *
+              1000 || 100
+          ),
+        },
+        nutrition: {
+          calories: 0,
+          protein: 0,
+          carbs: 0,
+          fat: 0,
+          fiber: 0,
+          sugar: 0,
+          sodium: 0,
+          cholesterol: 0,
+        },
+        alternatives: [],
+        portionSize: {
+          estimatedGrams: 150,
+          confidenceRange: {
+            min: 100,
+            max: 200,
           },
-          cookingMethod: 'boiled',
-          ingredients: [],
-        });
-      }
+          servingSizeCategory: 'medium',
+          source: 'default',
+        },
+        ingredients: [],
+      });
     }
+  }
 
-    const avgConfidence =
-      detectedItems.length > 0
-        ? detectedItems.reduce((sum, item) => sum + item.confidence, 0) /
-          detectedItems.length
-        : 0.5;
+  const avgConfidence =
+    detectedItems.length > 0
+      ? detectedItems.reduce((sum, item) => sum + item.confidence, 0) /
+        detectedItems.length
+      : 0.5;
 
-    return {
-      provider: 'vision',
-      detectedItems,
-      confidence: clamp01(avgConfidence),
-      processingTimeMs: Date.now() - started,
-      rawResponse: result,
-    };
-  } catch (error) {
-    logger.error('[Vision] analysis failed', error);
-    return {
-      provider: 'vision',
-      detectedItems: [],
-      confidence: 0.5,
-      processingTimeMs: Date.now() - started,
-    };
-  }
+  return {
+    provider: 'vision',
+    detectedItems,
+    confidence: clamp01(avgConfidence),
+    processingTimeMs: Date.now() - started,
+    rawResponse: result,
+  };
 }
 
 /* --------------------- Multi-provider orchestration --------------------- */
-async function runProviders(params: {
-  image: string;
-  userContext?: Record<string, any>;
-  referenceObject?: Record<string, any>;
-  userId?: string;
-}): Promise<AIAnalysisResult[]> {
-  const jobs: Array<Promise<AIAnalysisResult>> = [];
-
-  if (AI_STRATEGY === 'gemini_only') {
-    jobs.push(analyzeWithGemini(params));
-  } else if (AI_STRATEGY === 'vision_only') {
-    jobs.push(analyzeWithVisionOnly(params));
-  } else {
-    jobs.push(analyzeWithGemini(params));
-    jobs.push(analyzeWithVisionOnly(params));
-  }
-
-  const results = await Promise.allSettled(jobs);
-  const ok: AIAnalysisResult[] = [];
-  for (const r of results) {
-    if (r.status === 'fulfilled') ok.push(r.value);
-    else logger.error('[AI] provider failed', r.reason);
-  }
-  return ok;
+registerProvider({
+  name: 'gemini',
+  timeoutMs: GEMINI_TIMEOUT_MS,
+  isConfigured: () => !!GEMINI_API_KEY,
+  analyze: analyzeWithGemini,
+});
+registerProvider({
+  name: 'vision',
+  timeoutMs: VISION_TIMEOUT_MS,
+  isConfigured: () => !!process.env.GOOGLE_VISION_API_KEY,
+  analyze: analyzeWithVisionOnly,
+});
+registerProvider(fixtureProvider);
+
+// Kept for callers of aiAnalysisService.multiModelAnalysis: at most one result,
+// taken from the first provider in the chain that detected something.
+async function runProviders(
+  params: ProviderParams
+): Promise<AIAnalysisResult[]> {
+  const { result } = await runProviderChain(params);
+  return result ? [result] : [];
 }
 
 function combineAnalysisResults(
@@ -528,39 +499,54 @@ export async function analyzeImage(params: {
   provider: ProviderName;
   processingTimeMs: number;
   raw?: unknown;
+  reason: AnalysisReasonCode;
+  attempts: ProviderAttempt[];
+  referenceRegion?: BoundingBox;
 }> {
+  const chain = resolveProviderChain();
   try {
-    const results = await runProviders({
-      image: params.imageBase64,
-      userContext: params.userContext,
-      referenceObject: params.referenceObject,
-      userId: params.userId,
-    });
+    const run = await runProviderChain(
+      {
+        image: params.imageBase64,
+        userContext: params.userContext,
+        referenceObject: params.referenceObject,
+        userId: params.userId,
+      },
+      chain
+    );
+    const { result, attempts } = run;
+    const reason = summarizeChainReason(run);
 
-    if (!results.length) {
+    if (!result) {
       return {
         detectedItems: [],
         overallConfidence: 0.5,
-        provider: 'vision',
-        processingTimeMs: 0,
+        provider: chain[0] ?? 'gemini',
+        processingTimeMs: attempts.reduce((s, a) => s + a.durationMs, 0),
+        reason,
+        attempts,
       };
     }
 
-    const combined = combineAnalysisResults(results);
     return {
-      detectedItems: combined.detectedItems,
-      overallConfidence: combined.confidence,
-      provider: combined.provider,
-      processingTimeMs: combined.processingTimeMs,
-      raw: combined.rawResponse,
+      detectedItems: result.detectedItems,
+      overallConfidence: result.confidence,
+      provider: result.provider,
+      processingTimeMs: result.processingTimeMs,
+      raw: result.rawResponse,
+      reason,
+      attempts,
+      referenceRegion: result.referenceRegion,
     };
   } catch (err) {
     logger.error('[AI] analyzeImage failed', err);
     return {
       detectedItems: [],
       overallConfidence: 0.5,
-      provider: 'vision',
+      provider: chain[0] ?? 'gemini',
       processingTimeMs: 0,
+      reason: 'PROVIDER_ERROR',
+      attempts: [],
     };
   }
 }
@@ -0,0 +1,346 @@
+// src/services/aiProviderRegistry.ts
+// Pluggable AI providers behind an ordered fallback chain.
+// - Each provider implements AnalysisProvider and registers itself by name
+// - The chain comes from AI_PROVIDER_CHAIN (or the legacy AI_STRATEGY)
+// - Per-provider timeouts + consecutive-failure circuit breakers
+// - A provider returning zero items hands over to the next one in line
+
+import logger from '@/utils/logger';
+import type { BoundingBox, DetectedFoodItem } from '@/types';
+
+export type ProviderName = 'gemini' | 'vision' | 'fixture';
+
+export const PROVIDER_NAMES: readonly ProviderName[] = [
+  'gemini',
+  'vision',
+  'fixture',
+];
+
+/**
+ * Why an analysis ended the way it did. Lets callers tell a model that
+ * returned garbage apart from a plate with nothing recognisable on it.
+ */
+export type AnalysisReasonCode =
+  | 'OK'
+  | 'NO_FOOD_DETECTED'
+  | 'INVALID_MODEL_OUTPUT'
+  | 'PROVIDER_TIMEOUT'
+  | 'PROVIDER_ERROR'
+  | 'NO_PROVIDER_AVAILABLE';
+
+export interface AIAnalysisResult {
+  provider: ProviderName;
+  detectedItems: DetectedFoodItem[];
+  confidence: number; // 0..1
+  processingTimeMs: number;
+  rawResponse?: unknown;
+  reason?: AnalysisReasonCode;
+  /** Schema errors from the last invalid model response, if any */
+  validationErrors?: string[];
+  /** Repair prompts sent before the output validated */
+  repairAttempts?: number;
+  /** Reference object's box, in the same coordinates as the item regions */
+  referenceRegion?: BoundingBox;
+}
+
+export interface ProviderParams {
+  image: string; // data URL (data:image/...;base64,...)
+  userContext?: Record<string, any>;
+  referenceObject?: Record<string, any>;
+  userId?: string;
+}
+
+export interface AnalysisProvider {
+  readonly name: ProviderName;
+  /** Per-call budget; exceeding it counts as a failure */
+  readonly timeoutMs: number;
+  /** False when credentials are missing; skipped without tripping the breaker */
+  isConfigured(): boolean;
+  /** Reject on failure; resolve with zero items when nothing was detected */
+  analyze(params: ProviderParams): Promise<AIAnalysisResult>;
+}
+
+export type AttemptOutcome =
+  | 'ok'
+  | 'empty'
+  | 'error'
+  | 'timeout'
+  | 'skipped_unregistered'
+  | 'skipped_unconfigured'
+  | 'skipped_open';
+
+export interface ProviderAttempt {
+  provider: ProviderName;
+  outcome: AttemptOutcome;
+  durationMs: number;
+  reason?: AnalysisReasonCode;
+  error?: string;
+  validationErrors?: string[];
+}
+
+export interface ChainResult {
+  /** First non-empty result, else the first empty one, else null */
+  result: AIAnalysisResult | null;
+  attempts: ProviderAttempt[];
+}
+
+/** Thrown by providers to report a classified failure to the chain. */
+export class ProviderError extends Error {
+  constructor(
+    public readonly reason: AnalysisReasonCode,
+    message: string,
+    public readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+class ProviderTimeoutError extends Error {
+  constructor(tag: string, ms: number) {
+    super(`${tag} timeout after ${ms}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export function withTimeout<T>(
+  p: Promise<T>,
+  ms: number,
+  tag = 'task'
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(() => reject(new ProviderTimeoutError(tag, ms)), ms);
+    p.then((v) => {
+      clearTimeout(t);
+      resolve(v);
+    }).catch((e) => {
+      clearTimeout(t);
+      reject(e);
+    });
+  });
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Registry
+// ──────────────────────────────────────────────────────────────────────────────
+const registry = new Map<ProviderName, AnalysisProvider>();
+
+export function registerProvider(provider: AnalysisProvider): void {
+  if (registry.has(provider.name)) {
+    logger.debug(`[AI] provider "${provider.name}" re-registered`);
+  }
+  registry.set(provider.name, provider);
+}
+
+export function getProvider(name: ProviderName): AnalysisProvider | undefined {
+  return registry.get(name);
+}
+
+/** Test helper: drop every registered provider and breaker state. */
+export function resetProviderRegistry(): void {
+  registry.clear();
+  breakers.clear();
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Chain configuration
+// ──────────────────────────────────────────────────────────────────────────────
+const isProviderName = (s: string): s is ProviderName =>
+  (PROVIDER_NAMES as readonly string[]).includes(s);
+
+/**
+ * Resolve the ordered provider chain.
+ * - AI_PROVIDER_CHAIN=gemini,vision,fixture wins when set
+ * - otherwise AI_STRATEGY maps gemini_only | vision_only | both
+ * - the fixture provider only runs when listed there, or as a last resort
+ *   under NODE_ENV=test (unless AI_FIXTURE_FALLBACK=false), so a real
+ *   deployment never logs a made-up plate
+ */
+export function resolveProviderChain(
+  env: NodeJS.ProcessEnv = process.env
+): ProviderName[] {
+  const explicit = String(env.AI_PROVIDER_CHAIN || '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  let chain: ProviderName[];
+  if (explicit.length) {
+    const unknown = explicit.filter((s) => !isProviderName(s));
+    if (unknown.length) {
+      logger.warn(`[AI] ignoring unknown providers: ${unknown.join(', ')}`);
+    }
+    chain = explicit.filter(isProviderName);
+  } else {
+    const strategy = String(env.AI_STRATEGY || 'gemini_only').toLowerCase();
+    chain =
+      strategy === 'vision_only'
+        ? ['vision']
+        : strategy === 'both'
+        ? ['gemini', 'vision']
+        : ['gemini'];
+
+    const isTest = (env.NODE_ENV || '').toLowerCase() === 'test';
+    const fixtureOff = /^(0|false|no|off)$/i.test(
+      String(env.AI_FIXTURE_FALLBACK || '')
+    );
+    if (isTest && !fixtureOff) chain.push('fixture');
+  }
+
+  return Array.from(new Set(chain));
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Circuit breakers
+// ──────────────────────────────────────────────────────────────────────────────
+type BreakerState = { failures: number; openUntil: number };
+const breakers = new Map<ProviderName, BreakerState>();
+
+const BREAKER_FAILURES = Math.max(
+  1,
+  Number(process.env.AI_BREAKER_FAILURES || 3)
+);
+const BREAKER_COOLDOWN_MS = Math.max(
+  0,
+  Number(process.env.AI_BREAKER_COOLDOWN_MS || 30_000)
+);
+
+function breakerFor(name: ProviderName): BreakerState {
+  let b = breakers.get(name);
+  if (!b) {
+    b = { failures: 0, openUntil: 0 };
+    breakers.set(name, b);
+  }
+  return b;
+}
+
+/** Open breakers reject calls until the cooldown passes; then one probe goes through. */
+function isBreakerOpen(name: ProviderName, now = Date.now()): boolean {
+  return breakerFor(name).openUntil > now;
+}
+
+function recordSuccess(name: ProviderName) {
+  const b = breakerFor(name);
+  b.failures = 0;
+  b.openUntil = 0;
+}
+
+function recordFailure(name: ProviderName, now = Date.now()) {
+  const b = breakerFor(name);
+  b.failures += 1;
+  if (b.failures >= BREAKER_FAILURES) {
+    b.openUntil = now + BREAKER_COOLDOWN_MS;
+    logger.warn(
+      `[AI] breaker open for "${name}" (${b.failures} consecutive failures, cooldown ${BREAKER_COOLDOWN_MS}ms)`
+    );
+  }
+}
+
+export function getProviderHealth(
+  chain: ProviderName[] = resolveProviderChain()
+): Array<{
+  provider: ProviderName;
+  registered: boolean;
+  configured: boolean;
+  breaker: 'closed' | 'open';
+  consecutiveFailures: number;
+}> {
+  return chain.map((name) => {
+    const p = registry.get(name);
+    const b = breakerFor(name);
+    return {
+      provider: name,
+      registered: !!p,
+      configured: !!p?.isConfigured(),
+      breaker: isBreakerOpen(name) ? 'open' : 'closed',
+      consecutiveFailures: b.failures,
+    };
+  });
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Runner
+// ──────────────────────────────────────────────────────────────────────────────
+export async function runProviderChain(
+  params: ProviderParams,
+  chain: ProviderName[] = resolveProviderChain()
+): Promise<ChainResult> {
+  const attempts: ProviderAttempt[] = [];
+  let firstEmpty: AIAnalysisResult | null = null;
+
+  for (const name of chain) {
+    const provider = registry.get(name);
+    const skip = !provider
+      ? 'skipped_unregistered'
+      : !provider.isConfigured()
+      ? 'skipped_unconfigured'
+      : isBreakerOpen(name)
+      ? 'skipped_open'
+      : null;
+    if (skip || !provider) {
+      logger.debug(`[AI] provider "${name}" ${skip}`);
+      attempts.push({ provider: name, outcome: skip!, durationMs: 0 });
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      const res = await withTimeout(
+        provider.analyze(params),
+        provider.timeoutMs,
+        name
+      );
+      recordSuccess(name);
+      const durationMs = Date.now() - started;
+
+      if (Array.isArray(res?.detectedItems) && res.detectedItems.length > 0) {
+        attempts.push({
+          provider: name,
+          outcome: 'ok',
+          durationMs,
+          reason: 'OK',
+        });
+        return { result: { ...res, reason: 'OK' }, attempts };
+      }
+      attempts.push({
+        provider: name,
+        outcome: 'empty',
+        durationMs,
+        reason: 'NO_FOOD_DETECTED',
+      });
+      if (!firstEmpty) firstEmpty = { ...res, reason: 'NO_FOOD_DETECTED' };
+    } catch (err) {
+      recordFailure(name);
+      const timedOut = err instanceof ProviderTimeoutError;
+      const classified = err instanceof ProviderError ? err : null;
+      attempts.push({
+        provider: name,
+        outcome: timedOut ? 'timeout' : 'error',
+        durationMs: Date.now() - started,
+        reason:
+          classified?.reason ??
+          (timedOut ? 'PROVIDER_TIMEOUT' : 'PROVIDER_ERROR'),
+        error: (err as Error)?.message || String(err),
+        ...(classified?.details.length
+          ? { validationErrors: classified.details }
+          : {}),
+      });
+      logger.error(`[AI] provider "${name}" failed`, err);
+    }
+  }
+
+  return { result: firstEmpty, attempts };
+}
+
+/**
+ * Collapse a chain run into one reason code. A valid "nothing here" answer
+ * beats failures; among failures, garbage output is the most specific.
+ */
+export function summarizeChainReason(run: ChainResult): AnalysisReasonCode {
+  if (run.result) return run.result.reason ?? 'OK';
+  const reasons = run.attempts.map((a) => a.reason).filter(Boolean);
+  if (reasons.includes('INVALID_MODEL_OUTPUT')) return 'INVALID_MODEL_OUTPUT';
+  if (reasons.includes('PROVIDER_TIMEOUT')) return 'PROVIDER_TIMEOUT';
+  if (reasons.includes('PROVIDER_ERROR')) return 'PROVIDER_ERROR';
+  return 'NO_PROVIDER_AVAILABLE';
+}
@@ -0,0 +1,273 @@
+// src/services/authService.ts
+// Phone-OTP auth: one-time codes, user lookup/creation by users.phone and
+// HS256-signed access + refresh tokens (no external JWT dependency).
+
+import crypto from 'crypto';
+import { getSupabase } from '@/database/supabase';
+import { getOtpSender } from '@/services/otpSender';
+import logger from '@/utils/logger';
+
+export type AuthUser = { id: string; phone: string };
+export type TokenType = 'access' | 'refresh';
+
+export type TokenPair = {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime, seconds
+};
+
+type TokenClaims = {
+  sub: string;
+  phone: string;
+  typ: TokenType;
+  iat: number;
+  exp: number;
+  jti: string;
+};
+
+export type OtpRequestResult =
+  | { ok: true; ttlSec: number }
+  | { ok: false; code: 'OTP_COOLDOWN'; retryAfterSec: number };
+
+export type OtpVerifyResult =
+  | { ok: true; user: AuthUser & { name?: string | null }; isNewUser: boolean }
+  | { ok: false; code: 'OTP_INVALID' | 'OTP_EXPIRED' | 'OTP_LOCKED' };
+
+const OTP_TTL_SEC = Number(process.env.OTP_TTL_SEC || 300);
+const OTP_RESEND_COOLDOWN_SEC = Number(
+  process.env.OTP_RESEND_COOLDOWN_SEC || 30
+);
+const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS || 5);
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Config helpers
+// ──────────────────────────────────────────────────────────────────────────────
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  // server.ts refuses to boot without one; never sign with a guessable key
+  if (!secret || secret === '__REPLACE_ME__') {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+}
+
+/** "15m" | "24h" | "7d" | "3600" → seconds */
+export function parseDuration(v: string | undefined, fallbackSec: number) {
+  const m = String(v || '')
+    .trim()
+    .match(/^(\d+)\s*([smhd]?)$/i);
+  if (!m) return fallbackSec;
+  const mult = { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[
+    m[2].toLowerCase() as '' | 's' | 'm' | 'h' | 'd'
+  ];
+  return Number(m[1]) * mult;
+}
+
+const accessTtl = () => parseDuration(process.env.JWT_EXPIRES_IN, 24 * 3600);
+const refreshTtl = () =>
+  parseDuration(process.env.JWT_REFRESH_EXPIRES_IN, 7 * 86400);
+
+/**
+ * Normalize to E.164. Bare 10-digit numbers are treated as Indian mobiles.
+ * Returns null when the input can't be a phone number.
+ */
+export function normalizePhone(raw: string): string | null {
+  const s = String(raw || '').replace(/[\s\-().]/g, '');
+  const withCc = /^\d{10}$/.test(s)
+    ? `+91${s}`
+    : /^0\d{10}$/.test(s)
+    ? `+91${s.slice(1)}`
+    : s.startsWith('00')
+    ? `+${s.slice(2)}`
+    : s;
+  return /^\+[1-9]\d{9,14}$/.test(withCc) ? withCc : null;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Tokens
+// ──────────────────────────────────────────────────────────────────────────────
+const b64url = (buf: Buffer | string) => Buffer.from(buf).toString('base64url');
+
+function sign(data: string) {
+  return crypto
+    .createHmac('sha256', jwtSecret())
+    .update(data)
+    .digest('base64url');
+}
+
+function signToken(user: AuthUser, typ: TokenType, ttlSec: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = {
+    sub: user.id,
+    phone: user.phone,
+    typ,
+    iat: now,
+    exp: now + ttlSec,
+    jti: crypto.randomUUID(),
+  };
+  const head = b64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = b64url(JSON.stringify(claims));
+  return `${head}.${body}.${sign(`${head}.${body}`)}`;
+}
+
+export function signAccessToken(user: AuthUser): string {
+  return signToken(user, 'access', accessTtl());
+}
+
+export function issueTokens(user: AuthUser): TokenPair {
+  return {
+    accessToken: signAccessToken(user),
+    refreshToken: signToken(user, 'refresh', refreshTtl()),
+    expiresIn: accessTtl(),
+  };
+}
+
+/** Verify signature, expiry and token type; null on any failure. */
+export function verifyToken(token: string, typ: TokenType): AuthUser | null {
+  const parts = String(token || '').split('.');
+  if (parts.length !== 3) return null;
+  const [head, body, sig] = parts;
+
+  const expected = Buffer.from(sign(`${head}.${body}`));
+  const given = Buffer.from(sig);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(Buffer.from(head, 'base64url').toString());
+    const claims = JSON.parse(
+      Buffer.from(body, 'base64url').toString()
+    ) as TokenClaims;
+    if (header?.alg !== 'HS256' || claims.typ !== typ) return null;
+    if (!claims.exp || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    if (!claims.sub) return null;
+    return { id: String(claims.sub), phone: String(claims.phone || '') };
+  } catch {
+    return null;
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// OTP challenges (in-process; one pending code per phone)
+// ──────────────────────────────────────────────────────────────────────────────
+type Challenge = {
+  hash: string;
+  expiresAt: number;
+  sentAt: number;
+  attempts: number;
+};
+const challenges = new Map<string, Challenge>();
+
+const hashOtp = (phone: string, code: string) =>
+  crypto
+    .createHmac('sha256', jwtSecret())
+    .update(`${phone}:${code}`)
+    .digest('hex');
+
+/** Test helper: forget all pending OTP challenges. */
+export function resetOtpChallenges(): void {
+  challenges.clear();
+}
+
+/** Test helper: OTP challenges still held in memory. */
+export function pendingOtpChallenges(): number {
+  return challenges.size;
+}
+
+// Codes are dropped once used or expired; the sender may be keeping a copy
+function forgetChallenge(phone: string): void {
+  challenges.delete(phone);
+  getOtpSender().discard?.(phone);
+}
+
+// Challenges nobody verified would otherwise stay in memory for good
+function evictExpiredChallenges(now: number): void {
+  for (const [phone, c] of challenges) {
+    if (c.expiresAt <= now) forgetChallenge(phone);
+  }
+}
+
+export async function requestOtp(phone: string): Promise<OtpRequestResult> {
+  const now = Date.now();
+  evictExpiredChallenges(now);
+  const prev = challenges.get(phone);
+  if (prev && now - prev.sentAt < OTP_RESEND_COOLDOWN_SEC * 1000) {
+    return {
+      ok: false,
+      code: 'OTP_COOLDOWN',
+      retryAfterSec: Math.ceil(
+        (prev.sentAt + OTP_RESEND_COOLDOWN_SEC * 1000 - now) / 1000
+      ),
+    };
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  challenges.set(phone, {
+    hash: hashOtp(phone, code),
+    expiresAt: now + OTP_TTL_SEC * 1000,
+    sentAt: now,
+    attempts: 0,
+  });
+  await getOtpSender().send(phone, code, OTP_TTL_SEC);
+  return { ok: true, ttlSec: OTP_TTL_SEC };
+}
+
+async function findOrCreateUser(
+  phone: string,
+  name?: string
+): Promise<{ user: AuthUser & { name?: string | null }; isNewUser: boolean }> {
+  const supabase = getSupabase();
+  const { data: existing, error: findError } = await supabase
+    .from('users')
+    .select('id, phone, name')
+    .eq('phone', phone)
+    .maybeSingle();
+  if (findError) throw findError;
+  if (existing) return { user: existing, isNewUser: false };
+
+  const { data: created, error: insertError } = await supabase
+    .from('users')
+    .insert({ phone, name: name || null })
+    .select('id, phone, name')
+    .single();
+  if (insertError || !created) throw insertError || new Error('No user row');
+  logger.info(`[AUTH] created user ${created.id}`);
+  return { user: created, isNewUser: true };
+}
+
+export async function verifyOtp(
+  phone: string,
+  code: string,
+  name?: string
+): Promise<OtpVerifyResult> {
+  const challenge = challenges.get(phone);
+  if (!challenge) return { ok: false, code: 'OTP_INVALID' };
+  if (challenge.expiresAt <= Date.now()) {
+    forgetChallenge(phone);
+    return { ok: false, code: 'OTP_EXPIRED' };
+  }
+  if (challenge.attempts >= OTP_MAX_ATTEMPTS) {
+    return { ok: false, code: 'OTP_LOCKED' };
+  }
+
+  challenge.attempts += 1;
+  const given = Buffer.from(hashOtp(phone, String(code || '')));
+  const expected = Buffer.from(challenge.hash);
+  if (!crypto.timingSafeEqual(given, expected)) {
+    return {
+      ok: false,
+      code:
+        challenge.attempts >= OTP_MAX_ATTEMPTS ? 'OTP_LOCKED' : 'OTP_INVALID',
+    };
+  }
+
+  forgetChallenge(phone);
+  const { user, isNewUser } = await findOrCreateUser(phone, name);
+  return { ok: true, user, isNewUser };
+}
@@ -0,0 +1,68 @@
+// src/services/cookingMethodService.ts
+// Cooking-method adjustment for analysed items. A food's row in ifct_foods
+// may list cooking_variations (fried, tandoor, ...); when the item's method
+// matches one, its oil, calorie and retention factors scale the nutrition and
+// the applied factors are kept on the item as `cookingModifier`.
+//
+// The modifier is stored with the item so a later method change (adjust flow)
+// can undo it before applying the new one, instead of stacking factors.
+
+import type { CookingMethod, CookingModifier, DetectedFoodItem } from '@/types';
+import {
+  applyCookingVariation,
+  indianFoodDatabase,
+} from '@/services/indianFoodDatabase';
+import { per100g, roundPer100g } from '@/services/mealItemNutrition';
+import logger from '@/utils/logger';
+
+/**
+ * Re-derive an item's nutrition for `method` (default: its own method).
+ * Unknown methods and foods without a matching variation keep the base
+ * nutrition with `cookingModifier: null`. Lookup failures never throw.
+ */
+export async function applyCookingMethod(
+  item: DetectedFoodItem,
+  method: CookingMethod | undefined = item.cookingMethod
+): Promise<DetectedFoodItem> {
+  const previous = item.cookingModifier;
+  if (previous && previous.method === method) return item;
+
+  let variation: CookingModifier | null = null;
+  if (method) {
+    try {
+      const v = await indianFoodDatabase.findCookingVariation(
+        item.name,
+        method
+      );
+      variation = v && {
+        method,
+        oilFactor: v.oilFactor,
+        calorieModifier: v.calorieModifier,
+        nutrientRetention: v.nutrientRetention,
+      };
+    } catch (err) {
+      logger.warn('[COOKING] variation lookup failed', { err });
+    }
+  }
+
+  const base = previous
+    ? applyCookingVariation(item.nutrition, previous, true)
+    : item.nutrition;
+  const nutrition = variation ? applyCookingVariation(base, variation) : base;
+  const next: DetectedFoodItem = {
+    ...item,
+    cookingMethod: method,
+    cookingModifier: variation,
+    nutrition,
+  };
+  return Number(item.portionSize?.estimatedGrams) > 0
+    ? { ...next, nutritionPer100g: roundPer100g(per100g(next)) }
+    : next;
+}
+
+/** applyCookingMethod over a list, keeping order. */
+export function applyCookingMethods(
+  items: DetectedFoodItem[]
+): Promise<DetectedFoodItem[]> {
+  return Promise.all(items.map((it) => applyCookingMethod(it)));
+}
@@ -0,0 +1,298 @@
+// src/services/dailyStatsService.ts
+// user_daily_stats rollups.
+// - A day is the user's local calendar day (users.timezone, IANA name)
+// - Rows are recomputed from meal_logs rather than incremented, so repeated
+//   or concurrent refreshes converge on the same totals
+// - water_intake_ml is rolled up separately from water_logs; the meal rollup
+//   never touches it (or calories_burned)
+
+import { getSupabase } from '@/database/supabase';
+import logger from '@/utils/logger';
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Kolkata';
+
+export type DailyTotals = {
+  calories_consumed: number;
+  protein_consumed: number;
+  carbs_consumed: number;
+  fats_consumed: number;
+  fiber_consumed: number;
+  sugar_consumed: number;
+  sodium_consumed: number;
+};
+
+type MealRow = {
+  nutrition_total?: Record<string, any> | null;
+  items?: Array<{ nutrition?: Record<string, any> }> | null;
+};
+
+const ZERO: DailyTotals = {
+  calories_consumed: 0,
+  protein_consumed: 0,
+  carbs_consumed: 0,
+  fats_consumed: 0,
+  fiber_consumed: 0,
+  sugar_consumed: 0,
+  sodium_consumed: 0,
+};
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Timezone helpers (Intl only; no tz database dependency)
+// ──────────────────────────────────────────────────────────────────────────────
+export function isValidTimezone(tz: unknown): tz is string {
+  if (typeof tz !== 'string' || !tz) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(instant: Date, tz: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/** Calendar date ("YYYY-MM-DD") of an instant in the given timezone. */
+export function localDate(instant: Date | string, tz: string): string {
+  const p = zonedParts(new Date(instant), tz);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+// UTC offset (ms) of `tz` at `instant`
+function offsetMs(instant: Date, tz: string): number {
+  const p = zonedParts(instant, tz);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// UTC instant of local midnight starting `date` in `tz`
+function localMidnight(date: string, tz: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const guess = Date.UTC(y, m - 1, d);
+  // Re-check the offset at the candidate to handle DST transitions
+  const first = guess - offsetMs(new Date(guess), tz);
+  return new Date(guess - offsetMs(new Date(first), tz));
+}
+
+/** [start, end) UTC bounds of a local calendar day. */
+export function localDayBounds(date: string, tz: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+  return {
+    start: localMidnight(date, tz).toISOString(),
+    end: localMidnight(next, tz).toISOString(),
+  };
+}
+
+/** Every date from..to inclusive ("YYYY-MM-DD"). */
+export function dateRange(from: string, to: string): string[] {
+  const out: string[] = [];
+  const cur = new Date(`${from}T00:00:00Z`);
+  const last = new Date(`${to}T00:00:00Z`);
+  while (cur <= last) {
+    out.push(cur.toISOString().slice(0, 10));
+    cur.setUTCDate(cur.getUTCDate() + 1);
+  }
+  return out;
+}
+
+export async function getUserTimezone(userId: string): Promise<string> {
+  try {
+    const { data } = await getSupabase()
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .single();
+    return isValidTimezone(data?.timezone) ? data!.timezone : DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Rollup
+// ──────────────────────────────────────────────────────────────────────────────
+const pickNum = (
+  obj: Record<string, any> | null | undefined,
+  keys: string[]
+) => {
+  for (const k of keys) {
+    const v = Number(obj?.[k]);
+    if (obj && obj[k] !== undefined && obj[k] !== null && Number.isFinite(v)) {
+      return v;
+    }
+  }
+  return null;
+};
+
+/**
+ * Totals for one meal_logs row. nutrition_total wins; fiber/sugar/sodium fall
+ * back to summing item nutrition for rows saved before those totals existed.
+ */
+export function mealTotals(row: MealRow): DailyTotals {
+  const t = row.nutrition_total || {};
+  const items = Array.isArray(row.items) ? row.items : [];
+  const fromItems = (key: string) =>
+    items.reduce((s, it) => s + (Number(it?.nutrition?.[key]) || 0), 0);
+
+  return {
+    calories_consumed:
+      pickNum(t, ['kcal', 'calories', 'energy_kcal']) ?? fromItems('calories'),
+    protein_consumed:
+      pickNum(t, ['protein_g', 'protein']) ?? fromItems('protein'),
+    carbs_consumed: pickNum(t, ['carbs_g', 'carbs']) ?? fromItems('carbs'),
+    fats_consumed: pickNum(t, ['fat_g', 'fat', 'fats']) ?? fromItems('fat'),
+    fiber_consumed: pickNum(t, ['fiber_g', 'fiber']) ?? fromItems('fiber'),
+    sugar_consumed: pickNum(t, ['sugar_g', 'sugar']) ?? fromItems('sugar'),
+    sodium_consumed: pickNum(t, ['sodium_mg', 'sodium']) ?? fromItems('sodium'),
+  };
+}
+
+export function sumTotals(rows: MealRow[]): DailyTotals {
+  const sum = { ...ZERO };
+  for (const row of rows) {
+    const m = mealTotals(row);
+    for (const k of Object.keys(sum) as Array<keyof DailyTotals>)
+      sum[k] += m[k];
+  }
+  return {
+    ...sum,
+    calories_consumed: Math.round(sum.calories_consumed),
+    protein_consumed: r2(sum.protein_consumed),
+    carbs_consumed: r2(sum.carbs_consumed),
+    fats_consumed: r2(sum.fats_consumed),
+    fiber_consumed: r2(sum.fiber_consumed),
+    sugar_consumed: r2(sum.sugar_consumed),
+    sodium_consumed: r2(sum.sodium_consumed),
+  };
+}
+
+/** Recompute and upsert one user's local day from meal_logs. */
+export async function recomputeDailyStats(
+  userId: string,
+  date: string,
+  tz?: string
+): Promise<DailyTotals> {
+  const zone = tz || (await getUserTimezone(userId));
+  const { start, end } = localDayBounds(date, zone);
+  const supabase = getSupabase();
+
+  const { data: meals, error } = await supabase
+    .from('meal_logs')
+    .select('nutrition_total, items')
+    .eq('user_id', userId)
+    .gte('logged_at', start)
+    .lt('logged_at', end);
+  if (error) throw error;
+
+  const totals = sumTotals(meals || []);
+  const { error: upsertError } = await supabase
+    .from('user_daily_stats')
+    .upsert(
+      { user_id: userId, date, ...totals },
+      { onConflict: 'user_id,date' }
+    );
+  if (upsertError) throw upsertError;
+
+  return totals;
+}
+
+/** Recompute and upsert one user's local-day water total from water_logs. */
+export async function recomputeWaterIntake(
+  userId: string,
+  date: string,
+  tz?: string
+): Promise<number> {
+  const zone = tz || (await getUserTimezone(userId));
+  const { start, end } = localDayBounds(date, zone);
+  const supabase = getSupabase();
+
+  const { data: entries, error } = await supabase
+    .from('water_logs')
+    .select('amount_ml')
+    .eq('user_id', userId)
+    .gte('logged_at', start)
+    .lt('logged_at', end);
+  if (error) throw error;
+
+  const total = Math.round(
+    (entries || []).reduce((s, e) => s + (Number(e.amount_ml) || 0), 0)
+  );
+  const { error: upsertError } = await supabase
+    .from('user_daily_stats')
+    .upsert(
+      { user_id: userId, date, water_intake_ml: total },
+      { onConflict: 'user_id,date' }
+    );
+  if (upsertError) throw upsertError;
+
+  return total;
+}
+
+/**
+ * Refresh the day a meal belongs to after it is created, adjusted or deleted.
+ * Never throws: a failed rollup is logged and can be repaired with
+ * `npm run stats:rebuild`.
+ */
+export async function refreshDailyStatsFor(
+  userId: string | null | undefined,
+  loggedAt: string | Date | null | undefined
+): Promise<void> {
+  if (!userId) return;
+  try {
+    const tz = await getUserTimezone(userId);
+    const date = localDate(loggedAt ? new Date(loggedAt) : new Date(), tz);
+    await recomputeDailyStats(userId, date, tz);
+  } catch (e) {
+    logger.error(`[DAILY_STATS] refresh failed user=${userId}`, e);
+  }
+}
+
+/** Recompute every day in from..to (user-local dates) for the given users. */
+export async function rebuildDailyStats(
+  userIds: string[],
+  from: string,
+  to: string
+): Promise<{ users: number; days: number }> {
+  const days = dateRange(from, to);
+  for (const userId of userIds) {
+    const tz = await getUserTimezone(userId);
+    for (const date of days) {
+      await recomputeDailyStats(userId, date, tz);
+      await recomputeWaterIntake(userId, date, tz);
+    }
+    logger.info(
+      `[DAILY_STATS] rebuilt user=${userId} ${from}..${to} (${days.length} days, ${tz})`
+    );
+  }
+  return { users: userIds.length, days: days.length };
+}
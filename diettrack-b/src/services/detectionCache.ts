@@ -0,0 +1,94 @@
+// src/services/detectionCache.ts
+// Photo detections cached by image hash + prompt + model version, so logging
+// the same photo again skips the model call. Each meal log remembers which
+// entry it came from; feedback that corrects the meal drops that entry.
+
+import crypto from 'crypto';
+import type { BoundingBox, DetectedFoodItem } from '@/types';
+import { cacheDel, cacheGet, cacheSet } from '@/database/redis';
+import { resolveProviderChain } from '@/services/aiProviderRegistry';
+
+export type CachedDetection = {
+  detectedItems: DetectedFoodItem[];
+  /** Provider that answered, not the configured chain */
+  provider: string;
+  /** Model behind that provider, e.g. the Gemini model name */
+  model: string;
+  reason: string;
+  /** Reference object's box, when the model found one */
+  referenceRegion?: BoundingBox;
+};
+
+const TTL_SEC = Number(process.env.ANALYSIS_CACHE_TTL || 3600);
+
+const mealLinkKey = (mealLogId: string) => `detect:meal:${mealLogId}`;
+
+// Same default as aiAnalysis
+const geminiModel = () => process.env.GEMINI_MODEL || 'gemini-flash-latest';
+
+/** Changes whenever a different provider chain or Gemini model would run. */
+export function detectionModelVersion(): string {
+  return `${resolveProviderChain().join('+')}:${geminiModel()}`;
+}
+
+export function detectionCacheKey(input: {
+  imageHash: string;
+  prompt?: string;
+  referenceObject?: string;
+}): string {
+  const digest = crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([
+        input.imageHash,
+        (input.prompt || '').trim().toLowerCase(),
+        input.referenceObject || '',
+        detectionModelVersion(),
+      ])
+    )
+    .digest('hex')
+    .slice(0, 32);
+  return `detect:${digest}`;
+}
+
+export function getCachedDetection(
+  key: string
+): Promise<CachedDetection | null> {
+  return cacheGet<CachedDetection>(key);
+}
+
+/**
+ * Cache a detection from a real provider. Fallback answers aren't kept: the
+ * fixture provider makes up a plate, and replaying it after Gemini recovers
+ * would keep logging the fake one. Resolves true when the entry was stored.
+ */
+export async function setCachedDetection(
+  key: string,
+  detection: Omit<CachedDetection, 'model'>
+): Promise<boolean> {
+  if (detection.provider === 'fixture' || detection.reason !== 'OK') {
+    return false;
+  }
+  const model =
+    detection.provider === 'gemini' ? geminiModel() : detection.provider;
+  await cacheSet(key, { ...detection, model }, TTL_SEC);
+  return true;
+}
+
+/** Remember which cache entry produced a meal log. */
+export function linkMealToDetection(
+  mealLogId: string,
+  key: string
+): Promise<void> {
+  return cacheSet(mealLinkKey(mealLogId), key, TTL_SEC);
+}
+
+/** Drop the detection behind a meal log; no-op if it was never cached. */
+export async function invalidateDetectionForMeal(
+  mealLogId: string
+): Promise<void> {
+  const key = await cacheGet<string>(mealLinkKey(mealLogId));
+  if (!key) return;
+  await cacheDel(key);
+  await cacheDel(mealLinkKey(mealLogId));
+}
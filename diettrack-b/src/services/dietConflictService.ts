@@ -0,0 +1,406 @@
+// src/services/dietConflictService.ts
+// Cross-checks analysed items against the user's allergies and diet. Item
+// names, regional names and ingredients are matched against keyword groups
+// (paneer → dairy, aloo → root vegetable, ...), and the food DB's allergen and
+// veg/vegan flags are used when the dish is known there.
+//
+// Allergies come from the profile plus any sent with the request; free-text
+// allergies that aren't a known group are matched as plain words.
+
+import type {
+  AnalysisWarning,
+  DetectedFoodItem,
+  IFCTFood,
+  UserContext,
+} from '@/types';
+import { getSupabase } from '@/database/supabase';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+import logger from '@/utils/logger';
+
+export type DietProfile = {
+  allergies: string[];
+  dietaryPrefs: string[];
+};
+
+type Group =
+  | 'meat'
+  | 'fish'
+  | 'shellfish'
+  | 'egg'
+  | 'dairy'
+  | 'lactose'
+  | 'gluten'
+  | 'peanut'
+  | 'tree_nut'
+  | 'soy'
+  | 'sesame'
+  | 'root_vegetable'
+  | 'honey';
+
+const DAIRY = [
+  'milk',
+  'paneer',
+  'curd',
+  'dahi',
+  'yogurt',
+  'yoghurt',
+  'butter',
+  'buttermilk',
+  'chaas',
+  'cheese',
+  'cream',
+  'malai',
+  'khoa',
+  'khoya',
+  'raita',
+  'lassi',
+  'kheer',
+  'rabri',
+  'shrikhand',
+  'kulfi',
+];
+
+const KEYWORDS: Record<Group, string[]> = {
+  meat: [
+    'meat',
+    'chicken',
+    'murgh',
+    'mutton',
+    'gosht',
+    'lamb',
+    'goat',
+    'keema',
+    'beef',
+    'pork',
+    'bacon',
+    'ham',
+    'sausage',
+  ],
+  fish: [
+    'fish',
+    'machli',
+    'machhi',
+    'pomfret',
+    'surmai',
+    'rohu',
+    'hilsa',
+    'bangda',
+    'mackerel',
+    'salmon',
+    'tuna',
+  ],
+  shellfish: [
+    'prawn',
+    'shrimp',
+    'jhinga',
+    'crab',
+    'lobster',
+    'squid',
+    'clam',
+    'mussel',
+    'oyster',
+  ],
+  egg: ['egg', 'anda', 'omelette', 'omelet', 'mayonnaise'],
+  dairy: [...DAIRY, 'ghee'],
+  // Ghee is nearly lactose-free
+  lactose: DAIRY,
+  gluten: [
+    'wheat',
+    'atta',
+    'maida',
+    'roti',
+    'chapati',
+    'chapathi',
+    'phulka',
+    'naan',
+    'paratha',
+    'puri',
+    'poori',
+    'bhatura',
+    'bread',
+    'pav',
+    'suji',
+    'sooji',
+    'rava',
+    'semolina',
+    'samosa',
+    'kachori',
+    'barley',
+  ],
+  peanut: ['peanut', 'groundnut', 'moongphali'],
+  tree_nut: [
+    'cashew',
+    'kaju',
+    'almond',
+    'badam',
+    'pistachio',
+    'pista',
+    'walnut',
+    'akhrot',
+  ],
+  soy: ['soy', 'soya', 'tofu', 'edamame'],
+  sesame: ['sesame', 'til', 'gingelly'],
+  root_vegetable: [
+    'onion',
+    'pyaz',
+    'pyaaz',
+    'garlic',
+    'lahsun',
+    'potato',
+    'aloo',
+    'carrot',
+    'gajar',
+    'beetroot',
+    'radish',
+    'mooli',
+    'ginger',
+    'adrak',
+    'yam',
+  ],
+  honey: ['honey', 'shahad'],
+};
+
+// Free-text allergy → groups it stands for
+const ALLERGY_ALIASES: Record<string, Group[]> = {
+  milk: ['dairy'],
+  dairy: ['dairy'],
+  lactose: ['lactose'],
+  egg: ['egg'],
+  eggs: ['egg'],
+  gluten: ['gluten'],
+  wheat: ['gluten'],
+  peanut: ['peanut'],
+  peanuts: ['peanut'],
+  groundnut: ['peanut'],
+  nut: ['peanut', 'tree_nut'],
+  nuts: ['peanut', 'tree_nut'],
+  tree_nut: ['tree_nut'],
+  tree_nuts: ['tree_nut'],
+  fish: ['fish'],
+  shellfish: ['shellfish'],
+  seafood: ['fish', 'shellfish'],
+  crustacean: ['shellfish'],
+  soy: ['soy'],
+  soya: ['soy'],
+  sesame: ['sesame'],
+};
+
+// Diet → groups it excludes
+const DIET_EXCLUDES: Record<string, Group[]> = {
+  vegetarian: ['meat', 'fish', 'shellfish', 'egg'],
+  eggetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'egg', 'dairy', 'honey'],
+  jain: ['meat', 'fish', 'shellfish', 'egg', 'root_vegetable', 'honey'],
+  lactose_intolerant: ['lactose'],
+  gluten_free: ['gluten'],
+};
+
+const DIET_LABELS: Record<string, string> = {
+  vegetarian: 'vegetarian diet',
+  eggetarian: 'eggetarian diet',
+  vegan: 'vegan diet',
+  jain: 'Jain diet',
+  lactose_intolerant: 'lactose intolerance',
+  gluten_free: 'gluten-free diet',
+};
+
+const GROUP_LABELS: Record<Group, string> = {
+  meat: 'meat',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  egg: 'egg',
+  dairy: 'dairy',
+  lactose: 'dairy',
+  gluten: 'gluten',
+  peanut: 'peanuts',
+  tree_nut: 'tree nuts',
+  soy: 'soy',
+  sesame: 'sesame',
+  root_vegetable: 'root vegetables',
+  honey: 'honey',
+};
+
+// "coconut milk", "peanut butter" etc. aren't dairy
+const PLANT_DAIRY_RE =
+  /(coconut|almond|soy|soya|oat|cashew|peanut|cocoa)\s+(milk|butter|cream|curd|yogurt)/g;
+
+const norm = (s: unknown) =>
+  String(s ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** First of `words` found as a whole word (plurals allowed) in `text`. */
+function findWord(text: string, words: string[]): string | null {
+  for (const w of words) {
+    const re = new RegExp(
+      `(^|[^a-z])${escapeRe(w).replace(/_/g, ' ')}(s|es)?([^a-z]|$)`
+    );
+    if (re.test(text)) return w;
+  }
+  return null;
+}
+
+type Match = { term: string; source: 'name' | 'ingredient' | 'food_db' };
+
+function matchGroup(
+  item: DetectedFoodItem,
+  words: string[],
+  dbHit: boolean
+): Match | null {
+  const clean = (s: unknown) =>
+    String(s ?? '')
+      .toLowerCase()
+      .replace(PLANT_DAIRY_RE, '$1');
+  const names = [item.name, item.regionalName].map(clean).join(' ');
+  const inName = findWord(names, words);
+  if (inName) return { term: inName, source: 'name' };
+  for (const ing of item.ingredients || []) {
+    const hit = findWord(clean(ing), words);
+    if (hit) return { term: hit, source: 'ingredient' };
+  }
+  return dbHit ? { term: item.name, source: 'food_db' } : null;
+}
+
+// Does the food DB say this dish belongs to `group`?
+function dbSays(
+  food: IFCTFood | null,
+  group: Group,
+  item: DetectedFoodItem
+): boolean {
+  if (!food) return false;
+  const allergens = (food.allergens || []).map(norm);
+  // IFCT marks egg dishes non-veg too, so the flag only means meat otherwise
+  if (group === 'meat') {
+    return (
+      food.isVegetarian === false && !matchGroup(item, KEYWORDS.egg, false)
+    );
+  }
+  if (group === 'dairy' || group === 'lactose') {
+    return allergens.some((a) => ['milk', 'dairy', 'lactose'].includes(a));
+  }
+  return allergens.some((a) => (ALLERGY_ALIASES[a] || []).includes(group));
+}
+
+async function lookupFood(name: string): Promise<IFCTFood | null> {
+  try {
+    const foods = await indianFoodDatabase.searchFood(name);
+    return foods[0] ?? null;
+  } catch (err) {
+    logger.warn('[DIET] food lookup failed', { err });
+    return null;
+  }
+}
+
+/**
+ * Allergies and diet for a user: the stored profile merged with whatever the
+ * request's userContext adds. Never throws.
+ */
+export async function getDietProfile(
+  userId?: string,
+  context?: Pick<UserContext, 'allergies' | 'dietaryPrefs'>
+): Promise<DietProfile> {
+  let row: { allergies?: unknown; dietary_preferences?: unknown } | null = null;
+  if (userId) {
+    try {
+      const { data } = await getSupabase()
+        .from('users')
+        .select('allergies, dietary_preferences')
+        .eq('id', userId)
+        .single();
+      row = data;
+    } catch (err) {
+      logger.warn('[DIET] profile lookup failed', { err });
+    }
+  }
+  const list = (...sources: unknown[]) =>
+    Array.from(
+      new Set(
+        sources
+          .flatMap((s) => (Array.isArray(s) ? s : []))
+          .map(norm)
+          .filter(Boolean)
+      )
+    );
+  return {
+    allergies: list(row?.allergies, context?.allergies),
+    dietaryPrefs: list(row?.dietary_preferences, context?.dietaryPrefs),
+  };
+}
+
+/**
+ * ALLERGY_CONFLICT (critical) and DIET_CONFLICT (warning) for each item,
+ * at most one per item and allergy/diet.
+ */
+export async function checkDietConflicts(
+  items: DetectedFoodItem[],
+  profile: DietProfile
+): Promise<AnalysisWarning[]> {
+  const diets = profile.dietaryPrefs.filter((d) => DIET_EXCLUDES[d]);
+  if (!items.length || (!profile.allergies.length && !diets.length)) {
+    return [];
+  }
+
+  const foods = await Promise.all(items.map((it) => lookupFood(it.name)));
+  const warnings: AnalysisWarning[] = [];
+
+  items.forEach((item, i) => {
+    const food = foods[i];
+
+    const find = (groups: Group[]) => {
+      for (const group of groups) {
+        const match = matchGroup(
+          item,
+          KEYWORDS[group],
+          dbSays(food, group, item)
+        );
+        if (match) {
+          const what =
+            match.source === 'food_db' ? GROUP_LABELS[group] : match.term;
+          return { ...match, what };
+        }
+      }
+      return null;
+    };
+
+    for (const allergy of profile.allergies) {
+      const match = ALLERGY_ALIASES[allergy]
+        ? find(ALLERGY_ALIASES[allergy])
+        : matchGroup(item, [allergy], false);
+      if (!match) continue;
+      warnings.push({
+        code: 'ALLERGY_CONFLICT',
+        severity: 'critical',
+        message: `${item.name} may contain ${allergy.replace(
+          /_/g,
+          ' '
+        )}, which you're allergic to`,
+        itemId: item.itemId,
+        allergy,
+        matched: match.term,
+        source: match.source,
+      });
+    }
+
+    for (const diet of diets) {
+      let match = find(DIET_EXCLUDES[diet]);
+      if (!match && diet === 'vegan' && food?.isVegan === false) {
+        const what = 'animal products';
+        match = { term: item.name, source: 'food_db', what };
+      }
+      if (!match) continue;
+      warnings.push({
+        code: 'DIET_CONFLICT',
+        severity: 'warning',
+        message: `${item.name} contains ${match.what}, which doesn't fit your ${DIET_LABELS[diet]}`,
+        itemId: item.itemId,
+        diet,
+        matched: match.term,
+        source: match.source,
+      });
+    }
+  });
+  return warnings;
+}
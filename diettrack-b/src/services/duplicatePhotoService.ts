@@ -0,0 +1,75 @@
+// src/services/duplicatePhotoService.ts
+// Near-duplicate photo check. Compares the upload's perceptual hash with the
+// user's other photo meals around the same time, so a re-saved or cropped copy
+// of one photo is flagged instead of silently logged twice. Advisory only:
+// the meal is still logged and the app decides what to do with the warning.
+
+import type { AnalysisWarning } from '@/types';
+import { getSupabase } from '@/database/supabase';
+import { getUserTimezone } from '@/services/dailyStatsService';
+import { hammingDistance } from '@/utils/imageHash';
+import logger from '@/utils/logger';
+
+// Minutes either side of the new meal to look for a match
+const WINDOW_MIN = Number(process.env.DUPLICATE_PHOTO_WINDOW_MIN || 180);
+// Differing bits (of 64) still treated as the same photo
+const MAX_DISTANCE = Number(process.env.DUPLICATE_PHOTO_MAX_DISTANCE || 10);
+
+export type DuplicateMatch = {
+  meal_log_id: string;
+  logged_at: string;
+  distance: number;
+};
+
+/** Closest photo meal within the window, or null. Never throws. */
+export async function findNearDuplicateMeal(
+  userId: string,
+  phash: string,
+  at: Date = new Date()
+): Promise<DuplicateMatch | null> {
+  const span = WINDOW_MIN * 60_000;
+  try {
+    const { data, error } = await getSupabase()
+      .from('meal_logs')
+      .select('id, logged_at, image_phash')
+      .eq('user_id', userId)
+      .gte('logged_at', new Date(at.getTime() - span).toISOString())
+      .lte('logged_at', new Date(at.getTime() + span).toISOString());
+    if (error) throw error;
+
+    let best: DuplicateMatch | null = null;
+    for (const row of data || []) {
+      if (!row.image_phash) continue;
+      const distance = hammingDistance(phash, row.image_phash);
+      if (distance > MAX_DISTANCE) continue;
+      if (!best || distance < best.distance) {
+        best = { meal_log_id: row.id, logged_at: row.logged_at, distance };
+      }
+    }
+    return best;
+  } catch (err) {
+    logger.warn('[DUPLICATE] near-duplicate lookup failed', { err });
+    return null;
+  }
+}
+
+/** "This looks like the meal you logged at 13:05", in the user's timezone. */
+export async function duplicateWarning(
+  userId: string,
+  match: DuplicateMatch
+): Promise<AnalysisWarning> {
+  const tz = await getUserTimezone(userId);
+  const time = new Intl.DateTimeFormat('en-GB', {
+    timeZone: tz,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  }).format(new Date(match.logged_at));
+  return {
+    code: 'POSSIBLE_DUPLICATE',
+    severity: 'warning',
+    message: `This looks like the meal you logged at ${time}`,
+    meal_log_id: match.meal_log_id,
+    logged_at: match.logged_at,
+  };
+}
@@ -0,0 +1,420 @@
+// src/services/feedbackCorrectionService.ts
+// Per-item corrections sent with analysis feedback ("that was poha, not upma,
+// about 200 g"). They are applied to the meal_log the way a portion
+// adjustment is: renamed items re-enriched from the food DB, nutrition
+// rescaled, an adjustments entry appended. Every corrected item is also kept
+// in food_corrections, whose per-food stats show which dishes the analysis
+// keeps getting wrong.
+
+import { getSupabase } from '@/database/supabase';
+import logger from '@/utils/logger';
+import { applyCookingMethod } from '@/services/cookingMethodService';
+import { refreshDailyStatsFor } from '@/services/dailyStatsService';
+import { searchKey } from '@/services/foodSearchService';
+import { getIFCTFoodByName } from '@/services/ifctService';
+import {
+  clamp0,
+  nutritionColumns,
+  per100g,
+  rescaleItem,
+  summarizeNutrition,
+  type IngredientAddOn,
+  type NutritionSummary,
+} from '@/services/mealItemNutrition';
+import type { DetectedFoodItem, ItemCorrection } from '@/types';
+
+export type CorrectionError = {
+  code: 'NOT_FOUND' | 'UNKNOWN_ITEM' | 'DB_ERROR';
+  message: string;
+  details?: unknown;
+};
+
+/** A food_corrections row, before it's tied to its feedback. */
+type FoodCorrectionRow = {
+  meal_log_id: string;
+  user_id: string;
+  item_id: number;
+  detected_name: string;
+  corrected_name: string | null;
+  detected_grams: number | null;
+  corrected_grams: number | null;
+  ingredients_corrected: boolean;
+};
+
+/** Everything needed to write the corrections; nothing is stored yet. */
+export type CorrectionPlan = {
+  mealLogId: string;
+  userId: string;
+  loggedAt: string | null;
+  items: DetectedFoodItem[];
+  nutritionSummary: NutritionSummary;
+  update: Record<string, unknown>;
+  rows: FoodCorrectionRow[];
+};
+
+export type FoodCorrectionStat = {
+  /** Most recent spelling of the detected name */
+  food_name: string;
+  corrections: number;
+  users: number;
+  renamed: number;
+  /** What users called it instead, most frequent first (top 3) */
+  renamed_to: Array<{ name: string; count: number }>;
+  portion_corrections: number;
+  /** Median corrected / detected grams; > 1 means the analysis under-weighs */
+  median_portion_ratio: number | null;
+  ingredient_corrections: number;
+  last_corrected_at: string;
+};
+
+const STATS_MAX_ROWS = 5000;
+const RENAMED_TO_TOP = 3;
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+const gramsOf = (it?: DetectedFoodItem) =>
+  clamp0(Number(it?.portionSize?.estimatedGrams));
+
+// Same audit shape as a portion adjustment, so learned portions see it too
+const snapshot = (it?: DetectedFoodItem) => ({
+  grams: it?.portionSize?.estimatedGrams ?? 0,
+  cookingMethod: it?.cookingMethod ?? null,
+  calories: it?.nutrition?.calories ?? 0,
+  protein: it?.nutrition?.protein ?? 0,
+  carbs: it?.nutrition?.carbs ?? 0,
+  fat: it?.nutrition?.fat ?? 0,
+});
+
+// One item with its correction applied. A new name takes its macros from the
+// food DB when the name is known there (the user's own recipes included);
+// other nutrients, which the food DB doesn't carry, stay as analysed.
+async function correctItem(
+  item: DetectedFoodItem,
+  c: ItemCorrection,
+  userId: string
+): Promise<{
+  item: DetectedFoodItem;
+  row: Omit<FoodCorrectionRow, 'meal_log_id'> | null;
+}> {
+  const name = c.correctName?.trim();
+  const renamed = !!name && name.toLowerCase() !== item.name.toLowerCase();
+  const grams = gramsOf(item);
+  const regrammed =
+    c.correctPortion !== undefined && Math.abs(c.correctPortion - grams) >= 1;
+
+  let next = item;
+  if (renamed) {
+    const food = await getIFCTFoodByName(name!, userId);
+    const target = regrammed
+      ? c.correctPortion!
+      : grams || clamp0(Number(food?.serving_size_g)) || 100;
+    const per100 = food
+      ? {
+          ...per100g(item),
+          calories: food.energy_kcal_per_100g,
+          protein: food.protein_g_per_100g,
+          carbs: food.carbs_g_per_100g,
+          fat: food.fat_g_per_100g,
+        }
+      : per100g(item);
+    const rescaled = rescaleItem({ ...item, name: name! }, target, per100);
+    next = regrammed
+      ? rescaled
+      : {
+          ...rescaled,
+          portionSize: {
+            ...rescaled.portionSize,
+            source: item.portionSize.source,
+          },
+        };
+    // The food DB's values are plain, so the old dish's cooking modifier no
+    // longer applies; re-derive it for the new food
+    if (food) {
+      next = await applyCookingMethod(
+        { ...next, cookingModifier: null },
+        item.cookingMethod
+      );
+    }
+  } else if (regrammed) {
+    next = rescaleItem(item, c.correctPortion!);
+  }
+  if (c.correctIngredients) {
+    next = { ...next, ingredients: [...c.correctIngredients] };
+  }
+
+  if (!renamed && !regrammed && !c.correctIngredients) {
+    return { item, row: null };
+  }
+  return {
+    item: next,
+    row: {
+      user_id: userId,
+      item_id: Number(item.itemId),
+      detected_name: item.name,
+      corrected_name: renamed ? name! : null,
+      detected_grams: grams || null,
+      corrected_grams: regrammed ? c.correctPortion! : null,
+      ingredients_corrected: !!c.correctIngredients,
+    },
+  };
+}
+
+/** The user's meal log; someone else's, or a guest's, is NOT_FOUND. */
+export async function findOwnedMealLog(
+  mealLogId: string,
+  userId: string
+): Promise<{ row: Record<string, any> } | { error: CorrectionError }> {
+  const { data: row, error } = await getSupabase()
+    .from('meal_logs')
+    .select('*')
+    .eq('id', mealLogId)
+    .maybeSingle();
+  if (error) {
+    logger.error('[FEEDBACK] meal log fetch failed', { mealLogId, error });
+    return { error: { code: 'DB_ERROR', message: 'Failed to load meal log' } };
+  }
+  if (!row || !row.user_id || String(row.user_id) !== userId) {
+    return { error: { code: 'NOT_FOUND', message: 'Analysis not found' } };
+  }
+  return { row };
+}
+
+/**
+ * Check corrections against the user's meal log and work out the corrected
+ * items, without writing anything: a bad itemId must fail before the feedback
+ * itself is stored.
+ */
+export async function prepareCorrections(
+  mealLogId: string,
+  userId: string,
+  corrections: readonly ItemCorrection[]
+): Promise<{ plan: CorrectionPlan } | { error: CorrectionError }> {
+  const found = await findOwnedMealLog(mealLogId, userId);
+  if ('error' in found) return found;
+  const { row } = found;
+
+  // Rows written before the meal_logs migration used `detected_items`
+  const original: DetectedFoodItem[] = Array.isArray(row.items)
+    ? row.items
+    : Array.isArray(row.detected_items)
+    ? row.detected_items
+    : [];
+  const byId = new Map(corrections.map((c) => [Number(c.itemId), c]));
+  const known = new Set(original.map((it) => Number(it.itemId)));
+  const unknown = [...byId.keys()].filter((k) => !known.has(k));
+  if (unknown.length) {
+    return {
+      error: {
+        code: 'UNKNOWN_ITEM',
+        message: `Unknown itemId: ${unknown.join(', ')}`,
+        details: { itemIds: unknown },
+      },
+    };
+  }
+
+  const results = await Promise.all(
+    original.map(async (it) => {
+      const c = byId.get(Number(it.itemId));
+      return c ? correctItem(it, c, userId) : { item: it, row: null };
+    })
+  );
+  const items = results.map((r) => r.item);
+  const addOns: IngredientAddOn[] = Array.isArray(row.add_ons)
+    ? row.add_ons
+    : [];
+  const nutritionSummary = summarizeNutrition(items, addOns);
+  const rows = results.flatMap((r) =>
+    r.row ? [{ ...r.row, meal_log_id: mealLogId }] : []
+  );
+
+  const originalById = new Map(original.map((it) => [Number(it.itemId), it]));
+  const corrected = new Set(rows.map((r) => r.item_id));
+  const auditEntry = {
+    adjusted_at: new Date().toISOString(),
+    user_id: userId,
+    source: 'feedback',
+    items: items
+      .filter((it) => corrected.has(Number(it.itemId)))
+      .map((it) => ({
+        itemId: it.itemId,
+        name: it.name,
+        original: snapshot(originalById.get(Number(it.itemId))),
+        adjusted: snapshot(it),
+      })),
+    nutrition_total: {
+      original: row.nutrition_total ?? null,
+      adjusted: nutritionSummary,
+    },
+  };
+
+  return {
+    plan: {
+      mealLogId,
+      userId,
+      loggedAt: row.logged_at ?? null,
+      items,
+      nutritionSummary,
+      rows,
+      update: {
+        feedback_received: true,
+        ...(rows.length
+          ? {
+              items,
+              ...nutritionColumns(items, addOns, nutritionSummary),
+              adjustments: [
+                ...(Array.isArray(row.adjustments) ? row.adjustments : []),
+                auditEntry,
+              ],
+            }
+          : {}),
+      },
+    },
+  };
+}
+
+/** Write a prepared plan: the meal log, its food_corrections, daily stats. */
+export async function applyCorrections(
+  plan: CorrectionPlan,
+  feedbackId: string
+): Promise<{ error?: CorrectionError }> {
+  const supabase = getSupabase();
+  const { error } = await supabase
+    .from('meal_logs')
+    .update(plan.update)
+    .eq('id', plan.mealLogId)
+    .eq('user_id', plan.userId);
+  if (error) {
+    logger.error('[FEEDBACK] meal log update failed', {
+      mealLogId: plan.mealLogId,
+      error,
+    });
+    return {
+      error: { code: 'DB_ERROR', message: 'Failed to apply corrections' },
+    };
+  }
+  if (!plan.rows.length) return {};
+
+  // The meal log is already right; a missing stats row isn't worth failing on
+  const { error: insertError } = await supabase
+    .from('food_corrections')
+    .insert(plan.rows.map((r) => ({ ...r, feedback_id: feedbackId })));
+  if (insertError) {
+    logger.warn('[FEEDBACK] food_corrections insert failed', {
+      feedbackId,
+      insertError,
+    });
+  }
+  await refreshDailyStatsFor(plan.userId, plan.loggedAt);
+  return {};
+}
+
+/** Flag the meal log as having feedback. Never throws. */
+export async function markFeedbackReceived(
+  mealLogId: string,
+  userId: string
+): Promise<void> {
+  try {
+    const { error } = await getSupabase()
+      .from('meal_logs')
+      .update({ feedback_received: true })
+      .eq('id', mealLogId)
+      .eq('user_id', userId);
+    if (error) throw error;
+  } catch (err) {
+    logger.warn('[FEEDBACK] could not flag meal log', { mealLogId, err });
+  }
+}
+
+const median = (xs: number[]) => {
+  if (!xs.length) return null;
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+};
+
+/**
+ * Corrections per detected food over the last `days`, most corrected first.
+ * Spellings of one food ("chapathi", "Chapati") are counted together. Foods
+ * corrected fewer than `minCorrections` times are left out.
+ */
+export async function foodCorrectionStats(
+  opts: { days?: number; limit?: number; minCorrections?: number } = {}
+): Promise<FoodCorrectionStat[]> {
+  const { days = 90, limit = 20, minCorrections = 2 } = opts;
+  const since = new Date(Date.now() - days * 86_400_000).toISOString();
+  const { data, error } = await getSupabase()
+    .from('food_corrections')
+    .select(
+      'user_id, detected_name, corrected_name, detected_grams, corrected_grams, ingredients_corrected, created_at'
+    )
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(STATS_MAX_ROWS);
+  if (error) throw error;
+
+  const groups = new Map<
+    string,
+    {
+      stat: FoodCorrectionStat;
+      users: Set<string>;
+      names: Map<string, { name: string; count: number }>;
+      ratios: number[];
+    }
+  >();
+  // Newest first, so the first row of a food names it and dates it
+  for (const row of data || []) {
+    const key = searchKey(row.detected_name);
+    if (!key) continue;
+    let g = groups.get(key);
+    if (!g) {
+      g = {
+        stat: {
+          food_name: row.detected_name,
+          corrections: 0,
+          users: 0,
+          renamed: 0,
+          renamed_to: [],
+          portion_corrections: 0,
+          median_portion_ratio: null,
+          ingredient_corrections: 0,
+          last_corrected_at: row.created_at,
+        },
+        users: new Set(),
+        names: new Map(),
+        ratios: [],
+      };
+      groups.set(key, g);
+    }
+    g.stat.corrections++;
+    if (row.user_id) g.users.add(String(row.user_id));
+    if (row.corrected_name) {
+      g.stat.renamed++;
+      const nameKey = searchKey(row.corrected_name);
+      const n = g.names.get(nameKey) || { name: row.corrected_name, count: 0 };
+      n.count++;
+      g.names.set(nameKey, n);
+    }
+    const from = Number(row.detected_grams);
+    const to = Number(row.corrected_grams);
+    if (row.corrected_grams !== null && to > 0) {
+      g.stat.portion_corrections++;
+      if (from > 0) g.ratios.push(to / from);
+    }
+    if (row.ingredients_corrected) g.stat.ingredient_corrections++;
+  }
+
+  return [...groups.values()]
+    .map(({ stat, users, names, ratios }) => {
+      const ratio = median(ratios);
+      return {
+        ...stat,
+        users: users.size,
+        renamed_to: [...names.values()]
+          .sort((a, b) => b.count - a.count)
+          .slice(0, RENAMED_TO_TOP),
+        median_portion_ratio: ratio === null ? null : r2(ratio),
+      };
+    })
+    .filter((s) => s.corrections >= minCorrections)
+    .sort((a, b) => b.corrections - a.corrections || b.users - a.users)
+    .slice(0, limit);
+}
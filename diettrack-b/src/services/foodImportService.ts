@@ -0,0 +1,529 @@
+// src/services/foodImportService.ts
+// Bulk load of IFCT and supplementary food tables into ifct_foods, so the food
+// DB can be rebuilt from files instead of edited by hand. Rows are validated
+// and normalised (energy to kcal, nutrients to g/mg per 100 g, portions to g),
+// upserted on their stable source `code` and stamped with the dataset version;
+// each import is recorded in food_datasets. Invalid rows are reported per row
+// and, unless skipped explicitly, stop the whole import.
+
+import crypto from 'crypto';
+import Joi from 'joi';
+import { getSupabase } from '@/database/supabase';
+import { INDIAN_REGIONS } from '@/services/regionalPortions';
+import logger from '@/utils/logger';
+import type { IndianRegion } from '@/types';
+
+export type FoodSource = {
+  /** File name, used in the report and the dataset record */
+  name: string;
+  text: string;
+  /** Defaults from the file extension */
+  format?: 'csv' | 'json';
+};
+
+/** An ifct_foods row as written by the import. */
+export type ImportedFood = {
+  code: string;
+  canonical_name: string;
+  regional_names: string[];
+  search_keywords: string[];
+  portion_grams: number | null;
+  category: string | null;
+  region: IndianRegion | null;
+  is_vegetarian: boolean | null;
+  nutrition: Partial<Record<NutrientKey, number>>;
+  cooking_variations: Array<Record<string, unknown>>;
+  dataset_version: string;
+};
+
+export type RowError = {
+  source: string;
+  /** 1-based data row (CSV: excluding the header) */
+  row: number;
+  code: string | null;
+  errors: string[];
+};
+
+export type ImportReport = {
+  version: string;
+  dryRun: boolean;
+  sources: Array<{ file: string; sha256: string; rows: number }>;
+  valid: number;
+  invalid: number;
+  /** Rows written; 0 on a dry run or when invalid rows stopped the import */
+  upserted: number;
+  errors: RowError[];
+};
+
+type NutrientKey =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugar'
+  | 'sodium'
+  | 'cholesterol';
+
+// Stored unit of each nutrient (per 100 g), and the column names accepted for
+// it. The keys match the nutrition JSON read by mealLogService and friends.
+const NUTRIENTS: Record<
+  NutrientKey,
+  { unit: 'kcal' | 'g' | 'mg'; columns: string[]; required?: boolean }
+> = {
+  calories: {
+    unit: 'kcal',
+    columns: ['calories', 'energy', 'energy_kcal', 'kcal', 'energy_kj', 'kj'],
+    required: true,
+  },
+  protein: { unit: 'g', columns: ['protein', 'protein_g'], required: true },
+  carbs: {
+    unit: 'g',
+    columns: ['carbs', 'carbs_g', 'carbohydrate', 'carbohydrates'],
+    required: true,
+  },
+  fat: { unit: 'g', columns: ['fat', 'fat_g', 'total_fat'], required: true },
+  fiber: { unit: 'g', columns: ['fiber', 'fiber_g', 'fibre', 'fibre_g'] },
+  sugar: { unit: 'g', columns: ['sugar', 'sugar_g', 'sugars'] },
+  sodium: { unit: 'mg', columns: ['sodium', 'sodium_mg'] },
+  cholesterol: { unit: 'mg', columns: ['cholesterol', 'cholesterol_mg'] },
+};
+
+// Factor to grams (mass) or kcal (energy)
+const UNIT_FACTORS: Record<string, { kind: 'mass' | 'energy'; f: number }> = {
+  kg: { kind: 'mass', f: 1000 },
+  g: { kind: 'mass', f: 1 },
+  gm: { kind: 'mass', f: 1 },
+  mg: { kind: 'mass', f: 1e-3 },
+  mcg: { kind: 'mass', f: 1e-6 },
+  ug: { kind: 'mass', f: 1e-6 },
+  µg: { kind: 'mass', f: 1e-6 },
+  // Portions of drinks: water density is close enough
+  ml: { kind: 'mass', f: 1 },
+  l: { kind: 'mass', f: 1000 },
+  kcal: { kind: 'energy', f: 1 },
+  cal: { kind: 'energy', f: 1 },
+  kj: { kind: 'energy', f: 1 / 4.184 },
+};
+
+const MAX_PER_100G: Record<'kcal' | 'g' | 'mg', number> = {
+  kcal: 900, // pure fat
+  g: 100,
+  mg: 100000,
+};
+
+const UPSERT_BATCH = 500;
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** RFC 4180 CSV: quotes, "" escapes, CRLF or LF; first line is the header. */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let quoted = false;
+  const src = text.replace(/^﻿/, '');
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter((r) => r.some((v) => v.trim()));
+  if (!header) return [];
+  const keys = header.map(columnKey);
+  return rows.map((r) =>
+    Object.fromEntries(keys.map((k, i) => [k, (r[i] ?? '').trim()]))
+  );
+}
+
+// "Protein (g)" → "protein_g", "Energy kJ" → "energy_kj"
+function columnKey(name: string): string {
+  return String(name)
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9µ]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/** Rows of a CSV file, or of a JSON array (or `{ "foods": [...] }`). */
+export function parseFoodFile(source: FoodSource): Record<string, unknown>[] {
+  const format =
+    source.format || (/\.json$/i.test(source.name) ? 'json' : 'csv');
+  if (format === 'csv') return parseCsv(source.text);
+  const data = JSON.parse(source.text);
+  const rows = Array.isArray(data) ? data : data?.foods;
+  if (!Array.isArray(rows)) {
+    throw new Error(`${source.name}: expected an array of foods`);
+  }
+  return rows.map((r) =>
+    Object.fromEntries(
+      Object.entries(r && typeof r === 'object' ? r : {}).map(([k, v]) => [
+        columnKey(k),
+        v,
+      ])
+    )
+  );
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Normalisation
+// ──────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A number from `12.5`, `"12.5"`, `"350 mg"` or `"1,200 kJ"`, converted to
+ * `target`. The column's own unit ("sodium_mg", "energy_kj") applies when the
+ * value has none. Null when blank; throws on unreadable values.
+ */
+export function toUnit(
+  value: unknown,
+  target: string,
+  columnUnit?: string
+): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const m =
+    typeof value === 'number'
+      ? [String(value), String(value), '']
+      : /^(-?\d+(?:\.\d+)?)\s*([a-zµ]*)$/i.exec(
+          String(value).trim().replace(/,/g, '')
+        );
+  if (!m || !Number.isFinite(Number(m[1]))) {
+    throw new Error(`not a number: "${value}"`);
+  }
+  const unit = (m[2] || columnUnit || target).toLowerCase();
+  const from = UNIT_FACTORS[unit];
+  const to = UNIT_FACTORS[target];
+  if (!from || !to || from.kind !== to.kind) {
+    throw new Error(`cannot convert ${unit} to ${target}`);
+  }
+  return (Number(m[1]) * from.f) / to.f;
+}
+
+function unitOfColumn(column: string): string | undefined {
+  const suffix = column.split('_').pop() || '';
+  return UNIT_FACTORS[suffix] ? suffix : undefined;
+}
+
+// "Chawal|Bhat", "chawal; bhat" or a JSON array
+function list(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : String(value ?? '').split(/[|;]/);
+  return Array.from(
+    new Set(items.map((v) => String(v).trim()).filter(Boolean))
+  );
+}
+
+// "yes", "veg", "non-veg", true, 0 …; null when blank
+function flag(value: unknown): boolean | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value;
+  const v = String(value).trim().toLowerCase();
+  if (['1', 'y', 'yes', 'true', 'veg', 'vegetarian'].includes(v)) return true;
+  if (['0', 'n', 'no', 'false', 'non-veg', 'nonveg', 'non_veg'].includes(v)) {
+    return false;
+  }
+  throw new Error(`not a yes/no value: "${value}"`);
+}
+
+const first = (raw: Record<string, unknown>, columns: string[]) => {
+  const column = columns.find(
+    (c) => raw[c] !== undefined && raw[c] !== null && raw[c] !== ''
+  );
+  return column ? { column, value: raw[column] } : null;
+};
+
+const importedFoodSchema = Joi.object({
+  code: Joi.string()
+    .max(64)
+    .pattern(/^[A-Za-z0-9._:-]+$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'code may only hold letters, digits and . _ : -',
+    }),
+  canonical_name: Joi.string().max(255).required(),
+  regional_names: Joi.array().items(Joi.string().max(100)),
+  search_keywords: Joi.array().items(Joi.string().max(100)),
+  portion_grams: Joi.number().positive().max(5000).allow(null),
+  category: Joi.string().max(100).allow(null),
+  region: Joi.string()
+    .valid(...INDIAN_REGIONS)
+    .allow(null),
+  is_vegetarian: Joi.boolean().allow(null),
+  nutrition: Joi.object(
+    Object.fromEntries(
+      Object.entries(NUTRIENTS).map(([k, spec]) => [
+        k,
+        Joi.number().min(0).max(MAX_PER_100G[spec.unit]),
+      ])
+    )
+  ),
+  cooking_variations: Joi.array().items(
+    Joi.object({ method: Joi.string().required() }).unknown(true)
+  ),
+  dataset_version: Joi.string().required(),
+});
+
+/**
+ * One source row → an ifct_foods row, or the reasons it can't be imported.
+ * Nutrients are per 100 g unless the row gives `basis_g` (e.g. per 30 g).
+ */
+export function normalizeFoodRow(
+  raw: Record<string, unknown>,
+  version: string
+): { food: ImportedFood } | { errors: string[] } {
+  const errors: string[] = [];
+  const convert = (value: unknown, target: string, column?: string) => {
+    try {
+      return toUnit(value, target, column ? unitOfColumn(column) : undefined);
+    } catch (e) {
+      errors.push(`${column || 'value'}: ${(e as Error).message}`);
+      return null;
+    }
+  };
+
+  const basis = convert(
+    first(raw, ['basis_g', 'per_g'])?.value ?? 100,
+    'g',
+    'basis_g'
+  );
+  const per100 = basis && basis > 0 ? 100 / basis : 1;
+  if (basis !== null && basis <= 0) errors.push('basis_g: must be positive');
+
+  const nutrition: ImportedFood['nutrition'] = {};
+  for (const [key, spec] of Object.entries(NUTRIENTS) as Array<
+    [NutrientKey, (typeof NUTRIENTS)[NutrientKey]]
+  >) {
+    const hit = first(raw, spec.columns);
+    if (!hit) {
+      if (spec.required) errors.push(`${key}: missing`);
+      continue;
+    }
+    const v = convert(hit.value, spec.unit, hit.column);
+    if (v === null) continue;
+    nutrition[key] =
+      spec.unit === 'kcal' ? Math.round(v * per100) : r2(v * per100);
+  }
+
+  const portion = first(raw, [
+    'portion_grams',
+    'portion_g',
+    'portion',
+    'serving_g',
+  ]);
+  const portionGrams = portion
+    ? convert(portion.value, 'g', portion.column)
+    : null;
+  let variations: unknown = raw.cooking_variations ?? [];
+  if (typeof variations === 'string') {
+    try {
+      variations = variations.trim() ? JSON.parse(variations) : [];
+    } catch {
+      errors.push('cooking_variations: not valid JSON');
+      variations = [];
+    }
+  }
+
+  const veg = first(raw, ['is_vegetarian', 'vegetarian', 'veg']);
+  let isVegetarian: boolean | null = null;
+  try {
+    isVegetarian = flag(veg?.value);
+  } catch (e) {
+    errors.push(`${veg?.column}: ${(e as Error).message}`);
+  }
+
+  const food: ImportedFood = {
+    code: String(
+      first(raw, ['code', 'food_code', 'ifct_code'])?.value ?? ''
+    ).trim(),
+    canonical_name: String(
+      first(raw, ['canonical_name', 'name', 'food_name'])?.value ?? ''
+    ).trim(),
+    regional_names: list(raw.regional_names),
+    search_keywords: list(raw.search_keywords),
+    portion_grams: portionGrams === null ? null : r2(portionGrams),
+    category: String(raw.category ?? '').trim() || null,
+    region:
+      (String(raw.region ?? '')
+        .trim()
+        .toLowerCase() as IndianRegion) || null,
+    is_vegetarian: isVegetarian,
+    nutrition,
+    cooking_variations: variations as ImportedFood['cooking_variations'],
+    dataset_version: version,
+  };
+
+  const { error } = importedFoodSchema.validate(food, {
+    abortEarly: false,
+    errors: { wrap: { label: false } },
+  });
+  for (const d of error?.details || []) errors.push(d.message);
+  return errors.length ? { errors } : { food };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Import
+// ──────────────────────────────────────────────────────────────────────────────
+
+const sha256 = (text: string) =>
+  crypto.createHash('sha256').update(text).digest('hex');
+
+/** Same files, same version: a rebuild from unchanged files is recognisable. */
+export function contentVersion(sources: FoodSource[]): string {
+  const digest = sha256(sources.map((s) => sha256(s.text)).join(':'));
+  return `sha-${digest.slice(0, 12)}`;
+}
+
+/**
+ * Parse and normalise every source. A code seen twice is reported on the
+ * later row instead of silently overwriting the first.
+ */
+export function prepareImport(
+  sources: FoodSource[],
+  version: string
+): { foods: ImportedFood[]; report: ImportReport } {
+  const foods: ImportedFood[] = [];
+  const errors: RowError[] = [];
+  const seen = new Map<string, string>();
+  const files: ImportReport['sources'] = [];
+
+  for (const source of sources) {
+    let rows: Record<string, unknown>[];
+    try {
+      rows = parseFoodFile(source);
+    } catch (e) {
+      errors.push({
+        source: source.name,
+        row: 0,
+        code: null,
+        errors: [`unreadable file: ${(e as Error).message}`],
+      });
+      continue;
+    }
+    files.push({
+      file: source.name,
+      sha256: sha256(source.text),
+      rows: rows.length,
+    });
+
+    rows.forEach((raw, i) => {
+      const result = normalizeFoodRow(raw, version);
+      const code =
+        'food' in result ? result.food.code : String(raw.code ?? '') || null;
+      const rowErrors = 'errors' in result ? [...result.errors] : [];
+      const key = code?.toLowerCase();
+      if (key && seen.has(key)) {
+        rowErrors.push(`code ${code} already used in ${seen.get(key)}`);
+      }
+      if (rowErrors.length) {
+        errors.push({
+          source: source.name,
+          row: i + 1,
+          code,
+          errors: rowErrors,
+        });
+        return;
+      }
+      seen.set(key!, `${source.name} row ${i + 1}`);
+      foods.push((result as { food: ImportedFood }).food);
+    });
+  }
+
+  return {
+    foods,
+    report: {
+      version,
+      dryRun: true,
+      sources: files,
+      valid: foods.length,
+      invalid: errors.length,
+      upserted: 0,
+      errors,
+    },
+  };
+}
+
+/**
+ * Validate, then (unless `dryRun`) upsert into ifct_foods and record the
+ * dataset. Invalid rows stop the import unless `skipInvalid` is set.
+ */
+export async function importFoods(
+  sources: FoodSource[],
+  opts: { version?: string; dryRun?: boolean; skipInvalid?: boolean } = {}
+): Promise<ImportReport> {
+  const version = opts.version || contentVersion(sources);
+  const { foods, report } = prepareImport(sources, version);
+  report.dryRun = !!opts.dryRun;
+  if (opts.dryRun || !foods.length) return report;
+  if (report.invalid && !opts.skipInvalid) return report;
+
+  const supabase = getSupabase();
+  for (let i = 0; i < foods.length; i += UPSERT_BATCH) {
+    const batch = foods.slice(i, i + UPSERT_BATCH);
+    const { error } = await supabase
+      .from('ifct_foods')
+      .upsert(batch, { onConflict: 'code' });
+    if (error) {
+      logger.error('[FOOD IMPORT] upsert failed', { error, from: i });
+      throw new Error(
+        `Upsert failed after ${report.upserted} row(s): ${error.message}`
+      );
+    }
+    report.upserted += batch.length;
+  }
+
+  const { error } = await supabase.from('food_datasets').upsert(
+    {
+      version,
+      sources: report.sources,
+      row_count: report.upserted,
+      imported_at: new Date().toISOString(),
+    },
+    { onConflict: 'version' }
+  );
+  if (error) {
+    throw new Error(`Rows written but dataset not recorded: ${error.message}`);
+  }
+  logger.info(`[FOOD IMPORT] version=${version} rows=${report.upserted}`);
+  return report;
+}
+
+/** The most recently imported dataset version, or null if none. */
+export async function currentDatasetVersion(): Promise<string | null> {
+  const { data, error } = await getSupabase()
+    .from('food_datasets')
+    .select('version')
+    .order('imported_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0]?.version ?? null;
+}
@@ -0,0 +1,435 @@
+// src/services/foodSearchService.ts
+// Ranked food search over ifct_foods, shared by /ingredients/lookup,
+// getIFCTFoodByName (and so typed-meal parsing) and the food DB service.
+// The table is small enough to index in process: rows are loaded page by page
+// and matched here, so nothing a user types ever reaches a PostgREST filter.
+// Names, regional names and search keywords are all matched after
+// transliterating Devanagari and folding romanised spelling variants
+// (chapati / chapathi / chappati / चपाती share one key), then scored by
+// trigram similarity and edit distance.
+
+import { getSupabase } from '@/database/supabase';
+import logger from '@/utils/logger';
+import type { IndianRegion } from '@/types';
+
+/** An ifct_foods row as the search sees it. */
+export type FoodRow = {
+  id: string;
+  code: string | null;
+  canonical_name: string;
+  regional_names: string[] | null;
+  search_keywords: string[] | null;
+  portion_grams: number | string | null;
+  nutrition: Record<string, number | string | null> | null;
+  category: string | null;
+  region: IndianRegion | null;
+  is_vegetarian: boolean | null;
+};
+
+export type FoodSearchOptions = {
+  limit?: number;
+  /** Hits scoring below this are dropped (0..1) */
+  minScore?: number;
+  category?: string;
+  region?: IndianRegion;
+  /** true: only foods flagged vegetarian; false: only foods flagged not */
+  vegetarian?: boolean;
+};
+
+export type FoodSearchHit = {
+  food: FoodRow;
+  /** 1 for an exact (folded) name match, down to minScore */
+  score: number;
+  /** The name, regional name or keyword that matched */
+  matched: string;
+};
+
+const COLUMNS =
+  'id, code, canonical_name, regional_names, search_keywords, portion_grams, nutrition, category, region, is_vegetarian';
+const PAGE_SIZE = 1000;
+const INDEX_TTL_MS = 10 * 60 * 1000;
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_MIN_SCORE = 0.5;
+// Regional names and keywords rank just below an equally good canonical name
+const SYNONYM_WEIGHT = 0.97;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Normalisation
+// ──────────────────────────────────────────────────────────────────────────────
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  अ: 'a',
+  आ: 'aa',
+  इ: 'i',
+  ई: 'ii',
+  उ: 'u',
+  ऊ: 'uu',
+  ऋ: 'ri',
+  ए: 'e',
+  ऐ: 'ai',
+  ओ: 'o',
+  औ: 'au',
+  ऑ: 'o',
+};
+
+const DEVANAGARI_MATRAS: Record<string, string> = {
+  'ा': 'aa',
+  'ि': 'i',
+  'ी': 'ii',
+  'ु': 'u',
+  'ू': 'uu',
+  'ृ': 'ri',
+  'े': 'e',
+  'ै': 'ai',
+  'ो': 'o',
+  'ौ': 'au',
+  'ॉ': 'o',
+};
+
+// Nukta forms (क़, ज़, ड़, फ़) arrive decomposed and read as the base letter
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  क: 'k',
+  ख: 'kh',
+  ग: 'g',
+  घ: 'gh',
+  ङ: 'n',
+  च: 'ch',
+  छ: 'chh',
+  ज: 'j',
+  झ: 'jh',
+  ञ: 'n',
+  ट: 't',
+  ठ: 'th',
+  ड: 'd',
+  ढ: 'dh',
+  ण: 'n',
+  त: 't',
+  थ: 'th',
+  द: 'd',
+  ध: 'dh',
+  न: 'n',
+  प: 'p',
+  फ: 'ph',
+  ब: 'b',
+  भ: 'bh',
+  म: 'm',
+  य: 'y',
+  र: 'r',
+  ल: 'l',
+  व: 'v',
+  श: 'sh',
+  ष: 'sh',
+  स: 's',
+  ह: 'h',
+};
+
+const VIRAMA = '्';
+const NASALS = new Set(['ं', 'ँ']);
+const VISARGA = 'ः';
+const NUKTA = '़';
+
+type Syllable = { c: string; v: string; inherent: boolean; coda: string };
+
+// Hindi drops the written inherent "a" at the end of a word and between a
+// vowel and a consonant that carries one: राजमा → rajma, not rajama.
+function deleteSchwas(word: Syllable[]): string {
+  const n = word.length;
+  if (n > 1 && word[n - 1].inherent && !word[n - 1].coda) word[n - 1].v = '';
+  for (let i = 1; i < n - 1; i++) {
+    const s = word[i];
+    if (
+      s.inherent &&
+      !s.coda &&
+      word[i - 1].v &&
+      word[i + 1].c &&
+      word[i + 1].v
+    ) {
+      s.v = '';
+    }
+  }
+  return word.map((s) => s.c + s.v + s.coda).join('');
+}
+
+/** Devanagari to plain Latin letters; other text passes through. */
+export function transliterate(text: string): string {
+  let out = '';
+  let word: Syllable[] = [];
+  const flush = () => {
+    if (word.length) out += deleteSchwas(word);
+    word = [];
+  };
+  for (const ch of text.normalize('NFD')) {
+    const last = word[word.length - 1];
+    if (DEVANAGARI_CONSONANTS[ch]) {
+      word.push({
+        c: DEVANAGARI_CONSONANTS[ch],
+        v: 'a',
+        inherent: true,
+        coda: '',
+      });
+    } else if (DEVANAGARI_VOWELS[ch]) {
+      word.push({ c: '', v: DEVANAGARI_VOWELS[ch], inherent: false, coda: '' });
+    } else if (DEVANAGARI_MATRAS[ch] && last) {
+      last.v = DEVANAGARI_MATRAS[ch];
+      last.inherent = false;
+    } else if (ch === VIRAMA && last) {
+      last.v = '';
+      last.inherent = false;
+    } else if ((NASALS.has(ch) || ch === VISARGA) && last) {
+      last.coda += ch === VISARGA ? 'h' : 'n';
+    } else if (ch === NUKTA) {
+      continue;
+    } else if (ch >= '०' && ch <= '९') {
+      flush();
+      out += String(ch.charCodeAt(0) - '०'.charCodeAt(0));
+    } else {
+      flush();
+      out += ch;
+    }
+  }
+  flush();
+  return out;
+}
+
+/**
+ * The comparable form of a food name: transliterated, lower-cased, accents
+ * and punctuation dropped, and common romanisation variants folded together
+ * (th/t, dh/d, ph/f, w/v, ee/i, oo/u, doubled letters, final y/i).
+ */
+export function searchKey(text: string): string {
+  return transliterate(String(text ?? ''))
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/chh/g, 'ch')
+    .replace(/ph/g, 'f')
+    .replace(/([kgjtdb])h/g, '$1')
+    .replace(/sh/g, 's')
+    .replace(/c(?!h)/g, 'k')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/([a-z])\1+/g, '$1')
+    .replace(/([^aeiou\s])y\b/g, '$1i')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Similarity
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** pg_trgm-style trigrams: each word padded with two spaces before, one after. */
+function trigrams(key: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of key.split(' ').filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++)
+      grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+export function trigramSimilarity(a: string, b: string): number {
+  const ga = trigrams(a);
+  const gb = trigrams(b);
+  if (!ga.size || !gb.size) return 0;
+  let shared = 0;
+  for (const g of ga) if (gb.has(g)) shared++;
+  return shared / (ga.size + gb.size - shared);
+}
+
+/** Damerau-Levenshtein distance (optimal string alignment). */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+const editSimilarity = (a: string, b: string) =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+/**
+ * How well a query key matches a name key, 0..1. Whole-name matches beat
+ * the name merely containing the query's words ("rice" in "rice raw
+ * milled"), which beat fuzzy matches of the whole or of word against word.
+ */
+export function matchScore(query: string, name: string): number {
+  if (!query || !name) return 0;
+  if (query === name) return 1;
+  const words = name.split(' ');
+  const queryWords = query.split(' ');
+  if (name.startsWith(`${query} `)) return 0.92;
+  if (queryWords.every((w) => words.includes(w))) return 0.88;
+
+  const whole = Math.max(
+    trigramSimilarity(query, name),
+    editSimilarity(query, name)
+  );
+  const perWord =
+    queryWords.reduce(
+      (sum, q) =>
+        sum +
+        Math.max(
+          ...words.map((w) => (w.length > 1 ? editSimilarity(q, w) : 0))
+        ),
+      0
+    ) / queryWords.length;
+  return Math.max(whole, perWord * 0.85);
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Index
+// ──────────────────────────────────────────────────────────────────────────────
+
+type IndexedFood = {
+  food: FoodRow;
+  names: Array<{ text: string; key: string; synonym: boolean }>;
+};
+
+let index: { foods: IndexedFood[]; loadedAt: number } | null = null;
+let loading: Promise<IndexedFood[]> | null = null;
+
+function indexFood(food: FoodRow): IndexedFood {
+  const names = [
+    { text: food.canonical_name, synonym: false },
+    ...[...(food.regional_names || []), ...(food.search_keywords || [])].map(
+      (text) => ({ text, synonym: true })
+    ),
+  ];
+  const seen = new Set<string>();
+  return {
+    food,
+    names: names
+      .map((n) => ({ ...n, key: searchKey(n.text) }))
+      .filter((n) => n.key && !seen.has(n.key) && seen.add(n.key)),
+  };
+}
+
+async function loadIndex(): Promise<IndexedFood[]> {
+  const foods: IndexedFood[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await getSupabase()
+      .from('ifct_foods')
+      .select(COLUMNS)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const rows = (data || []) as FoodRow[];
+    foods.push(...rows.filter((r) => r.canonical_name).map(indexFood));
+    if (rows.length < PAGE_SIZE) break;
+  }
+  logger.debug('[SEARCH] food index loaded', { foods: foods.length });
+  return foods;
+}
+
+async function getIndex(): Promise<IndexedFood[]> {
+  if (index && Date.now() - index.loadedAt < INDEX_TTL_MS) return index.foods;
+  if (!loading) {
+    loading = loadIndex()
+      .then((foods) => {
+        index = { foods, loadedAt: Date.now() };
+        return foods;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+/** Forget the loaded index, e.g. after a food import. */
+export function clearFoodSearchIndex(): void {
+  index = null;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Search
+// ──────────────────────────────────────────────────────────────────────────────
+
+function passesFilters(food: FoodRow, opts: FoodSearchOptions): boolean {
+  if (
+    opts.category &&
+    (food.category || '').toLowerCase() !== opts.category.toLowerCase()
+  ) {
+    return false;
+  }
+  if (opts.region && food.region !== opts.region) return false;
+  if (opts.vegetarian !== undefined && food.is_vegetarian !== opts.vegetarian) {
+    return false;
+  }
+  return true;
+}
+
+function rank(
+  foods: IndexedFood[],
+  query: string,
+  opts: FoodSearchOptions
+): FoodSearchHit[] {
+  const key = searchKey(query.slice(0, MAX_QUERY_LENGTH));
+  if (!key) return [];
+  const minScore = opts.minScore ?? DEFAULT_MIN_SCORE;
+
+  const hits: FoodSearchHit[] = [];
+  for (const { food, names } of foods) {
+    if (!passesFilters(food, opts)) continue;
+    let best: FoodSearchHit | null = null;
+    for (const name of names) {
+      const score =
+        matchScore(key, name.key) * (name.synonym ? SYNONYM_WEIGHT : 1);
+      if (!best || score > best.score) {
+        best = { food, score, matched: name.text };
+      }
+    }
+    if (best && best.score >= minScore) {
+      hits.push({ ...best, score: Math.round(best.score * 1000) / 1000 });
+    }
+  }
+  // Equal scores: the shorter, more generic food first
+  return hits
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.food.canonical_name.length - b.food.canonical_name.length ||
+        a.food.canonical_name.localeCompare(b.food.canonical_name)
+    )
+    .slice(0, Math.max(1, opts.limit ?? 10));
+}
+
+/** Ranked matches for a typed food name. Throws when the food DB can't be read. */
+export async function searchFoods(
+  query: string,
+  opts: FoodSearchOptions = {}
+): Promise<FoodSearchHit[]> {
+  if (!query || typeof query !== 'string') return [];
+  return rank(await getIndex(), query, opts);
+}
+
+/** The same ranking over rows already in hand. */
+export function rankFoods(
+  rows: FoodRow[],
+  query: string,
+  opts: FoodSearchOptions = {}
+): FoodSearchHit[] {
+  return rank(rows.map(indexFood), query, opts);
+}
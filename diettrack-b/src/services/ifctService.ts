@@ -1,40 +1,23 @@
 // src/services/ifctService.ts
-import { getSupabase } from '@/database/supabase';
+import { searchFoods } from '@/services/foodSearchService';
 import logger from '@/utils/logger';
-
-type IngredientLookupRow = {
-  ingredient_id: string;
-  name: string;
-  calories_per_100g: number | string | null;
-  protein_per_100g: number | string | null;
-  carbs_per_100g: number | string | null;
-  fat_per_100g: number | string | null;
-  default_serving_g?: number | string | null;
-  source?: string | null;
-  confidence?: number | string | null;
-};
-
-type PersonalLookupRow = {
-  kind: 'ingredient' | 'recipe';
-  id: string;
-  name: string;
-  default_serving_g: number | string | null;
-  calories_per_100g: number | string | null;
-  protein_per_100g: number | string | null;
-  carbs_per_100g: number | string | null;
-  fat_per_100g: number | string | null;
-  confidence?: number | string | null;
-  source?: string | null;
-};
+import {
+  findUserRecipe,
+  servingGrams,
+  type Recipe,
+} from '@/services/recipeService';
 
 export interface IFCTFood {
-  code: string | null; // not used; kept for compatibility
+  code: string | null; // ifct_foods.code, for imported foods
+  ingredient_id: string | null; // ifct_foods.id, for user_servings
+  recipe_id?: string | null; // set when the match is the user's own recipe
   name: string;
   energy_kcal_per_100g: number;
   protein_g_per_100g: number;
   fat_g_per_100g: number;
   carbs_g_per_100g: number;
   serving_size_g: number;
+  match_score?: number; // search score of the name, 0..1; recipes match exactly
 }
 
 const r1 = (n: number) => Math.round(n * 10) / 10;
@@ -48,63 +31,59 @@ const npos = (v: unknown, fb = 0) => {
 const CACHE = new Map<string, { v: IFCTFood | null; t: number }>();
 const TTL_MS = 5 * 60 * 1000;
 
-async function fetchTopFromDB(q: string): Promise<IFCTFood | null> {
-  const supabase = getSupabase();
-
-  // 1) try ingredient_lookup first
-  try {
-    const { data, error } = await supabase.rpc('ingredient_lookup', {
-      q,
-      max_results: 1,
-    });
-    if (!error && Array.isArray(data) && data.length) {
-      const row = data[0] as IngredientLookupRow;
-      return {
-        code: null,
-        name: String(row.name || q),
-        energy_kcal_per_100g: nz(row.calories_per_100g),
-        protein_g_per_100g: nz(row.protein_per_100g),
-        fat_g_per_100g: nz(row.fat_per_100g),
-        carbs_g_per_100g: nz(row.carbs_per_100g),
-        serving_size_g: npos(row.default_serving_g, 100),
-      };
-    }
-  } catch (e) {
-    logger.debug('[IFCT] ingredient_lookup failed', e);
-  }
+// Below this a typed name is treated as unknown rather than guessed at
+const MATCH_SCORE = 0.7;
 
-  // 2) fallback to personal_food_lookup (no user for global match)
+async function fetchTopFromDB(q: string): Promise<IFCTFood | null> {
   try {
-    const { data, error } = await supabase.rpc('personal_food_lookup', {
-      q,
-      p_user_id: null,
-      max_results: 3,
-    });
-    if (!error && Array.isArray(data) && data.length) {
-      const list = data as PersonalLookupRow[];
-      const pick = list.find((r) => r.kind === 'ingredient') || list[0];
-      return {
-        code: null,
-        name: String(pick.name || q),
-        energy_kcal_per_100g: nz(pick.calories_per_100g),
-        protein_g_per_100g: nz(pick.protein_per_100g),
-        fat_g_per_100g: nz(pick.fat_per_100g),
-        carbs_g_per_100g: nz(pick.carbs_per_100g),
-        serving_size_g: npos(pick.default_serving_g, 100),
-      };
-    }
+    const [hit] = await searchFoods(q, { limit: 1, minScore: MATCH_SCORE });
+    if (!hit) return null;
+    const { food } = hit;
+    const n = food.nutrition || {};
+    return {
+      code: food.code ?? null,
+      ingredient_id: food.id,
+      name: food.canonical_name,
+      energy_kcal_per_100g: nz(n.calories ?? n.kcal ?? n.energy_kcal),
+      protein_g_per_100g: nz(n.protein ?? n.protein_g),
+      fat_g_per_100g: nz(n.fat ?? n.fat_g),
+      carbs_g_per_100g: nz(n.carbs ?? n.carbs_g),
+      serving_size_g: npos(food.portion_grams, 100),
+      match_score: hit.score,
+    };
   } catch (e) {
-    logger.debug('[IFCT] personal_food_lookup failed', e);
+    logger.debug('[IFCT] food search failed', e);
+    return null;
   }
+}
 
-  return null;
+function recipeAsFood(recipe: Recipe): IFCTFood {
+  const per100 = recipe.nutrition_per_100g || {};
+  return {
+    code: null,
+    ingredient_id: null,
+    recipe_id: recipe.id,
+    name: recipe.name,
+    energy_kcal_per_100g: nz(per100.calories),
+    protein_g_per_100g: nz(per100.protein),
+    fat_g_per_100g: nz(per100.fat),
+    carbs_g_per_100g: nz(per100.carbs),
+    serving_size_g: npos(servingGrams(recipe), 100),
+  };
 }
 
+// With a userId, that user's own recipe of the same name wins over the shared
+// food DB. Recipes aren't cached: edits must show up on the next lookup.
 export async function getIFCTFoodByName(
-  foodName: string
+  foodName: string,
+  userId?: string
 ): Promise<IFCTFood | null> {
   if (!foodName || typeof foodName !== 'string') return null;
   const key = foodName.toLowerCase().trim();
+  if (userId) {
+    const recipe = await findUserRecipe(userId, key);
+    if (recipe) return recipeAsFood(recipe);
+  }
   const now = Date.now();
   const hit = CACHE.get(key);
   if (hit && now - hit.t < TTL_MS) return hit.v;
@@ -114,7 +93,10 @@ export async function getIFCTFoodByName(
   return v;
 }
 
-export async function enrichWithIFCTData(detectedItems: any[]): Promise<any[]> {
+export async function enrichWithIFCTData(
+  detectedItems: any[],
+  userId?: string
+): Promise<any[]> {
   if (!Array.isArray(detectedItems) || !detectedItems.length) return [];
 
   // de-dupe names in this request
@@ -131,7 +113,7 @@ export async function enrichWithIFCTData(detectedItems: any[]): Promise<any[]> {
   );
 
   const lookups = await Promise.all(
-    names.map(async (n) => [n, await getIFCTFoodByName(n)] as const)
+    names.map(async (n) => [n, await getIFCTFoodByName(n, userId)] as const)
   );
   const byName = new Map<string, IFCTFood | null>(lookups);
 
@@ -171,6 +153,7 @@ export async function enrichWithIFCTData(detectedItems: any[]): Promise<any[]> {
       ...item,
       ifct_match: match ? match.name : null,
       ifct_code: match?.code ?? null,
+      recipe_id: match?.recipe_id ?? null,
       energy_kcal_per_serving,
       protein_g_per_serving,
       carbs_g_per_serving,
@@ -2,16 +2,25 @@
 import { getDatabase } from '@/database/connection';
 import logger from '@/utils/logger';
 import { cacheGet, cacheSet } from '@/database/redis';
-import { IFCTFood, NutritionFacts, CookingVariation } from '@/types';
+import { currentDatasetVersion } from '@/services/foodImportService';
+import { searchFoods } from '@/services/foodSearchService';
+import {
+  IFCTFood,
+  NutritionFacts,
+  CookingModifier,
+  CookingVariation,
+  IndianRegion,
+} from '@/types';
 
 /**
- * Maps a DB row (snake_case) to IFCTFood (camelCase)
+ * Maps a DB row (snake_case) to IFCTFood (camelCase); takes both the legacy
+ * name/nutrition_per_100g columns and canonical_name/nutrition
  */
 function mapRowToIFCTFood(row: any): IFCTFood {
-  const nut = row.nutrition_per_100g || {};
+  const nut = row.nutrition_per_100g || row.nutrition || {};
   return {
     id: row.id,
-    foodName: row.name,
+    foodName: row.name ?? row.canonical_name,
     regionalNames: row.regional_names || [],
     category: row.category || 'prepared_foods',
     nutritionPer100g: {
@@ -36,8 +45,10 @@ function mapRowToIFCTFood(row: any): IFCTFood {
       })
     ),
     allergens: row.allergens || [],
-    isVegetarian: !!row.is_vegetarian,
-    isVegan: !!row.is_vegan,
+    // Unflagged isn't evidence of meat
+    isVegetarian: row.is_vegetarian !== false,
+    // ifct_foods has no vegan column; only flagged rows say either way
+    isVegan: row.is_vegan ?? null,
     region: row.region || 'north',
     commonPortions: row.common_portions || [],
     searchKeywords: row.search_keywords || [],
@@ -62,62 +73,49 @@ function perServing(n100: NutritionFacts, grams: number): NutritionFacts {
   };
 }
 
+// "Deep-fried" / "deep fried" / "deep_fried" all name the same method
+function normalizeMethod(method: string): string {
+  return String(method || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Scale nutrition by a cooking variation: calories by calorieModifier, fat by
+ * oilFactor, protein by nutrientRetention. `invert` undoes a previous apply.
+ */
+export function applyCookingVariation(
+  n: NutritionFacts,
+  v: CookingModifier,
+  invert = false
+): NutritionFacts {
+  const f = (x: number) => (invert ? (x > 0 ? 1 / x : 1) : x || 1);
+  return {
+    ...n,
+    calories: Math.round((n.calories || 0) * f(v.calorieModifier)),
+    fat: Number(((n.fat || 0) * f(v.oilFactor)).toFixed(1)),
+    protein: Number(((n.protein || 0) * f(v.nutrientRetention)).toFixed(1)),
+  };
+}
+
 export class IndianFoodDatabaseService {
   /**
-   * Full-text search using search_tsv (generated column or trigger-maintained)
+   * Ranked, fuzzy name search (see foodSearchService), best match first
    */
   async searchFood(query: string, region?: string): Promise<IFCTFood[]> {
     if (!query || typeof query !== 'string') return [];
     const q = query.trim();
-    const cacheKey = `food_search:v2:${q}:${region || 'all'}`;
+    const cacheKey = `food_search:v3:${q.toLowerCase()}:${region || 'all'}`;
     const cached = await cacheGet(cacheKey);
     if (cached) return cached;
 
-    const db = getDatabase();
     try {
-      let sql = `
-        SELECT id, name, regional_names, category, region,
-               nutrition_per_100g, cooking_variations, search_keywords,
-               search_tsv
-        FROM public.ifct_foods
-        WHERE search_tsv @@ plainto_tsquery('english', $1)
-      `;
-      const params: any[] = [q];
-
-      if (region) {
-        sql += ` AND region = $2`;
-        params.push(region);
-      }
-
-      sql += `
-        ORDER BY ts_rank(search_tsv, plainto_tsquery('english', $1)) DESC
-        LIMIT 10
-      `;
-
-      let result = await db.query(sql, params);
-
-      // Fallback to ILIKE if search_tsv is not present yet
-      if (!result || result.rows.length === 0) {
-        let fallbackSql = `
-          SELECT id, name, regional_names, category, region,
-                 nutrition_per_100g, cooking_variations, search_keywords
-          FROM public.ifct_foods
-          WHERE name ILIKE '%' || $1 || '%'
-             OR EXISTS (
-               SELECT 1 FROM unnest(coalesce(regional_names, '{}'::text[])) r
-               WHERE r ILIKE '%' || $1 || '%'
-             )
-        `;
-        const fp: any[] = [q];
-        if (region) {
-          fallbackSql += ` AND region = $2`;
-          fp.push(region);
-        }
-        fallbackSql += ` LIMIT 10`;
-        result = await db.query(fallbackSql, fp);
-      }
-
-      const foods = (result.rows || []).map(mapRowToIFCTFood);
+      const hits = await searchFoods(q, {
+        limit: 10,
+        ...(region ? { region: region as IndianRegion } : {}),
+      });
+      const foods = hits.map((h) => mapRowToIFCTFood(h.food));
       await cacheSet(cacheKey, foods, 3600);
       return foods;
     } catch (err) {
@@ -151,7 +149,8 @@ export class IndianFoodDatabaseService {
   }
 
   /**
-   * Validate AI nutrition against DB per-100g. Returns gentle warnings, not hard failures.
+   * Validate AI nutrition (per 100 g) against the DB's per-100g values.
+   * Returns gentle warnings, not hard failures, plus the DB reference used.
    */
   async validateNutrition(
     foodName: string,
@@ -160,6 +159,7 @@ export class IndianFoodDatabaseService {
     isValid: boolean;
     confidence: number;
     adjustedNutrition?: NutritionFacts;
+    reference?: { foodName: string; nutritionPer100g: NutritionFacts };
     warnings: string[];
   }> {
     if (!foodName) {
@@ -181,7 +181,7 @@ export class IndianFoodDatabaseService {
     const dbFood = foods[0];
     const db100 = dbFood.nutritionPer100g;
 
-    // Compare calories/protein per 100g (AI may be per serving; this is heuristic)
+    // Compare calories/protein per 100g
     const eps = 1e-6;
     const calDiff =
       db100.calories > eps
@@ -221,10 +221,30 @@ export class IndianFoodDatabaseService {
       isValid: confidence > 0.5,
       confidence: Math.max(0.3, confidence),
       adjustedNutrition: adjusted,
+      reference: { foodName: dbFood.foodName, nutritionPer100g: db100 },
       warnings,
     };
   }
 
+  /**
+   * Cooking variation recorded for this food and method, if any.
+   */
+  async findCookingVariation(
+    foodName: string,
+    cookingMethod: string
+  ): Promise<CookingVariation | null> {
+    if (!foodName || !cookingMethod) return null;
+    const foods = await this.searchFood(foodName);
+    if (!foods.length) return null;
+
+    const want = normalizeMethod(cookingMethod);
+    return (
+      (foods[0].cookingVariations || []).find(
+        (cv) => normalizeMethod(cv.method) === want
+      ) || null
+    );
+  }
+
   /**
    * Apply cooking method modifiers if available.
    */
@@ -233,25 +253,8 @@ export class IndianFoodDatabaseService {
     cookingMethod: string,
     baseNutrition: NutritionFacts
   ): Promise<NutritionFacts> {
-    const foods = await this.searchFood(foodName);
-    if (!foods.length) return baseNutrition;
-
-    const food = foods[0];
-    const v = (food.cookingVariations || []).find((cv) =>
-      String(cv.method).toLowerCase().includes(cookingMethod.toLowerCase())
-    );
-    if (!v) return baseNutrition;
-
-    return {
-      ...baseNutrition,
-      calories: Math.round(
-        (baseNutrition.calories || 0) * (v.calorieModifier || 1)
-      ),
-      fat: Number(((baseNutrition.fat || 0) * (v.oilFactor || 1)).toFixed(1)),
-      protein: Number(
-        ((baseNutrition.protein || 0) * (v.nutrientRetention || 1)).toFixed(1)
-      ),
-    };
+    const v = await this.findCookingVariation(foodName, cookingMethod);
+    return v ? applyCookingVariation(baseNutrition, v) : baseNutrition;
   }
 
   /**
@@ -292,9 +295,22 @@ export class IndianFoodDatabaseService {
     }
   }
 
+  /** Reports which food dataset is loaded; `npm run foods:import` loads one. */
   async initializeDatabase(): Promise<void> {
-    // no-op placeholder for bulk load
-    logger.info('Indian Food Database initialization checked');
+    try {
+      const version = await currentDatasetVersion();
+      if (version) {
+        logger.info(`Indian Food Database: dataset ${version}`);
+      } else {
+        logger.warn(
+          'Indian Food Database: no dataset imported; run npm run foods:import'
+        );
+      }
+    } catch (error) {
+      logger.warn('Indian Food Database: dataset version unavailable', {
+        error,
+      });
+    }
   }
 }
 
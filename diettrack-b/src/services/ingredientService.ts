@@ -1,9 +1,15 @@
 // src/services/ingredientService.ts
-import { getSupabase } from '@/database/supabase';
+import {
+  searchFoods,
+  type FoodSearchOptions,
+} from '@/services/foodSearchService';
+import type { IndianRegion } from '@/types';
 
 export type IngredientMatch = {
   id: string;
   canonical_name: string;
+  /** The name, regional name or keyword the query matched */
+  matched_name: string;
   portion_grams: number | null;
   nutrition: {
     kcal?: number;
@@ -13,36 +19,41 @@ export type IngredientMatch = {
     fiber_g?: number;
     sodium_mg?: number;
   } | null;
+  category: string | null;
+  region: IndianRegion | null;
+  is_vegetarian: boolean | null;
   source: 'ifct';
+  /** Search score, 0..1 */
   confidence: number;
 };
 
+export type IngredientFilters = Pick<
+  FoodSearchOptions,
+  'category' | 'region' | 'vegetarian'
+>;
+
 export async function lookupIngredientsByName(
   name: string,
-  limit = 8
+  limit = 8,
+  filters: IngredientFilters = {}
 ): Promise<{ matches: IngredientMatch[]; error?: any }> {
-  const supabase = getSupabase();
-  // Pragmatic OR across canonical + array fields; case-insensitive
-  const { data, error } = await supabase
-    .from('ifct_foods')
-    .select(
-      'id, canonical_name, regional_names, search_keywords, portion_grams, nutrition'
-    )
-    .or(
-      `canonical_name.ilike.%${name}%,regional_names.cs.{${name}},search_keywords.cs.{${name}}`
-    )
-    .limit(limit);
-
-  if (error) return { matches: [], error };
-
-  const matches: IngredientMatch[] = (data || []).map((row: any) => ({
-    id: row.id,
-    canonical_name: row.canonical_name,
-    portion_grams: row.portion_grams ?? null,
-    nutrition: row.nutrition ?? null,
-    source: 'ifct' as const,
-    confidence: 0.8,
-  }));
-
-  return { matches, error: null };
+  try {
+    const hits = await searchFoods(name, { ...filters, limit });
+    const matches: IngredientMatch[] = hits.map(({ food, score, matched }) => ({
+      id: food.id,
+      canonical_name: food.canonical_name,
+      matched_name: matched,
+      portion_grams:
+        food.portion_grams === null ? null : Number(food.portion_grams),
+      nutrition: (food.nutrition as IngredientMatch['nutrition']) ?? null,
+      category: food.category ?? null,
+      region: food.region ?? null,
+      is_vegetarian: food.is_vegetarian ?? null,
+      source: 'ifct' as const,
+      confidence: score,
+    }));
+    return { matches, error: null };
+  } catch (error) {
+    return { matches: [], error };
+  }
 }
@@ -0,0 +1,149 @@
+// src/services/llmOutputSchema.ts
+// Strict schema for the JSON we ask Gemini to return.
+// Parse + validate in one place so callers get either a typed value or a
+// reason code plus human-readable errors to feed back into a repair prompt.
+
+import Joi from 'joi';
+import type { BoundingBox, CookingMethod } from '@/types';
+
+export const COOKING_METHODS: readonly CookingMethod[] = [
+  'raw',
+  'boiled',
+  'steamed',
+  'fried',
+  'deep_fried',
+  'grilled',
+  'roasted',
+  'pressure_cooked',
+  'tandoor',
+  'fermented',
+];
+
+export interface LLMDetectedItem {
+  itemId: number;
+  name: string;
+  confidence: number;
+  portion_size: { estimated_grams: number };
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  cooking_method?: CookingMethod;
+  ingredients?: string[];
+  /** Item box in image pixels; asked for when a reference object is named */
+  region?: BoundingBox;
+}
+
+export interface LLMAnalysisOutput {
+  detected_items: LLMDetectedItem[];
+  overall_confidence: number;
+  /** Reference object's box, in the same pixels as the items' regions */
+  reference_region?: BoundingBox;
+}
+
+export type LLMOutputFailure =
+  | 'EMPTY_RESPONSE'
+  | 'INVALID_JSON'
+  | 'SCHEMA_MISMATCH';
+
+export type LLMValidation =
+  | { ok: true; value: LLMAnalysisOutput }
+  | { ok: false; reason: LLMOutputFailure; errors: string[] };
+
+const macro = Joi.number().min(0).max(5000);
+
+const boxSchema = Joi.object({
+  x: Joi.number().min(0).required(),
+  y: Joi.number().min(0).required(),
+  width: Joi.number().greater(0).required(),
+  height: Joi.number().greater(0).required(),
+}).unknown(true);
+
+const itemSchema = Joi.object({
+  itemId: Joi.number().integer().min(1).required(),
+  name: Joi.string().trim().min(1).max(120).required(),
+  confidence: Joi.number().min(0).max(1).required(),
+  portion_size: Joi.object({
+    estimated_grams: Joi.number().greater(0).max(3000).required(),
+  })
+    .unknown(true)
+    .required(),
+  calories: macro.required(),
+  protein: macro.required(),
+  carbs: macro.required(),
+  fat: macro.required(),
+  fiber: macro.optional(),
+  sugar: macro.optional(),
+  sodium: Joi.number().min(0).max(20000).optional(),
+  cooking_method: Joi.string()
+    .valid(...COOKING_METHODS)
+    .optional(),
+  ingredients: Joi.array().items(Joi.string().trim().min(1)).optional(),
+  region: boxSchema.optional(),
+}).unknown(true);
+
+const outputSchema = Joi.object({
+  detected_items: Joi.array().items(itemSchema).max(20).required(),
+  overall_confidence: Joi.number().min(0).max(1).required(),
+  reference_region: boxSchema.optional(),
+}).unknown(true);
+
+function stripCodeFences(s: string) {
+  if (!s) return s;
+  return s
+    .replace(/^\s*```(?:json)?\s*/i, '')
+    .replace(/\s*```\s*$/i, '')
+    .trim();
+}
+
+/** Parse raw model text and validate it against the output schema. */
+export function validateLLMOutput(rawText: string): LLMValidation {
+  const cleaned = stripCodeFences(String(rawText || ''));
+  if (!cleaned) {
+    return { ok: false, reason: 'EMPTY_RESPONSE', errors: ['empty response'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch (e) {
+    return {
+      ok: false,
+      reason: 'INVALID_JSON',
+      errors: [`not valid JSON: ${(e as Error).message}`],
+    };
+  }
+
+  const { error, value } = outputSchema.validate(parsed, {
+    abortEarly: false,
+    convert: true,
+  });
+  if (error) {
+    return {
+      ok: false,
+      reason: 'SCHEMA_MISMATCH',
+      errors: error.details.map((d) => d.message).slice(0, 10),
+    };
+  }
+  // Items are measured against the reference, so each needs its own box
+  const output = value as LLMAnalysisOutput;
+  const unboxed = output.reference_region
+    ? output.detected_items.filter((it) => !it.region)
+    : [];
+  if (unboxed.length) {
+    return {
+      ok: false,
+      reason: 'SCHEMA_MISMATCH',
+      errors: unboxed
+        .map(
+          (it) =>
+            `"region" is required on item ${it.itemId} when "reference_region" is given`
+        )
+        .slice(0, 10),
+    };
+  }
+  return { ok: true, value: output };
+}
@@ -0,0 +1,146 @@
+// src/services/mealItemNutrition.ts
+// Nutrition of the items on a meal_log: rescaling an item to new grams, meal
+// totals and the derived meal_logs columns. Shared by analysis, portion
+// adjustments, cooking methods and feedback corrections so they all write
+// the same shape.
+
+import type { DetectedFoodItem, NutritionFacts, ServingSize } from '@/types';
+
+export type NutritionSummary = {
+  total_calories: number;
+  total_protein: number;
+  total_carbs: number;
+  total_fat: number;
+};
+
+export type IngredientAddOn = {
+  name: string;
+  grams?: number;
+  unit?: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+};
+
+export const r1 = (n: unknown) => Math.round((Number(n) || 0) * 10) / 10;
+export const clamp0 = (n: number) => (Number.isFinite(n) && n > 0 ? n : 0);
+export const zNut = (): NutritionFacts => ({
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+  sugar: 0,
+  sodium: 0,
+  cholesterol: 0,
+});
+
+// Totals + the derived meal_logs columns
+export function summarizeNutrition(
+  items: DetectedFoodItem[],
+  addOns: IngredientAddOn[]
+): NutritionSummary {
+  const all = [...items.map((it) => it.nutrition), ...addOns];
+  return {
+    total_calories: Math.round(
+      all.reduce((s, n) => s + Number(n.calories || 0), 0)
+    ),
+    total_protein: r1(all.reduce((s, n) => s + Number(n.protein || 0), 0)),
+    total_carbs: r1(all.reduce((s, n) => s + Number(n.carbs || 0), 0)),
+    total_fat: r1(all.reduce((s, n) => s + Number(n.fat || 0), 0)),
+  };
+}
+
+export function nutritionColumns(
+  items: DetectedFoodItem[],
+  addOns: IngredientAddOn[],
+  totals: NutritionSummary
+) {
+  // Add-ons only carry macros; micronutrient totals come from the items
+  const itemSum = (k: 'fiber' | 'sugar' | 'sodium') =>
+    items.reduce((s, it) => s + Number(it.nutrition?.[k] || 0), 0);
+  return {
+    nutrition_total: {
+      kcal: totals.total_calories,
+      protein_g: totals.total_protein,
+      carbs_g: totals.total_carbs,
+      fat_g: totals.total_fat,
+      fiber_g: r1(itemSum('fiber')),
+      sugar_g: r1(itemSum('sugar')),
+      sodium_mg: Math.round(itemSum('sodium')),
+    },
+    nutrition_breakdown: {
+      items: items.map((d) => ({
+        itemId: d.itemId,
+        grams: d.portionSize.estimatedGrams,
+        ...d.nutrition,
+      })),
+      add_ons: addOns,
+    },
+    summary: `${items[0]?.name ?? 'Meal'}${
+      items.length > 1 ? ` + ${items.length - 1} more` : ''
+    } • ~${totals.total_calories} kcal • ${totals.total_protein}g P`,
+  };
+}
+
+// Per-100 g values of an item. They come from the nutrition the user
+// actually saw; the stored nutritionPer100g snapshot is rounded to 0.1 g and
+// only used when the item has no portion weight to derive from.
+export function per100g(item: DetectedFoodItem): NutritionFacts {
+  const grams = clamp0(Number(item.portionSize?.estimatedGrams));
+  return grams
+    ? mapNutrition(item.nutrition || zNut(), (v) => (v * 100) / grams)
+    : item.nutritionPer100g || zNut();
+}
+
+// The nutritionPer100g snapshot stored on an item
+export function roundPer100g(per100: NutritionFacts): NutritionFacts {
+  return mapNutrition(per100, r1);
+}
+
+function mapNutrition(
+  n: NutritionFacts,
+  f: (v: number) => number
+): NutritionFacts {
+  const out = { ...n };
+  for (const k of Object.keys(out) as Array<keyof NutritionFacts>) {
+    out[k] = f(Number(out[k]));
+  }
+  return out;
+}
+
+// Rescale an item to new grams, from its own per-100 g values unless given
+export function rescaleItem(
+  item: DetectedFoodItem,
+  grams: number,
+  per100: NutritionFacts = per100g(item)
+): DetectedFoodItem {
+  const f = grams / 100;
+  const servingSizeCategory: ServingSize =
+    grams < 80 ? 'small' : grams > 200 ? 'large' : 'medium';
+
+  return {
+    ...item,
+    nutrition: {
+      calories: Math.round(Number(per100.calories || 0) * f),
+      protein: r1(Number(per100.protein || 0) * f),
+      carbs: r1(Number(per100.carbs || 0) * f),
+      fat: r1(Number(per100.fat || 0) * f),
+      fiber: r1(Number(per100.fiber || 0) * f),
+      sugar: r1(Number(per100.sugar || 0) * f),
+      sodium: Math.round(Number(per100.sodium || 0) * f),
+      cholesterol: Math.round(Number(per100.cholesterol || 0) * f),
+    },
+    portionSize: {
+      estimatedGrams: grams,
+      confidenceRange: {
+        min: Math.round(grams * 0.85),
+        max: Math.round(grams * 1.15),
+      },
+      servingSizeCategory,
+      source: 'user',
+    },
+    nutritionPer100g: roundPer100g(per100),
+  };
+}
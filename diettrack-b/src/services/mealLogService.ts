@@ -1,40 +1,311 @@
 // src/services/mealLogService.ts
 import { getSupabase } from '@/database/supabase';
 import logger from '@/utils/logger';
+import { refreshDailyStatsFor } from '@/services/dailyStatsService';
+import {
+  nutritionColumns,
+  summarizeNutrition,
+} from '@/services/mealItemNutrition';
+import type { DetectedFoodItem, ServingSize } from '@/types';
 
 type MealLogItem = { food_id: string; quantity: number; unit?: string };
 export type CreateMealLogPayload = {
   user_id: string;
+  /** Not stored: meal_logs has no meal type column */
   meal_type?: string;
   consumed_at?: string; // ISO
   items: MealLogItem[];
 };
 
-// Simple placeholder; replace with real totals later
-async function calculateTotals(_items: CreateMealLogPayload['items']) {
+export type MealLogError = {
+  code: 'UNKNOWN_FOOD' | 'UNSUPPORTED_UNIT' | 'INVALID_QUANTITY' | 'DB_ERROR';
+  message: string;
+  details?: unknown;
+};
+
+/** ifct_foods columns needed to price an item; nutrition is per 100 g */
+export type FoodRow = {
+  id: string;
+  canonical_name: string;
+  portion_grams: number | string | null;
+  nutrition: Record<string, number | string | null> | null;
+};
+
+export type ServingRow = {
+  ingredient_id: string | null;
+  label: string;
+  grams: number | string;
+};
+
+export type ItemNutrition = {
+  grams: number;
+  energy: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  fiber: number;
+};
+
+const r1 = (n: number) => Math.round(n * 10) / 10;
+const nz = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+const npos = (v: unknown, fallback = 0) => {
+  const x = Number(v);
+  return Number.isFinite(x) && x > 0 ? x : fallback;
+};
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Unit conversion
+// ──────────────────────────────────────────────────────────────────────────────
+const MASS_UNITS: Record<string, number> = {
+  g: 1,
+  gm: 1,
+  gram: 1,
+  grams: 1,
+  kg: 1000,
+};
+
+// Water density; close enough for dal, milk, curd and most curries
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  litre: 1000,
+  liter: 1000,
+};
+
+const PIECE_UNITS = new Set(['piece', 'pieces', 'pc', 'pcs']);
+
+// Household measures used when the user has no saved serving for the food
+const HOUSEHOLD_GRAMS: Record<string, number> = {
+  katori: 150,
+  bowl: 200,
+  cup: 240,
+  glass: 250,
+  plate: 250,
+  tbsp: 15,
+  tsp: 5,
+  spoon: 8,
+};
+
+const SINGULAR: Record<string, string> = {
+  katoris: 'katori',
+  bowls: 'bowl',
+  cups: 'cup',
+  glasses: 'glass',
+  plates: 'plate',
+  spoons: 'spoon',
+};
+
+function normalizeUnit(unit?: string): string {
+  const u = String(unit || 'g')
+    .trim()
+    .toLowerCase();
+  return SINGULAR[u] ?? u;
+}
+
+/** Grams per one unit from a saved serving label such as "1 katori" or "2 pieces". */
+function gramsPerUnitFromServing(
+  servings: ServingRow[],
+  foodId: string,
+  unit: string
+): number | null {
+  for (const s of servings) {
+    if (s.ingredient_id !== foodId) continue;
+    const m = String(s.label || '')
+      .trim()
+      .toLowerCase()
+      .match(/^(\d+(?:\.\d+)?)?\s*([a-z]+)$/);
+    if (!m) continue;
+    const count = npos(m[1], 1);
+    const labelUnit = normalizeUnit(m[2]);
+    const same =
+      labelUnit === unit ||
+      (PIECE_UNITS.has(labelUnit) && PIECE_UNITS.has(unit));
+    if (same && npos(s.grams)) return npos(s.grams) / count;
+  }
+  return null;
+}
+
+/**
+ * Convert a quantity + unit into grams of the given food.
+ * Saved user servings win over the household defaults; pieces fall back to
+ * the food's IFCT portion size. Returns null when the unit can't be resolved.
+ */
+export function quantityToGrams(
+  quantity: number,
+  unit: string | undefined,
+  food: Pick<FoodRow, 'id' | 'portion_grams'>,
+  servings: ServingRow[] = []
+): number | null {
+  const q = npos(quantity);
+  if (!q) return null;
+  const u = normalizeUnit(unit);
+
+  if (MASS_UNITS[u]) return q * MASS_UNITS[u];
+  if (VOLUME_UNITS[u]) return q * VOLUME_UNITS[u];
+
+  const saved = gramsPerUnitFromServing(servings, food.id, u);
+  if (saved) return q * saved;
+
+  if (PIECE_UNITS.has(u)) {
+    const portion = npos(food.portion_grams);
+    return portion ? q * portion : null;
+  }
+  if (HOUSEHOLD_GRAMS[u]) return q * HOUSEHOLD_GRAMS[u];
+  return null;
+}
+
+/** Scale a food's per-100 g nutrition to the given weight. */
+export function nutritionForGrams(
+  food: Pick<FoodRow, 'nutrition'>,
+  grams: number
+): ItemNutrition {
+  const n = food.nutrition || {};
+  const f = grams / 100;
   return {
-    total_energy: 500,
-    total_protein: 25,
-    total_carbs: 50,
-    total_fats: 20,
-    total_fiber: 5,
+    grams: r1(grams),
+    energy: Math.round(nz(n.kcal ?? n.energy_kcal ?? n.calories) * f),
+    protein: r1(nz(n.protein_g ?? n.protein) * f),
+    carbs: r1(nz(n.carbs_g ?? n.carbs) * f),
+    fats: r1(nz(n.fat_g ?? n.fat) * f),
+    fiber: r1(nz(n.fiber_g ?? n.fiber) * f),
   };
 }
 
+/** A priced food in the item shape /analysis/analyze stores on meal_logs. */
+function toMealItem(
+  food: FoodRow,
+  n: ItemNutrition,
+  itemId: number
+): DetectedFoodItem {
+  const servingSizeCategory: ServingSize =
+    n.grams < 80 ? 'small' : n.grams > 200 ? 'large' : 'medium';
+  return {
+    itemId,
+    name: food.canonical_name,
+    // Chosen by the user from the food table, not detected
+    confidence: 1,
+    region: { x: 0, y: 0, width: 0, height: 0 },
+    nutrition: {
+      calories: n.energy,
+      protein: n.protein,
+      carbs: n.carbs,
+      fat: n.fats,
+      fiber: n.fiber,
+      sugar: 0,
+      sodium: 0,
+      cholesterol: 0,
+    },
+    alternatives: [],
+    portionSize: {
+      estimatedGrams: n.grams,
+      confidenceRange: { min: n.grams, max: n.grams },
+      servingSizeCategory,
+      source: 'user',
+    },
+    ingredients: [],
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ──────────────────────────────────────────────────────────────────────────────
+async function loadFoods(ids: string[]) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('ifct_foods')
+    .select('id, canonical_name, portion_grams, nutrition')
+    .in('id', ids);
+  return { foods: (data || []) as FoodRow[], error };
+}
+
+export async function loadServings(userId: string, ids: string[]) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('user_servings')
+    .select('ingredient_id, label, grams')
+    .eq('user_id', userId)
+    .in('ingredient_id', ids);
+  // Saved servings only refine conversions; carry on without them
+  if (error) logger.warn('Failed to load user servings', { error });
+  return (data || []) as ServingRow[];
+}
+
 export async function createMealLog(
   payload: CreateMealLogPayload
-): Promise<{ success: boolean; error?: any }> {
+): Promise<{ success: boolean; error?: MealLogError | any }> {
   const supabase = getSupabase();
-  const totals = await calculateTotals(payload.items);
+  const ids = Array.from(new Set(payload.items.map((it) => it.food_id)));
+
+  const { foods, error: foodsError } = await loadFoods(ids);
+  if (foodsError) {
+    logger.error('Failed to load foods for meal log', { error: foodsError });
+    return {
+      success: false,
+      error: {
+        code: 'DB_ERROR',
+        message: 'Failed to load foods',
+        details: foodsError,
+      },
+    };
+  }
+
+  const byId = new Map(foods.map((f) => [f.id, f]));
+  const unknown = ids.filter((id) => !byId.has(id));
+  if (unknown.length) {
+    return {
+      success: false,
+      error: {
+        code: 'UNKNOWN_FOOD',
+        message: `Unknown food_id: ${unknown.join(', ')}`,
+        details: { food_ids: unknown },
+      },
+    };
+  }
+
+  const servings = await loadServings(payload.user_id, ids);
+
+  const priced: ItemNutrition[] = [];
+  for (const it of payload.items) {
+    const food = byId.get(it.food_id)!;
+    if (!npos(it.quantity)) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_QUANTITY',
+          message: `Quantity must be positive for ${food.canonical_name}`,
+        },
+      };
+    }
+    const grams = quantityToGrams(it.quantity, it.unit, food, servings);
+    if (grams === null) {
+      return {
+        success: false,
+        error: {
+          code: 'UNSUPPORTED_UNIT',
+          message: `Cannot convert "${it.unit}" for ${food.canonical_name}`,
+          details: { food_id: it.food_id, unit: it.unit },
+        },
+      };
+    }
+    priced.push(nutritionForGrams(food, grams));
+  }
+
+  const mealItems = payload.items.map((it, idx) =>
+    toMealItem(byId.get(it.food_id)!, priced[idx], idx + 1)
+  );
+  // logged_at drives the daily rollup, so keep it on the consumption time
+  const consumedAt = payload.consumed_at ?? new Date().toISOString();
 
   const { data: mealLog, error: mealLogError } = await supabase
     .from('meal_logs')
     .insert({
       user_id: payload.user_id,
-      meal_type: payload.meal_type ?? null,
-      consumed_at: payload.consumed_at ?? new Date().toISOString(),
-      source: 'backend',
-      ...totals,
+      source: 'text',
+      items: mealItems,
+      add_ons: [],
+      portion_scalar: 1.0,
+      logged_at: consumedAt,
+      ...nutritionColumns(mealItems, [], summarizeNutrition(mealItems, [])),
     })
     .select('id')
     .single();
@@ -44,16 +315,14 @@ export async function createMealLog(
     return { success: false, error: mealLogError };
   }
 
-  const items = payload.items.map((it) => ({
+  const items = mealItems.map((it) => ({
     meal_log_id: mealLog.id,
-    food_id: it.food_id,
-    quantity: it.quantity,
-    unit: it.unit ?? 'g',
-    energy: 0,
-    protein: 0,
-    carbs: 0,
-    fats: 0,
-    fiber: 0,
+    item_id: it.itemId,
+    name: it.name,
+    confidence: it.confidence,
+    portion_grams: it.portionSize.estimatedGrams,
+    nutrition: it.nutrition,
+    ingredients: it.ingredients,
   }));
 
   const { error: itemsError } = await supabase
@@ -65,5 +334,6 @@ export async function createMealLog(
     return { success: false, error: itemsError };
   }
 
+  await refreshDailyStatsFor(payload.user_id, consumedAt);
   return { success: true };
 }
@@ -0,0 +1,60 @@
+// src/services/otpSender.ts
+// Pluggable OTP delivery.
+// - Senders implement OtpSender and register themselves by name
+// - OTP_SENDER picks the active one (default: console)
+// - The console sender logs codes and keeps the last unused one per phone in
+//   memory, which is what tests and local development read back
+
+import logger from '@/utils/logger';
+
+export interface OtpSender {
+  readonly name: string;
+  send(phone: string, code: string, ttlSec: number): Promise<void>;
+  /** The code for `phone` was used or expired; drop anything kept for it */
+  discard?(phone: string): void;
+}
+
+const senders = new Map<string, OtpSender>();
+
+export function registerOtpSender(sender: OtpSender): void {
+  senders.set(sender.name, sender);
+}
+
+export function getOtpSender(
+  name = process.env.OTP_SENDER || 'console'
+): OtpSender {
+  const sender = senders.get(name.toLowerCase());
+  if (sender) return sender;
+  logger.warn(`[OTP] unknown sender "${name}", using console`);
+  return consoleOtpSender;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Console / in-memory sender
+// ──────────────────────────────────────────────────────────────────────────────
+const outbox = new Map<string, { code: string; expiresAt: number }>();
+
+export const consoleOtpSender: OtpSender = {
+  name: 'console',
+  async send(phone, code, ttlSec) {
+    const now = Date.now();
+    for (const [p, sent] of outbox) {
+      if (sent.expiresAt <= now) outbox.delete(p);
+    }
+    outbox.set(phone, { code, expiresAt: now + ttlSec * 1000 });
+    const isProd = (process.env.NODE_ENV || '').toLowerCase() === 'production';
+    logger.info(
+      `[OTP] ${phone} → ${isProd ? '******' : code} (valid ${ttlSec}s)`
+    );
+  },
+  discard(phone) {
+    outbox.delete(phone);
+  },
+};
+
+/** Last unused code "sent" to a phone by the console sender. */
+export function peekConsoleOtp(phone: string): string | undefined {
+  return outbox.get(phone)?.code;
+}
+
+registerOtpSender(consoleOtpSender);
@@ -0,0 +1,191 @@
+// src/services/plausibilityService.ts
+// Plausibility pass over an analysed meal. Model estimates are occasionally
+// far off (a 40 g roti at 900 kcal, 3 kg of rice), so each analysis is checked
+// for energy density against the food DB, calories that don't match the
+// macros, impossible portions and an implausible meal total.
+//
+// Advisory only: nothing is changed here. Each warning carries a `fix` shaped
+// like an adjustedItems entry, which the app can send back to the adjust
+// endpoint when the user accepts it.
+
+import type {
+  AnalysisWarning,
+  DetectedFoodItem,
+  NutritionFacts,
+  WarningSeverity,
+} from '@/types';
+import {
+  applyCookingVariation,
+  indianFoodDatabase,
+} from '@/services/indianFoodDatabase';
+import logger from '@/utils/logger';
+
+// kcal/100 g may differ from the DB reference by this share before we warn
+const DENSITY_TOLERANCE = 0.3;
+// Calories vs 4/4/9 from the macros, as a share of the larger of the two
+const MACRO_TOLERANCE = 0.2;
+// Ignore small absolute gaps (rounding, fibre, alcohol traces)
+const MACRO_MIN_GAP_KCAL = 25;
+const MIN_PORTION_G = 5;
+const MAX_PORTION_G = 1200;
+const MEAL_MAX_KCAL = 3000;
+
+const r1 = (n: number) => Math.round(n * 10) / 10;
+const grams = (it: DetectedFoodItem) =>
+  Number(it.portionSize?.estimatedGrams) || 0;
+
+function macroKcal(n: NutritionFacts): number {
+  return 4 * (n.protein || 0) + 4 * (n.carbs || 0) + 9 * (n.fat || 0);
+}
+
+async function densityWarning(
+  item: DetectedFoodItem
+): Promise<AnalysisWarning | null> {
+  const g = grams(item);
+  if (!g || !item.nutrition?.calories) return null;
+
+  // Compare before the cooking modifier: the DB reference is the plain dish
+  const mod = item.cookingModifier;
+  const base = mod
+    ? applyCookingVariation(item.nutrition, mod, true)
+    : item.nutrition;
+  const per100 = (n: number) => ((n || 0) * 100) / g;
+
+  let ref: NutritionFacts | undefined;
+  try {
+    const result = await indianFoodDatabase.validateNutrition(item.name, {
+      ...base,
+      calories: per100(base.calories),
+      protein: per100(base.protein),
+    });
+    ref = result.reference?.nutritionPer100g;
+  } catch (err) {
+    logger.warn('[PLAUSIBILITY] reference lookup failed', { err });
+  }
+  if (!ref?.calories) return null;
+
+  const ratio = per100(base.calories) / ref.calories;
+  if (Math.abs(ratio - 1) <= DENSITY_TOLERANCE) return null;
+
+  const f = g / 100;
+  const scaled = {
+    ...ref,
+    calories: ref.calories * f,
+    protein: (ref.protein || 0) * f,
+    carbs: (ref.carbs || 0) * f,
+    fat: (ref.fat || 0) * f,
+  };
+  const fixed = mod ? applyCookingVariation(scaled, mod) : scaled;
+  return {
+    code: 'CALORIE_DENSITY_MISMATCH',
+    severity: ratio > 2 || ratio < 0.5 ? 'critical' : 'warning',
+    message: `${item.name}: ${Math.round(
+      per100(base.calories)
+    )} kcal per 100 g is ${
+      ratio > 1 ? 'above' : 'below'
+    } the usual ${Math.round(ref.calories)}`,
+    itemId: item.itemId,
+    fix: {
+      itemId: item.itemId,
+      nutrition: {
+        calories: Math.round(fixed.calories),
+        protein: r1(fixed.protein),
+        carbs: r1(fixed.carbs),
+        fat: r1(fixed.fat),
+      },
+    },
+  };
+}
+
+function macroWarning(item: DetectedFoodItem): AnalysisWarning | null {
+  const n = item.nutrition;
+  const fromMacros = n ? macroKcal(n) : 0;
+  if (!fromMacros) return null;
+
+  const gap = Math.abs((n.calories || 0) - fromMacros);
+  const share = gap / Math.max(n.calories || 0, fromMacros);
+  if (gap < MACRO_MIN_GAP_KCAL || share <= MACRO_TOLERANCE) return null;
+
+  return {
+    code: 'MACRO_ENERGY_MISMATCH',
+    severity: share > 0.5 ? 'critical' : 'warning',
+    message: `${item.name}: ${Math.round(
+      n.calories || 0
+    )} kcal doesn't match its protein, carbs and fat (~${Math.round(
+      fromMacros
+    )} kcal)`,
+    itemId: item.itemId,
+    fix: {
+      itemId: item.itemId,
+      nutrition: { calories: Math.round(fromMacros) },
+    },
+  };
+}
+
+function portionWarning(item: DetectedFoodItem): AnalysisWarning | null {
+  const g = grams(item);
+  if (g >= MIN_PORTION_G && g <= MAX_PORTION_G) return null;
+
+  const suggested = g < MIN_PORTION_G ? MIN_PORTION_G : MAX_PORTION_G;
+  const severity: WarningSeverity =
+    g < MIN_PORTION_G || g > 2 * MAX_PORTION_G ? 'critical' : 'warning';
+  return {
+    code: 'IMPLAUSIBLE_PORTION',
+    severity,
+    message: `${item.name}: ${Math.round(g)} g is an unlikely portion`,
+    itemId: item.itemId,
+    fix: {
+      itemId: item.itemId,
+      portionSize: { estimatedGrams: suggested },
+    },
+  };
+}
+
+function mealWarning(
+  items: DetectedFoodItem[],
+  totalCalories: number
+): AnalysisWarning | null {
+  if (totalCalories <= MEAL_MAX_KCAL) return null;
+
+  const warning: AnalysisWarning = {
+    code: 'IMPLAUSIBLE_MEAL_TOTAL',
+    severity: totalCalories > 2 * MEAL_MAX_KCAL ? 'critical' : 'warning',
+    message: `This meal adds up to ${Math.round(
+      totalCalories
+    )} kcal, more than a typical meal`,
+  };
+
+  // When one item carries most of the energy, suggest shrinking just that one
+  const top = [...items].sort(
+    (a, b) => (b.nutrition?.calories || 0) - (a.nutrition?.calories || 0)
+  )[0];
+  const topKcal = top?.nutrition?.calories || 0;
+  const scale = (MEAL_MAX_KCAL - (totalCalories - topKcal)) / (topKcal || 1);
+  if (top && grams(top) && topKcal >= totalCalories / 2 && scale > 0) {
+    warning.itemId = top.itemId;
+    warning.fix = {
+      itemId: top.itemId,
+      portionSize: { estimatedGrams: Math.round(grams(top) * scale) },
+    };
+  }
+  return warning;
+}
+
+/**
+ * Plausibility warnings for a meal's items, item-level first. `totalCalories`
+ * is the meal total including add-ons. Never throws.
+ */
+export async function checkPlausibility(
+  items: DetectedFoodItem[],
+  totalCalories: number
+): Promise<AnalysisWarning[]> {
+  const density = await Promise.all(items.map(densityWarning));
+  const perItem = items.flatMap((it, i) => [
+    portionWarning(it),
+    density[i],
+    macroWarning(it),
+  ]);
+  return [...perItem, mealWarning(items, totalCalories)].filter(
+    (w): w is AnalysisWarning => !!w
+  );
+}
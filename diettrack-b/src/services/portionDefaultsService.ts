@@ -0,0 +1,297 @@
+// src/services/portionDefaultsService.ts
+// Fills in portions the model didn't estimate, and replaces the ones it did
+// with a measurement against a reference object the model boxed or the user's
+// saved serving. Usual portions are learned from the gram corrections recorded
+// in meal_logs.adjustments, and the user's region comes from the request's
+// location, else their profile. Lookups never throw: without them an item
+// simply keeps its generic default.
+
+import type {
+  BoundingBox,
+  DetectedFoodItem,
+  IndianRegion,
+  PortionEstimate,
+  ReferenceObject,
+  UserContext,
+} from '@/types';
+import { getSupabase } from '@/database/supabase';
+import { getIFCTFoodByName } from '@/services/ifctService';
+import { estimatePortionSize } from '@/services/portionEstimation';
+import { portionKey, resolveRegion } from '@/services/regionalPortions';
+import {
+  defaultServingGrams,
+  listServings,
+  type UserServing,
+} from '@/services/userServingsService';
+import logger from '@/utils/logger';
+
+// Corrections needed before a learned portion replaces the regional one, and
+// how many of the most recent ones count
+const MIN_CORRECTIONS = 2;
+const MAX_CORRECTIONS = 5;
+// Meals scanned for corrections
+const HISTORY_LIMIT = 100;
+// A saved serving this close to the learned portion already covers it
+const SUGGESTION_TOLERANCE = 0.1;
+
+export type ServingSuggestion = {
+  ingredient_id: string;
+  food_name: string;
+  label: string;
+  grams: number;
+};
+
+type AdjustmentEntry = {
+  adjusted_at?: string;
+  items?: Array<{
+    name?: string;
+    original?: { grams?: number };
+    adjusted?: { grams?: number };
+  }>;
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Request location first (the user may be travelling), then the profile. */
+export async function getUserRegion(
+  userId?: string,
+  context?: Pick<UserContext, 'location'>
+): Promise<IndianRegion | null> {
+  const fromRequest = resolveRegion(context?.location);
+  if (fromRequest || !userId) return fromRequest;
+  try {
+    const { data } = await getSupabase()
+      .from('users')
+      .select('location')
+      .eq('id', userId)
+      .single();
+    return resolveRegion(data?.location);
+  } catch (err) {
+    logger.warn('[PORTION] location lookup failed', { err });
+    return null;
+  }
+}
+
+/**
+ * The user's usual grams per dish: the median of their latest gram corrections,
+ * keyed by portionKey. Dishes corrected fewer than MIN_CORRECTIONS times are
+ * left out.
+ */
+export async function getLearnedPortions(
+  userId?: string
+): Promise<Map<string, number>> {
+  const learned = new Map<string, number>();
+  if (!userId) return learned;
+
+  let rows: Array<{ adjustments?: unknown }> = [];
+  try {
+    const { data, error } = await getSupabase()
+      .from('meal_logs')
+      .select('adjustments')
+      .eq('user_id', userId)
+      .order('logged_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+    if (error) throw error;
+    rows = data || [];
+  } catch (err) {
+    logger.warn('[PORTION] correction history lookup failed', { err });
+    return learned;
+  }
+
+  const corrections: Array<{ key: string; grams: number; at: string }> = [];
+  for (const row of rows) {
+    const entries = Array.isArray(row.adjustments)
+      ? (row.adjustments as AdjustmentEntry[])
+      : [];
+    for (const entry of entries) {
+      for (const it of entry.items || []) {
+        const before = Number(it.original?.grams) || 0;
+        const after = Number(it.adjusted?.grams) || 0;
+        if (after <= 0 || after === before || !it.name) continue;
+        corrections.push({
+          key: portionKey(it.name),
+          grams: after,
+          at: entry.adjusted_at || '',
+        });
+      }
+    }
+  }
+
+  const byKey = new Map<string, Array<{ grams: number; at: string }>>();
+  for (const c of corrections) {
+    byKey.set(c.key, [...(byKey.get(c.key) || []), c]);
+  }
+  for (const [key, list] of byKey) {
+    if (list.length < MIN_CORRECTIONS) continue;
+    const latest = list
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .slice(0, MAX_CORRECTIONS)
+      .map((c) => c.grams);
+    learned.set(key, Math.round(median(latest)));
+  }
+  return learned;
+}
+
+/** The ifct_foods row each dish resolves to, keyed by portionKey. */
+async function resolveFoods(
+  names: string[]
+): Promise<Map<string, { id: string; name: string }>> {
+  const keys = Array.from(new Set(names.map(portionKey))).filter(Boolean);
+  const found = await Promise.all(
+    keys.map((k) => getIFCTFoodByName(k).catch(() => null))
+  );
+  const foods = new Map<string, { id: string; name: string }>();
+  keys.forEach((k, i) => {
+    const food = found[i];
+    if (food?.ingredient_id) {
+      foods.set(k, { id: food.ingredient_id, name: food.name });
+    }
+  });
+  return foods;
+}
+
+/** The user's saved serving per dish, keyed by portionKey. */
+async function getSavedPortions(
+  userId: string | undefined,
+  names: string[]
+): Promise<Map<string, number>> {
+  const saved = new Map<string, number>();
+  if (!userId || !names.length) return saved;
+  const foods = await resolveFoods(names);
+  const grams = await defaultServingGrams(
+    userId,
+    Array.from(new Set([...foods.values()].map((f) => f.id)))
+  );
+  for (const [key, food] of foods) {
+    const g = grams.get(food.id);
+    if (g) saved.set(key, g);
+  }
+  return saved;
+}
+
+/**
+ * Servings worth saving: dishes the user keeps correcting to the same weight
+ * that have no saved serving near it yet. Pass `names` to limit it to those
+ * dishes (e.g. the ones just adjusted). Never throws.
+ */
+export async function suggestServings(
+  userId: string,
+  names?: string[]
+): Promise<ServingSuggestion[]> {
+  const learned = await getLearnedPortions(userId);
+  const keys = names ? names.map(portionKey) : [...learned.keys()];
+  const foods = await resolveFoods(keys.filter((k) => learned.has(k)));
+  if (!foods.size) return [];
+
+  let saved: UserServing[];
+  try {
+    saved = await listServings(userId);
+  } catch (err) {
+    logger.warn('[PORTION] saved servings lookup failed', { err });
+    return [];
+  }
+
+  const suggestions: ServingSuggestion[] = [];
+  for (const [key, food] of foods) {
+    const grams = learned.get(key)!;
+    const covered = saved.some(
+      (s) =>
+        s.ingredient_id === food.id &&
+        Math.abs(Number(s.grams) - grams) <= grams * SUGGESTION_TOLERANCE
+    );
+    if (covered || suggestions.some((x) => x.ingredient_id === food.id)) {
+      continue;
+    }
+    suggestions.push({
+      ingredient_id: food.id,
+      food_name: food.name,
+      label: '1 serving',
+      grams,
+    });
+  }
+  return suggestions;
+}
+
+/**
+ * Re-estimates items whose portion is a generic default (source 'default') or
+ * the model's guess: a measurement against a reference object the model
+ * boxed, then the user's saved serving, win over the model; defaults also take
+ * learned, regional or container servings. Nutrition is scaled with the new
+ * weight; items keep their portion when nothing better applies.
+ */
+export async function applyPortionDefaults(
+  items: DetectedFoodItem[],
+  opts: {
+    userId?: string;
+    context?: Pick<UserContext, 'location'>;
+    referenceObject?: ReferenceObject;
+    /** Reference object's box, in the same coordinates as item regions */
+    referenceRegion?: BoundingBox;
+  } = {}
+): Promise<DetectedFoodItem[]> {
+  const pending = (it: DetectedFoodItem) =>
+    it.portionSize?.source === 'default' || it.portionSize?.source === 'model';
+  if (!items.some(pending)) return items;
+
+  const [region, learned, saved] = await Promise.all([
+    getUserRegion(opts.userId, opts.context),
+    getLearnedPortions(opts.userId),
+    getSavedPortions(
+      opts.userId,
+      items.filter(pending).map((it) => it.name)
+    ),
+  ]);
+
+  return items.map((item) => {
+    if (!pending(item)) return item;
+    const key = portionKey(item.name);
+    const estimate = estimatePortionSize({
+      foodName: item.name,
+      modelEstimate:
+        item.portionSize.source === 'model'
+          ? item.portionSize.estimatedGrams
+          : undefined,
+      referenceObject: opts.referenceObject,
+      referenceRegion: opts.referenceRegion,
+      region: opts.referenceRegion ? item.region : undefined,
+      userRegion: region,
+      savedGrams: saved.get(key),
+      learnedGrams: learned.get(key),
+    });
+    // Nothing better than what the item already has
+    if (estimate.source === 'default' || estimate.source === 'model') {
+      return item;
+    }
+    return rescalePortion(item, estimate);
+  });
+}
+
+// The item at the estimate's weight, its nutrition scaled to match
+function rescalePortion(
+  item: DetectedFoodItem,
+  estimate: PortionEstimate
+): DetectedFoodItem {
+  const before = Number(item.portionSize.estimatedGrams) || 0;
+  const f = before > 0 ? estimate.estimatedGrams / before : 0;
+  const scale = (v: number, digits: number) =>
+    Math.round(v * f * 10 ** digits) / 10 ** digits;
+  const n = item.nutrition;
+  return {
+    ...item,
+    portionSize: estimate,
+    nutrition: {
+      calories: scale(n.calories, 0),
+      protein: scale(n.protein, 1),
+      carbs: scale(n.carbs, 1),
+      fat: scale(n.fat, 1),
+      fiber: scale(n.fiber, 1),
+      sugar: scale(n.sugar, 1),
+      sodium: scale(n.sodium, 0),
+      cholesterol: scale(n.cholesterol, 0),
+    },
+  };
+}
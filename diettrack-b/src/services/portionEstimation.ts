@@ -1,66 +1,217 @@
 // src/services/portionEstimation.ts
-import { PortionEstimate } from '@/types';
-
-type ReferenceObject =
-  | 'katori'
-  | 'plate'
-  | 'coin_10_rupee'
-  | 'spoon_steel'
-  | 'phone'
-  | 'bowl'
-  | 'hand';
+// Portion weight from the photo. When a reference object of known size is in
+// frame, its detected size gives the image scale (cm per pixel); the item's
+// bounding box then gives a footprint, a per-food shape table turns that into
+// a volume, and a density turns volume into grams. Without a usable reference
+// we use the user's saved serving of the food, else the model's own estimate
+// with a wider confidence range, else their usual portion or the regional
+// serving table.
+import {
+  BoundingBox,
+  PortionEstimate,
+  PortionSource,
+  ReferenceObject,
+} from '@/types';
+import { regionalPortionGrams } from '@/services/regionalPortions';
 
 export interface PortionEstimationInput {
   modelEstimate?: number;
   referenceObject?: ReferenceObject;
+  /** Longest side of the reference object in the image, in pixels */
   detectedSizePx?: number;
-  userRegion?: string;
+  /** Reference object's box; used when detectedSizePx isn't given */
+  referenceRegion?: BoundingBox;
+  /** Detected item's box, in the same coordinates as the reference */
+  region?: BoundingBox;
+  /** IndianRegion of the user, for the regional serving table */
+  userRegion?: string | null;
+  /** The user's saved serving of this food (user_servings) */
+  savedGrams?: number | null;
+  /** The user's usual grams for this dish, learned from their corrections */
+  learnedGrams?: number | null;
   foodName?: string;
 }
 
-const referenceWeights: Record<ReferenceObject, number> = {
+// Longest physical dimension of each reference, in cm
+const referenceSizesCm: Record<ReferenceObject, number> = {
+  katori: 10,
+  plate: 28,
+  coin_10_rupee: 2.7,
+  spoon_steel: 15,
+  phone: 15,
+  bowl: 15,
+  hand: 18,
+};
+
+// Typical serving when the food sits in a container we can't measure
+const containerServings: Partial<Record<ReferenceObject, number>> = {
   katori: 150,
-  plate: 250,
-  coin_10_rupee: 7.7,
-  spoon_steel: 8,
-  phone: 170,
   bowl: 200,
-  hand: 100,
+  plate: 250,
 };
 
-const regionDefaults: Record<string, Record<string, number>> = {
-  north: { dal: 150, roti: 35, rice: 150 },
-  south: { idli: 40, dosa: 80, rice: 130 },
+type FoodShape = {
+  /** g per cm³ as served */
+  density: number;
+  /** Fixed height in cm (flatbreads, liquids in a katori) */
+  heightCm?: number;
+  /** Height as a share of the footprint's shorter side (heaps, pieces) */
+  heightRatio?: number;
+  /** Share of the footprint × height box the food fills */
+  fill: number;
 };
 
+const foodShapes: Array<[RegExp, FoodShape]> = [
+  [
+    /\b(roti|chapati|chapathi|phulka|paratha|naan|thepla|dosa|uttapam|papad|puri|poori|bhatura)s?\b/,
+    { density: 0.6, heightCm: 0.3, fill: 1 },
+  ],
+  [
+    /\b(dal|daal|sambar|rasam|kadhi|curry|soup|raita|chole|rajma|kheer|payasam)s?\b/,
+    { density: 1.03, heightCm: 3.5, fill: 0.6 },
+  ],
+  [
+    /\b(rice|biryani|pulao|khichdi|poha|upma|pongal|fried rice)\b/,
+    { density: 0.8, heightRatio: 0.35, fill: 0.5 },
+  ],
+  [
+    /\b(idli|idly|dhokla|vada|vadai|bonda|pakora|samosa|kachori)s?\b/,
+    { density: 0.5, heightRatio: 0.35, fill: 0.7 },
+  ],
+  [
+    /\b(ladoo|laddu|gulab jamun|rasgulla|barfi|burfi|halwa)s?\b/,
+    { density: 1.1, heightRatio: 0.6, fill: 0.6 },
+  ],
+  [
+    /\b(sabzi|sabji|bhaji|poriyal|thoran|aloo|paneer|chicken|mutton|egg)\b/,
+    { density: 0.75, heightRatio: 0.3, fill: 0.5 },
+  ],
+];
+const defaultShape: FoodShape = { density: 0.8, heightRatio: 0.3, fill: 0.5 };
+
+// Relative half-width of the confidence range
+const SPREAD_MEASURED = 0.2;
+const SPREAD_SAVED = 0.15;
+const SPREAD_LEARNED = 0.25;
+const SPREAD_REFERENCE_ONLY = 0.3;
+const SPREAD_MODEL_ONLY = 0.4;
+const SPREAD_DEFAULT = 0.5;
+
+const DEFAULT_GRAMS = 100;
+
+function shapeFor(foodName?: string): FoodShape {
+  const name = (foodName || '').toLowerCase();
+  return foodShapes.find(([re]) => re.test(name))?.[1] ?? defaultShape;
+}
+
+function validBox(box?: BoundingBox): box is BoundingBox {
+  return !!box && box.width > 0 && box.height > 0;
+}
+
+/** cm per image unit from the reference, or null when it can't be measured. */
+function imageScale(input: PortionEstimationInput): number | null {
+  const ref = input.referenceObject;
+  if (!ref || !referenceSizesCm[ref]) return null;
+  const px =
+    input.detectedSizePx && input.detectedSizePx > 0
+      ? input.detectedSizePx
+      : validBox(input.referenceRegion)
+      ? Math.max(input.referenceRegion.width, input.referenceRegion.height)
+      : 0;
+  return px > 0 ? referenceSizesCm[ref] / px : null;
+}
+
+/**
+ * Grams for an item box measured at `cmPerUnit`, using the food's shape and
+ * density. The footprint is taken as the ellipse inscribed in the box.
+ */
+function gramsFromBox(
+  region: BoundingBox,
+  cmPerUnit: number,
+  foodName?: string
+): number {
+  const shape = shapeFor(foodName);
+  const w = region.width * cmPerUnit;
+  const h = region.height * cmPerUnit;
+  const area = (Math.PI / 4) * w * h;
+  const height = shape.heightCm ?? (shape.heightRatio ?? 0) * Math.min(w, h);
+  return area * height * shape.fill * shape.density;
+}
+
 export function estimatePortionSize(
   input: PortionEstimationInput = {}
 ): PortionEstimate {
-  let estimated =
+  const model =
     typeof input.modelEstimate === 'number' && input.modelEstimate > 0
       ? input.modelEstimate
-      : 100;
+      : null;
+  const scale = imageScale(input);
+  const container = input.referenceObject
+    ? containerServings[input.referenceObject]
+    : undefined;
 
-  if (input.referenceObject && referenceWeights[input.referenceObject]) {
-    estimated = referenceWeights[input.referenceObject];
-  }
+  const measured =
+    scale && validBox(input.region)
+      ? gramsFromBox(input.region, scale, input.foodName)
+      : null;
+  const saved =
+    typeof input.savedGrams === 'number' && input.savedGrams > 0
+      ? input.savedGrams
+      : null;
+  const learned =
+    typeof input.learnedGrams === 'number' && input.learnedGrams > 0
+      ? input.learnedGrams
+      : null;
+  const regional = regionalPortionGrams(input.foodName, input.userRegion);
 
-  const region = (input.userRegion || '').toLowerCase();
-  const food = (input.foodName || '').toLowerCase();
-  if (region && food && regionDefaults[region]?.[food]) {
-    estimated = regionDefaults[region][food];
+  // Measured, then the serving this user saved (their own katori beats the
+  // model's generic guess), then the model, then what they usually eat, then
+  // what's usual where they live
+  let estimated: number;
+  let spread: number;
+  let source: PortionSource;
+  if (measured !== null) {
+    estimated = measured;
+    spread = SPREAD_MEASURED;
+    source = 'measured';
+  } else if (saved) {
+    estimated = saved;
+    spread = SPREAD_SAVED;
+    source = 'saved';
+  } else if (model) {
+    estimated = model;
+    spread = input.referenceObject ? SPREAD_REFERENCE_ONLY : SPREAD_MODEL_ONLY;
+    source = 'model';
+  } else if (learned) {
+    estimated = learned;
+    spread = SPREAD_LEARNED;
+    source = 'learned';
+  } else if (regional) {
+    estimated = regional;
+    spread = SPREAD_MODEL_ONLY;
+    source = 'regional';
+  } else if (container) {
+    estimated = container;
+    spread = SPREAD_REFERENCE_ONLY;
+    source = 'container';
+  } else {
+    estimated = DEFAULT_GRAMS;
+    spread = SPREAD_DEFAULT;
+    source = 'default';
   }
 
+  estimated = Math.max(1, Math.round(estimated));
   const servingSizeCategory: PortionEstimate['servingSizeCategory'] =
     estimated < 80 ? 'small' : estimated > 200 ? 'large' : 'medium';
 
   return {
     estimatedGrams: estimated,
     confidenceRange: {
-      min: Math.round(estimated * 0.85),
-      max: Math.round(estimated * 1.15),
+      min: Math.round(estimated * (1 - spread)),
+      max: Math.round(estimated * (1 + spread)),
     },
-    referenceDetected: input.referenceObject,
+    referenceDetected: measured !== null ? input.referenceObject : undefined,
     servingSizeCategory,
+    source,
   };
 }
@@ -0,0 +1,288 @@
+// src/services/quantityParser.ts
+// Splits a typed meal ("2 rotis, 1.5 katori dal and 200ml lassi") into items
+// and pulls the quantity, unit and food out of each one. Grams come from
+// quantityToGrams, so the user's saved servings win over the food's common
+// portions, which win over household measures; bare counts use a per-piece
+// weight table for countable foods.
+
+import type { CommonPortion } from '@/types';
+import { quantityToGrams, type ServingRow } from '@/services/mealLogService';
+
+export type ParsedQuantity = {
+  /** The phrase as typed, e.g. "1.5 katori dal" */
+  phrase: string;
+  /** Food name without quantity or unit, singular for countable foods */
+  food: string;
+  /** null when the phrase gives no amount ("sambar") */
+  quantity: number | null;
+  /** Canonical unit understood by quantityToGrams; null for bare counts */
+  unit: string | null;
+};
+
+// Written unit → unit quantityToGrams understands
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g',
+  gm: 'g',
+  gms: 'g',
+  gram: 'g',
+  grams: 'g',
+  gramme: 'g',
+  kg: 'kg',
+  kgs: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  ml: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  l: 'l',
+  lt: 'l',
+  lts: 'l',
+  ltr: 'l',
+  ltrs: 'l',
+  litre: 'l',
+  litres: 'l',
+  liter: 'l',
+  liters: 'l',
+  katori: 'katori',
+  katoris: 'katori',
+  vati: 'katori',
+  wati: 'katori',
+  bowl: 'bowl',
+  bowls: 'bowl',
+  cup: 'cup',
+  cups: 'cup',
+  mug: 'cup',
+  glass: 'glass',
+  glasses: 'glass',
+  plate: 'plate',
+  plates: 'plate',
+  tbsp: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  spoon: 'spoon',
+  spoons: 'spoon',
+  chammach: 'spoon',
+  piece: 'piece',
+  pieces: 'piece',
+  pc: 'piece',
+  pcs: 'piece',
+  nos: 'piece',
+  slice: 'piece',
+  slices: 'piece',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  couple: 2,
+  half: 0.5,
+  quarter: 0.25,
+  // Hindi
+  aadha: 0.5,
+  adha: 0.5,
+  dedh: 1.5,
+  dhai: 2.5,
+  adhai: 2.5,
+};
+
+// Typical weight of one piece of a countable food, in grams
+const PIECE_GRAMS: Record<string, number> = {
+  roti: 40,
+  chapati: 40,
+  chapathi: 40,
+  phulka: 30,
+  paratha: 80,
+  thepla: 40,
+  naan: 90,
+  kulcha: 80,
+  puri: 25,
+  poori: 25,
+  bhatura: 70,
+  idli: 40,
+  dosa: 100,
+  uttapam: 120,
+  vada: 50,
+  samosa: 60,
+  kachori: 50,
+  pakora: 20,
+  bonda: 40,
+  dhokla: 30,
+  momo: 25,
+  cutlet: 50,
+  ladoo: 40,
+  laddu: 40,
+  'gulab jamun': 40,
+  rasgulla: 50,
+  jalebi: 30,
+  barfi: 25,
+  egg: 50,
+  banana: 120,
+  apple: 150,
+  orange: 130,
+  bread: 30,
+  pav: 40,
+  biscuit: 10,
+};
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const alternation = (words: string[]) =>
+  [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRe)
+    .join('|');
+
+const MEASURED_UNITS = new Set(['g', 'kg', 'ml', 'l', 'piece']);
+
+const UNIT_RE = alternation(Object.keys(UNIT_ALIASES));
+const NUM = '\\d+(?:\\.\\d+)?';
+// "2 rotis", "1.5 katori dal", "200ml lassi", "2x idli", "3 cups of tea"
+const LEADING_RE = new RegExp(
+  `^(${NUM})\\s*(?:[x×](?=\\s))?\\s*(?:(${UNIT_RE})\\b\\.?)?\\s*(?:of\\s+)?(.+)$`
+);
+// "dal 1 katori", "rice 200g"; a bare trailing number is part of the name
+// ("chicken 65")
+const TRAILING_RE = new RegExp(`^(.+?)\\s+(${NUM})\\s*(${UNIT_RE})\\b\\.?$`);
+const PIECE_RE = new RegExp(
+  `\\b(${alternation(Object.keys(PIECE_GRAMS))})(?:e?s)?\\b`,
+  'g'
+);
+// Only when the countable food is the dish itself: "masala dosa", not "egg curry"
+const PIECE_HEAD_RE = new RegExp(
+  `\\b(${alternation(Object.keys(PIECE_GRAMS))})$`
+);
+
+const NUMBER_WORD_RE = new RegExp(
+  `^(${alternation(Object.keys(NUMBER_WORDS))})\\b\\s*(?:of\\b)?`
+);
+const numberValue = (w: string) => NUMBER_WORDS[w] ?? Number(w);
+
+/**
+ * Fractions and multi-word amounts → digits, before the text is split on
+ * "and" ("one and a half katori" must stay one phrase).
+ */
+function normalizeAmounts(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/½/g, '.5')
+    .replace(/¼/g, '.25')
+    .replace(/¾/g, '.75')
+    .replace(/(\d+)\s+(\d+)\s*\/\s*(\d+)/g, (_, w, n, d) =>
+      String(Number(w) + Number(n) / Number(d))
+    )
+    .replace(/(\d+)\s*\/\s*(\d+)/g, (_, n, d) => String(Number(n) / Number(d)))
+    .replace(/(^|[^\d])\.(\d)/g, '$10.$2')
+    .replace(/\b(\d+(?:\.\d+)?|[a-z]+)\s+and\s+a\s+half\b/g, (m, n) =>
+      Number.isFinite(numberValue(n)) ? String(numberValue(n) + 0.5) : m
+    )
+    .replace(/\bhalf\s+an?\b/g, '0.5')
+    .replace(/\ba\s+couple\s+of\b/g, '2');
+}
+
+/** Singular form for countable foods ("rotis" → "roti"); other words as is. */
+function singularize(food: string): string {
+  return food.replace(PIECE_RE, '$1');
+}
+
+function cleanFood(food: string): string {
+  return singularize(
+    food
+      .replace(/^(of|the)\s+/, '')
+      .replace(/[.!?]+$/, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
+/** Quantity, unit and food from one phrase such as "half plate biryani". */
+export function parseQuantity(phrase: string): ParsedQuantity {
+  const raw = String(phrase || '').trim();
+  const text = normalizeAmounts(raw)
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(NUMBER_WORD_RE, (_, w) => `${numberValue(w)} `);
+  const m = LEADING_RE.exec(text);
+  const t = m ? null : TRAILING_RE.exec(text);
+  const [quantity, unit, food] = m
+    ? [m[1], m[2], m[3]]
+    : t
+    ? [t[2], t[3], t[1]]
+    : [null, null, text];
+  return {
+    phrase: raw,
+    food: cleanFood(food),
+    quantity:
+      quantity !== null && Number(quantity) > 0 ? Number(quantity) : null,
+    unit: unit ? UNIT_ALIASES[unit] : null,
+  };
+}
+
+/** One ParsedQuantity per item in a typed meal, in order. */
+export function parseMealText(text: string): ParsedQuantity[] {
+  return normalizeAmounts(String(text || ''))
+    .split(/[,;+&/\n]|\bwith\b|\band\b/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map(parseQuantity)
+    .filter((p) => p.food);
+}
+
+/** Weight of one piece for countable foods ("2 rotis"), else null. */
+export function pieceGrams(food: string): number | null {
+  const m = PIECE_HEAD_RE.exec(singularize(String(food || '').toLowerCase()));
+  return m ? PIECE_GRAMS[m[1]] : null;
+}
+
+/** Katori, plate etc.: units whose weight depends on the food. */
+export function isHouseholdUnit(unit: string | null): boolean {
+  return !!unit && !MEASURED_UNITS.has(unit);
+}
+
+/**
+ * Grams for a parsed phrase, or null when it has no amount or the unit can't
+ * be resolved. `servings` are the user's saved servings; `commonPortions` the
+ * food's CommonPortion list, used as "1 <utensil>" servings after them.
+ */
+export function quantityGrams(
+  parsed: Pick<ParsedQuantity, 'food' | 'quantity' | 'unit'>,
+  opts: {
+    foodId?: string | null;
+    servings?: ServingRow[];
+    commonPortions?: readonly CommonPortion[];
+    /** The food's usual serving, used per piece for uncountable foods */
+    servingGrams?: number | null;
+  } = {}
+): number | null {
+  if (parsed.quantity === null && parsed.unit === null) return null;
+  const id = opts.foodId ?? '';
+  const rows: ServingRow[] = [
+    ...(opts.servings || []),
+    ...(opts.commonPortions || []).map((p) => ({
+      ingredient_id: id,
+      label: `1 ${p.utensil}`,
+      grams: p.grams,
+    })),
+  ];
+  const grams = quantityToGrams(
+    parsed.quantity ?? 1,
+    parsed.unit ?? 'piece',
+    { id, portion_grams: pieceGrams(parsed.food) ?? opts.servingGrams ?? null },
+    rows
+  );
+  return grams === null ? null : Math.round(grams);
+}
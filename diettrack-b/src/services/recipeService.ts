@@ -0,0 +1,265 @@
+// src/services/recipeService.ts
+// Personal recipes: a dish composed from ifct_foods ingredients by raw weight,
+// with the cooked yield and number of servings it makes. Nutrition is summed
+// over the raw ingredients and spread over the cooked weight, so water lost or
+// absorbed in cooking shows up in the per-100 g values.
+
+import { getSupabase } from '@/database/supabase';
+import logger from '@/utils/logger';
+import { nutritionForGrams, type FoodRow } from '@/services/mealLogService';
+
+export type RecipeIngredientInput = { ingredient_id: string; grams: number };
+
+export type RecipeInput = {
+  name: string;
+  ingredients: RecipeIngredientInput[];
+  /** Weight of the finished dish; defaults to the raw total */
+  cooked_yield_g?: number;
+  servings?: number;
+};
+
+export type RecipeNutrition = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+};
+
+export type Recipe = {
+  id: string;
+  user_id: string;
+  name: string;
+  ingredients: Array<RecipeIngredientInput & { name: string }>;
+  cooked_yield_g: number;
+  servings: number;
+  nutrition_per_100g: RecipeNutrition;
+  nutrition_per_serving: RecipeNutrition;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type RecipeError = {
+  code: 'UNKNOWN_FOOD' | 'DUPLICATE_RECIPE' | 'NOT_FOUND' | 'DB_ERROR';
+  message: string;
+  details?: unknown;
+};
+
+type RecipeResult = { recipe: Recipe } | { error: RecipeError };
+
+const COLUMNS =
+  'id, user_id, name, ingredients, cooked_yield_g, servings, nutrition_per_100g, nutrition_per_serving, created_at, updated_at';
+
+const r1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Grams of one serving of the cooked dish. */
+export const servingGrams = (r: Pick<Recipe, 'cooked_yield_g' | 'servings'>) =>
+  r1(Number(r.cooked_yield_g) / Math.max(1, Number(r.servings) || 1));
+
+/**
+ * Per-100 g (of the cooked dish) and per-serving nutrition from raw
+ * ingredient weights. `foods` must contain every ingredient.
+ */
+export function computeRecipeNutrition(
+  ingredients: RecipeIngredientInput[],
+  foods: Map<string, Pick<FoodRow, 'nutrition'>>,
+  cookedYieldG: number,
+  servings: number
+): Pick<Recipe, 'nutrition_per_100g' | 'nutrition_per_serving'> {
+  const total = ingredients
+    .map((it) => nutritionForGrams(foods.get(it.ingredient_id)!, it.grams))
+    .reduce(
+      (acc, n) => ({
+        calories: acc.calories + n.energy,
+        protein: acc.protein + n.protein,
+        carbs: acc.carbs + n.carbs,
+        fat: acc.fat + n.fats,
+        fiber: acc.fiber + n.fiber,
+      }),
+      { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }
+    );
+  const scaled = (f: number): RecipeNutrition => ({
+    calories: Math.round(total.calories * f),
+    protein: r1(total.protein * f),
+    carbs: r1(total.carbs * f),
+    fat: r1(total.fat * f),
+    fiber: r1(total.fiber * f),
+  });
+  return {
+    nutrition_per_100g: scaled(100 / cookedYieldG),
+    nutrition_per_serving: scaled(1 / servings),
+  };
+}
+
+// Ingredient rows + computed nutrition for an insert or update
+async function buildRecipeRow(
+  input: RecipeInput
+): Promise<{ row: Omit<Recipe, 'id' | 'user_id'> } | { error: RecipeError }> {
+  const ids = Array.from(
+    new Set(input.ingredients.map((i) => i.ingredient_id))
+  );
+  const { data, error } = await getSupabase()
+    .from('ifct_foods')
+    .select('id, canonical_name, portion_grams, nutrition')
+    .in('id', ids);
+  if (error) {
+    logger.error('Failed to load recipe ingredients', { error });
+    return {
+      error: { code: 'DB_ERROR', message: 'Failed to load ingredients' },
+    };
+  }
+
+  const foods = new Map(((data || []) as FoodRow[]).map((f) => [f.id, f]));
+  const unknown = ids.filter((id) => !foods.has(id));
+  if (unknown.length) {
+    return {
+      error: {
+        code: 'UNKNOWN_FOOD',
+        message: `Unknown ingredient_id: ${unknown.join(', ')}`,
+        details: { ingredient_ids: unknown },
+      },
+    };
+  }
+
+  const rawTotal = input.ingredients.reduce((s, i) => s + i.grams, 0);
+  const cookedYield = r1(input.cooked_yield_g || rawTotal);
+  const servings = input.servings || 1;
+  return {
+    row: {
+      name: input.name.trim(),
+      ingredients: input.ingredients.map((i) => ({
+        ingredient_id: i.ingredient_id,
+        name: foods.get(i.ingredient_id)!.canonical_name,
+        grams: i.grams,
+      })),
+      cooked_yield_g: cookedYield,
+      servings,
+      ...computeRecipeNutrition(
+        input.ingredients,
+        foods,
+        cookedYield,
+        servings
+      ),
+    },
+  };
+}
+
+function writeError(error: { code?: string }, action: string): RecipeError {
+  if (error.code === '23505') {
+    return {
+      code: 'DUPLICATE_RECIPE',
+      message: 'You already have a recipe with this name',
+    };
+  }
+  logger.error(`Failed to ${action} recipe`, { error });
+  return { code: 'DB_ERROR', message: `Failed to ${action} recipe` };
+}
+
+export async function createRecipe(
+  userId: string,
+  input: RecipeInput
+): Promise<RecipeResult> {
+  const built = await buildRecipeRow(input);
+  if ('error' in built) return built;
+
+  const { data, error } = await getSupabase()
+    .from('recipes')
+    .insert({ user_id: userId, ...built.row })
+    .select(COLUMNS)
+    .single();
+  if (error || !data) return { error: writeError(error || {}, 'save') };
+  return { recipe: data as Recipe };
+}
+
+/** Replaces name, ingredients, yield and servings, recomputing nutrition. */
+export async function updateRecipe(
+  userId: string,
+  id: string,
+  input: RecipeInput
+): Promise<RecipeResult> {
+  const existing = await getRecipe(userId, id);
+  if (!existing) {
+    return { error: { code: 'NOT_FOUND', message: 'Recipe not found' } };
+  }
+  const built = await buildRecipeRow(input);
+  if ('error' in built) return built;
+
+  const { data, error } = await getSupabase()
+    .from('recipes')
+    .update(built.row)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(COLUMNS)
+    .single();
+  if (error || !data) return { error: writeError(error || {}, 'update') };
+  return { recipe: data as Recipe };
+}
+
+/** Null when the recipe doesn't exist or belongs to someone else. */
+export async function getRecipe(
+  userId: string,
+  id: string
+): Promise<Recipe | null> {
+  const { data } = await getSupabase()
+    .from('recipes')
+    .select(COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+  return (data as Recipe) || null;
+}
+
+export async function listRecipes(userId: string): Promise<Recipe[]> {
+  const { data, error } = await getSupabase()
+    .from('recipes')
+    .select(COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return (data || []) as Recipe[];
+}
+
+/** False when there was nothing of this user's to delete. */
+export async function deleteRecipe(
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const existing = await getRecipe(userId, id);
+  if (!existing) return false;
+  const { error } = await getSupabase()
+    .from('recipes')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * The user's recipe named exactly `name` (case-insensitive), for food lookups.
+ * Never throws; lookups carry on with the shared food DB.
+ */
+export async function findUserRecipe(
+  userId: string,
+  name: string
+): Promise<Recipe | null> {
+  const term = name.trim();
+  if (!term) return null;
+  try {
+    const { data, error } = await getSupabase()
+      .from('recipes')
+      .select(COLUMNS)
+      .eq('user_id', userId)
+      // No wildcards: % and _ in a dish name are literal
+      .ilike(
+        'name',
+        term.replace(/[\\%_]/g, (c) => `\\${c}`)
+      )
+      .limit(1);
+    if (error) throw error;
+    return ((data || [])[0] as Recipe) || null;
+  } catch (err) {
+    logger.debug('[RECIPE] lookup failed', err);
+    return null;
+  }
+}
@@ -0,0 +1,529 @@
+// src/services/regionalPortions.ts
+// Typical single-serving weights of common dishes in each region, used when
+// the model gives no gram estimate. A Punjabi roti is heavier than a Gujarati
+// phulka and a plate of rice in the south is bigger than in the north, so each
+// row carries a weight for every IndianRegion.
+//
+// Regions are resolved from free-text locations ("Chennai", "Pune, MH") by
+// state and city names.
+
+import type { IndianRegion } from '@/types';
+
+export const INDIAN_REGIONS: readonly IndianRegion[] = [
+  'north',
+  'south',
+  'east',
+  'west',
+  'central',
+  'northeast',
+];
+
+export type RegionalPortion = {
+  /** Key used for learned portions too, so "rotis" and "roti" share one */
+  dish: string;
+  match: RegExp;
+  grams: Record<IndianRegion, number>;
+};
+
+// First match wins: specific dishes come before the broad curry/sabzi rows
+export const REGIONAL_PORTIONS: readonly RegionalPortion[] = [
+  {
+    dish: 'biryani',
+    match: /\b(biryani|biriyani|pulao|pulav|tehri)\b/,
+    grams: {
+      north: 250,
+      south: 300,
+      east: 280,
+      west: 250,
+      central: 250,
+      northeast: 200,
+    },
+  },
+  {
+    dish: 'khichdi',
+    match: /\b(khichdi|khichuri|khichri|pongal|bisi bele bath)\b/,
+    grams: {
+      north: 200,
+      south: 200,
+      east: 250,
+      west: 220,
+      central: 200,
+      northeast: 200,
+    },
+  },
+  {
+    dish: 'rice',
+    match: /\b(rice|chawal|bhaat|bhat|annam|sadam)\b/,
+    grams: {
+      north: 150,
+      south: 200,
+      east: 200,
+      west: 150,
+      central: 150,
+      northeast: 200,
+    },
+  },
+  {
+    dish: 'paratha',
+    match: /\b(paratha|parantha|parotta|porotta|thepla)s?\b/,
+    grams: {
+      north: 90,
+      south: 80,
+      east: 75,
+      west: 60,
+      central: 80,
+      northeast: 75,
+    },
+  },
+  {
+    dish: 'naan',
+    match: /\b(naan|kulcha|bhatura|bhature)s?\b/,
+    grams: {
+      north: 100,
+      south: 90,
+      east: 90,
+      west: 90,
+      central: 90,
+      northeast: 90,
+    },
+  },
+  {
+    dish: 'puri',
+    match: /\b(puri|poori|luchi)s?\b/,
+    grams: {
+      north: 60,
+      south: 50,
+      east: 50,
+      west: 50,
+      central: 60,
+      northeast: 50,
+    },
+  },
+  {
+    dish: 'roti',
+    match: /\b(roti|chapati|chapathi|phulka|fulka|bhakri)s?\b/,
+    grams: {
+      north: 40,
+      south: 35,
+      east: 35,
+      west: 30,
+      central: 40,
+      northeast: 35,
+    },
+  },
+  {
+    dish: 'litti',
+    match: /\blitti\b/,
+    grams: {
+      north: 120,
+      south: 120,
+      east: 150,
+      west: 120,
+      central: 120,
+      northeast: 120,
+    },
+  },
+  {
+    dish: 'idli',
+    match: /\b(idli|idly)s?\b/,
+    grams: {
+      north: 80,
+      south: 100,
+      east: 80,
+      west: 80,
+      central: 80,
+      northeast: 80,
+    },
+  },
+  {
+    dish: 'dosa',
+    match: /\b(dosa|dosai|uttapam|appam|pesarattu)s?\b/,
+    grams: {
+      north: 100,
+      south: 120,
+      east: 100,
+      west: 100,
+      central: 100,
+      northeast: 100,
+    },
+  },
+  {
+    dish: 'vada',
+    match: /\b(vada|vadai|medu vada)s?\b/,
+    grams: {
+      north: 50,
+      south: 60,
+      east: 50,
+      west: 50,
+      central: 50,
+      northeast: 50,
+    },
+  },
+  {
+    dish: 'poha',
+    match: /\b(poha|chivda|aval)\b/,
+    grams: {
+      north: 150,
+      south: 120,
+      east: 120,
+      west: 180,
+      central: 180,
+      northeast: 120,
+    },
+  },
+  {
+    dish: 'upma',
+    match: /\b(upma|uppittu|rava kichadi)\b/,
+    grams: {
+      north: 150,
+      south: 180,
+      east: 150,
+      west: 150,
+      central: 150,
+      northeast: 150,
+    },
+  },
+  {
+    dish: 'dhokla',
+    match: /\b(dhokla|khaman|handvo)s?\b/,
+    grams: {
+      north: 100,
+      south: 100,
+      east: 100,
+      west: 120,
+      central: 100,
+      northeast: 100,
+    },
+  },
+  {
+    dish: 'momos',
+    match: /\b(momo|momos|dumplings?)\b/,
+    grams: {
+      north: 120,
+      south: 120,
+      east: 150,
+      west: 120,
+      central: 120,
+      northeast: 180,
+    },
+  },
+  {
+    dish: 'thukpa',
+    match: /\b(thukpa|noodle soup)\b/,
+    grams: {
+      north: 250,
+      south: 250,
+      east: 250,
+      west: 250,
+      central: 250,
+      northeast: 300,
+    },
+  },
+  {
+    dish: 'sambar',
+    match: /\b(sambar|sambhar)\b/,
+    grams: {
+      north: 100,
+      south: 150,
+      east: 100,
+      west: 100,
+      central: 100,
+      northeast: 100,
+    },
+  },
+  {
+    dish: 'rasam',
+    match: /\b(rasam|saaru)\b/,
+    grams: {
+      north: 80,
+      south: 120,
+      east: 80,
+      west: 80,
+      central: 80,
+      northeast: 80,
+    },
+  },
+  {
+    dish: 'rajma',
+    match: /\b(rajma|chole|chana masala|chhole|lobia)\b/,
+    grams: {
+      north: 150,
+      south: 120,
+      east: 120,
+      west: 120,
+      central: 150,
+      northeast: 120,
+    },
+  },
+  {
+    dish: 'dal',
+    match: /\b(dal|daal|dali|paruppu|pappu|varan)\b/,
+    grams: {
+      north: 150,
+      south: 120,
+      east: 150,
+      west: 150,
+      central: 150,
+      northeast: 120,
+    },
+  },
+  {
+    dish: 'kadhi',
+    match: /\b(kadhi|kadi|mor kuzhambu)\b/,
+    grams: {
+      north: 150,
+      south: 120,
+      east: 120,
+      west: 150,
+      central: 150,
+      northeast: 120,
+    },
+  },
+  {
+    dish: 'fish curry',
+    match: /\b(fish|machli|machher|meen)\b/,
+    grams: {
+      north: 120,
+      south: 150,
+      east: 180,
+      west: 150,
+      central: 120,
+      northeast: 150,
+    },
+  },
+  {
+    dish: 'meat curry',
+    match: /\b(chicken|murgh|mutton|gosht|keema|pork|meat)\b/,
+    grams: {
+      north: 180,
+      south: 150,
+      east: 150,
+      west: 150,
+      central: 150,
+      northeast: 180,
+    },
+  },
+  {
+    dish: 'paneer',
+    match: /\bpaneer\b/,
+    grams: {
+      north: 120,
+      south: 100,
+      east: 100,
+      west: 100,
+      central: 120,
+      northeast: 100,
+    },
+  },
+  {
+    dish: 'sabzi',
+    match:
+      /\b(sabzi|sabji|bhaji|poriyal|thoran|palya|curry|torkari|shukto|aloo)\b/,
+    grams: {
+      north: 100,
+      south: 100,
+      east: 120,
+      west: 100,
+      central: 100,
+      northeast: 100,
+    },
+  },
+  {
+    dish: 'curd',
+    match: /\b(curd|dahi|yogurt|raita|pachadi|mosaru)\b/,
+    grams: {
+      north: 100,
+      south: 100,
+      east: 80,
+      west: 100,
+      central: 100,
+      northeast: 80,
+    },
+  },
+  {
+    dish: 'kheer',
+    match: /\b(kheer|payasam|payesh|phirni)\b/,
+    grams: {
+      north: 100,
+      south: 120,
+      east: 120,
+      west: 100,
+      central: 100,
+      northeast: 100,
+    },
+  },
+];
+
+// State and city names → region. Longest names are tried first, so
+// "west bengal" wins over a bare "bengal" and "andhra pradesh" over "andhra".
+const REGION_PLACES: Record<IndianRegion, string[]> = {
+  north: [
+    'punjab',
+    'haryana',
+    'delhi',
+    'new delhi',
+    'ncr',
+    'himachal',
+    'himachal pradesh',
+    'jammu',
+    'kashmir',
+    'ladakh',
+    'uttarakhand',
+    'uttar pradesh',
+    'rajasthan',
+    'chandigarh',
+    'lucknow',
+    'kanpur',
+    'varanasi',
+    'agra',
+    'noida',
+    'gurgaon',
+    'gurugram',
+    'amritsar',
+    'ludhiana',
+    'jaipur',
+    'jodhpur',
+    'dehradun',
+    'shimla',
+    'srinagar',
+  ],
+  south: [
+    'tamil nadu',
+    'kerala',
+    'karnataka',
+    'andhra',
+    'andhra pradesh',
+    'telangana',
+    'puducherry',
+    'pondicherry',
+    'chennai',
+    'madras',
+    'bengaluru',
+    'bangalore',
+    'hyderabad',
+    'secunderabad',
+    'kochi',
+    'cochin',
+    'thiruvananthapuram',
+    'trivandrum',
+    'mysuru',
+    'mysore',
+    'mangaluru',
+    'mangalore',
+    'coimbatore',
+    'madurai',
+    'visakhapatnam',
+    'vizag',
+    'vijayawada',
+  ],
+  east: [
+    'west bengal',
+    'bengal',
+    'odisha',
+    'orissa',
+    'bihar',
+    'jharkhand',
+    'kolkata',
+    'calcutta',
+    'howrah',
+    'bhubaneswar',
+    'cuttack',
+    'patna',
+    'ranchi',
+    'jamshedpur',
+  ],
+  west: [
+    'maharashtra',
+    'gujarat',
+    'goa',
+    'mumbai',
+    'bombay',
+    'pune',
+    'nagpur',
+    'nashik',
+    'thane',
+    'ahmedabad',
+    'surat',
+    'vadodara',
+    'baroda',
+    'rajkot',
+    'panaji',
+  ],
+  central: [
+    'madhya pradesh',
+    'chhattisgarh',
+    'bhopal',
+    'indore',
+    'gwalior',
+    'jabalpur',
+    'raipur',
+    'bilaspur',
+  ],
+  northeast: [
+    'assam',
+    'meghalaya',
+    'manipur',
+    'mizoram',
+    'nagaland',
+    'tripura',
+    'arunachal',
+    'arunachal pradesh',
+    'sikkim',
+    'guwahati',
+    'shillong',
+    'imphal',
+    'aizawl',
+    'kohima',
+    'dimapur',
+    'agartala',
+    'gangtok',
+    'itanagar',
+  ],
+};
+
+const PLACES: Array<[string, IndianRegion]> = INDIAN_REGIONS.flatMap((r) =>
+  REGION_PLACES[r].map((p): [string, IndianRegion] => [p, r])
+).sort((a, b) => b[0].length - a[0].length);
+
+// "North India", "south indian", "north-east", "NE"
+const REGION_NAME_RE =
+  /^(north\s*east|ne|north|south|east|west|central)(\s+india(n)?)?$/;
+
+const clean = (s: unknown) =>
+  String(s ?? '')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+
+/** Region for a free-text location, or null when it isn't recognisable. */
+export function resolveRegion(location?: string | null): IndianRegion | null {
+  const text = clean(location);
+  if (!text) return null;
+  const named = REGION_NAME_RE.exec(text);
+  if (named) {
+    const r = named[1].replace(/\s+/g, '');
+    return r === 'ne' ? 'northeast' : (r as IndianRegion);
+  }
+  const padded = ` ${text} `;
+  return PLACES.find(([place]) => padded.includes(` ${place} `))?.[1] ?? null;
+}
+
+export function findRegionalPortion(foodName?: string): RegionalPortion | null {
+  const name = clean(foodName);
+  if (!name) return null;
+  return REGIONAL_PORTIONS.find((p) => p.match.test(name)) ?? null;
+}
+
+/** Typical grams for the dish in `region`, or null if the dish isn't listed. */
+export function regionalPortionGrams(
+  foodName?: string,
+  region?: string | null
+): number | null {
+  if (!region || !INDIAN_REGIONS.includes(region as IndianRegion)) return null;
+  return findRegionalPortion(foodName)?.grams[region as IndianRegion] ?? null;
+}
+
+/** Key corrections are grouped by: the table's dish, else the plain name. */
+export function portionKey(foodName?: string): string {
+  return findRegionalPortion(foodName)?.dish ?? clean(foodName);
+}
@@ -0,0 +1,214 @@
+// src/services/targetService.ts
+// Daily calorie + macro targets from the user's profile.
+// - BMR: Mifflin–St Jeor
+// - TDEE: BMR × activity multiplier (activity_level)
+// - Goal: calorie delta by fitness_goal, protein by body weight, fat as a
+//   share of calories, carbs take the remainder
+// - Overrides: users.target_overrides pins individual values over the
+//   computed ones and survives recalculation
+
+export type TargetInputs = {
+  age?: number | null;
+  gender?: string | null;
+  height_cm?: number | string | null;
+  weight_kg?: number | string | null;
+  activity_level?: string | null;
+  fitness_goal?: string | null;
+};
+
+export type MacroTargets = { protein: number; carbs: number; fats: number };
+
+export type TargetOverrides = {
+  daily_calorie_target?: number;
+  macro_targets?: Partial<MacroTargets>;
+};
+
+export type Targets = {
+  bmr: number;
+  tdee: number;
+  daily_calorie_target: number;
+  macro_targets: MacroTargets;
+  /** Which values came from target_overrides instead of the formula */
+  overridden: string[];
+};
+
+/** Profile columns that feed the formula; changing any triggers a recalc. */
+export const TARGET_INPUT_FIELDS = [
+  'age',
+  'gender',
+  'height_cm',
+  'weight_kg',
+  'activity_level',
+  'fitness_goal',
+] as const;
+
+const ACTIVITY_MULTIPLIERS: Record<string, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  'very-active': 1.725,
+  'extra-active': 1.9,
+};
+
+type Goal = 'lose' | 'maintain' | 'gain';
+
+const GOAL_CALORIE_DELTA: Record<Goal, number> = {
+  lose: -500,
+  maintain: 0,
+  gain: 300,
+};
+
+// grams of protein per kg body weight
+const GOAL_PROTEIN_PER_KG: Record<Goal, number> = {
+  lose: 2.0,
+  maintain: 1.6,
+  gain: 1.8,
+};
+
+const FAT_SHARE = 0.25;
+const KCAL_PER_G = { protein: 4, carbs: 4, fats: 9 };
+
+// Never recommend intake below these, whatever the goal
+const MIN_CALORIES: Record<string, number> = {
+  male: 1500,
+  female: 1200,
+  other: 1350,
+};
+
+const num = (v: unknown): number | null => {
+  const n = typeof v === 'string' ? Number(v) : (v as number);
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/** "very_active" | "Very Active" → "very-active" */
+const slug = (v: unknown) =>
+  String(v ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+
+export function activityMultiplier(level: unknown): number {
+  return ACTIVITY_MULTIPLIERS[slug(level)] ?? ACTIVITY_MULTIPLIERS.sedentary;
+}
+
+export function normalizeGoal(goal: unknown): Goal {
+  const g = slug(goal);
+  if (g.startsWith('lose')) return 'lose';
+  if (g.startsWith('gain')) return 'gain';
+  return 'maintain';
+}
+
+/** Inputs the formula still needs; empty when targets can be computed. */
+export function missingTargetInputs(p: TargetInputs): string[] {
+  const missing: string[] = [];
+  if (!num(p.age)) missing.push('age');
+  if (!num(p.height_cm)) missing.push('height_cm');
+  if (!num(p.weight_kg)) missing.push('weight_kg');
+  return missing;
+}
+
+/** Mifflin–St Jeor. "other"/unknown gender uses the midpoint constant. */
+export function computeBmr(p: TargetInputs): number | null {
+  const age = num(p.age);
+  const height = num(p.height_cm);
+  const weight = num(p.weight_kg);
+  if (!age || !height || !weight) return null;
+
+  const g = slug(p.gender);
+  const s = g === 'male' ? 5 : g === 'female' ? -161 : -78;
+  return 10 * weight + 6.25 * height - 5 * age + s;
+}
+
+export function computeTargets(
+  p: TargetInputs,
+  overrides?: TargetOverrides | null
+): Targets | null {
+  const bmr = computeBmr(p);
+  if (bmr === null) return null;
+
+  const weight = num(p.weight_kg)!;
+  const goal = normalizeGoal(p.fitness_goal);
+  const tdee = bmr * activityMultiplier(p.activity_level);
+  const floor = MIN_CALORIES[slug(p.gender)] ?? MIN_CALORIES.other;
+
+  const overridden: string[] = [];
+  let calories = Math.max(floor, tdee + GOAL_CALORIE_DELTA[goal]);
+  const pinnedCalories = num(overrides?.daily_calorie_target);
+  if (pinnedCalories) {
+    calories = pinnedCalories;
+    overridden.push('daily_calorie_target');
+  }
+  calories = Math.round(calories);
+
+  const pinned = overrides?.macro_targets || {};
+  const pick = (key: keyof MacroTargets, computed: number) => {
+    const v = num(pinned[key]);
+    if (v === null) return computed;
+    overridden.push(`macro_targets.${key}`);
+    return v;
+  };
+
+  const protein = pick('protein', weight * GOAL_PROTEIN_PER_KG[goal]);
+  const fats = pick('fats', (calories * FAT_SHARE) / KCAL_PER_G.fats);
+  const carbs = pick(
+    'carbs',
+    Math.max(
+      0,
+      (calories - protein * KCAL_PER_G.protein - fats * KCAL_PER_G.fats) /
+        KCAL_PER_G.carbs
+    )
+  );
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    daily_calorie_target: calories,
+    macro_targets: {
+      protein: Math.round(protein),
+      carbs: Math.round(carbs),
+      fats: Math.round(fats),
+    },
+    overridden,
+  };
+}
+
+/**
+ * Fold explicit target values from a profile update into the stored
+ * overrides. `null` for a value (or for target_overrides itself) clears it.
+ */
+export function mergeOverrides(
+  current: TargetOverrides | null | undefined,
+  body: Record<string, any>
+): TargetOverrides {
+  if (body.target_overrides === null) return {};
+  const next: TargetOverrides = {
+    ...(current || {}),
+    ...(body.target_overrides || {}),
+    macro_targets: {
+      ...(current?.macro_targets || {}),
+      ...(body.target_overrides?.macro_targets || {}),
+    },
+  };
+
+  if ('daily_calorie_target' in body) {
+    next.daily_calorie_target = body.daily_calorie_target ?? undefined;
+  }
+  if ('macro_targets' in body) {
+    next.macro_targets =
+      body.macro_targets === null
+        ? {}
+        : { ...next.macro_targets, ...body.macro_targets };
+  }
+
+  // Drop cleared entries so the stored JSON only holds real pins
+  const macros = Object.fromEntries(
+    Object.entries(next.macro_targets || {}).filter(([, v]) => num(v) !== null)
+  );
+  return {
+    ...(num(next.daily_calorie_target)
+      ? { daily_calorie_target: Number(next.daily_calorie_target) }
+      : {}),
+    ...(Object.keys(macros).length ? { macro_targets: macros } : {}),
+  };
+}
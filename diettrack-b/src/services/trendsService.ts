@@ -0,0 +1,340 @@
+// src/services/trendsService.ts
+// Intake trends over a date range, bucketed by day / ISO week / month.
+// - Built straight from meal_logs.nutrition_total (same reader as the daily
+//   rollup), grouped by the user's local day
+// - Averages are per logged day so unlogged days don't drag them to zero
+// - A day "adheres" when it was logged and calories land within
+//   ADHERENCE_TOLERANCE of the daily target
+
+import { getSupabase } from '@/database/supabase';
+import {
+  DEFAULT_TIMEZONE,
+  dateRange,
+  isValidTimezone,
+  localDate,
+  localDayBounds,
+  mealTotals,
+  type DailyTotals,
+} from '@/services/dailyStatsService';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export const ADHERENCE_TOLERANCE = 0.1;
+/** Longest range a single request may cover, in days */
+export const MAX_TREND_DAYS = 366;
+// meal_logs rows per request
+const PAGE_SIZE = 1000;
+
+type MacroSplit = { protein_pct: number; carbs_pct: number; fats_pct: number };
+
+type Averages = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+};
+
+export type TrendBucket = {
+  start: string;
+  end: string;
+  days: number;
+  logged_days: number;
+  adherent_days: number;
+  total_calories: number;
+  average: Averages;
+  target: {
+    calories: number | null;
+    protein: number | null;
+    carbs: number | null;
+    fats: number | null;
+  };
+  /** average calories ÷ daily target, as a percentage */
+  pct_of_target: number | null;
+  macro_split: MacroSplit;
+  /** average calories vs the previous bucket, as a percentage change */
+  change_pct: number | null;
+};
+
+export type Trends = {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  timezone: string;
+  buckets: TrendBucket[];
+  summary: {
+    days: number;
+    logged_days: number;
+    average: Averages;
+    macro_split: MacroSplit;
+    adherence_rate: number | null;
+    streaks: { current: number; longest: number };
+  };
+};
+
+type UserTargets = {
+  timezone?: string | null;
+  daily_calorie_target?: number | null;
+  macro_targets?: { protein?: number; carbs?: number; fats?: number } | null;
+};
+
+const r1 = (n: number) => Math.round(n * 10) / 10;
+const pct = (part: number, whole: number) =>
+  whole > 0 ? r1((part / whole) * 100) : null;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Bucketing
+// ──────────────────────────────────────────────────────────────────────────────
+const addDays = (date: string, n: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+};
+
+/** First day of the bucket containing `date` (weeks start on Monday). */
+export function bucketStart(date: string, granularity: Granularity): string {
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+  if (granularity === 'week') {
+    const dow = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+    return addDays(date, -((dow + 6) % 7));
+  }
+  return date;
+}
+
+function macroSplit(
+  t: Pick<DailyTotals, 'protein_consumed' | 'carbs_consumed' | 'fats_consumed'>
+): MacroSplit {
+  const p = t.protein_consumed * 4;
+  const c = t.carbs_consumed * 4;
+  const f = t.fats_consumed * 9;
+  const kcal = p + c + f;
+  return {
+    protein_pct: pct(p, kcal) ?? 0,
+    carbs_pct: pct(c, kcal) ?? 0,
+    fats_pct: pct(f, kcal) ?? 0,
+  };
+}
+
+const isAdherent = (kcal: number, target: number | null) =>
+  !!target &&
+  kcal > 0 &&
+  Math.abs(kcal - target) <= target * ADHERENCE_TOLERANCE;
+
+function averages(days: DailyTotals[]): Averages {
+  const n = days.length || 1;
+  const sum = (k: keyof DailyTotals) => days.reduce((s, d) => s + d[k], 0);
+  return {
+    calories: Math.round(sum('calories_consumed') / n),
+    protein: r1(sum('protein_consumed') / n),
+    carbs: r1(sum('carbs_consumed') / n),
+    fats: r1(sum('fats_consumed') / n),
+  };
+}
+
+const sumDays = (days: DailyTotals[]) =>
+  days.reduce(
+    (acc, d) => ({
+      protein_consumed: acc.protein_consumed + d.protein_consumed,
+      carbs_consumed: acc.carbs_consumed + d.carbs_consumed,
+      fats_consumed: acc.fats_consumed + d.fats_consumed,
+    }),
+    { protein_consumed: 0, carbs_consumed: 0, fats_consumed: 0 }
+  );
+
+/**
+ * Pure aggregation over per-day totals (keyed by local date). Days missing
+ * from `byDay` count as unlogged.
+ */
+export function aggregateTrends(
+  byDay: Map<string, DailyTotals>,
+  opts: {
+    from: string;
+    to: string;
+    granularity: Granularity;
+    timezone: string;
+    targets: UserTargets;
+    today?: string;
+  }
+): Trends {
+  const { from, to, granularity, targets } = opts;
+  const kcalTarget = Number(targets.daily_calorie_target) || null;
+  const macroTarget = (k: 'protein' | 'carbs' | 'fats') =>
+    Number(targets.macro_targets?.[k]) || null;
+
+  const allDays = dateRange(from, to);
+  const logged = (d: string) => byDay.has(d);
+
+  // Group dates into buckets, clipped to the requested range
+  const groups = new Map<string, string[]>();
+  for (const d of allDays) {
+    const key = bucketStart(d, granularity);
+    groups.set(key, [...(groups.get(key) || []), d]);
+  }
+
+  let prevAvg: number | null = null;
+  const buckets: TrendBucket[] = [];
+  for (const dates of groups.values()) {
+    const loggedTotals = dates.filter(logged).map((d) => byDay.get(d)!);
+    const avg = averages(loggedTotals);
+    const hasData = loggedTotals.length > 0;
+    buckets.push({
+      start: dates[0],
+      end: dates[dates.length - 1],
+      days: dates.length,
+      logged_days: loggedTotals.length,
+      adherent_days: loggedTotals.filter((t) =>
+        isAdherent(t.calories_consumed, kcalTarget)
+      ).length,
+      total_calories: Math.round(
+        loggedTotals.reduce((s, t) => s + t.calories_consumed, 0)
+      ),
+      average: avg,
+      target: {
+        calories: kcalTarget,
+        protein: macroTarget('protein'),
+        carbs: macroTarget('carbs'),
+        fats: macroTarget('fats'),
+      },
+      pct_of_target:
+        hasData && kcalTarget ? pct(avg.calories, kcalTarget) : null,
+      macro_split: macroSplit(sumDays(loggedTotals)),
+      change_pct:
+        hasData && prevAvg
+          ? r1(((avg.calories - prevAvg) / prevAvg) * 100)
+          : null,
+    });
+    if (hasData) prevAvg = avg.calories;
+  }
+
+  // Streaks of adherent days. An unfinished "today" doesn't break the
+  // current streak.
+  let longest = 0;
+  let run = 0;
+  for (const d of allDays) {
+    const ok =
+      logged(d) && isAdherent(byDay.get(d)!.calories_consumed, kcalTarget);
+    run = ok ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  let current = 0;
+  for (let i = allDays.length - 1; i >= 0; i--) {
+    const d = allDays[i];
+    const ok =
+      logged(d) && isAdherent(byDay.get(d)!.calories_consumed, kcalTarget);
+    if (ok) current++;
+    else if (d === opts.today && i === allDays.length - 1) continue;
+    else break;
+  }
+
+  const loggedAll = allDays.filter(logged).map((d) => byDay.get(d)!);
+  const adherentAll = loggedAll.filter((t) =>
+    isAdherent(t.calories_consumed, kcalTarget)
+  ).length;
+
+  return {
+    from,
+    to,
+    granularity,
+    timezone: opts.timezone,
+    buckets,
+    summary: {
+      days: allDays.length,
+      logged_days: loggedAll.length,
+      average: averages(loggedAll),
+      macro_split: macroSplit(sumDays(loggedAll)),
+      adherence_rate:
+        kcalTarget && loggedAll.length
+          ? pct(adherentAll, loggedAll.length)
+          : null,
+      streaks: { current, longest },
+    },
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Data access
+// ──────────────────────────────────────────────────────────────────────────────
+export type TrendsError = {
+  code: 'USER_NOT_FOUND' | 'BAD_RANGE';
+  message: string;
+};
+
+/**
+ * Trends for a user. Missing `to` is the user's today and missing `from` 28
+ * days before it; the resolved range is capped at MAX_TREND_DAYS.
+ */
+export async function getUserTrends(
+  userId: string,
+  opts: { from?: string; to?: string; granularity?: Granularity }
+): Promise<{ trends: Trends } | { error: TrendsError }> {
+  const supabase = getSupabase();
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('timezone, daily_calorie_target, macro_targets')
+    .eq('id', userId)
+    .single();
+  if (userError || !user) {
+    return { error: { code: 'USER_NOT_FOUND', message: 'User not found' } };
+  }
+
+  const tz = isValidTimezone(user.timezone) ? user.timezone : DEFAULT_TIMEZONE;
+  const today = localDate(new Date(), tz);
+  const to = opts.to || today;
+  const from = opts.from || addDays(to, -27);
+
+  const span =
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+    86400000;
+  if (span < 0) {
+    return {
+      error: { code: 'BAD_RANGE', message: '"from" must not be after "to"' },
+    };
+  }
+  if (span >= MAX_TREND_DAYS) {
+    return {
+      error: {
+        code: 'BAD_RANGE',
+        message: `Range is limited to ${MAX_TREND_DAYS} days`,
+      },
+    };
+  }
+
+  // Paged: PostgREST caps each response, and a long range can exceed it
+  const byDay = new Map<string, DailyTotals>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: meals, error } = await supabase
+      .from('meal_logs')
+      .select('logged_at, nutrition_total, items')
+      .eq('user_id', userId)
+      .gte('logged_at', localDayBounds(from, tz).start)
+      .lt('logged_at', localDayBounds(to, tz).end)
+      .order('logged_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const meal of meals || []) {
+      const day = localDate(meal.logged_at, tz);
+      const m = mealTotals(meal);
+      const prev = byDay.get(day);
+      if (!prev) {
+        byDay.set(day, m);
+        continue;
+      }
+      for (const k of Object.keys(m) as Array<keyof DailyTotals>) {
+        prev[k] += m[k];
+      }
+    }
+    if ((meals || []).length < PAGE_SIZE) break;
+  }
+
+  return {
+    trends: aggregateTrends(byDay, {
+      from,
+      to,
+      granularity: opts.granularity || 'day',
+      timezone: tz,
+      targets: user,
+      today,
+    }),
+  };
+}
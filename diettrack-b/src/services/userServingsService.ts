@@ -0,0 +1,162 @@
+// src/services/userServingsService.ts
+// A user's own serving definitions per food ("1 katori" of dal = 180 g).
+// quantityToGrams prefers them over household measures, and the latest one
+// saved for a food becomes that food's default portion in meal analysis.
+
+import { getSupabase } from '@/database/supabase';
+import logger from '@/utils/logger';
+
+export type UserServing = {
+  id: string;
+  user_id: string;
+  ingredient_id: string;
+  label: string;
+  grams: number;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type ServingInput = {
+  ingredient_id: string;
+  label: string;
+  grams: number;
+};
+
+export type ServingError = {
+  code: 'UNKNOWN_FOOD' | 'DUPLICATE_SERVING' | 'NOT_FOUND' | 'DB_ERROR';
+  message: string;
+  details?: unknown;
+};
+
+type ServingResult = { serving: UserServing } | { error: ServingError };
+
+const COLUMNS =
+  'id, user_id, ingredient_id, label, grams, created_at, updated_at';
+
+function writeError(error: { code?: string }, action: string): ServingError {
+  if (error.code === '23505') {
+    return {
+      code: 'DUPLICATE_SERVING',
+      message: 'You already have a serving with this label for this food',
+    };
+  }
+  logger.error(`Failed to ${action} serving`, { error });
+  return { code: 'DB_ERROR', message: `Failed to ${action} serving` };
+}
+
+/** Newest first, so the default serving of each food comes first. */
+export async function listServings(
+  userId: string,
+  ingredientId?: string
+): Promise<UserServing[]> {
+  let query = getSupabase()
+    .from('user_servings')
+    .select(COLUMNS)
+    .eq('user_id', userId);
+  if (ingredientId) query = query.eq('ingredient_id', ingredientId);
+  const { data, error } = await query.order('updated_at', {
+    ascending: false,
+  });
+  if (error) throw error;
+  return (data || []) as UserServing[];
+}
+
+export async function createServing(
+  userId: string,
+  input: ServingInput
+): Promise<ServingResult> {
+  const { data: food } = await getSupabase()
+    .from('ifct_foods')
+    .select('id')
+    .eq('id', input.ingredient_id)
+    .single();
+  if (!food) {
+    return {
+      error: {
+        code: 'UNKNOWN_FOOD',
+        message: `Unknown ingredient_id: ${input.ingredient_id}`,
+        details: { ingredient_id: input.ingredient_id },
+      },
+    };
+  }
+
+  const { data, error } = await getSupabase()
+    .from('user_servings')
+    .insert({
+      user_id: userId,
+      ingredient_id: input.ingredient_id,
+      label: input.label.trim(),
+      grams: input.grams,
+    })
+    .select(COLUMNS)
+    .single();
+  if (error || !data) return { error: writeError(error || {}, 'save') };
+  return { serving: data as UserServing };
+}
+
+/** Relabel or reweigh a serving; the food it belongs to can't change. */
+export async function updateServing(
+  userId: string,
+  id: string,
+  patch: Partial<Pick<ServingInput, 'label' | 'grams'>>
+): Promise<ServingResult> {
+  const { data, error } = await getSupabase()
+    .from('user_servings')
+    .update({
+      ...(patch.label !== undefined ? { label: patch.label.trim() } : {}),
+      ...(patch.grams !== undefined ? { grams: patch.grams } : {}),
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(COLUMNS)
+    .maybeSingle();
+  if (error) return { error: writeError(error, 'update') };
+  if (!data) {
+    return { error: { code: 'NOT_FOUND', message: 'Serving not found' } };
+  }
+  return { serving: data as UserServing };
+}
+
+/** False when there was nothing of this user's to delete. */
+export async function deleteServing(
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const { data, error } = await getSupabase()
+    .from('user_servings')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) throw error;
+  return !!data?.length;
+}
+
+/**
+ * Default grams per food: the most recently saved serving of each. Never
+ * throws; without it portions fall back to learned or regional defaults.
+ */
+export async function defaultServingGrams(
+  userId: string,
+  ingredientIds: string[]
+): Promise<Map<string, number>> {
+  const grams = new Map<string, number>();
+  if (!ingredientIds.length) return grams;
+  try {
+    const { data, error } = await getSupabase()
+      .from('user_servings')
+      .select('ingredient_id, grams, updated_at')
+      .eq('user_id', userId)
+      .in('ingredient_id', ingredientIds)
+      .order('updated_at', { ascending: false });
+    if (error) throw error;
+    for (const row of data || []) {
+      const g = Number(row.grams);
+      if (!grams.has(row.ingredient_id) && g > 0)
+        grams.set(row.ingredient_id, g);
+    }
+  } catch (err) {
+    logger.warn('[SERVINGS] default serving lookup failed', { err });
+  }
+  return grams;
+}
@@ -0,0 +1,136 @@
+// src/services/waterService.ts
+// Water intake: individual water_logs entries, presets for quick-add and a
+// personalised daily target. Day totals live in user_daily_stats and are
+// recomputed from water_logs after every change.
+
+import { getSupabase } from '@/database/supabase';
+import {
+  getUserTimezone,
+  localDate,
+  localDayBounds,
+  recomputeWaterIntake,
+} from '@/services/dailyStatsService';
+
+export const WATER_PRESETS = {
+  glass: 250,
+  bottle: 500,
+} as const;
+
+export type WaterPreset = keyof typeof WATER_PRESETS | 'ml';
+
+export type WaterEntry = {
+  id: string;
+  user_id: string;
+  amount_ml: number;
+  preset: WaterPreset;
+  logged_at: string;
+};
+
+const DEFAULT_TARGET_ML = 2500;
+const ML_PER_KG = 35;
+// Extra water for sweat losses on more active days
+const ACTIVITY_BONUS_ML: Record<string, number> = {
+  sedentary: 0,
+  light: 250,
+  moderate: 500,
+  active: 750,
+  'very-active': 750,
+  'extra-active': 1000,
+};
+
+/** ~35 ml/kg plus an activity bonus, clamped to 1.5–5 l, in 50 ml steps. */
+export function waterTargetMl(profile: {
+  weight_kg?: number | string | null;
+  activity_level?: string | null;
+}): number {
+  const weight = Number(profile.weight_kg);
+  if (!Number.isFinite(weight) || weight <= 0) return DEFAULT_TARGET_ML;
+  const activity = String(profile.activity_level ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+  const raw = weight * ML_PER_KG + (ACTIVITY_BONUS_ML[activity] ?? 0);
+  return Math.round(Math.min(5000, Math.max(1500, raw)) / 50) * 50;
+}
+
+/** Resolve a preset (or explicit ml) to an amount; null when invalid. */
+export function resolveWaterAmount(
+  preset: WaterPreset,
+  amountMl?: number
+): number | null {
+  if (preset === 'ml') {
+    return Number.isFinite(amountMl) && amountMl! > 0
+      ? Math.round(amountMl!)
+      : null;
+  }
+  return WATER_PRESETS[preset] ?? null;
+}
+
+export async function addWaterEntry(
+  userId: string,
+  input: { preset: WaterPreset; amount_ml?: number; logged_at?: string }
+): Promise<{ entry: WaterEntry; date: string; water_intake_ml: number }> {
+  const amount = resolveWaterAmount(input.preset, input.amount_ml);
+  if (amount === null) throw new Error('Invalid water amount');
+
+  const { data: entry, error } = await getSupabase()
+    .from('water_logs')
+    .insert({
+      user_id: userId,
+      amount_ml: amount,
+      preset: input.preset,
+      logged_at: input.logged_at ?? new Date().toISOString(),
+    })
+    .select('id, user_id, amount_ml, preset, logged_at')
+    .single();
+  if (error || !entry) throw error || new Error('No water_logs row');
+
+  const tz = await getUserTimezone(userId);
+  const date = localDate(entry.logged_at, tz);
+  const total = await recomputeWaterIntake(userId, date, tz);
+  return { entry, date, water_intake_ml: total };
+}
+
+/** Returns null when the entry doesn't exist or belongs to someone else. */
+export async function deleteWaterEntry(
+  userId: string,
+  entryId: string
+): Promise<{ date: string; water_intake_ml: number } | null> {
+  const supabase = getSupabase();
+  const { data: entry, error: fetchError } = await supabase
+    .from('water_logs')
+    .select('id, user_id, logged_at')
+    .eq('id', entryId)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!entry || entry.user_id !== userId) return null;
+
+  const { error } = await supabase
+    .from('water_logs')
+    .delete()
+    .eq('id', entryId);
+  if (error) throw error;
+
+  const tz = await getUserTimezone(userId);
+  const date = localDate(entry.logged_at, tz);
+  const total = await recomputeWaterIntake(userId, date, tz);
+  return { date, water_intake_ml: total };
+}
+
+/** Entries for one local day, oldest first. */
+export async function listWaterEntries(
+  userId: string,
+  date: string,
+  tz: string
+): Promise<WaterEntry[]> {
+  const { start, end } = localDayBounds(date, tz);
+  const { data, error } = await getSupabase()
+    .from('water_logs')
+    .select('id, user_id, amount_ml, preset, logged_at')
+    .eq('user_id', userId)
+    .gte('logged_at', start)
+    .lt('logged_at', end)
+    .order('logged_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
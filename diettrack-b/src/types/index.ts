@@ -23,8 +23,12 @@ export interface DetectedFoodItem {
   alternatives: readonly string[];
   /** Estimated portion size and weight */
   portionSize: PortionEstimate;
-  /** Detected or inferred cooking method */
+  /** Detected or user-chosen cooking method; absent when unknown */
   cookingMethod?: CookingMethod;
+  /** Cooking variation applied to `nutrition`, or null when none matched */
+  cookingModifier?: CookingModifier | null;
+  /** Per-100 g values behind `nutrition`, rounded; kept for later rescales */
+  nutritionPer100g?: NutritionFacts;
   /** Identified ingredients list */
   ingredients: readonly string[];
 }
@@ -78,8 +82,26 @@ export interface PortionEstimate {
   referenceDetected?: ReferenceObject;
   /** Categorical size classification */
   servingSizeCategory: ServingSize;
+  /** Where the weight came from; absent on items saved before it was tracked */
+  source?: PortionSource;
 }
 
+/**
+ * Origin of a portion weight: measured against a reference object, estimated
+ * by the model, the user's saved serving, learned from their corrections, the
+ * regional table, a typical container serving, set by the user, or a generic
+ * default.
+ */
+export type PortionSource =
+  | 'measured'
+  | 'model'
+  | 'saved'
+  | 'learned'
+  | 'regional'
+  | 'container'
+  | 'user'
+  | 'default';
+
 /** Bounding box coordinates for detected items in images */
 export interface BoundingBox {
   /** X-coordinate of top-left corner */
@@ -124,8 +146,8 @@ export interface IFCTFood {
   allergens: readonly string[];
   /** Vegetarian food flag */
   isVegetarian: boolean;
-  /** Vegan food flag */
-  isVegan: boolean;
+  /** Vegan food flag; null when the source doesn't say */
+  isVegan: boolean | null;
   /** Primary Indian region where commonly consumed */
   region: IndianRegion;
   /** Common portion sizes with traditional utensils */
@@ -148,6 +170,12 @@ export interface CookingVariation {
   calorieModifier: number;
 }
 
+/** The part of a CookingVariation applied to an item's nutrition */
+export type CookingModifier = Pick<
+  CookingVariation,
+  'method' | 'oilFactor' | 'calorieModifier' | 'nutrientRetention'
+>;
+
 /** Common portion size with traditional Indian utensils */
 export interface CommonPortion {
   /** Human-readable portion description */
@@ -222,8 +250,8 @@ export interface AnalysisResponse {
   processing_time: string;
   /** Helpful suggestions for user */
   suggestions?: readonly string[];
-  /** Important warnings (allergies, etc.) */
-  warnings?: readonly string[];
+  /** Important warnings (implausible values, allergies, etc.) */
+  warnings?: readonly AnalysisWarning[];
   /** Analysis metadata */
   metadata?: AnalysisMetadata;
 }
@@ -238,6 +266,36 @@ export interface AnalysisMetadata {
   imageQualityScore?: number;
 }
 
+/** How strongly the app should surface a warning */
+export type WarningSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Suggested correction for one item, shaped like an `adjustedItems` entry of
+ * POST /analysis/:id/adjusted so the app can apply it in one tap.
+ */
+export interface WarningFix {
+  itemId: number;
+  portionSize?: { estimatedGrams: number };
+  nutrition?: Partial<
+    Pick<NutritionFacts, 'calories' | 'protein' | 'carbs' | 'fat'>
+  >;
+}
+
+/** Advisory notice attached to an analysis (the meal is still logged) */
+export interface AnalysisWarning {
+  /** Machine-readable code, e.g. POSSIBLE_DUPLICATE */
+  code: string;
+  severity: WarningSeverity;
+  /** Message the app can show as-is */
+  message: string;
+  /** Item the warning is about; absent for meal-level warnings */
+  itemId?: number;
+  /** Suggested corrected value, when one can be derived */
+  fix?: WarningFix;
+  /** Code-specific details */
+  [detail: string]: unknown;
+}
+
 /** Comprehensive nutritional information per serving */
 export interface NutritionFacts {
   /** Energy content in kilocalories */
@@ -304,7 +362,8 @@ export type AIProvider =
   | 'gemini'
   | 'openai'
   | 'anthropic'
-  | 'vision';
+  | 'vision'
+  | 'fixture';
 
 /** Cooking methods affecting nutrition */
 export type CookingMethod =
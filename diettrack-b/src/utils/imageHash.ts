@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import sharp from 'sharp';
 
 /** Generate a SHA-256 hash (16 hex chars) from a base64 data URL. */
 export function hashBase64Image(base64Image: string): string {
@@ -27,3 +28,47 @@ export function validateBase64Image(base64String: string): boolean {
     return false;
   }
 }
+
+/**
+ * 64-bit difference hash (hex) of a base64 data URL: grayscale 9×8, one bit
+ * per "left pixel brighter than right". Survives re-encoding, resizing and
+ * light crops, unlike the SHA-256 above. Null when the image can't be decoded.
+ */
+export async function perceptualHash(
+  base64Image: string
+): Promise<string | null> {
+  try {
+    const data = Buffer.from(
+      base64Image.replace(/^data:image\/\w+;base64,/, ''),
+      'base64'
+    );
+    const pixels = await sharp(data)
+      .rotate() // honour EXIF orientation
+      .grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const bit = pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n;
+        hash = (hash << 1n) | bit;
+      }
+    }
+    return hash.toString(16).padStart(16, '0');
+  } catch {
+    return null;
+  }
+}
+
+/** Number of differing bits between two hex hashes of equal length. */
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (x > 0n) {
+    count += Number(x & 1n);
+    x >>= 1n;
+  }
+  return count;
+}
@@ -7,12 +7,16 @@ DROP FUNCTION IF EXISTS personal_food_lookup(UUID, TEXT, INTEGER) CASCADE;
 DROP FUNCTION IF EXISTS get_user_stats(UUID) CASCADE;
 
 -- Drop existing tables if they exist (in correct order to handle foreign keys)
+DROP TABLE IF EXISTS food_corrections CASCADE;
+DROP TABLE IF EXISTS recipes CASCADE;
+DROP TABLE IF EXISTS water_logs CASCADE;
 DROP TABLE IF EXISTS analysis_feedback CASCADE;
 DROP TABLE IF EXISTS user_servings CASCADE;
 DROP TABLE IF EXISTS meal_log_items CASCADE;
 DROP TABLE IF EXISTS meal_logs CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
 DROP TABLE IF EXISTS ifct_foods CASCADE;
+DROP TABLE IF EXISTS food_datasets CASCADE;
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -24,6 +28,7 @@ CREATE TABLE users (
     name VARCHAR(255),
     email VARCHAR(255) UNIQUE,
     location VARCHAR(255),
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Kolkata', -- IANA zone; defines the user's "day"
     age INTEGER,
     gender VARCHAR(20) CHECK (gender IN ('male', 'female', 'other')),
     height_cm DECIMAL(5,2),
@@ -32,6 +37,7 @@ CREATE TABLE users (
     fitness_goal VARCHAR(50),
     daily_calorie_target INTEGER DEFAULT 2000,
     macro_targets JSONB DEFAULT '{"protein": 140, "carbs": 230, "fats": 54}',
+    target_overrides JSONB NOT NULL DEFAULT '{}', -- User-pinned calorie/macro targets
     dietary_preferences TEXT[] DEFAULT '{}',
     allergies TEXT[] DEFAULT '{}',
     free_analyses_used INTEGER DEFAULT 0,
@@ -43,12 +49,18 @@ CREATE TABLE users (
 -- 2. IFCT FOODS TABLE (Indian Food Composition Table)
 CREATE TABLE ifct_foods (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(64) UNIQUE, -- Stable source code (IFCT "A001"); bulk imports upsert on it
     canonical_name VARCHAR(255) NOT NULL,
     regional_names TEXT[] DEFAULT '{}',
     search_keywords TEXT[] DEFAULT '{}',
     portion_grams DECIMAL(10,2),
     nutrition JSONB,
+    -- [{"method": "deep_fried", "oil_factor": 3.5, "calorie_modifier": 1.6, "nutrient_retention": 0.85}, ...]
+    cooking_variations JSONB NOT NULL DEFAULT '[]',
     category VARCHAR(100),
+    region VARCHAR(20) CHECK (region IN ('north', 'south', 'east', 'west', 'central', 'northeast')), -- where it's mostly eaten; NULL if eaten everywhere
+    is_vegetarian BOOLEAN, -- NULL when unknown
+    dataset_version VARCHAR(64), -- food_datasets.version that last wrote the row; NULL if hand-edited
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -65,6 +77,9 @@ CREATE TABLE meal_logs (
     nutrition_total JSONB NOT NULL DEFAULT '{}', -- Total nutrition summary
     nutrition_breakdown JSONB NOT NULL DEFAULT '{}', -- Detailed breakdown
     summary TEXT,
+    adjustments JSONB NOT NULL DEFAULT '[]', -- Audit trail of user portion edits
+    image_phash CHAR(16), -- 64-bit dHash (hex) of the photo, for near-duplicate checks
+    feedback_received BOOLEAN NOT NULL DEFAULT FALSE, -- Set once the owner has sent feedback
     logged_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -104,6 +119,7 @@ CREATE TABLE analysis_feedback (
     user_id UUID REFERENCES users(id) ON DELETE CASCADE,
     helpful BOOLEAN,
     comment TEXT,
+    corrections JSONB NOT NULL DEFAULT '[]', -- [{"itemId", "correctName", "correctPortion", "correctIngredients", "userNotes"}] as submitted
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(analysis_id, user_id)
@@ -128,6 +144,53 @@ CREATE TABLE user_daily_stats (
     UNIQUE(user_id, date)
 );
 
+-- 8. WATER LOGS TABLE (Individual water intake entries)
+CREATE TABLE water_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    amount_ml INTEGER NOT NULL CHECK (amount_ml > 0),
+    preset VARCHAR(20) NOT NULL DEFAULT 'ml' CHECK (preset IN ('glass', 'bottle', 'ml')),
+    logged_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 9. RECIPES TABLE (User-built dishes from ifct_foods ingredients)
+CREATE TABLE recipes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    ingredients JSONB NOT NULL DEFAULT '[]', -- [{"ingredient_id", "name", "grams"}], raw weights
+    cooked_yield_g DECIMAL(10,2) NOT NULL CHECK (cooked_yield_g > 0),
+    servings INTEGER NOT NULL DEFAULT 1 CHECK (servings > 0),
+    nutrition_per_100g JSONB NOT NULL DEFAULT '{}', -- Of the cooked dish
+    nutrition_per_serving JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 10. FOOD DATASETS TABLE (One row per bulk import into ifct_foods)
+CREATE TABLE food_datasets (
+    version VARCHAR(64) PRIMARY KEY,
+    sources JSONB NOT NULL DEFAULT '[]', -- [{"file": "ifct2017.csv", "sha256": "...", "rows": 528}, ...]
+    row_count INTEGER NOT NULL DEFAULT 0,
+    imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 11. FOOD CORRECTIONS TABLE (One row per item corrected through feedback, for per-food error stats)
+CREATE TABLE food_corrections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    feedback_id UUID REFERENCES analysis_feedback(id) ON DELETE CASCADE,
+    meal_log_id UUID REFERENCES meal_logs(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    item_id INTEGER NOT NULL,
+    detected_name VARCHAR(255) NOT NULL, -- What the analysis called the item
+    corrected_name VARCHAR(255), -- NULL when the name was right
+    detected_grams DECIMAL(10,2),
+    corrected_grams DECIMAL(10,2), -- NULL when the portion was right
+    ingredients_corrected BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_phone ON users(phone);
 CREATE INDEX idx_users_email ON users(email);
@@ -141,12 +204,15 @@ CREATE INDEX idx_ifct_foods_category ON ifct_foods(category);
 CREATE INDEX idx_meal_logs_user_id ON meal_logs(user_id);
 CREATE INDEX idx_meal_logs_logged_at ON meal_logs(logged_at);
 CREATE INDEX idx_meal_logs_source ON meal_logs(source);
+CREATE INDEX idx_meal_logs_user_phash ON meal_logs(user_id, logged_at) WHERE image_phash IS NOT NULL;
 
 CREATE INDEX idx_meal_log_items_meal_log_id ON meal_log_items(meal_log_id);
 CREATE INDEX idx_meal_log_items_item_id ON meal_log_items(item_id);
 
 CREATE INDEX idx_user_servings_user_id ON user_servings(user_id);
 CREATE INDEX idx_user_servings_ingredient_id ON user_servings(ingredient_id);
+-- One definition per label per food ("1 katori" of dal), whatever the case
+CREATE UNIQUE INDEX idx_user_servings_user_food_label ON user_servings(user_id, ingredient_id, LOWER(label));
 
 CREATE INDEX idx_analysis_feedback_analysis_id ON analysis_feedback(analysis_id);
 CREATE INDEX idx_analysis_feedback_user_id ON analysis_feedback(user_id);
@@ -155,6 +221,13 @@ CREATE INDEX idx_user_daily_stats_user_id ON user_daily_stats(user_id);
 CREATE INDEX idx_user_daily_stats_date ON user_daily_stats(date);
 CREATE INDEX idx_user_daily_stats_user_date ON user_daily_stats(user_id, date);
 
+CREATE INDEX idx_water_logs_user_logged_at ON water_logs(user_id, logged_at);
+
+CREATE UNIQUE INDEX idx_recipes_user_name ON recipes(user_id, LOWER(name));
+
+CREATE INDEX idx_food_corrections_created_at ON food_corrections(created_at);
+CREATE INDEX idx_food_corrections_detected_name ON food_corrections(LOWER(detected_name));
+
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -186,6 +259,9 @@ CREATE TRIGGER update_analysis_feedback_updated_at BEFORE UPDATE ON analysis_fee
 CREATE TRIGGER update_user_daily_stats_updated_at BEFORE UPDATE ON user_daily_stats
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_recipes_updated_at BEFORE UPDATE ON recipes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Helper function to get user's daily nutrition stats
 CREATE OR REPLACE FUNCTION get_user_daily_stats(p_user_id UUID, p_date DATE)
 RETURNS TABLE (
@@ -248,10 +324,10 @@ INSERT INTO users (id, phone, name, email, age, gender, height_cm, weight_kg, ac
 ('550e8400-e29b-41d4-a716-446655440000', '+1234567890', 'Test User', 'test@example.com', 25, 'male', 175.0, 70.0, 'moderate', 'maintain', 2000, '{"protein": 140, "carbs": 230, "fats": 54}');
 
 -- Insert sample IFCT food data
-INSERT INTO ifct_foods (canonical_name, regional_names, search_keywords, portion_grams, nutrition, category) VALUES
-('Rice, white, cooked', ARRAY['Chawal', 'Bhat'], ARRAY['rice', 'white rice', 'cooked rice'], 100, '{"calories": 130, "protein": 2.7, "carbs": 28, "fat": 0.3, "fiber": 0.4, "sugar": 0.1, "sodium": 1}', 'Grains'),
-('Chicken, breast, grilled', ARRAY['Murgh', 'Chicken'], ARRAY['chicken', 'breast', 'grilled', 'protein'], 100, '{"calories": 165, "protein": 31, "carbs": 0, "fat": 3.6, "fiber": 0, "sugar": 0, "sodium": 74}', 'Meat'),
-('Apple, raw', ARRAY['Seb', 'Apple'], ARRAY['apple', 'fruit', 'raw'], 100, '{"calories": 52, "protein": 0.3, "carbs": 14, "fat": 0.2, "fiber": 2.4, "sugar": 10, "sodium": 1}', 'Fruits');
+INSERT INTO ifct_foods (canonical_name, regional_names, search_keywords, portion_grams, nutrition, category, is_vegetarian) VALUES
+('Rice, white, cooked', ARRAY['Chawal', 'Bhat'], ARRAY['rice', 'white rice', 'cooked rice'], 100, '{"calories": 130, "protein": 2.7, "carbs": 28, "fat": 0.3, "fiber": 0.4, "sugar": 0.1, "sodium": 1}', 'Grains', TRUE),
+('Chicken, breast, grilled', ARRAY['Murgh', 'Chicken'], ARRAY['chicken', 'breast', 'grilled', 'protein'], 100, '{"calories": 165, "protein": 31, "carbs": 0, "fat": 3.6, "fiber": 0, "sugar": 0, "sodium": 74}', 'Meat', FALSE),
+('Apple, raw', ARRAY['Seb', 'Apple'], ARRAY['apple', 'fruit', 'raw'], 100, '{"calories": 52, "protein": 0.3, "carbs": 14, "fat": 0.2, "fiber": 2.4, "sugar": 10, "sodium": 1}', 'Fruits', TRUE);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -260,6 +336,9 @@ ALTER TABLE meal_log_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_servings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE analysis_feedback ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_daily_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE water_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE food_corrections ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 -- Users can only access their own data
@@ -284,6 +363,7 @@ CREATE POLICY "Users can insert own meal log items" ON meal_log_items FOR INSERT
 CREATE POLICY "Users can view own servings" ON user_servings FOR SELECT USING (auth.uid()::text = user_id::text);
 CREATE POLICY "Users can insert own servings" ON user_servings FOR INSERT WITH CHECK (auth.uid()::text = user_id::text);
 CREATE POLICY "Users can update own servings" ON user_servings FOR UPDATE USING (auth.uid()::text = user_id::text);
+CREATE POLICY "Users can delete own servings" ON user_servings FOR DELETE USING (auth.uid()::text = user_id::text);
 
 -- Analysis feedback policies
 CREATE POLICY "Users can view own feedback" ON analysis_feedback FOR SELECT USING (auth.uid()::text = user_id::text);
@@ -294,6 +374,20 @@ CREATE POLICY "Users can view own daily stats" ON user_daily_stats FOR SELECT US
 CREATE POLICY "Users can insert own daily stats" ON user_daily_stats FOR INSERT WITH CHECK (auth.uid()::text = user_id::text);
 CREATE POLICY "Users can update own daily stats" ON user_daily_stats FOR UPDATE USING (auth.uid()::text = user_id::text);
 
+-- Water logs policies
+CREATE POLICY "Users can view own water logs" ON water_logs FOR SELECT USING (auth.uid()::text = user_id::text);
+CREATE POLICY "Users can insert own water logs" ON water_logs FOR INSERT WITH CHECK (auth.uid()::text = user_id::text);
+CREATE POLICY "Users can delete own water logs" ON water_logs FOR DELETE USING (auth.uid()::text = user_id::text);
+
+-- Recipes policies
+CREATE POLICY "Users can view own recipes" ON recipes FOR SELECT USING (auth.uid()::text = user_id::text);
+CREATE POLICY "Users can insert own recipes" ON recipes FOR INSERT WITH CHECK (auth.uid()::text = user_id::text);
+CREATE POLICY "Users can update own recipes" ON recipes FOR UPDATE USING (auth.uid()::text = user_id::text);
+CREATE POLICY "Users can delete own recipes" ON recipes FOR DELETE USING (auth.uid()::text = user_id::text);
+
+-- Food corrections policies (written by the server; stats aggregate across users)
+CREATE POLICY "Users can view own food corrections" ON food_corrections FOR SELECT USING (auth.uid()::text = user_id::text);
+
 -- IFCT foods are public (read-only for all users)
 CREATE POLICY "IFCT foods are publicly readable" ON ifct_foods FOR SELECT USING (true);
 
@@ -0,0 +1,153 @@
+// tests/aiAnalysis.gemini.test.ts
+// Exercises the real Gemini provider (SDK mocked) through analyzeImage.
+
+jest.unmock('@/services/aiAnalysis');
+
+const mockGenerateContent = jest.fn();
+jest.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+    getGenerativeModel: () => ({ generateContent: mockGenerateContent }),
+  })),
+}));
+
+import { analyzeImage } from '@/services/aiAnalysis';
+import { validateLLMOutput } from '@/services/llmOutputSchema';
+
+const reply = (text: string) => ({ response: { text: () => text } });
+
+const VALID = JSON.stringify({
+  detected_items: [
+    {
+      itemId: 1,
+      name: 'Roti',
+      confidence: 0.8,
+      portion_size: { estimated_grams: 40 },
+      calories: 120,
+      protein: 3.5,
+      carbs: 20,
+      fat: 3,
+      cooking_method: 'roasted',
+    },
+  ],
+  overall_confidence: 0.8,
+});
+
+const image = 'data:image/png;base64,iVBORw0KGgo=';
+
+describe('Gemini output validation', () => {
+  const prevChain = process.env.AI_PROVIDER_CHAIN;
+  beforeAll(() => {
+    process.env.AI_PROVIDER_CHAIN = 'gemini';
+  });
+  afterAll(() => {
+    process.env.AI_PROVIDER_CHAIN = prevChain;
+  });
+  beforeEach(() => mockGenerateContent.mockReset());
+
+  it('repairs malformed JSON with a follow-up prompt', async () => {
+    mockGenerateContent
+      .mockResolvedValueOnce(reply('Sure! Here is the JSON: {detected_items'))
+      .mockResolvedValueOnce(reply('```json\n' + VALID + '\n```'));
+
+    const res = await analyzeImage({ imageBase64: image });
+
+    expect(res.reason).toBe('OK');
+    expect(res.detectedItems).toHaveLength(1);
+    expect(res.detectedItems[0].cookingMethod).toBe('roasted');
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+
+    const followUp = mockGenerateContent.mock.calls[1][0].contents;
+    expect(followUp).toHaveLength(3);
+    expect(followUp[2].parts[0].text).toMatch(/did not match/);
+  });
+
+  it('reports INVALID_MODEL_OUTPUT once repairs are exhausted', async () => {
+    mockGenerateContent.mockResolvedValue(
+      reply(JSON.stringify({ detected_items: [{ name: 'rice' }] }))
+    );
+
+    const res = await analyzeImage({ imageBase64: image });
+
+    expect(res.detectedItems).toHaveLength(0);
+    expect(res.reason).toBe('INVALID_MODEL_OUTPUT');
+    expect(res.attempts[0].validationErrors?.length).toBeGreaterThan(0);
+    expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('asks for boxes when a reference object is named', async () => {
+    const boxed = JSON.parse(VALID);
+    boxed.detected_items[0].region = {
+      x: 200,
+      y: 100,
+      width: 340,
+      height: 340,
+    };
+    const katori = { x: 10, y: 10, width: 100, height: 90 };
+    mockGenerateContent
+      .mockResolvedValueOnce(
+        reply(
+          JSON.stringify({ ...JSON.parse(VALID), reference_region: katori })
+        )
+      )
+      .mockResolvedValueOnce(
+        reply(JSON.stringify({ ...boxed, reference_region: katori }))
+      );
+
+    const res = await analyzeImage({
+      imageBase64: image,
+      referenceObject: 'katori' as any,
+    });
+
+    const prompt = mockGenerateContent.mock.calls[0][0].contents[0].parts[0];
+    expect(prompt.text).toMatch(/"reference_region"/);
+    // The first reply boxed the katori but not the roti
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    expect(res.referenceRegion).toEqual(katori);
+    expect(res.detectedItems[0].region).toEqual(boxed.detected_items[0].region);
+  });
+
+  it('reports NO_FOOD_DETECTED for a valid empty answer', async () => {
+    mockGenerateContent.mockResolvedValue(
+      reply(JSON.stringify({ detected_items: [], overall_confidence: 0.9 }))
+    );
+
+    const res = await analyzeImage({ imageBase64: image });
+
+    expect(res.reason).toBe('NO_FOOD_DETECTED');
+    expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('validateLLMOutput', () => {
+  it('classifies empty, non-JSON and off-schema replies', () => {
+    expect(validateLLMOutput('')).toMatchObject({ reason: 'EMPTY_RESPONSE' });
+    expect(validateLLMOutput('{oops')).toMatchObject({
+      reason: 'INVALID_JSON',
+    });
+
+    const bad = validateLLMOutput(
+      JSON.stringify({
+        detected_items: [
+          {
+            itemId: 1,
+            name: 'dal',
+            confidence: 1.4,
+            portion_size: { estimated_grams: 150 },
+            calories: 160,
+            protein: 9,
+            carbs: 24,
+            fat: 3,
+            cooking_method: 'microwaved',
+          },
+        ],
+        overall_confidence: 0.7,
+      })
+    );
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) {
+      expect(bad.reason).toBe('SCHEMA_MISMATCH');
+      expect(bad.errors.join(' ')).toMatch(/confidence/);
+      expect(bad.errors.join(' ')).toMatch(/cooking_method/);
+    }
+  });
+});
@@ -0,0 +1,181 @@
+// tests/aiProviderRegistry.test.ts
+import {
+  registerProvider,
+  resetProviderRegistry,
+  resolveProviderChain,
+  runProviderChain,
+  type AIAnalysisResult,
+  type AnalysisProvider,
+  type ProviderName,
+} from '@/services/aiProviderRegistry';
+import {
+  fixtureItemsForPrompt,
+  fixtureProvider,
+} from '@/services/fixtureProvider';
+
+const params = { image: 'data:image/png;base64,AAAA' };
+
+function result(provider: ProviderName, names: string[]): AIAnalysisResult {
+  return {
+    provider,
+    detectedItems: fixtureItemsForPrompt(names.join(' ')).slice(
+      0,
+      names.length
+    ),
+    confidence: 0.8,
+    processingTimeMs: 1,
+  };
+}
+
+function fake(
+  name: ProviderName,
+  analyze: AnalysisProvider['analyze'],
+  timeoutMs = 200
+): AnalysisProvider & { calls: number } {
+  const p = {
+    name,
+    timeoutMs,
+    calls: 0,
+    isConfigured: () => true,
+    analyze: (x: any) => {
+      p.calls++;
+      return analyze(x);
+    },
+  };
+  return p;
+}
+
+beforeEach(() => resetProviderRegistry());
+
+describe('AI provider chain', () => {
+  it('falls through to the next provider when one throws', async () => {
+    registerProvider(
+      fake('gemini', async () => Promise.reject(new Error('boom')))
+    );
+    registerProvider(fake('vision', async () => result('vision', ['rice'])));
+
+    const { result: r, attempts } = await runProviderChain(params, [
+      'gemini',
+      'vision',
+    ]);
+    expect(r?.provider).toBe('vision');
+    expect(attempts.map((a) => a.outcome)).toEqual(['error', 'ok']);
+  });
+
+  it('falls through on zero items and keeps the empty result as a last resort', async () => {
+    registerProvider(fake('gemini', async () => result('gemini', [])));
+    registerProvider(fake('fixture', async () => result('fixture', ['dal'])));
+
+    const chained = await runProviderChain(params, ['gemini', 'fixture']);
+    expect(chained.result?.provider).toBe('fixture');
+    expect(chained.result?.detectedItems[0].name).toBe('dal');
+
+    const alone = await runProviderChain(params, ['gemini']);
+    expect(alone.result?.provider).toBe('gemini');
+    expect(alone.result?.detectedItems).toHaveLength(0);
+    expect(alone.attempts[0].outcome).toBe('empty');
+  });
+
+  it('treats a slow provider as a timeout', async () => {
+    registerProvider(
+      fake(
+        'gemini',
+        () =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve(result('gemini', ['rice'])), 100)
+          ),
+        10
+      )
+    );
+    registerProvider(fixtureProvider);
+
+    const { result: r, attempts } = await runProviderChain(params, [
+      'gemini',
+      'fixture',
+    ]);
+    expect(attempts[0].outcome).toBe('timeout');
+    expect(r?.provider).toBe('fixture');
+  });
+
+  it('opens the breaker after repeated failures and skips the provider', async () => {
+    const flaky = fake('gemini', async () => Promise.reject(new Error('503')));
+    registerProvider(flaky);
+    registerProvider(fixtureProvider);
+
+    for (let i = 0; i < 3; i++) {
+      await runProviderChain(params, ['gemini', 'fixture']);
+    }
+    const { attempts } = await runProviderChain(params, ['gemini', 'fixture']);
+
+    expect(flaky.calls).toBe(3);
+    expect(attempts[0].outcome).toBe('skipped_open');
+    expect(attempts[1].outcome).toBe('ok');
+  });
+
+  it('skips unconfigured and unregistered providers', async () => {
+    registerProvider({
+      ...fake('vision', async () => result('vision', ['rice'])),
+      isConfigured: () => false,
+    });
+    const { result: r, attempts } = await runProviderChain(params, [
+      'gemini',
+      'vision',
+    ]);
+    expect(r).toBeNull();
+    expect(attempts.map((a) => a.outcome)).toEqual([
+      'skipped_unregistered',
+      'skipped_unconfigured',
+    ]);
+  });
+});
+
+describe('resolveProviderChain', () => {
+  it('prefers AI_PROVIDER_CHAIN and drops unknown names', () => {
+    expect(
+      resolveProviderChain({ AI_PROVIDER_CHAIN: 'vision, gpt, gemini' } as any)
+    ).toEqual(['vision', 'gemini']);
+  });
+
+  it('maps AI_STRATEGY and appends the fixture only under test', () => {
+    expect(
+      resolveProviderChain({ AI_STRATEGY: 'both', NODE_ENV: 'test' } as any)
+    ).toEqual(['gemini', 'vision', 'fixture']);
+    expect(resolveProviderChain({ AI_STRATEGY: 'both' } as any)).toEqual([
+      'gemini',
+      'vision',
+    ]);
+    expect(resolveProviderChain({ NODE_ENV: 'development' } as any)).toEqual([
+      'gemini',
+    ]);
+    expect(
+      resolveProviderChain({
+        AI_STRATEGY: 'vision_only',
+        NODE_ENV: 'production',
+      } as any)
+    ).toEqual(['vision']);
+    expect(
+      resolveProviderChain({
+        NODE_ENV: 'test',
+        AI_FIXTURE_FALLBACK: 'false',
+      } as any)
+    ).toEqual(['gemini']);
+    expect(
+      resolveProviderChain({ AI_PROVIDER_CHAIN: 'fixture' } as any)
+    ).toEqual(['fixture']);
+  });
+});
+
+describe('fixture provider', () => {
+  it('is deterministic and keyword-driven', async () => {
+    const a = fixtureItemsForPrompt('2 roti with dal');
+    const b = fixtureItemsForPrompt('2 roti with dal');
+    expect(a).toEqual(b);
+    expect(a.map((i) => i.name)).toEqual(['dal', 'roti']);
+    expect(a[1].nutrition.calories).toBeGreaterThan(0);
+  });
+
+  it('returns a default plate when nothing matches', async () => {
+    const res = await fixtureProvider.analyze({ image: '' });
+    expect(res.detectedItems.map((i) => i.name)).toEqual(['rice', 'dal']);
+  });
+});
@@ -10,6 +10,8 @@ jest.mock('uuid', () => ({
     ),
 }));
 
+let mockOwner: string | null = 'user-123';
+
 // Supabase mock: implement select(...).eq(...).single() + update(...).eq(...)
 jest.mock('@/database/supabase', () => {
   // A realistic base item saved by /analysis/analyze
@@ -54,7 +56,7 @@ jest.mock('@/database/supabase', () => {
   const selectChain = {
     eq: (_col: string, _val: any) => ({
       single: async () => ({
-        data: { detected_items: baseDetectedItems, user_id: 'user-123' },
+        data: { detected_items: baseDetectedItems, user_id: mockOwner },
         error: null,
       }),
     }),
@@ -87,6 +89,20 @@ jest.mock('@/database/supabase', () => {
 
 import request from 'supertest';
 import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+
+// The mocked meal log belongs to user-123
+const auth = {
+  Authorization: `Bearer ${signAccessToken({
+    id: 'user-123',
+    phone: '+919800000000',
+  })}`,
+};
+
+beforeEach(() => {
+  mockOwner = 'user-123';
+});
 
 describe('Adjusted analysis', () => {
   it('scales portion grams and adds add-ons', async () => {
@@ -108,6 +124,7 @@ describe('Adjusted analysis', () => {
 
     const res = await request(app)
       .post(`/api/v1/analysis/${analysisId}/adjusted`)
+      .set(auth)
       .send(payload);
 
     expect(res.status).toBe(200);
@@ -120,4 +137,95 @@ describe('Adjusted analysis', () => {
     expect(totals.total_carbs).toBeGreaterThan(55); // 44 * (200/150) ~ 58.7
     expect(totals.total_fat).toBeGreaterThan(10); // base fat scaled + ~10g from ghee
   });
+
+  it('re-derives nutrition when only the cooking method changes', async () => {
+    const findVariation = jest
+      .spyOn(indianFoodDatabase, 'findCookingVariation')
+      .mockResolvedValue({
+        method: 'fried',
+        oilFactor: 10,
+        spiceFactor: 1,
+        nutrientRetention: 1,
+        calorieModifier: 1.5,
+      });
+    try {
+      const res = await request(app)
+        .post('/api/v1/analysis/11111111-1111-4111-8111-111111111111/adjusted')
+        .set(auth)
+        .send({ adjustedItems: [{ itemId: 1, cookingMethod: 'fried' }] });
+
+      expect(res.status).toBe(200);
+      const [rice] = res.body.data.items;
+      expect(findVariation).toHaveBeenCalledWith('rice', 'fried');
+      expect(rice.cookingMethod).toBe('fried');
+      expect(rice.cookingModifier).toMatchObject({ oilFactor: 10 });
+      expect(rice.portionSize.estimatedGrams).toBe(150);
+      expect(rice.nutrition).toMatchObject({ calories: 300, fat: 5 });
+    } finally {
+      findVariation.mockRestore();
+    }
+  });
+
+  it('rejects an unknown cooking method', async () => {
+    const res = await request(app)
+      .post('/api/v1/analysis/11111111-1111-4111-8111-111111111111/adjusted')
+      .set(auth)
+      .send({ adjustedItems: [{ itemId: 1, cookingMethod: 'microwaved' }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('BAD_INPUT');
+  });
+
+  it('applies explicit nutrition values from a plausibility fix', async () => {
+    const res = await request(app)
+      .post('/api/v1/analysis/11111111-1111-4111-8111-111111111111/adjusted')
+      .set(auth)
+      .send({
+        adjustedItems: [{ itemId: 1, nutrition: { calories: 180 } }],
+      });
+
+    expect(res.status).toBe(200);
+    const [rice] = res.body.data.items;
+    expect(rice.nutrition).toMatchObject({ calories: 180, protein: 4 });
+    expect(rice.nutritionPer100g.calories).toBe(120);
+    expect(res.body.data.nutritionSummary.total_calories).toBe(180);
+    expect(Array.isArray(res.body.data.warnings)).toBe(true);
+  });
+
+  it('rejects itemIds that are not on the meal log', async () => {
+    const res = await request(app)
+      .post('/api/v1/analysis/11111111-1111-4111-8111-111111111111/adjusted')
+      .set(auth)
+      .send({
+        adjustedItems: [{ itemId: 7, portionSize: { estimatedGrams: 90 } }],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('UNKNOWN_ITEM');
+  });
+
+  it("hides another user's meal log", async () => {
+    const res = await request(app)
+      .post('/api/v1/analysis/11111111-1111-4111-8111-111111111111/adjusted')
+      .send({
+        adjustedItems: [{ itemId: 1, portionSize: { estimatedGrams: 90 } }],
+      });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('hides guest meal logs from everyone', async () => {
+    mockOwner = null;
+    const id = '11111111-1111-4111-8111-111111111111';
+    const adjust = await request(app)
+      .post(`/api/v1/analysis/${id}/adjusted`)
+      .set(auth)
+      .send({
+        adjustedItems: [{ itemId: 1, portionSize: { estimatedGrams: 90 } }],
+      });
+    expect(adjust.status).toBe(404);
+
+    const read = await request(app).get(`/api/v1/analysis/${id}`);
+    expect(read.status).toBe(404);
+  });
 });
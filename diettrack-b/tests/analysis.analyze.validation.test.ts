@@ -35,4 +35,12 @@ describe('Analyze validation', () => {
     // middleware maps this specific message to MISSING_INPUT
     expect(res.body.code).toBe('MISSING_INPUT');
   });
+
+  it('rejects a loggedAt that is not an ISO timestamp', async () => {
+    const res = await request(app)
+      .post('/api/v1/analysis/analyze')
+      .send({ prompt: 'two idli', loggedAt: 'yesterday' });
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('BAD_INPUT');
+  });
 });
@@ -0,0 +1,196 @@
+// tests/auth.test.ts
+
+// In-memory users table: enough for OTP signup/login, /auth/me and /user/:id
+jest.mock('@/database/supabase', () => {
+  const users: any[] = [];
+  const byCol = (col: string, val: any) => users.find((u) => u[col] === val);
+  return {
+    getSupabase: () => ({
+      from: (_table: string) => ({
+        select: () => ({
+          eq: (col: string, val: any) => ({
+            maybeSingle: async () => ({
+              data: byCol(col, val) ?? null,
+              error: null,
+            }),
+            single: async () => {
+              const row = byCol(col, val);
+              return row
+                ? { data: row, error: null }
+                : { data: null, error: { code: 'PGRST116' } };
+            },
+          }),
+        }),
+        insert: (row: any) => ({
+          select: () => ({
+            single: async () => {
+              const created = { id: `user-${users.length + 1}`, ...row };
+              users.push(created);
+              return { data: created, error: null };
+            },
+          }),
+        }),
+      }),
+    }),
+  };
+});
+
+import request from 'supertest';
+import app from '@/server';
+import { peekConsoleOtp } from '@/services/otpSender';
+import {
+  normalizePhone,
+  pendingOtpChallenges,
+  requestOtp,
+  resetOtpChallenges,
+  signAccessToken,
+  verifyToken,
+} from '@/services/authService';
+
+beforeEach(() => resetOtpChallenges());
+
+async function login(phone: string, name?: string) {
+  await request(app).post('/api/v1/auth/otp/request').send({ phone });
+  const code = peekConsoleOtp(normalizePhone(phone)!);
+  return request(app)
+    .post('/api/v1/auth/otp/verify')
+    .send({ phone, code, name });
+}
+
+describe('Phone OTP auth', () => {
+  it('signs up a new phone, then logs the same user back in', async () => {
+    const first = await login('98765 43210', 'Asha');
+    expect(first.status).toBe(200);
+    expect(first.body.data.is_new_user).toBe(true);
+    expect(first.body.data.user.phone).toBe('+919876543210');
+
+    resetOtpChallenges();
+    const again = await login('+91 98765-43210');
+    expect(again.body.data.is_new_user).toBe(false);
+    expect(again.body.data.user.id).toBe(first.body.data.user.id);
+
+    const me = await request(app)
+      .get('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${again.body.data.accessToken}`);
+    expect(me.status).toBe(200);
+    expect(me.body.data.name).toBe('Asha');
+  });
+
+  it('rejects a wrong code and locks after repeated attempts', async () => {
+    const phone = '+919800000001';
+    await request(app).post('/api/v1/auth/otp/request').send({ phone });
+    const wrong = peekConsoleOtp(phone) === '000000' ? '111111' : '000000';
+
+    const codes: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const res = await request(app)
+        .post('/api/v1/auth/otp/verify')
+        .send({ phone, code: wrong });
+      codes.push(res.body.code);
+    }
+    expect(codes[0]).toBe('OTP_INVALID');
+    expect(codes[4]).toBe('OTP_LOCKED');
+
+    const right = await request(app)
+      .post('/api/v1/auth/otp/verify')
+      .send({ phone, code: peekConsoleOtp(phone) });
+    expect(right.body.code).toBe('OTP_LOCKED');
+  });
+
+  it('enforces a resend cooldown', async () => {
+    const phone = '+919800000002';
+    await request(app).post('/api/v1/auth/otp/request').send({ phone });
+    const res = await request(app)
+      .post('/api/v1/auth/otp/request')
+      .send({ phone });
+    expect(res.status).toBe(429);
+    expect(res.body.code).toBe('OTP_COOLDOWN');
+  });
+
+  it("doesn't keep codes once they're used or expired", async () => {
+    const used = await login('+919800000003');
+    expect(used.status).toBe(200);
+    expect(peekConsoleOtp('+919800000003')).toBeUndefined();
+    expect(pendingOtpChallenges()).toBe(0);
+
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    try {
+      await requestOtp('+919800000004');
+      // Never verified; the next request after it expires clears it out
+      clock.mockReturnValue(now + 301_000);
+      await requestOtp('+919800000005');
+      expect(pendingOtpChallenges()).toBe(1);
+      expect(peekConsoleOtp('+919800000004')).toBeUndefined();
+      expect(peekConsoleOtp('+919800000005')).toBeDefined();
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it('refreshes tokens but never accepts a refresh token as access', async () => {
+    const { body } = await login('+919800000003');
+    const { refreshToken } = body.data;
+
+    const asAccess = await request(app)
+      .get('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${refreshToken}`);
+    expect(asAccess.status).toBe(401);
+
+    const refreshed = await request(app)
+      .post('/api/v1/auth/refresh')
+      .send({ refreshToken });
+    expect(refreshed.status).toBe(200);
+    expect(verifyToken(refreshed.body.data.accessToken, 'access')?.id).toBe(
+      body.data.user.id
+    );
+  });
+
+  it('rejects tampered tokens', () => {
+    const token = signAccessToken({ id: 'u1', phone: '+919800000004' });
+    const [h, , s] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'admin', typ: 'access', exp: 9e9 })
+    ).toString('base64url');
+    expect(verifyToken(`${h}.${forged}.${s}`, 'access')).toBeNull();
+  });
+
+  it('refuses to sign without a JWT secret', () => {
+    const secret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      expect(() =>
+        signAccessToken({ id: 'u1', phone: '+919800000004' })
+      ).toThrow('JWT_SECRET');
+    } finally {
+      process.env.JWT_SECRET = secret;
+    }
+  });
+});
+
+describe('Resource ownership', () => {
+  it("blocks reading another user's profile", async () => {
+    const { body } = await login('+919800000005');
+    const auth = `Bearer ${body.data.accessToken}`;
+
+    const mine = await request(app)
+      .get(`/api/v1/user/${body.data.user.id}/profile`)
+      .set('Authorization', auth);
+    expect(mine.status).toBe(200);
+
+    const theirs = await request(app)
+      .get('/api/v1/user/someone-else/profile')
+      .set('Authorization', auth);
+    expect(theirs.status).toBe(403);
+
+    const anon = await request(app).get(
+      `/api/v1/user/${body.data.user.id}/profile`
+    );
+    expect(anon.status).toBe(401);
+  });
+
+  it('requires auth for analysis history', async () => {
+    const res = await request(app).get('/api/v1/analysis/history?userId=x');
+    expect(res.status).toBe(401);
+  });
+});
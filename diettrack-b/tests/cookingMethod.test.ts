@@ -0,0 +1,116 @@
+// tests/cookingMethod.test.ts
+import {
+  applyCookingMethod,
+  applyCookingMethods,
+} from '@/services/cookingMethodService';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+import type { CookingVariation, DetectedFoodItem } from '@/types';
+
+const variations: Record<string, CookingVariation> = {
+  deep_fried: {
+    method: 'deep_fried',
+    oilFactor: 4,
+    spiceFactor: 1,
+    nutrientRetention: 0.9,
+    calorieModifier: 1.5,
+  },
+  tandoor: {
+    method: 'tandoor',
+    oilFactor: 0.5,
+    spiceFactor: 1.2,
+    nutrientRetention: 1,
+    calorieModifier: 0.9,
+  },
+};
+
+const findVariation = jest
+  .spyOn(indianFoodDatabase, 'findCookingVariation')
+  .mockImplementation(async (_name, method) => variations[method] ?? null);
+
+const paneer = (over: Partial<DetectedFoodItem> = {}): DetectedFoodItem => ({
+  itemId: 1,
+  name: 'paneer tikka',
+  confidence: 0.8,
+  region: { x: 0, y: 0, width: 100, height: 100 },
+  nutrition: {
+    calories: 200,
+    protein: 10,
+    carbs: 5,
+    fat: 4,
+    fiber: 1,
+    sugar: 1,
+    sodium: 300,
+    cholesterol: 20,
+  },
+  alternatives: [],
+  portionSize: {
+    estimatedGrams: 100,
+    confidenceRange: { min: 85, max: 115 },
+    servingSizeCategory: 'medium',
+  },
+  ingredients: [],
+  ...over,
+});
+
+beforeEach(() => findVariation.mockClear());
+
+describe('cooking method modifiers', () => {
+  it('scales calories, fat and protein by the matching variation', async () => {
+    const item = await applyCookingMethod(
+      paneer({ cookingMethod: 'deep_fried' })
+    );
+
+    expect(findVariation).toHaveBeenCalledWith('paneer tikka', 'deep_fried');
+    expect(item.nutrition).toMatchObject({
+      calories: 300,
+      fat: 16,
+      protein: 9,
+      carbs: 5,
+    });
+    expect(item.cookingModifier).toEqual({
+      method: 'deep_fried',
+      oilFactor: 4,
+      calorieModifier: 1.5,
+      nutrientRetention: 0.9,
+    });
+    expect((item as any).nutritionPer100g.calories).toBe(300);
+  });
+
+  it('leaves items without a method or variation unchanged', async () => {
+    const [unknown, steamed] = await applyCookingMethods([
+      paneer(),
+      paneer({ itemId: 2, cookingMethod: 'steamed' }),
+    ]);
+
+    expect(unknown.nutrition.calories).toBe(200);
+    expect(unknown.cookingModifier).toBeNull();
+    expect(steamed.nutrition.calories).toBe(200);
+    expect(steamed.cookingModifier).toBeNull();
+    expect(findVariation).toHaveBeenCalledTimes(1);
+  });
+
+  it('undoes the previous modifier when the method changes', async () => {
+    const fried = await applyCookingMethod(
+      paneer({ cookingMethod: 'deep_fried' })
+    );
+    const tandoor = await applyCookingMethod(fried, 'tandoor');
+
+    expect(tandoor.cookingMethod).toBe('tandoor');
+    expect(tandoor.cookingModifier?.method).toBe('tandoor');
+    expect(tandoor.nutrition).toMatchObject({
+      calories: 180,
+      fat: 2,
+      protein: 10,
+    });
+  });
+
+  it('does not re-apply the modifier already on the item', async () => {
+    const fried = await applyCookingMethod(
+      paneer({ cookingMethod: 'deep_fried' })
+    );
+    const again = await applyCookingMethod(fried);
+
+    expect(again.nutrition).toEqual(fried.nutrition);
+    expect(findVariation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,219 @@
+// tests/dailyStats.test.ts
+
+const mockMeals: any[] = [];
+const mockUpserts: any[] = [];
+const mockDeleted: string[] = [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: (table: string) => {
+      if (table === 'users') {
+        return {
+          select: () => ({
+            eq: () => ({
+              single: async () => ({
+                data: { timezone: 'America/New_York' },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === 'user_daily_stats') {
+        return {
+          upsert: async (row: any) => {
+            mockUpserts.push(row);
+            return { error: null };
+          },
+        };
+      }
+      // meal_logs
+      return {
+        select: () => ({
+          eq: (col: string, val: string) => {
+            if (col === 'id') {
+              return {
+                single: async () => {
+                  const row = mockMeals.find((m) => m.id === val);
+                  return row
+                    ? { data: row, error: null }
+                    : { data: null, error: { code: 'PGRST116' } };
+                },
+              };
+            }
+            return {
+              gte: (_c: string, start: string) => ({
+                lt: async (_c2: string, end: string) => ({
+                  data: mockMeals.filter(
+                    (m) =>
+                      m.user_id === val &&
+                      m.logged_at >= start &&
+                      m.logged_at < end
+                  ),
+                  error: null,
+                }),
+              }),
+            };
+          },
+        }),
+        delete: () => ({
+          eq: async (_col: string, id: string) => {
+            mockDeleted.push(id);
+            const i = mockMeals.findIndex((m) => m.id === id);
+            if (i >= 0) mockMeals.splice(i, 1);
+            return { error: null };
+          },
+        }),
+      };
+    },
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import {
+  localDate,
+  localDayBounds,
+  mealTotals,
+  rebuildDailyStats,
+  recomputeDailyStats,
+} from '@/services/dailyStatsService';
+
+const USER = 'user-stats';
+const MEAL_ID = '11111111-1111-4111-8111-111111111111';
+
+beforeEach(() => {
+  mockMeals.length = 0;
+  mockUpserts.length = 0;
+  mockDeleted.length = 0;
+});
+
+describe('local day helpers', () => {
+  it("uses the user's calendar day, not UTC", () => {
+    // 20:00 UTC is already the next day in India
+    expect(localDate('2025-03-01T20:00:00Z', 'Asia/Kolkata')).toBe(
+      '2025-03-02'
+    );
+    expect(localDate('2025-03-01T20:00:00Z', 'America/New_York')).toBe(
+      '2025-03-01'
+    );
+  });
+
+  it('computes day bounds across DST changes', () => {
+    expect(localDayBounds('2025-03-02', 'Asia/Kolkata')).toEqual({
+      start: '2025-03-01T18:30:00.000Z',
+      end: '2025-03-02T18:30:00.000Z',
+    });
+    // US spring-forward: a 23-hour day
+    expect(localDayBounds('2025-03-09', 'America/New_York')).toEqual({
+      start: '2025-03-09T05:00:00.000Z',
+      end: '2025-03-10T04:00:00.000Z',
+    });
+  });
+});
+
+describe('rollup', () => {
+  it('reads current and legacy nutrition_total shapes', () => {
+    expect(
+      mealTotals({
+        nutrition_total: { calories: 300, protein: 10, carbs: 40, fat: 8 },
+        items: [{ nutrition: { fiber: 2, sugar: 1, sodium: 120 } }],
+      })
+    ).toEqual({
+      calories_consumed: 300,
+      protein_consumed: 10,
+      carbs_consumed: 40,
+      fats_consumed: 8,
+      fiber_consumed: 2,
+      sugar_consumed: 1,
+      sodium_consumed: 120,
+    });
+  });
+
+  it("sums only the user's meals from their local day", async () => {
+    mockMeals.push(
+      {
+        user_id: USER,
+        logged_at: '2025-03-09T12:00:00.000Z',
+        nutrition_total: { kcal: 400, protein_g: 20, carbs_g: 50, fat_g: 10 },
+      },
+      {
+        user_id: USER,
+        logged_at: '2025-03-10T03:30:00.000Z', // 23:30 local, same day
+        nutrition_total: { kcal: 150.4, protein_g: 5.25, fiber_g: 3 },
+      },
+      {
+        user_id: USER,
+        logged_at: '2025-03-10T04:30:00.000Z', // next local day
+        nutrition_total: { kcal: 999 },
+      },
+      {
+        user_id: 'someone-else',
+        logged_at: '2025-03-09T12:00:00.000Z',
+        nutrition_total: { kcal: 999 },
+      }
+    );
+
+    const totals = await recomputeDailyStats(USER, '2025-03-09');
+    expect(totals.calories_consumed).toBe(550);
+    expect(totals.protein_consumed).toBe(25.25);
+    expect(totals.fiber_consumed).toBe(3);
+    expect(mockUpserts[0]).toMatchObject({
+      user_id: USER,
+      date: '2025-03-09',
+      calories_consumed: 550,
+    });
+    expect(mockUpserts[0]).not.toHaveProperty('water_intake_ml');
+  });
+
+  it('rebuilds every day in a range', async () => {
+    const result = await rebuildDailyStats([USER], '2025-02-27', '2025-03-02');
+    expect(result).toEqual({ users: 1, days: 4 });
+    const mealDays = mockUpserts.filter((u) => 'calories_consumed' in u);
+    const waterDays = mockUpserts.filter((u) => 'water_intake_ml' in u);
+    expect(mealDays.map((u) => u.date)).toEqual([
+      '2025-02-27',
+      '2025-02-28',
+      '2025-03-01',
+      '2025-03-02',
+    ]);
+    expect(waterDays).toHaveLength(4);
+  });
+});
+
+describe('DELETE /api/v1/analysis/:id', () => {
+  const auth = `Bearer ${signAccessToken({
+    id: USER,
+    phone: '+919800000020',
+  })}`;
+
+  it('deletes the meal and zeroes its day', async () => {
+    mockMeals.push({
+      id: MEAL_ID,
+      user_id: USER,
+      logged_at: '2025-03-09T12:00:00.000Z',
+      nutrition_total: { kcal: 400 },
+    });
+
+    const res = await request(app)
+      .delete(`/api/v1/analysis/${MEAL_ID}`)
+      .set('Authorization', auth);
+
+    expect(res.status).toBe(200);
+    expect(mockDeleted).toEqual([MEAL_ID]);
+    expect(mockUpserts[0]).toMatchObject({
+      date: '2025-03-09',
+      calories_consumed: 0,
+    });
+  });
+
+  it("does not delete another user's meal", async () => {
+    mockMeals.push({ id: MEAL_ID, user_id: 'someone-else', logged_at: '' });
+    const res = await request(app)
+      .delete(`/api/v1/analysis/${MEAL_ID}`)
+      .set('Authorization', auth);
+    expect(res.status).toBe(404);
+    expect(mockDeleted).toHaveLength(0);
+  });
+});
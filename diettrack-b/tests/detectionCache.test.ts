@@ -0,0 +1,152 @@
+// tests/detectionCache.test.ts
+process.env.CACHE_ENABLED = 'true';
+
+let mockInserts = 0;
+// Meal log owners by id, for the feedback ownership check
+const mockOwners = new Map<string, string | null>();
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: () => ({
+      insert: ([row]: any[]) => ({
+        select: () => ({
+          single: async () => {
+            mockInserts += 1;
+            const n = String(mockInserts).padStart(12, '0');
+            const id = `00000000-0000-4000-8000-${n}`;
+            mockOwners.set(id, row?.user_id ?? null);
+            return {
+              data: { id, logged_at: '2025-03-02T06:00:00.000Z' },
+              error: null,
+            };
+          },
+        }),
+      }),
+      select: () => ({
+        eq: (_col: string, id: string) => ({
+          maybeSingle: async () => ({
+            data: mockOwners.has(id)
+              ? { id, user_id: mockOwners.get(id) }
+              : null,
+            error: null,
+          }),
+        }),
+      }),
+    }),
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { cacheFlushMemory } from '@/database/redis';
+import { analyzeImage } from '@/services/aiAnalysis';
+import { signAccessToken } from '@/services/authService';
+import { detectionCacheKey } from '@/services/detectionCache';
+
+const auth = `Bearer ${signAccessToken({
+  id: 'user-cache',
+  phone: '+919800000050',
+})}`;
+const thali = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUg==';
+const analyzeMock = analyzeImage as jest.Mock;
+
+const analyze = (body: Record<string, unknown> = {}) =>
+  request(app)
+    .post('/api/v1/analysis/analyze')
+    .set('Authorization', auth)
+    .send({ image: thali, ...body });
+
+beforeEach(() => {
+  mockInserts = 0;
+  cacheFlushMemory();
+  analyzeMock.mockClear();
+});
+
+describe('detection cache', () => {
+  it('keys on image, prompt and model version', () => {
+    const base = detectionCacheKey({ imageHash: 'abc', prompt: 'Thali' });
+    expect(detectionCacheKey({ imageHash: 'abc', prompt: ' thali ' })).toBe(
+      base
+    );
+    expect(detectionCacheKey({ imageHash: 'abc', prompt: 'dal' })).not.toBe(
+      base
+    );
+
+    process.env.GEMINI_MODEL = 'gemini-next';
+    try {
+      expect(detectionCacheKey({ imageHash: 'abc', prompt: 'Thali' })).not.toBe(
+        base
+      );
+    } finally {
+      delete process.env.GEMINI_MODEL;
+    }
+  });
+
+  it('reuses the detection for the same photo', async () => {
+    const first = await analyze();
+    const second = await analyze();
+
+    expect(first.body.data.metadata.cache_hit).toBe(false);
+    expect(second.body.data.metadata.cache_hit).toBe(true);
+    expect(second.body.data.items).toEqual(first.body.data.items);
+    expect(analyzeMock).toHaveBeenCalledTimes(1);
+    // Each analysis still logs its own meal
+    expect(mockInserts).toBe(2);
+
+    await analyze({ prompt: 'with extra ghee' });
+    expect(analyzeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't cache the fixture provider's stand-in plate", async () => {
+    const real = await analyzeMock();
+    analyzeMock
+      .mockClear()
+      .mockResolvedValueOnce({ ...real, provider: 'fixture' });
+
+    const fallback = await analyze();
+    expect(fallback.body.data.metadata.provider).toBe('fixture');
+
+    // Gemini is back: the same photo goes to it, and that answer is kept
+    const recovered = await analyze();
+    expect(recovered.body.data.metadata).toMatchObject({
+      provider: 'gemini',
+      cache_hit: false,
+    });
+    const replay = await analyze();
+    expect(replay.body.data.metadata).toMatchObject({
+      provider: 'gemini',
+      cache_hit: true,
+    });
+    expect(analyzeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the cached detection when feedback corrects it', async () => {
+    const first = await analyze();
+    await request(app)
+      .post('/api/v1/feedback')
+      .set('Authorization', auth)
+      .send({ analysisId: first.body.data.meal_log_id, helpful: false })
+      .expect(201);
+
+    const again = await analyze();
+    expect(again.body.data.metadata.cache_hit).toBe(false);
+    expect(analyzeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("ignores feedback on someone else's meal", async () => {
+    const first = await analyze();
+    const stranger = `Bearer ${signAccessToken({
+      id: 'user-stranger',
+      phone: '+919800000051',
+    })}`;
+    await request(app)
+      .post('/api/v1/feedback')
+      .set('Authorization', stranger)
+      .send({ analysisId: first.body.data.meal_log_id, helpful: false })
+      .expect(404);
+
+    const again = await analyze();
+    expect(again.body.data.metadata.cache_hit).toBe(true);
+    expect(analyzeMock).toHaveBeenCalledTimes(1);
+  });
+});
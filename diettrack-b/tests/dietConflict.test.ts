@@ -0,0 +1,181 @@
+// tests/dietConflict.test.ts
+let mockUser: Record<string, unknown> | null = null;
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({ data: mockUser, error: null }),
+        }),
+      }),
+    }),
+  }),
+}));
+
+import {
+  checkDietConflicts,
+  getDietProfile,
+  type DietProfile,
+} from '@/services/dietConflictService';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+import type { DetectedFoodItem, IFCTFood } from '@/types';
+
+const searchFood = jest
+  .spyOn(indianFoodDatabase, 'searchFood')
+  .mockResolvedValue([]);
+
+const item = (
+  name: string,
+  ingredients: string[] = [],
+  itemId = 1
+): DetectedFoodItem => ({
+  itemId,
+  name,
+  confidence: 0.8,
+  region: { x: 0, y: 0, width: 100, height: 100 },
+  nutrition: {
+    calories: 200,
+    protein: 5,
+    carbs: 20,
+    fat: 10,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+    cholesterol: 0,
+  },
+  alternatives: [],
+  portionSize: {
+    estimatedGrams: 150,
+    confidenceRange: { min: 128, max: 173 },
+    servingSizeCategory: 'medium',
+  },
+  ingredients,
+});
+
+const profile = (p: Partial<DietProfile>): DietProfile => ({
+  allergies: [],
+  dietaryPrefs: [],
+  ...p,
+});
+
+beforeEach(() => {
+  mockUser = null;
+  searchFood.mockClear().mockResolvedValue([]);
+});
+
+describe('diet and allergy conflicts', () => {
+  it('flags paneer for lactose intolerance', async () => {
+    const [w] = await checkDietConflicts(
+      [item('paneer tikka')],
+      profile({ dietaryPrefs: ['lactose_intolerant'] })
+    );
+    expect(w).toMatchObject({
+      code: 'DIET_CONFLICT',
+      severity: 'warning',
+      itemId: 1,
+      diet: 'lactose_intolerant',
+      matched: 'paneer',
+      source: 'name',
+    });
+  });
+
+  it('flags egg for jain and vegetarian, but not eggetarian', async () => {
+    const items = [item('egg curry')];
+    const [jain, veg] = await Promise.all(
+      ['jain', 'vegetarian'].map((d) =>
+        checkDietConflicts(items, profile({ dietaryPrefs: [d] }))
+      )
+    );
+    expect(jain[0]).toMatchObject({ diet: 'jain', matched: 'egg' });
+    expect(veg[0]).toMatchObject({ diet: 'vegetarian', matched: 'egg' });
+    expect(
+      await checkDietConflicts(items, profile({ dietaryPrefs: ['eggetarian'] }))
+    ).toEqual([]);
+  });
+
+  it('matches ingredients, e.g. onion and garlic for jain', async () => {
+    const warnings = await checkDietConflicts(
+      [item('dal tadka', ['toor dal', 'garlic', 'onions']), item('jeera rice')],
+      profile({ dietaryPrefs: ['jain'] })
+    );
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({
+      itemId: 1,
+      matched: 'garlic',
+      source: 'ingredient',
+    });
+    expect(warnings[0].message).toBe(
+      "dal tadka contains garlic, which doesn't fit your Jain diet"
+    );
+  });
+
+  it('flags allergies by group and as free text', async () => {
+    const warnings = await checkDietConflicts(
+      [
+        item('kaju katli', ['cashew', 'sugar'], 1),
+        item('peanut butter toast', [], 2),
+        item('mushroom masala', [], 3),
+      ],
+      profile({ allergies: ['nuts', 'milk', 'mushroom'] })
+    );
+    expect(warnings.map((w) => [w.itemId, w.allergy, w.matched])).toEqual([
+      [1, 'nuts', 'kaju'],
+      [2, 'nuts', 'peanut'],
+      [3, 'mushroom', 'mushroom'],
+    ]);
+    expect(warnings.every((w) => w.severity === 'critical')).toBe(true);
+  });
+
+  it('uses the food DB flags when the name gives nothing away', async () => {
+    searchFood.mockResolvedValueOnce([
+      { isVegetarian: false, isVegan: false, allergens: [] } as any as IFCTFood,
+    ]);
+    const [w] = await checkDietConflicts(
+      [item('xacuti')],
+      profile({ dietaryPrefs: ['vegetarian'] })
+    );
+    expect(w).toMatchObject({ source: 'food_db' });
+    expect(w.message).toContain('contains meat');
+  });
+
+  it("doesn't read IFCT's non-veg flag on egg dishes as meat", async () => {
+    searchFood.mockResolvedValue([
+      { isVegetarian: false, isVegan: null, allergens: [] } as any as IFCTFood,
+    ]);
+    const items = [item('egg curry')];
+    expect(
+      await checkDietConflicts(items, profile({ dietaryPrefs: ['eggetarian'] }))
+    ).toEqual([]);
+    const [veg] = await checkDietConflicts(
+      items,
+      profile({ dietaryPrefs: ['vegetarian'] })
+    );
+    expect(veg).toMatchObject({ matched: 'egg', source: 'name' });
+    expect(veg.message).toContain('contains egg');
+  });
+
+  it('only calls a dish non-vegan when the food DB says so', async () => {
+    const vegan = profile({ dietaryPrefs: ['vegan'] });
+    const dal = (isVegan: boolean | null) =>
+      ({ isVegetarian: true, isVegan, allergens: [] } as any as IFCTFood);
+    searchFood.mockResolvedValueOnce([dal(null)]);
+    expect(await checkDietConflicts([item('dal fry')], vegan)).toEqual([]);
+    searchFood.mockResolvedValueOnce([dal(false)]);
+    const [w] = await checkDietConflicts([item('dal fry')], vegan);
+    expect(w.message).toContain('contains animal products');
+  });
+
+  it('merges the stored profile with the request context', async () => {
+    mockUser = { allergies: ['Peanuts'], dietary_preferences: ['jain'] };
+    expect(
+      await getDietProfile('user-1', {
+        allergies: ['sesame', 'peanuts'],
+        dietaryPrefs: ['gluten_free'],
+      })
+    ).toEqual({
+      allergies: ['peanuts', 'sesame'],
+      dietaryPrefs: ['jain', 'gluten_free'],
+    });
+  });
+});
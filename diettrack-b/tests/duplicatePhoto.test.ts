@@ -0,0 +1,157 @@
+// tests/duplicatePhoto.test.ts
+import sharp from 'sharp';
+
+const mockMeals: any[] = [];
+const mockInserted: any[] = [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: (table: string) => {
+      if (table === 'users') {
+        return {
+          select: () => ({
+            eq: () => ({
+              single: async () => ({
+                data: { timezone: 'Asia/Kolkata' },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        select: () => ({
+          eq: (_c: string, userId: string) => ({
+            gte: (_c2: string, from: string) => ({
+              lte: async (_c3: string, to: string) => ({
+                data: mockMeals.filter(
+                  (m) =>
+                    m.user_id === userId &&
+                    m.logged_at >= from &&
+                    m.logged_at <= to
+                ),
+                error: null,
+              }),
+            }),
+          }),
+        }),
+        insert: (rows: any[]) => ({
+          select: () => ({
+            single: async () => {
+              mockInserted.push(rows[0]);
+              return {
+                data: { id: 'meal-new', logged_at: rows[0].logged_at },
+                error: null,
+              };
+            },
+          }),
+        }),
+      };
+    },
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import { hammingDistance, perceptualHash } from '@/utils/imageHash';
+
+const userId = 'user-dup';
+const auth = `Bearer ${signAccessToken({
+  id: userId,
+  phone: '+919800000060',
+})}`;
+
+// A 96×96 scene with some structure so the hash isn't flat
+async function scene(seed: number): Promise<Buffer> {
+  const size = 96;
+  const px = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 3;
+      const v = Math.sin((x + seed * 7) / (9 + seed)) * Math.cos(y / 11);
+      px[i] = 128 + 100 * v;
+      px[i + 1] = (x * 2 + seed * 40) % 256;
+      px[i + 2] = (y * 3) % 256;
+    }
+  }
+  return sharp(px, { raw: { width: size, height: size, channels: 3 } })
+    .png()
+    .toBuffer();
+}
+
+const dataUrl = (buf: Buffer, type = 'png') =>
+  `data:image/${type};base64,${buf.toString('base64')}`;
+
+describe('perceptualHash', () => {
+  it('matches re-encoded, resized and lightly cropped copies', async () => {
+    const original = await scene(1);
+    const copy = await sharp(original)
+      .extract({ left: 2, top: 2, width: 92, height: 92 })
+      .resize(200, 200)
+      .jpeg({ quality: 60 })
+      .toBuffer();
+
+    const a = await perceptualHash(dataUrl(original));
+    const b = await perceptualHash(dataUrl(copy, 'jpeg'));
+    const other = await perceptualHash(dataUrl(await scene(4)));
+
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(a!, b!)).toBeLessThanOrEqual(10);
+    expect(hammingDistance(a!, other!)).toBeGreaterThan(10);
+  });
+
+  it('returns null for data that is not an image', async () => {
+    expect(await perceptualHash('data:image/png;base64,AAAA')).toBeNull();
+  });
+});
+
+describe('near-duplicate warning on analyze', () => {
+  beforeEach(() => {
+    mockMeals.length = 0;
+    mockInserted.length = 0;
+  });
+
+  it('warns when the same user logged a similar photo recently', async () => {
+    const photo = dataUrl(await scene(2));
+    mockMeals.push({
+      id: 'meal-earlier',
+      user_id: userId,
+      logged_at: '2025-03-02T07:35:00.000Z', // 13:05 IST
+      image_phash: await perceptualHash(photo),
+    });
+
+    const res = await request(app)
+      .post('/api/v1/analysis/analyze')
+      .set('Authorization', auth)
+      .send({ image: photo, loggedAt: '2025-03-02T08:00:00.000Z' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.warnings).toEqual([
+      expect.objectContaining({
+        code: 'POSSIBLE_DUPLICATE',
+        message: 'This looks like the meal you logged at 13:05',
+        meal_log_id: 'meal-earlier',
+      }),
+    ]);
+    // Still logged, with its own hash stored
+    expect(mockInserted[0].image_phash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('ignores similar photos outside the window', async () => {
+    const photo = dataUrl(await scene(2));
+    mockMeals.push({
+      id: 'meal-yesterday',
+      user_id: userId,
+      logged_at: '2025-03-01T07:35:00.000Z',
+      image_phash: await perceptualHash(photo),
+    });
+
+    const res = await request(app)
+      .post('/api/v1/analysis/analyze')
+      .set('Authorization', auth)
+      .send({ image: photo, loggedAt: '2025-03-02T08:00:00.000Z' });
+
+    expect(res.body.data.warnings).toEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import app from '@/server';
 import { randomUUID } from 'crypto';
+import { signAccessToken } from '@/services/authService';
 
 // Also reset here, just to be extra safe if this file is run alone
 beforeEach(() => {
@@ -10,6 +11,17 @@ beforeEach(() => {
 describe('Feedback concurrency', () => {
   it('only one of two concurrent identical submissions succeeds', async () => {
     const analysisId = randomUUID();
+    (global as any).__supabaseMockState.mealOwners.set(
+      analysisId,
+      'user-concurrent'
+    );
+
+    const auth = {
+      Authorization: `Bearer ${signAccessToken({
+        id: 'user-concurrent',
+        phone: '+919800000000',
+      })}`,
+    };
 
     const payload = {
       analysisId,
@@ -20,8 +32,8 @@ describe('Feedback concurrency', () => {
 
     // Fire both at the same time
     const [r1, r2] = await Promise.all([
-      request(app).post('/api/v1/feedback').send(payload),
-      request(app).post('/api/v1/feedback').send(payload),
+      request(app).post('/api/v1/feedback').set(auth).send(payload),
+      request(app).post('/api/v1/feedback').set(auth).send(payload),
     ]);
 
     const statuses = [r1.status, r2.status];
@@ -1,11 +1,23 @@
 import request from 'supertest';
 import app from '@/server';
 import { randomUUID } from 'crypto';
+import { signAccessToken } from '@/services/authService';
+
+const auth = {
+  Authorization: `Bearer ${signAccessToken({
+    id: 'user-concurrent',
+    phone: '+919800000000',
+  })}`,
+};
 
 describe('Feedback concurrency', () => {
   it('only one of two concurrent identical submissions succeeds', async () => {
     // Fresh analysisId every run to avoid accidental cross-test collisions
     const analysisId = randomUUID();
+    (global as any).__supabaseMockState.mealOwners.set(
+      analysisId,
+      'user-concurrent'
+    );
 
     const payload = {
       analysisId,
@@ -16,8 +28,8 @@ describe('Feedback concurrency', () => {
 
     // Fire both requests at the same time
     const [r1, r2] = await Promise.all([
-      request(app).post('/api/v1/feedback').send(payload),
-      request(app).post('/api/v1/feedback').send(payload),
+      request(app).post('/api/v1/feedback').set(auth).send(payload),
+      request(app).post('/api/v1/feedback').set(auth).send(payload),
     ]);
 
     const statuses = [r1.status, r2.status].sort();
@@ -29,4 +41,13 @@ describe('Feedback concurrency', () => {
     expect(ok).toBe(true);
     expect(dup).toBe(true);
   });
+
+  it('rejects feedback on behalf of another user', async () => {
+    const res = await request(app).post('/api/v1/feedback').set(auth).send({
+      analysisId: '22222222-2222-4222-8222-222222222222',
+      userId: 'someone-else',
+      helpful: true,
+    });
+    expect(res.status).toBe(403);
+  });
 });
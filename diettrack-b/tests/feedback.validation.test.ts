@@ -26,10 +26,18 @@ jest.mock('@/database/supabase', () => ({
 
 import request from 'supertest';
 import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+
+const auth = {
+  Authorization: `Bearer ${signAccessToken({
+    id: 'user-123',
+    phone: '+919800000000',
+  })}`,
+};
 
 describe('Feedback validation', () => {
   it('rejects bad payload', async () => {
-    const res = await request(app).post('/api/v1/feedback').send({
+    const res = await request(app).post('/api/v1/feedback').set(auth).send({
       analysisId: 'not-a-uuid',
       helpful: true,
     });
@@ -39,7 +47,7 @@ describe('Feedback validation', () => {
   });
 
   it('accepts minimal valid payload', async () => {
-    const res = await request(app).post('/api/v1/feedback').send({
+    const res = await request(app).post('/api/v1/feedback').set(auth).send({
       analysisId: '22222222-2222-4222-8222-222222222222', // valid UUID
       userId: 'user-123',
       helpful: true,
@@ -49,4 +57,13 @@ describe('Feedback validation', () => {
     expect(res.body.success).toBe(true);
     expect(res.body.data?.id).toBe('mock-feedback-id');
   });
+
+  it('requires a bearer token', async () => {
+    const res = await request(app).post('/api/v1/feedback').send({
+      analysisId: '22222222-2222-4222-8222-222222222222',
+      helpful: true,
+    });
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('UNAUTHORIZED');
+  });
 });
@@ -0,0 +1,316 @@
+// tests/feedbackCorrections.test.ts
+
+const mockMeals: any[] = [];
+const mockCorrections: any[] = [];
+
+jest.mock('@/database/supabase', () => {
+  const tables: Record<string, () => any[]> = {
+    meal_logs: () => mockMeals,
+    food_corrections: () => mockCorrections,
+  };
+  // Chainable, awaitable query; an update applies when it resolves
+  const query = (table: string, patch?: any) => {
+    const filters: Array<(r: any) => boolean> = [];
+    const run = () => {
+      const rows = (tables[table]?.() || []).filter((r) =>
+        filters.every((f) => f(r))
+      );
+      if (patch) rows.forEach((r) => Object.assign(r, patch));
+      return { data: rows, error: null };
+    };
+    const q: any = {
+      select: () => q,
+      eq: (c: string, v: any) => (filters.push((r) => r[c] === v), q),
+      gte: (c: string, v: any) => (filters.push((r) => r[c] >= v), q),
+      order: () => q,
+      limit: () => q,
+      maybeSingle: async () => ({ data: run().data[0] ?? null, error: null }),
+      then: (resolve: any) => resolve(run()),
+    };
+    return q;
+  };
+  return {
+    getSupabase: () => ({
+      from: (table: string) => ({
+        select: () => query(table),
+        update: (patch: any) => query(table, patch),
+        insert: async (rows: any[]) => {
+          tables[table]?.().push(...rows);
+          return { error: null };
+        },
+      }),
+    }),
+  };
+});
+
+jest.mock('@/services/dailyStatsService', () => ({
+  ...jest.requireActual('@/services/dailyStatsService'),
+  refreshDailyStatsFor: jest.fn(async () => undefined),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import { refreshDailyStatsFor } from '@/services/dailyStatsService';
+import { getIFCTFoodByName } from '@/services/ifctService';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+import type { DetectedFoodItem } from '@/types';
+
+const MEAL = '33333333-3333-4333-8333-333333333333';
+const userId = 'user-corrections';
+const auth = {
+  Authorization: `Bearer ${signAccessToken({
+    id: userId,
+    phone: '+919800000070',
+  })}`,
+};
+
+const item = (
+  itemId: number,
+  name: string,
+  grams: number,
+  kcal100: number
+): DetectedFoodItem => ({
+  itemId,
+  name,
+  confidence: 0.7,
+  region: { x: 0, y: 0, width: 100, height: 100 },
+  nutrition: {
+    calories: (kcal100 * grams) / 100,
+    protein: grams / 20,
+    carbs: grams / 5,
+    fat: grams / 50,
+    fiber: grams / 100,
+    sugar: 0,
+    sodium: grams,
+    cholesterol: 0,
+  },
+  alternatives: [],
+  portionSize: {
+    estimatedGrams: grams,
+    confidenceRange: { min: grams, max: grams },
+    servingSizeCategory: 'medium',
+    source: 'model',
+  },
+  ingredients: ['semolina'],
+});
+
+const send = (body: object) =>
+  request(app)
+    .post('/api/v1/feedback')
+    .set(auth)
+    .send({ analysisId: MEAL, helpful: false, ...body });
+
+beforeEach(() => {
+  // Forget earlier feedback on MEAL
+  (global as any).__supabaseMockReset?.();
+  mockCorrections.length = 0;
+  mockMeals.length = 0;
+  mockMeals.push({
+    id: MEAL,
+    user_id: userId,
+    logged_at: '2026-03-01T08:00:00Z',
+    items: [item(1, 'upma', 200, 120), item(2, 'chutney', 100, 80)],
+    add_ons: [],
+    adjustments: [],
+    feedback_received: false,
+  });
+  (getIFCTFoodByName as jest.Mock).mockResolvedValue({
+    code: null,
+    ingredient_id: 'poha-id',
+    name: 'Poha',
+    energy_kcal_per_100g: 130,
+    protein_g_per_100g: 2.5,
+    carbs_g_per_100g: 26,
+    fat_g_per_100g: 1.5,
+    serving_size_g: 150,
+  });
+});
+
+describe('feedback with item corrections', () => {
+  it('applies renames and portions to the meal log', async () => {
+    const res = await send({
+      corrections: [
+        { itemId: 1, correctName: 'Poha', userNotes: 'it was poha' },
+        { itemId: 2, correctPortion: 50, correctIngredients: ['coconut'] },
+      ],
+    });
+    expect(res.status).toBe(201);
+    expect(res.body.data.corrected_item_ids).toEqual([1, 2]);
+
+    const [meal] = mockMeals;
+    const [poha, chutney] = meal.items;
+    expect(poha).toMatchObject({
+      name: 'Poha',
+      nutrition: { calories: 260, protein: 5, carbs: 52, fat: 3, fiber: 2 },
+      portionSize: { estimatedGrams: 200, source: 'model' },
+    });
+    expect(chutney).toMatchObject({
+      nutrition: { calories: 40 },
+      portionSize: { estimatedGrams: 50, source: 'user' },
+      ingredients: ['coconut'],
+    });
+    expect(meal.feedback_received).toBe(true);
+    expect(meal.nutrition_total.kcal).toBe(300);
+    expect(meal.adjustments[0]).toMatchObject({
+      source: 'feedback',
+      items: [
+        { itemId: 1, original: { grams: 200 }, adjusted: { grams: 200 } },
+        { itemId: 2, original: { grams: 100 }, adjusted: { grams: 50 } },
+      ],
+    });
+    expect(res.body.data.nutritionSummary.total_calories).toBe(300);
+
+    expect(mockCorrections).toEqual([
+      expect.objectContaining({
+        meal_log_id: MEAL,
+        item_id: 1,
+        detected_name: 'upma',
+        corrected_name: 'Poha',
+        corrected_grams: null,
+      }),
+      expect.objectContaining({
+        item_id: 2,
+        corrected_name: null,
+        detected_grams: 100,
+        corrected_grams: 50,
+        ingredients_corrected: true,
+      }),
+    ]);
+    expect(refreshDailyStatsFor).toHaveBeenCalledWith(
+      userId,
+      '2026-03-01T08:00:00Z'
+    );
+  });
+
+  it("re-derives the cooking modifier for a renamed item's food", async () => {
+    const fried = { ...mockMeals[0].items[0], cookingMethod: 'fried' };
+    fried.cookingModifier = {
+      method: 'fried',
+      oilFactor: 3,
+      calorieModifier: 2,
+      nutrientRetention: 1,
+    };
+    mockMeals[0].items[0] = fried;
+    const variation = jest
+      .spyOn(indianFoodDatabase, 'findCookingVariation')
+      .mockResolvedValue({
+        method: 'fried',
+        oilFactor: 2,
+        spiceFactor: 1,
+        nutrientRetention: 1,
+        calorieModifier: 1.5,
+      });
+
+    try {
+      await send({ corrections: [{ itemId: 1, correctName: 'Poha' }] });
+    } finally {
+      variation.mockRestore();
+    }
+    // Poha's plain 260 kcal and 3 g fat with its own fried factors, not
+    // upma's
+    expect(mockMeals[0].items[0]).toMatchObject({
+      cookingMethod: 'fried',
+      cookingModifier: { method: 'fried', calorieModifier: 1.5, oilFactor: 2 },
+      nutrition: { calories: 390, fat: 6 },
+    });
+  });
+
+  it('stores nothing when a correction names an unknown item', async () => {
+    const bad = await send({
+      corrections: [{ itemId: 9, correctPortion: 90 }],
+    });
+    expect(bad.status).toBe(400);
+    expect(bad.body.code).toBe('UNKNOWN_ITEM');
+    expect(mockMeals[0].feedback_received).toBe(false);
+
+    // Not recorded as feedback, so a fixed resend goes through
+    const fixed = await send({
+      corrections: [{ itemId: 2, correctPortion: 90 }],
+    });
+    expect(fixed.status).toBe(201);
+  });
+
+  it("won't correct another user's meal", async () => {
+    mockMeals[0].user_id = 'someone-else';
+    const res = await send({
+      corrections: [{ itemId: 1, correctName: 'poha' }],
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects corrections that change nothing', async () => {
+    const res = await send({ corrections: [{ itemId: 1, userNotes: 'hmm' }] });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('per-food correction stats', () => {
+  it('groups spellings and summarises what users changed', async () => {
+    const at = (d: number) => `2099-01-0${d}T00:00:00Z`;
+    mockCorrections.push(
+      {
+        user_id: 'a',
+        detected_name: 'Upma',
+        corrected_name: 'Poha',
+        detected_grams: 200,
+        corrected_grams: null,
+        ingredients_corrected: false,
+        created_at: at(3),
+      },
+      {
+        user_id: 'b',
+        detected_name: 'upma',
+        corrected_name: 'poha',
+        detected_grams: 200,
+        corrected_grams: 300,
+        ingredients_corrected: false,
+        created_at: at(2),
+      },
+      {
+        user_id: 'b',
+        detected_name: 'upma',
+        corrected_name: null,
+        detected_grams: 100,
+        corrected_grams: 200,
+        ingredients_corrected: true,
+        created_at: at(1),
+      },
+      {
+        user_id: 'a',
+        detected_name: 'idli',
+        corrected_name: null,
+        detected_grams: 100,
+        corrected_grams: 80,
+        ingredients_corrected: false,
+        created_at: at(1),
+      }
+    );
+
+    const res = await request(app)
+      .get('/api/v1/feedback/stats/foods')
+      .set(auth);
+    expect(res.status).toBe(200);
+    expect(res.body.data.foods).toEqual([
+      {
+        food_name: 'Upma',
+        corrections: 3,
+        users: 2,
+        renamed: 2,
+        renamed_to: [{ name: 'Poha', count: 2 }],
+        portion_corrections: 2,
+        median_portion_ratio: 1.75,
+        ingredient_corrections: 1,
+        last_corrected_at: at(3),
+      },
+    ]);
+
+    const all = await request(app)
+      .get('/api/v1/feedback/stats/foods?min=1')
+      .set(auth);
+    expect(all.body.data.foods.map((f: any) => f.food_name)).toEqual([
+      'Upma',
+      'idli',
+    ]);
+  });
+});
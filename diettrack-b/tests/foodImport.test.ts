@@ -0,0 +1,180 @@
+// tests/foodImport.test.ts
+
+const mockUpserts: Array<{ table: string; rows: any; onConflict?: string }> =
+  [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: (table: string) => ({
+      upsert: async (rows: any, opts?: { onConflict?: string }) => {
+        mockUpserts.push({ table, rows, onConflict: opts?.onConflict });
+        return { error: null };
+      },
+    }),
+  }),
+}));
+
+import {
+  importFoods,
+  normalizeFoodRow,
+  parseCsv,
+  prepareImport,
+  toUnit,
+} from '@/services/foodImportService';
+
+const CSV = [
+  'Code,Name,Category,Regional Names,Energy (kJ),Protein (g),Carbs (g),Fat (g),Sodium (mg),Portion (g)',
+  'A001,"Rice, raw, milled",Cereals,chawal|bhat,1491,7.94,78.24,0.52,4,',
+  'A002,Bajra,Cereals,,1456,10.96,61.78,5.43,,"30 g"',
+].join('\r\n');
+
+beforeEach(() => {
+  mockUpserts.length = 0;
+});
+
+describe('parsing and normalisation', () => {
+  it('reads quoted CSV fields and keys columns by name and unit', () => {
+    const [rice] = parseCsv(CSV);
+    expect(rice).toMatchObject({
+      code: 'A001',
+      name: 'Rice, raw, milled',
+      energy_kj: '1491',
+      protein_g: '7.94',
+    });
+  });
+
+  it('converts units, from the value or the column', () => {
+    expect(toUnit('350 mg', 'g')).toBeCloseTo(0.35);
+    expect(toUnit('1,000', 'kcal', 'kj')).toBeCloseTo(239.0, 1);
+    expect(toUnit(2, 'mg', 'g')).toBe(2000);
+    expect(toUnit('', 'g')).toBeNull();
+    expect(() => toUnit('12 kcal', 'g')).toThrow('cannot convert');
+    expect(() => toUnit('lots', 'g')).toThrow('not a number');
+  });
+
+  it('builds an ifct_foods row per 100 g', () => {
+    const result = normalizeFoodRow(
+      {
+        code: 'S-PAV',
+        name: 'Pav',
+        calories: '87',
+        protein: '2.7 g',
+        carbs: 15,
+        fat: '1.2',
+        sodium: '0.15 g',
+        basis_g: 30,
+        region: 'West',
+        veg: 'yes',
+        search_keywords: ['bun', 'pav', 'bun'],
+        cooking_variations: '[{"method": "toasted", "oil_factor": 1.4}]',
+      },
+      'v1'
+    );
+    expect(result).toEqual({
+      food: {
+        code: 'S-PAV',
+        canonical_name: 'Pav',
+        regional_names: [],
+        search_keywords: ['bun', 'pav'],
+        portion_grams: null,
+        category: null,
+        region: 'west',
+        is_vegetarian: true,
+        nutrition: {
+          calories: 290,
+          protein: 9,
+          carbs: 50,
+          fat: 4,
+          sodium: 500,
+        },
+        cooking_variations: [{ method: 'toasted', oil_factor: 1.4 }],
+        dataset_version: 'v1',
+      },
+    });
+  });
+
+  it('lists every problem with a row', () => {
+    const result = normalizeFoodRow(
+      { code: 'bad code', name: '', calories: 'n/a', protein: 120, fat: 1 },
+      'v1'
+    );
+    expect('errors' in result && result.errors).toEqual([
+      'calories: not a number: "n/a"',
+      'carbs: missing',
+      'code may only hold letters, digits and . _ : -',
+      'canonical_name is not allowed to be empty',
+      'nutrition.protein must be less than or equal to 100',
+    ]);
+  });
+});
+
+describe('importFoods', () => {
+  const extra = {
+    name: 'extra.json',
+    text: JSON.stringify({
+      foods: [
+        {
+          code: 'A002',
+          name: 'Bajra again',
+          calories: 1,
+          protein: 1,
+          carbs: 1,
+          fat: 1,
+        },
+        { code: 'X1', name: 'Sattu', calories: 413, protein: 20.6, fat: 7 },
+      ],
+    }),
+  };
+
+  it('reports row errors and duplicate codes without writing on a dry run', async () => {
+    const report = await importFoods([{ name: 'ifct.csv', text: CSV }, extra], {
+      dryRun: true,
+    });
+
+    expect(report).toMatchObject({ dryRun: true, valid: 2, invalid: 2 });
+    expect(report.version).toMatch(/^sha-[0-9a-f]{12}$/);
+    expect(report.errors).toEqual([
+      {
+        source: 'extra.json',
+        row: 1,
+        code: 'A002',
+        errors: ['code A002 already used in ifct.csv row 2'],
+      },
+      { source: 'extra.json', row: 2, code: 'X1', errors: ['carbs: missing'] },
+    ]);
+    expect(mockUpserts).toEqual([]);
+  });
+
+  it('stops on invalid rows unless told to skip them', async () => {
+    const sources = [{ name: 'ifct.csv', text: CSV }, extra];
+    const stopped = await importFoods(sources, { version: 'ifct2017.1' });
+    expect(stopped.upserted).toBe(0);
+    expect(mockUpserts).toEqual([]);
+
+    const skipped = await importFoods(sources, {
+      version: 'ifct2017.1',
+      skipInvalid: true,
+    });
+    expect(skipped.upserted).toBe(2);
+    const [foods, dataset] = mockUpserts;
+    expect(foods).toMatchObject({ table: 'ifct_foods', onConflict: 'code' });
+    expect(foods.rows[1]).toMatchObject({
+      code: 'A002',
+      portion_grams: 30,
+      nutrition: { calories: 348 },
+      dataset_version: 'ifct2017.1',
+    });
+    expect(dataset).toMatchObject({
+      table: 'food_datasets',
+      onConflict: 'version',
+      rows: { version: 'ifct2017.1', row_count: 2 },
+    });
+  });
+
+  it('gives the same files the same version', () => {
+    const a = prepareImport([{ name: 'a.csv', text: CSV }], 'x');
+    const b = prepareImport([{ name: 'b.csv', text: CSV }], 'x');
+    expect(a.report.sources[0].sha256).toBe(b.report.sources[0].sha256);
+    expect(a.foods).toEqual(b.foods);
+  });
+});
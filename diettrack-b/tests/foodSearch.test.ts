@@ -0,0 +1,152 @@
+// tests/foodSearch.test.ts
+
+const mockFoods: any[] = [];
+const mockRanges: Array<[number, number]> = [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: () => {
+      const q: any = {
+        select: () => q,
+        order: () => q,
+        range: async (from: number, to: number) => {
+          mockRanges.push([from, to]);
+          return { data: mockFoods.slice(from, to + 1), error: null };
+        },
+      };
+      return q;
+    },
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import {
+  clearFoodSearchIndex,
+  rankFoods,
+  searchFoods,
+  searchKey,
+  transliterate,
+} from '@/services/foodSearchService';
+
+// tests/setup.ts mocks the IFCT service globally
+const { getIFCTFoodByName } = jest.requireActual('@/services/ifctService');
+
+const food = (id: string, canonical_name: string, extra: object = {}) => ({
+  id,
+  code: null,
+  canonical_name,
+  regional_names: [],
+  search_keywords: [],
+  portion_grams: null,
+  nutrition: { calories: 100, protein: 1, carbs: 1, fat: 1 },
+  category: null,
+  region: null,
+  is_vegetarian: null,
+  ...extra,
+});
+
+const FOODS = [
+  food('rice', 'Rice, raw, milled', {
+    regional_names: ['Chawal', 'चावल'],
+    category: 'Cereals',
+    is_vegetarian: true,
+  }),
+  food('chapati', 'Chapati', {
+    regional_names: ['Phulka', 'रोटी'],
+    search_keywords: ['roti'],
+    portion_grams: 40,
+    nutrition: { calories: 297, protein: 9.8, carbs: 51, fat: 7.5 },
+    is_vegetarian: true,
+  }),
+  food('idli', 'Idli', { region: 'south', is_vegetarian: true }),
+  food('curry', 'Chicken curry', { region: 'north', is_vegetarian: false }),
+  food('paneer', 'Paneer tikka', { region: 'north', is_vegetarian: true }),
+];
+
+beforeEach(() => {
+  mockFoods.splice(0, mockFoods.length, ...FOODS);
+  mockRanges.length = 0;
+  clearFoodSearchIndex();
+});
+
+describe('normalisation', () => {
+  it('gives romanised and Devanagari spellings one key', () => {
+    const keys = ['chapati', 'Chapathi', 'chappati', 'चपाती'].map(searchKey);
+    expect(new Set(keys)).toEqual(new Set(['chapati']));
+    expect(transliterate('राजमा')).toBe('raajmaa');
+    expect(searchKey('paneer')).toBe(searchKey('पनीर'));
+    expect(searchKey('idly')).toBe(searchKey('इडली'));
+  });
+});
+
+describe('ranking', () => {
+  it('ranks exact names, synonyms and near misses', () => {
+    const [exact] = rankFoods(FOODS, 'chapathi');
+    expect(exact).toMatchObject({ food: { id: 'chapati' }, score: 1 });
+
+    const [hindi] = rankFoods(FOODS, 'रोटी');
+    expect(hindi).toMatchObject({ food: { id: 'chapati' }, matched: 'रोटी' });
+
+    const [synonym] = rankFoods(FOODS, 'chaawal');
+    expect(synonym).toMatchObject({ food: { id: 'rice' }, matched: 'Chawal' });
+    expect(synonym.score).toBeLessThan(1);
+
+    const [typo] = rankFoods(FOODS, 'paner tika');
+    expect(typo.food.id).toBe('paneer');
+    expect(typo.score).toBeGreaterThan(0.7);
+
+    expect(rankFoods(FOODS, 'rice')[0].food.id).toBe('rice');
+    expect(rankFoods(FOODS, 'pizza')).toEqual([]);
+  });
+
+  it('filters by category, region and veg flag', () => {
+    const ids = (hits: any[]) => hits.map((h) => h.food.id);
+    const all = { minScore: 0 };
+    expect(ids(rankFoods(FOODS, 'a', { ...all, region: 'north' }))).toEqual(
+      expect.arrayContaining(['curry', 'paneer'])
+    );
+    expect(
+      ids(rankFoods(FOODS, 'a', { ...all, region: 'north', vegetarian: true }))
+    ).toEqual(['paneer']);
+    expect(ids(rankFoods(FOODS, 'a', { ...all, category: 'cereals' }))).toEqual(
+      ['rice']
+    );
+  });
+});
+
+describe('shared lookups', () => {
+  it('loads the food table once, page by page', async () => {
+    await searchFoods('idli');
+    await searchFoods('roti');
+    expect(mockRanges).toEqual([[0, 999]]);
+  });
+
+  it('serves /ingredients/lookup without putting the query in a filter', async () => {
+    const res = await request(app)
+      .get('/api/v1/ingredients/lookup')
+      .query({ q: 'chapathi%),', veg: 'true' });
+    expect(res.status).toBe(200);
+    expect(res.body.data.matches[0]).toMatchObject({
+      id: 'chapati',
+      matched_name: 'Chapati',
+      is_vegetarian: true,
+    });
+
+    const bad = await request(app)
+      .get('/api/v1/ingredients/lookup')
+      .query({ q: 'dal', region: 'mars' });
+    expect(bad.status).toBe(400);
+  });
+
+  it('resolves typed names through the same search', async () => {
+    expect(await getIFCTFoodByName('चपाती')).toMatchObject({
+      ingredient_id: 'chapati',
+      name: 'Chapati',
+      energy_kcal_per_100g: 297,
+      serving_size_g: 40,
+      match_score: 1,
+    });
+    expect(await getIFCTFoodByName('pizza')).toBeNull();
+  });
+});
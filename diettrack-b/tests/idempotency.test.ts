@@ -0,0 +1,108 @@
+// tests/idempotency.test.ts
+process.env.CACHE_ENABLED = 'true';
+process.env.ROUTE_TIMEOUT_MS = '150';
+
+let mockInserts = 0;
+let mockDelayMs = 50;
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: () => ({
+      insert: () => ({
+        select: () => ({
+          single: async () => {
+            mockInserts += 1;
+            // Slow enough for concurrent duplicates to overlap
+            await new Promise((r) => setTimeout(r, mockDelayMs));
+            return {
+              data: {
+                id: `meal-${mockInserts}`,
+                logged_at: '2025-03-02T06:00:00.000Z',
+              },
+              error: null,
+            };
+          },
+        }),
+      }),
+    }),
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { cacheFlushMemory } from '@/database/redis';
+
+const analyze = (key: string, prompt = 'two idli') =>
+  request(app)
+    .post('/api/v1/analysis/analyze')
+    .set('Idempotency-Key', key)
+    .send({ prompt });
+
+beforeEach(() => {
+  mockInserts = 0;
+  mockDelayMs = 50;
+  cacheFlushMemory();
+});
+
+describe('Idempotency-Key on /analysis/analyze', () => {
+  it('replays the first response for a repeated key', async () => {
+    const first = await analyze('key-1');
+    const again = await analyze('key-1');
+
+    expect(first.status).toBe(200);
+    expect(again.status).toBe(200);
+    expect(again.headers['idempotent-replayed']).toBe('true');
+    expect(again.body.data.meal_log_id).toBe(first.body.data.meal_log_id);
+    expect(mockInserts).toBe(1);
+  });
+
+  it('makes concurrent duplicates wait for the in-flight request', async () => {
+    const [a, b] = await Promise.all([analyze('key-2'), analyze('key-2')]);
+
+    expect(a.body.data.meal_log_id).toBe(b.body.data.meal_log_id);
+    expect(mockInserts).toBe(1);
+  });
+
+  it('rejects a reused key with a different body', async () => {
+    await analyze('key-3');
+    const other = await analyze('key-3', 'three dosa');
+
+    expect(other.status).toBe(422);
+    expect(other.body.code).toBe('IDEMPOTENCY_MISMATCH');
+    expect(mockInserts).toBe(1);
+  });
+
+  it('replays the late result after a 504 instead of logging twice', async () => {
+    mockDelayMs = 250;
+    const first = await analyze('key-4');
+    expect(first.status).toBe(504);
+
+    await new Promise((r) => setTimeout(r, 200));
+    const retry = await analyze('key-4');
+    expect(retry.status).toBe(200);
+    expect(retry.body.data.meal_log_id).toBe('meal-1');
+    expect(mockInserts).toBe(1);
+  });
+
+  it('replays a sequential retry when the cache is disabled', async () => {
+    process.env.CACHE_ENABLED = 'false';
+    // Its own client address, clear of the analysis rate limit
+    const retried = () =>
+      analyze('key-5').set('X-Forwarded-For', '203.0.113.5');
+    try {
+      const first = await retried();
+      const retry = await retried();
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data.meal_log_id).toBe(first.body.data.meal_log_id);
+      expect(mockInserts).toBe(1);
+    } finally {
+      process.env.CACHE_ENABLED = 'true';
+    }
+  });
+
+  it('runs every request when no key is sent', async () => {
+    await request(app).post('/api/v1/analysis/analyze').send({ prompt: 'a' });
+    await request(app).post('/api/v1/analysis/analyze').send({ prompt: 'a' });
+    expect(mockInserts).toBe(2);
+  });
+});
@@ -0,0 +1,234 @@
+// tests/mealLogService.test.ts
+
+const mockInserts: Record<string, any[]> = {};
+
+jest.mock('@/database/supabase', () => {
+  const foods = [
+    {
+      id: 'rice',
+      canonical_name: 'Rice, cooked',
+      portion_grams: 150,
+      nutrition: { kcal: 130, protein_g: 2.7, carbs_g: 28, fat_g: 0.3 },
+    },
+    {
+      id: 'roti',
+      canonical_name: 'Roti',
+      portion_grams: 40,
+      nutrition: {
+        kcal: 300,
+        protein_g: 9,
+        carbs_g: 50,
+        fat_g: 7.5,
+        fiber_g: 6,
+      },
+    },
+    {
+      id: 'milk',
+      canonical_name: 'Milk, toned',
+      portion_grams: null,
+      nutrition: { kcal: 58, protein_g: 3.1, carbs_g: 4.7, fat_g: 3 },
+    },
+  ];
+  const servings = [{ ingredient_id: 'rice', label: '1 katori', grams: 120 }];
+
+  const rows = (table: string) =>
+    table === 'ifct_foods' ? foods : table === 'user_servings' ? servings : [];
+
+  return {
+    getSupabase: () => ({
+      from: (table: string) => ({
+        select: () => {
+          const q: any = {
+            eq: () => q,
+            in: (_col: string, ids: string[]) =>
+              Promise.resolve({
+                data: rows(table).filter((r: any) =>
+                  ids.includes(r.id ?? r.ingredient_id)
+                ),
+                error: null,
+              }),
+          };
+          return q;
+        },
+        insert: (row: any) => {
+          (mockInserts[table] ||= []).push(row);
+          return Object.assign(Promise.resolve({ error: null }), {
+            select: () => ({
+              single: async () => ({ data: { id: 'log-1' }, error: null }),
+            }),
+          });
+        },
+        delete: () => ({ eq: async () => ({ error: null }) }),
+      }),
+    }),
+  };
+});
+
+import { createMealLog, quantityToGrams } from '@/services/mealLogService';
+
+describe('quantityToGrams', () => {
+  const food = { id: 'roti', portion_grams: 40 };
+
+  it('handles mass and volume units', () => {
+    expect(quantityToGrams(150, 'g', food)).toBe(150);
+    expect(quantityToGrams(150, undefined, food)).toBe(150);
+    expect(quantityToGrams(0.25, 'kg', food)).toBe(250);
+    expect(quantityToGrams(200, 'ml', food)).toBe(200);
+    expect(quantityToGrams(0.5, 'L', food)).toBe(500);
+  });
+
+  it('uses the IFCT portion for pieces', () => {
+    expect(quantityToGrams(3, 'pieces', food)).toBe(120);
+    expect(quantityToGrams(1, 'pc', { id: 'x', portion_grams: null })).toBe(
+      null
+    );
+  });
+
+  it('prefers saved servings over household defaults', () => {
+    const servings = [
+      { ingredient_id: 'roti', label: '2 pieces', grams: 70 },
+      { ingredient_id: 'dal', label: '1 katori', grams: 180 },
+    ];
+    expect(quantityToGrams(2, 'piece', food, servings)).toBe(70);
+    expect(quantityToGrams(2, 'katori', food, servings)).toBe(300);
+    expect(
+      quantityToGrams(1, 'katori', { id: 'dal', portion_grams: null }, servings)
+    ).toBe(180);
+  });
+
+  it('rejects unknown units and non-positive quantities', () => {
+    expect(quantityToGrams(1, 'handful', food)).toBeNull();
+    expect(quantityToGrams(0, 'g', food)).toBeNull();
+  });
+});
+
+describe('createMealLog', () => {
+  beforeEach(() => {
+    for (const k of Object.keys(mockInserts)) delete mockInserts[k];
+  });
+
+  it('computes per-item nutrition and totals from IFCT data', async () => {
+    const res = await createMealLog({
+      user_id: 'u1',
+      items: [
+        { food_id: 'rice', quantity: 1, unit: 'katori' },
+        { food_id: 'roti', quantity: 2, unit: 'pieces' },
+        { food_id: 'milk', quantity: 200, unit: 'ml' },
+      ],
+    });
+
+    expect(res).toEqual({ success: true });
+    const [rice, roti, milk] = mockInserts.meal_log_items[0];
+    expect(rice).toMatchObject({
+      item_id: 1,
+      name: 'Rice, cooked',
+      portion_grams: 120,
+      nutrition: { calories: 156, protein: 3.2, carbs: 33.6 },
+    });
+    expect(roti).toMatchObject({
+      portion_grams: 80,
+      nutrition: { calories: 240, protein: 7.2, fiber: 4.8 },
+    });
+    expect(milk).toMatchObject({ nutrition: { calories: 116, fat: 6 } });
+    expect(mockInserts.meal_logs[0]).toMatchObject({
+      nutrition_total: { kcal: 512, protein_g: 16.6, fiber_g: 4.8 },
+    });
+  });
+
+  it('writes only meal_logs and meal_log_items columns', async () => {
+    await createMealLog({
+      user_id: 'u1',
+      meal_type: 'lunch',
+      consumed_at: '2026-03-01T07:30:00.000Z',
+      items: [{ food_id: 'roti', quantity: 1, unit: 'piece' }],
+    });
+
+    const nutrition = {
+      calories: 120,
+      protein: 3.6,
+      carbs: 20,
+      fat: 3,
+      fiber: 2.4,
+      sugar: 0,
+      sodium: 0,
+      cholesterol: 0,
+    };
+    const [log] = mockInserts.meal_logs;
+    expect(log).toEqual({
+      user_id: 'u1',
+      source: 'text',
+      items: [
+        {
+          itemId: 1,
+          name: 'Roti',
+          confidence: 1,
+          region: { x: 0, y: 0, width: 0, height: 0 },
+          nutrition,
+          alternatives: [],
+          portionSize: {
+            estimatedGrams: 40,
+            confidenceRange: { min: 40, max: 40 },
+            servingSizeCategory: 'small',
+            source: 'user',
+          },
+          ingredients: [],
+        },
+      ],
+      add_ons: [],
+      portion_scalar: 1,
+      logged_at: '2026-03-01T07:30:00.000Z',
+      nutrition_total: {
+        kcal: 120,
+        protein_g: 3.6,
+        carbs_g: 20,
+        fat_g: 3,
+        fiber_g: 2.4,
+        sugar_g: 0,
+        sodium_mg: 0,
+      },
+      nutrition_breakdown: {
+        items: [{ itemId: 1, grams: 40, ...nutrition }],
+        add_ons: [],
+      },
+      summary: 'Roti • ~120 kcal • 3.6g P',
+    });
+    expect(mockInserts.meal_log_items).toEqual([
+      [
+        {
+          meal_log_id: 'log-1',
+          item_id: 1,
+          name: 'Roti',
+          confidence: 1,
+          portion_grams: 40,
+          nutrition,
+          ingredients: [],
+        },
+      ],
+    ]);
+  });
+
+  it('rejects unknown food ids without writing anything', async () => {
+    const res = await createMealLog({
+      user_id: 'u1',
+      items: [
+        { food_id: 'rice', quantity: 100 },
+        { food_id: 'ghost', quantity: 1, unit: 'piece' },
+      ],
+    });
+
+    expect(res.success).toBe(false);
+    expect(res.error).toMatchObject({
+      code: 'UNKNOWN_FOOD',
+      details: { food_ids: ['ghost'] },
+    });
+    expect(mockInserts.meal_logs).toBeUndefined();
+  });
+
+  it('rejects units that cannot be converted', async () => {
+    const res = await createMealLog({
+      user_id: 'u1',
+      items: [{ food_id: 'milk', quantity: 1, unit: 'piece' }],
+    });
+    expect(res.error).toMatchObject({ code: 'UNSUPPORTED_UNIT' });
+  });
+});
@@ -1,14 +1,16 @@
 // tests/photoUpload.route.test.ts
 
+const mockUploads: string[] = [];
+
 // Supabase storage mock (no real network)
 jest.mock('@/database/supabase', () => ({
   getSupabase: () => ({
     storage: {
       from: () => ({
-        upload: async (_path: string, _bin: any, _opts: any) => ({
-          data: { path: 'photos/fake.png' },
-          error: null,
-        }),
+        upload: async (path: string, _bin: any, _opts: any) => {
+          mockUploads.push(path);
+          return { data: { path: 'photos/fake.png' }, error: null };
+        },
         getPublicUrl: (_p: string) => ({
           data: { publicUrl: 'https://example.com/photos/fake.png' },
         }),
@@ -38,6 +40,7 @@ jest.mock('@/services/ifctService', () => ({
 
 import request from 'supertest';
 import app from '@/server';
+import { signAccessToken } from '@/services/authService';
 
 const VALID_DATA_URL =
   'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABAAAAAA' +
@@ -62,4 +65,25 @@ describe('Photo upload route', () => {
     // depending on your route response shape:
     // expect(res.body.data?.publicUrl).toContain('https://example.com/photos/');
   });
+
+  it('stores under the token user, never a userId from the body', async () => {
+    mockUploads.length = 0;
+    const token = signAccessToken({
+      id: 'user-upload',
+      phone: '+919800000080',
+    });
+
+    await request(app)
+      .post('/api/v1/photo-upload')
+      .send({ image: VALID_DATA_URL, userId: 'someone-else' })
+      .expect(200);
+    await request(app)
+      .post('/api/v1/photo-upload')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ image: VALID_DATA_URL, userId: 'someone-else' })
+      .expect(200);
+
+    expect(mockUploads[0]).toMatch(/^meals\/guest\//);
+    expect(mockUploads[1]).toMatch(/^meals\/user-upload\//);
+  });
 });
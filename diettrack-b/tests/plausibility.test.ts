@@ -0,0 +1,138 @@
+// tests/plausibility.test.ts
+import { checkPlausibility } from '@/services/plausibilityService';
+import { indianFoodDatabase } from '@/services/indianFoodDatabase';
+import type { DetectedFoodItem, NutritionFacts } from '@/types';
+
+const riceRef: NutritionFacts = {
+  calories: 130,
+  protein: 2.7,
+  carbs: 28,
+  fat: 0.3,
+  fiber: 0.4,
+  sugar: 0.1,
+  sodium: 1,
+  cholesterol: 0,
+};
+
+const validate = jest
+  .spyOn(indianFoodDatabase, 'validateNutrition')
+  .mockImplementation(async (name) =>
+    name === 'rice'
+      ? {
+          isValid: true,
+          confidence: 0.85,
+          reference: { foodName: 'rice', nutritionPer100g: riceRef },
+          warnings: [],
+        }
+      : { isValid: false, confidence: 0.3, warnings: ['not found'] }
+  );
+
+const item = (
+  name: string,
+  grams: number,
+  n: Partial<NutritionFacts>,
+  itemId = 1
+): DetectedFoodItem => ({
+  itemId,
+  name,
+  confidence: 0.8,
+  region: { x: 0, y: 0, width: 100, height: 100 },
+  nutrition: {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+    cholesterol: 0,
+    ...n,
+  },
+  alternatives: [],
+  portionSize: {
+    estimatedGrams: grams,
+    confidenceRange: { min: grams * 0.85, max: grams * 1.15 },
+    servingSizeCategory: 'medium',
+  },
+  ingredients: [],
+});
+
+beforeEach(() => validate.mockClear());
+
+describe('plausibility checks', () => {
+  it('passes a believable meal without warnings', async () => {
+    const rice = item('rice', 150, { calories: 195, protein: 4, carbs: 42 });
+    expect(await checkPlausibility([rice], 195)).toEqual([]);
+  });
+
+  it('flags kcal/100 g far from the food DB and suggests its values', async () => {
+    // 450 kcal per 100 g vs 130 for plain rice
+    const rice = item('rice', 200, { calories: 900, protein: 5, carbs: 200 });
+    const [w] = await checkPlausibility([rice], 900);
+
+    expect(w).toMatchObject({
+      code: 'CALORIE_DENSITY_MISMATCH',
+      severity: 'critical',
+      itemId: 1,
+      fix: {
+        itemId: 1,
+        nutrition: { calories: 260, protein: 5.4, carbs: 56, fat: 0.6 },
+      },
+    });
+  });
+
+  it('flags calories that disagree with 4/4/9 from the macros', async () => {
+    const dal = item('dal', 200, {
+      calories: 90,
+      protein: 12,
+      carbs: 30,
+      fat: 6,
+    });
+    const warnings = await checkPlausibility([dal], 90);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({
+      code: 'MACRO_ENERGY_MISMATCH',
+      severity: 'critical',
+      fix: { itemId: 1, nutrition: { calories: 222 } },
+    });
+  });
+
+  it('flags impossible portions with a clamped weight', async () => {
+    const warnings = await checkPlausibility(
+      [item('roti', 2, {}, 1), item('dal', 1800, {}, 2)],
+      0
+    );
+
+    expect(warnings.map((w) => [w.code, w.severity, w.fix])).toEqual([
+      [
+        'IMPLAUSIBLE_PORTION',
+        'critical',
+        { itemId: 1, portionSize: { estimatedGrams: 5 } },
+      ],
+      [
+        'IMPLAUSIBLE_PORTION',
+        'warning',
+        { itemId: 2, portionSize: { estimatedGrams: 1200 } },
+      ],
+    ]);
+  });
+
+  it('flags a meal total and shrinks the item carrying most of it', async () => {
+    const biryani = item('biryani', 1000, {
+      calories: 3500,
+      protein: 100,
+      carbs: 500,
+      fat: 120,
+    });
+    const raita = item('raita', 100, { calories: 60, carbs: 5, fat: 4 }, 2);
+    const warnings = await checkPlausibility([biryani, raita], 3560);
+    const meal = warnings.find((w) => w.code === 'IMPLAUSIBLE_MEAL_TOTAL');
+
+    expect(meal).toMatchObject({
+      severity: 'warning',
+      itemId: 1,
+      fix: { itemId: 1, portionSize: { estimatedGrams: 840 } },
+    });
+  });
+});
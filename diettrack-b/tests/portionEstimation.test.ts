@@ -0,0 +1,136 @@
+// tests/portionEstimation.test.ts
+import { estimatePortionSize } from '@/services/portionEstimation';
+
+describe('estimatePortionSize', () => {
+  it('measures dal filling a katori from the katori box', () => {
+    // The 10 cm katori spans 100 units, and the dal fills it
+    const katori = { x: 400, y: 300, width: 100, height: 100 };
+    const est = estimatePortionSize({
+      foodName: 'dal tadka',
+      referenceObject: 'katori',
+      referenceRegion: katori,
+      region: katori,
+      modelEstimate: 300,
+    });
+
+    // π/4 · 10² cm² × 3.5 cm × 0.6 fill × 1.03 g/cm³
+    expect(est.estimatedGrams).toBe(170);
+    expect(est.confidenceRange).toEqual({ min: 136, max: 204 });
+    expect(est.referenceDetected).toBe('katori');
+  });
+
+  it('measures a rice heap against a 28 cm plate', () => {
+    const est = estimatePortionSize({
+      foodName: 'jeera rice',
+      referenceObject: 'plate',
+      detectedSizePx: 560,
+      // 12 × 10 cm at 0.05 cm/px
+      region: { x: 100, y: 100, width: 240, height: 200 },
+    });
+
+    expect(est.estimatedGrams).toBe(132);
+    expect(est.servingSizeCategory).toBe('medium');
+  });
+
+  it('sizes a roti from a 10-rupee coin instead of weighing the coin', () => {
+    const est = estimatePortionSize({
+      foodName: 'roti',
+      referenceObject: 'coin_10_rupee',
+      referenceRegion: { x: 10, y: 10, width: 54, height: 52 },
+      // 17 cm across at 0.05 cm/px
+      region: { x: 200, y: 100, width: 340, height: 340 },
+    });
+
+    expect(est.estimatedGrams).toBe(41);
+    expect(est.servingSizeCategory).toBe('small');
+  });
+
+  it('scales with the item box, not the reference', () => {
+    const base = {
+      foodName: 'idli',
+      referenceObject: 'coin_10_rupee' as const,
+      detectedSizePx: 54,
+    };
+    const small = estimatePortionSize({
+      ...base,
+      region: { x: 0, y: 0, width: 120, height: 120 },
+    });
+    const large = estimatePortionSize({
+      ...base,
+      region: { x: 0, y: 0, width: 180, height: 180 },
+    });
+
+    // Volume grows with the cube of the diameter for heaped foods
+    expect(large.estimatedGrams / small.estimatedGrams).toBeCloseTo(3.375, 1);
+  });
+
+  it('falls back to the model estimate when the reference is not in view', () => {
+    const est = estimatePortionSize({
+      foodName: 'roti',
+      referenceObject: 'coin_10_rupee',
+      modelEstimate: 40,
+    });
+
+    expect(est.estimatedGrams).toBe(40);
+    expect(est.referenceDetected).toBeUndefined();
+  });
+
+  it('widens the range when nothing gives a scale', () => {
+    const measured = estimatePortionSize({
+      foodName: 'dal',
+      referenceObject: 'katori',
+      detectedSizePx: 100,
+      region: { x: 0, y: 0, width: 100, height: 100 },
+    });
+    const modelOnly = estimatePortionSize({ modelEstimate: 170 });
+    const nothing = estimatePortionSize();
+
+    const spread = (e: typeof measured) =>
+      (e.confidenceRange.max - e.confidenceRange.min) / e.estimatedGrams;
+    expect(spread(modelOnly)).toBeGreaterThan(spread(measured));
+    expect(spread(nothing)).toBeGreaterThan(spread(modelOnly));
+    expect(nothing.estimatedGrams).toBe(100);
+  });
+
+  it('uses a typical katori serving when the katori cannot be measured', () => {
+    expect(
+      estimatePortionSize({ referenceObject: 'katori' }).estimatedGrams
+    ).toBe(150);
+  });
+});
+
+describe('estimatePortionSize without a model estimate', () => {
+  it("uses the user's learned portion, then the regional serving", () => {
+    const base = { foodName: 'masala dosa', userRegion: 'south' };
+
+    expect(estimatePortionSize(base)).toMatchObject({
+      estimatedGrams: 120,
+      source: 'regional',
+    });
+    expect(estimatePortionSize({ ...base, learnedGrams: 180 })).toMatchObject({
+      estimatedGrams: 180,
+      source: 'learned',
+    });
+    expect(
+      estimatePortionSize({ ...base, modelEstimate: 90, learnedGrams: 180 })
+    ).toMatchObject({ estimatedGrams: 90, source: 'model' });
+  });
+
+  it("puts the user's saved serving ahead of the model, not a measurement", () => {
+    const base = { foodName: 'dal', modelEstimate: 250, savedGrams: 180 };
+
+    expect(estimatePortionSize(base)).toMatchObject({
+      estimatedGrams: 180,
+      source: 'saved',
+    });
+    const katori = { x: 0, y: 0, width: 100, height: 100 };
+    expect(
+      estimatePortionSize({
+        ...base,
+        referenceObject: 'katori',
+        referenceRegion: katori,
+        region: katori,
+      })
+    ).toMatchObject({ estimatedGrams: 170, source: 'measured' });
+  });
+});
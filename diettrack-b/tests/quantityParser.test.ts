@@ -0,0 +1,106 @@
+// tests/quantityParser.test.ts
+import {
+  parseMealText,
+  parseQuantity,
+  pieceGrams,
+  quantityGrams,
+} from '@/services/quantityParser';
+
+const shape = (text: string) =>
+  parseMealText(text).map(({ food, quantity, unit }) => [food, quantity, unit]);
+
+describe('parseMealText', () => {
+  it('pulls quantity, unit and food out of each phrase', () => {
+    expect(
+      shape('2 rotis, 1.5 katori dal, half plate biryani and 200ml lassi')
+    ).toEqual([
+      ['roti', 2, null],
+      ['dal', 1.5, 'katori'],
+      ['biryani', 0.5, 'plate'],
+      ['lassi', 200, 'ml'],
+    ]);
+  });
+
+  it('splits on "with" and leaves unquantified items without an amount', () => {
+    expect(shape('3 idli with sambar')).toEqual([
+      ['idli', 3, null],
+      ['sambar', null, null],
+    ]);
+  });
+
+  it('reads words, fractions and trailing amounts', () => {
+    expect(shape('one and a half cups of chai + a bowl of curd')).toEqual([
+      ['chai', 1.5, 'cup'],
+      ['curd', 1, 'bowl'],
+    ]);
+    expect(shape('½ katori rice / dedh roti / dal 1 katori')).toEqual([
+      ['rice', 0.5, 'katori'],
+      ['roti', 1.5, null],
+      ['dal', 1, 'katori'],
+    ]);
+  });
+
+  it('keeps numbers that are part of a name', () => {
+    expect(parseQuantity('chicken 65')).toMatchObject({
+      food: 'chicken 65',
+      quantity: null,
+    });
+    expect(parseQuantity('2 slices bread')).toMatchObject({
+      food: 'bread',
+      quantity: 2,
+      unit: 'piece',
+    });
+  });
+});
+
+describe('quantityGrams', () => {
+  it('weighs pieces of countable foods', () => {
+    expect(quantityGrams(parseQuantity('2 rotis'))).toBe(80);
+    expect(quantityGrams(parseQuantity('3 masala dosas'))).toBe(300);
+    expect(pieceGrams('egg curry')).toBeNull();
+  });
+
+  it('converts measured units directly', () => {
+    expect(quantityGrams(parseQuantity('200ml lassi'))).toBe(200);
+    expect(quantityGrams(parseQuantity('0.25 kg paneer'))).toBe(250);
+  });
+
+  it('reads plural volume and weight units', () => {
+    expect(parseQuantity('2 litres water')).toMatchObject({
+      food: 'water',
+      quantity: 2,
+      unit: 'l',
+    });
+    for (const text of ['2 liters water', '2 ltrs water', '2 lts water']) {
+      expect(quantityGrams(parseQuantity(text))).toBe(2000);
+    }
+    expect(quantityGrams(parseQuantity('500 millilitres milk'))).toBe(500);
+    expect(quantityGrams(parseQuantity('2 kilos rice'))).toBe(2000);
+    expect(shape('buttermilk 1.5 litres')).toEqual([['buttermilk', 1.5, 'l']]);
+  });
+
+  it("prefers the user's serving, then the food's common portion", () => {
+    const dal = parseQuantity('1.5 katori dal');
+    const commonPortions = [
+      { description: '1 katori', grams: 160, utensil: 'katori' as const },
+    ];
+
+    expect(quantityGrams(dal)).toBe(225);
+    expect(quantityGrams(dal, { foodId: 'dal-id', commonPortions })).toBe(240);
+    expect(
+      quantityGrams(dal, {
+        foodId: 'dal-id',
+        servings: [{ ingredient_id: 'dal-id', label: '1 katori', grams: 120 }],
+        commonPortions,
+      })
+    ).toBe(180);
+  });
+
+  it('gives null when there is no amount or nothing to weigh it by', () => {
+    expect(quantityGrams(parseQuantity('sambar'))).toBeNull();
+    expect(quantityGrams(parseQuantity('2 kheer'))).toBeNull();
+    expect(quantityGrams(parseQuantity('2 kheer'), { servingGrams: 120 })).toBe(
+      240
+    );
+  });
+});
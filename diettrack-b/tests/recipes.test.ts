@@ -0,0 +1,318 @@
+// tests/recipes.test.ts
+
+const mockRecipes: any[] = [];
+
+jest.mock('@/database/supabase', () => {
+  const RAJMA = '11111111-1111-4111-8111-111111111111';
+  const ONION = '22222222-2222-4222-8222-222222222222';
+  const foods = [
+    {
+      id: RAJMA,
+      canonical_name: 'rajma, dry',
+      portion_grams: null,
+      nutrition: {
+        kcal: 333,
+        protein_g: 22.5,
+        carbs_g: 60,
+        fat_g: 1.4,
+        fiber_g: 15,
+      },
+    },
+    {
+      id: ONION,
+      canonical_name: 'onion',
+      portion_grams: null,
+      nutrition: { kcal: 40, protein_g: 1, carbs_g: 10, fat_g: 0, fiber_g: 2 },
+    },
+  ];
+
+  // Chainable, awaitable filter over the in-memory recipes table
+  const query = () => {
+    const filters: Array<(r: any) => boolean> = [];
+    const rows = () => mockRecipes.filter((r) => filters.every((f) => f(r)));
+    const q: any = {
+      eq: (c: string, v: any) => (filters.push((r) => r[c] === v), q),
+      ilike: (c: string, v: string) => (
+        filters.push((r) => r[c].toLowerCase() === v.toLowerCase()), q
+      ),
+      order: () => q,
+      limit: () => q,
+      single: async () =>
+        rows()[0]
+          ? { data: rows()[0], error: null }
+          : { data: null, error: { code: 'PGRST116' } },
+      then: (resolve: any) => resolve({ data: rows(), error: null }),
+    };
+    return q;
+  };
+
+  const duplicate = (row: any, id?: string) =>
+    mockRecipes.some(
+      (r) =>
+        r.id !== id &&
+        r.user_id === row.user_id &&
+        r.name.toLowerCase() === row.name.toLowerCase()
+    );
+
+  return {
+    getSupabase: () => ({
+      from: (table: string) => {
+        if (table === 'ifct_foods') {
+          return {
+            select: () => ({
+              in: async (_c: string, ids: string[]) => ({
+                data: foods.filter((f) => ids.includes(f.id)),
+                error: null,
+              }),
+            }),
+          };
+        }
+        // recipes
+        return {
+          select: () => query(),
+          insert: (row: any) => ({
+            select: () => ({
+              single: async () => {
+                if (duplicate(row)) {
+                  return { data: null, error: { code: '23505' } };
+                }
+                const created = { id: `r${mockRecipes.length + 1}`, ...row };
+                mockRecipes.push(created);
+                return { data: created, error: null };
+              },
+            }),
+          }),
+          update: (patch: any) => ({
+            eq: (_c: string, id: string) => ({
+              eq: () => ({
+                select: () => ({
+                  single: async () => {
+                    const row = mockRecipes.find((r) => r.id === id);
+                    if (duplicate({ ...row, ...patch }, id)) {
+                      return { data: null, error: { code: '23505' } };
+                    }
+                    Object.assign(row, patch);
+                    return { data: row, error: null };
+                  },
+                }),
+              }),
+            }),
+          }),
+          delete: () => ({
+            eq: (_c: string, id: string) => ({
+              eq: async () => {
+                const i = mockRecipes.findIndex((r) => r.id === id);
+                if (i >= 0) mockRecipes.splice(i, 1);
+                return { error: null };
+              },
+            }),
+          }),
+        };
+      },
+    }),
+  };
+});
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import { computeRecipeNutrition } from '@/services/recipeService';
+
+// tests/setup.ts mocks the IFCT service globally
+const { getIFCTFoodByName } = jest.requireActual('@/services/ifctService');
+
+const RAJMA = '11111111-1111-4111-8111-111111111111';
+const ONION = '22222222-2222-4222-8222-222222222222';
+const auth = (id: string) =>
+  `Bearer ${signAccessToken({ id, phone: '+919800000050' })}`;
+const mine = auth('user-recipes');
+
+const rajmaMasala = {
+  name: 'Mom’s rajma',
+  ingredients: [
+    { ingredient_id: RAJMA, grams: 100 },
+    { ingredient_id: ONION, grams: 50 },
+  ],
+  cooked_yield_g: 450,
+  servings: 3,
+};
+
+beforeEach(() => {
+  mockRecipes.length = 0;
+});
+
+describe('computeRecipeNutrition', () => {
+  it('spreads raw-ingredient nutrition over the cooked yield and servings', () => {
+    const foods = new Map([
+      [
+        RAJMA,
+        {
+          nutrition: {
+            kcal: 333,
+            protein_g: 22.5,
+            carbs_g: 60,
+            fat_g: 1.4,
+            fiber_g: 15,
+          },
+        },
+      ],
+      [
+        ONION,
+        {
+          nutrition: {
+            kcal: 40,
+            protein_g: 1,
+            carbs_g: 10,
+            fat_g: 0,
+            fiber_g: 2,
+          },
+        },
+      ],
+    ]);
+
+    expect(
+      computeRecipeNutrition(rajmaMasala.ingredients, foods, 450, 3)
+    ).toEqual({
+      nutrition_per_100g: {
+        calories: 78,
+        protein: 5.1,
+        carbs: 14.4,
+        fat: 0.3,
+        fiber: 3.6,
+      },
+      nutrition_per_serving: {
+        calories: 118,
+        protein: 7.7,
+        carbs: 21.7,
+        fat: 0.5,
+        fiber: 5.3,
+      },
+    });
+  });
+});
+
+describe('recipe endpoints', () => {
+  it('creates, lists, updates and deletes a recipe', async () => {
+    const created = await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send(rajmaMasala);
+    expect(created.status).toBe(201);
+    const { recipe } = created.body.data;
+    expect(recipe).toMatchObject({
+      name: 'Mom’s rajma',
+      cooked_yield_g: 450,
+      servings: 3,
+      nutrition_per_serving: { calories: 118 },
+    });
+    expect(recipe.ingredients[0]).toMatchObject({ name: 'rajma, dry' });
+
+    const list = await request(app)
+      .get('/api/v1/recipes')
+      .set('Authorization', mine);
+    expect(list.body.data.recipes).toHaveLength(1);
+
+    const updated = await request(app)
+      .put(`/api/v1/recipes/${recipe.id}`)
+      .set('Authorization', mine)
+      .send({ ...rajmaMasala, servings: 1 });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.recipe.nutrition_per_serving.calories).toBe(353);
+
+    const removed = await request(app)
+      .delete(`/api/v1/recipes/${recipe.id}`)
+      .set('Authorization', mine);
+    expect(removed.status).toBe(200);
+    const gone = await request(app)
+      .get(`/api/v1/recipes/${recipe.id}`)
+      .set('Authorization', mine);
+    expect(gone.status).toBe(404);
+  });
+
+  it('defaults the yield to the raw weight and one serving', async () => {
+    const res = await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send({ name: 'Rajma', ingredients: rajmaMasala.ingredients });
+    expect(res.body.data.recipe).toMatchObject({
+      cooked_yield_g: 150,
+      servings: 1,
+    });
+  });
+
+  it('rejects unknown ingredients, bad input and duplicate names', async () => {
+    const unknown = await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send({
+        name: 'Mystery',
+        ingredients: [
+          { ingredient_id: '33333333-3333-4333-8333-333333333333', grams: 10 },
+        ],
+      });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.code).toBe('UNKNOWN_FOOD');
+
+    const empty = await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send({ name: 'Nothing', ingredients: [] });
+    expect(empty.status).toBe(400);
+
+    await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send(rajmaMasala);
+    const dup = await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send({ ...rajmaMasala, name: 'MOM’S RAJMA' });
+    expect(dup.status).toBe(409);
+  });
+
+  it("hides other users' recipes and requires sign-in", async () => {
+    const created = await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send(rajmaMasala);
+    const id = created.body.data.recipe.id;
+
+    const other = auth('someone-else');
+    expect(
+      (
+        await request(app)
+          .get(`/api/v1/recipes/${id}`)
+          .set('Authorization', other)
+      ).status
+    ).toBe(404);
+    expect(
+      (
+        await request(app)
+          .delete(`/api/v1/recipes/${id}`)
+          .set('Authorization', other)
+      ).status
+    ).toBe(404);
+    expect((await request(app).get('/api/v1/recipes')).status).toBe(401);
+  });
+});
+
+describe('recipe-first food lookup', () => {
+  it("matches the user's recipe before the shared food DB", async () => {
+    await request(app)
+      .post('/api/v1/recipes')
+      .set('Authorization', mine)
+      .send(rajmaMasala);
+
+    expect(await getIFCTFoodByName('mom’s rajma', 'user-recipes')).toEqual({
+      code: null,
+      ingredient_id: null,
+      recipe_id: 'r1',
+      name: 'Mom’s rajma',
+      energy_kcal_per_100g: 78,
+      protein_g_per_100g: 5.1,
+      fat_g_per_100g: 0.3,
+      carbs_g_per_100g: 14.4,
+      serving_size_g: 150,
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// tests/regionalPortions.test.ts
+let mockUser: Record<string, unknown> | null = null;
+let mockMeals: Array<{ adjustments: unknown }> = [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: (table: string) => ({
+      select: () => ({
+        eq: () =>
+          table === 'users'
+            ? { single: async () => ({ data: mockUser, error: null }) }
+            : {
+                order: () => ({
+                  limit: async () => ({ data: mockMeals, error: null }),
+                }),
+              },
+      }),
+    }),
+  }),
+}));
+
+import {
+  INDIAN_REGIONS,
+  REGIONAL_PORTIONS,
+  resolveRegion,
+} from '@/services/regionalPortions';
+import {
+  applyPortionDefaults,
+  getLearnedPortions,
+} from '@/services/portionDefaultsService';
+import type { DetectedFoodItem, PortionSource } from '@/types';
+
+const item = (
+  name: string,
+  grams: number,
+  source: PortionSource,
+  itemId = 1
+): DetectedFoodItem => ({
+  itemId,
+  name,
+  confidence: 0.6,
+  region: { x: 0, y: 0, width: 100, height: 100 },
+  nutrition: {
+    calories: grams,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+    cholesterol: 0,
+  },
+  alternatives: [],
+  portionSize: {
+    estimatedGrams: grams,
+    confidenceRange: { min: grams * 0.85, max: grams * 1.15 },
+    servingSizeCategory: 'medium',
+    source,
+  },
+  ingredients: [],
+});
+
+const correction = (name: string, from: number, to: number, at: string) => ({
+  adjusted_at: at,
+  items: [{ name, original: { grams: from }, adjusted: { grams: to } }],
+});
+
+beforeEach(() => {
+  mockUser = null;
+  mockMeals = [];
+});
+
+describe('regional portions', () => {
+  it('covers every region for every dish', () => {
+    for (const row of REGIONAL_PORTIONS) {
+      for (const region of INDIAN_REGIONS) {
+        expect(row.grams[region]).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('resolves regions from states, cities and region names', () => {
+    expect(resolveRegion('Chennai, Tamil Nadu')).toBe('south');
+    expect(resolveRegion('Kolkata, West Bengal')).toBe('east');
+    expect(resolveRegion('Pune')).toBe('west');
+    expect(resolveRegion('Indore, MP')).toBe('central');
+    expect(resolveRegion('Guwahati')).toBe('northeast');
+    expect(resolveRegion('North-East India')).toBe('northeast');
+    expect(resolveRegion('north india')).toBe('north');
+    expect(resolveRegion('London')).toBeNull();
+    expect(resolveRegion('')).toBeNull();
+  });
+
+  it('uses the regional serving for items without a model estimate', async () => {
+    const [rice, dal] = await applyPortionDefaults(
+      [item('steamed rice', 150, 'default', 1), item('dal', 90, 'model', 2)],
+      { context: { location: 'Bengaluru' } }
+    );
+
+    expect(rice.portionSize).toMatchObject({
+      estimatedGrams: 200,
+      source: 'regional',
+    });
+    // Model nutrition follows the new weight
+    expect(rice.nutrition.calories).toBe(200);
+    expect(dal.portionSize.estimatedGrams).toBe(90);
+  });
+
+  it('prefers the request location over the profile', async () => {
+    mockUser = { location: 'Amritsar, Punjab' };
+    const profileOnly = await applyPortionDefaults(
+      [item('rice', 150, 'default')],
+      { userId: 'u1' }
+    );
+    const travelling = await applyPortionDefaults(
+      [item('rice', 150, 'default')],
+      { userId: 'u1', context: { location: 'Kochi' } }
+    );
+
+    expect(profileOnly[0].portionSize.estimatedGrams).toBe(150);
+    expect(profileOnly[0].portionSize.source).toBe('regional');
+    expect(travelling[0].portionSize.estimatedGrams).toBe(200);
+  });
+
+  it("learns the user's usual portion from repeated corrections", async () => {
+    mockMeals = [
+      {
+        adjustments: [
+          correction('Rotis', 40, 60, '2026-03-03T08:00:00Z'),
+          correction('dal', 150, 150, '2026-03-03T08:00:00Z'),
+        ],
+      },
+      { adjustments: [correction('roti', 40, 70, '2026-03-02T08:00:00Z')] },
+      { adjustments: [correction('dal', 150, 200, '2026-03-01T08:00:00Z')] },
+      { adjustments: [] },
+    ];
+    const learned = await getLearnedPortions('u1');
+
+    expect(learned.get('roti')).toBe(65);
+    // One real correction isn't a habit yet
+    expect(learned.has('dal')).toBe(false);
+
+    mockUser = { location: 'Delhi' };
+    const [roti, dal] = await applyPortionDefaults(
+      [item('roti', 150, 'default', 1), item('dal', 150, 'default', 2)],
+      { userId: 'u1' }
+    );
+    expect(roti.portionSize).toMatchObject({
+      estimatedGrams: 65,
+      source: 'learned',
+    });
+    expect(dal.portionSize).toMatchObject({
+      estimatedGrams: 150,
+      source: 'regional',
+    });
+  });
+
+  it('measures model estimates against a boxed reference object', async () => {
+    // The 10 cm katori spans 100 units, and the dal fills it
+    const katori = { x: 400, y: 300, width: 100, height: 100 };
+    const items = [{ ...item('dal tadka', 300, 'model'), region: katori }];
+
+    const [dal] = await applyPortionDefaults(items, {
+      referenceObject: 'katori',
+      referenceRegion: katori,
+    });
+    expect(dal.portionSize).toMatchObject({
+      estimatedGrams: 170,
+      source: 'measured',
+      referenceDetected: 'katori',
+    });
+    expect(dal.nutrition.calories).toBe(170);
+
+    // Katori named but not found in the photo: the model's grams stand
+    expect(
+      await applyPortionDefaults(items, { referenceObject: 'katori' })
+    ).toEqual(items);
+  });
+
+  it('keeps the default when nothing better is known', async () => {
+    const items = [item('xacuti', 150, 'default')];
+    expect(await applyPortionDefaults(items, {})).toEqual(items);
+  });
+});
@@ -9,6 +9,7 @@ process.env.SUPABASE_SERVICE_ROLE_KEY =
   process.env.SUPABASE_SERVICE_ROLE_KEY || 'dummy';
 process.env.AI_STRATEGY = process.env.AI_STRATEGY || 'gemini_only';
 process.env.GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'dummy';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
 
 // 1) Mock 'uuid' to avoid any ESM resolver weirdness in Jest
 jest.mock('uuid', () => ({
@@ -22,7 +23,11 @@ jest.mock('uuid', () => ({
 // 2) Shared in-memory state for our Supabase mock
 const globalAny = global as any;
 if (!globalAny.__supabaseMockState) {
-  globalAny.__supabaseMockState = { seen: new Set<string>() };
+  // mealOwners: meal_logs id -> user_id, for ownership checks
+  globalAny.__supabaseMockState = {
+    seen: new Set<string>(),
+    mealOwners: new Map<string, string>(),
+  };
 }
 // This reset function will be called by Jest before each test
 globalAny.__supabaseMockReset = () => {
@@ -98,11 +103,17 @@ jest.mock('@/database/supabase', () => {
             },
             select: () => ({
               limit: () => ({ data: [], error: null }),
-              eq: () => ({
+              eq: (_col: string, id: string) => ({
                 single: async () => ({
                   data: { id: 'fake-analysis' },
                   error: null,
                 }),
+                maybeSingle: async () => ({
+                  data: state.mealOwners.has(id)
+                    ? { id, user_id: state.mealOwners.get(id) }
+                    : null,
+                  error: null,
+                }),
               }),
             }),
             update: () => ({ eq: () => ({ error: null }) }),
@@ -0,0 +1,185 @@
+// tests/targets.test.ts
+
+const mockUsers: Record<string, any> = {};
+const mockUpdates: any[] = [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: (_table: string) => ({
+      select: () => ({
+        eq: (_col: string, id: string) => ({
+          single: async () =>
+            mockUsers[id]
+              ? { data: mockUsers[id], error: null }
+              : { data: null, error: { code: 'PGRST116' } },
+        }),
+      }),
+      update: (patch: any) => ({
+        eq: (_col: string, id: string) => ({
+          select: () => ({
+            single: async () => {
+              mockUpdates.push(patch);
+              mockUsers[id] = { ...mockUsers[id], ...patch };
+              return { data: mockUsers[id], error: null };
+            },
+          }),
+        }),
+      }),
+    }),
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import {
+  computeBmr,
+  computeTargets,
+  mergeOverrides,
+} from '@/services/targetService';
+
+const profile = {
+  age: 30,
+  gender: 'male',
+  height_cm: 180,
+  weight_kg: 80,
+  activity_level: 'moderate',
+  fitness_goal: 'lose-weight',
+};
+
+describe('targetService', () => {
+  it('uses Mifflin–St Jeor for BMR', () => {
+    expect(computeBmr(profile)).toBe(1780);
+    expect(computeBmr({ ...profile, gender: 'female' })).toBe(1614);
+    expect(computeBmr({ ...profile, age: null })).toBeNull();
+  });
+
+  it('derives TDEE and goal-adjusted macros', () => {
+    expect(computeTargets(profile)).toEqual({
+      bmr: 1780,
+      tdee: 2759,
+      daily_calorie_target: 2259,
+      macro_targets: { protein: 160, carbs: 264, fats: 63 },
+      overridden: [],
+    });
+
+    const gain = computeTargets({ ...profile, fitness_goal: 'gain-weight' })!;
+    expect(gain.daily_calorie_target).toBe(3059);
+  });
+
+  it('never goes below the calorie floor', () => {
+    const t = computeTargets({
+      age: 70,
+      gender: 'female',
+      height_cm: 150,
+      weight_kg: 45,
+      activity_level: 'sedentary',
+      fitness_goal: 'lose-weight',
+    })!;
+    expect(t.daily_calorie_target).toBe(1200);
+  });
+
+  it('applies overrides and keeps carbs as the remainder', () => {
+    const t = computeTargets(profile, {
+      daily_calorie_target: 2000,
+      macro_targets: { protein: 120 },
+    })!;
+    expect(t.daily_calorie_target).toBe(2000);
+    expect(t.macro_targets.protein).toBe(120);
+    expect(t.macro_targets.fats).toBe(56);
+    expect(t.macro_targets.carbs).toBe(255);
+    expect(t.overridden).toEqual([
+      'daily_calorie_target',
+      'macro_targets.protein',
+    ]);
+  });
+
+  it('merges and clears overrides from profile updates', () => {
+    const stored = { macro_targets: { protein: 120 } };
+    const pinned = mergeOverrides(stored, { daily_calorie_target: 1900 });
+    expect(pinned).toEqual({
+      daily_calorie_target: 1900,
+      macro_targets: { protein: 120 },
+    });
+    expect(
+      mergeOverrides(pinned, { macro_targets: { protein: null } })
+    ).toEqual({ daily_calorie_target: 1900 });
+    expect(mergeOverrides(pinned, { target_overrides: null })).toEqual({});
+  });
+});
+
+describe('user targets API', () => {
+  const id = 'user-targets';
+  const auth = `Bearer ${signAccessToken({ id, phone: '+919800000010' })}`;
+
+  beforeEach(() => {
+    mockUpdates.length = 0;
+    mockUsers[id] = { id, ...profile, target_overrides: {} };
+  });
+
+  it('recalculates targets when the profile changes', async () => {
+    const res = await request(app)
+      .put(`/api/v1/user/${id}/profile`)
+      .set('Authorization', auth)
+      .send({ fitness_goal: 'maintain-weight' });
+
+    expect(res.status).toBe(200);
+    expect(mockUpdates[0]).toMatchObject({
+      fitness_goal: 'maintain-weight',
+      daily_calorie_target: 2759,
+      macro_targets: { protein: 128, carbs: 389, fats: 77 },
+      target_overrides: {},
+    });
+  });
+
+  it('does not touch targets for unrelated fields', async () => {
+    await request(app)
+      .put(`/api/v1/user/${id}/profile`)
+      .set('Authorization', auth)
+      .send({ name: 'Asha' });
+    expect(mockUpdates[0]).toEqual({ name: 'Asha' });
+  });
+
+  it('stores explicit targets as overrides', async () => {
+    await request(app)
+      .put(`/api/v1/user/${id}/profile`)
+      .set('Authorization', auth)
+      .send({ daily_calorie_target: 2000 });
+
+    expect(mockUpdates[0].target_overrides).toEqual({
+      daily_calorie_target: 2000,
+    });
+    expect(mockUpdates[0].daily_calorie_target).toBe(2000);
+  });
+
+  it('previews targets without saving', async () => {
+    const res = await request(app)
+      .post(`/api/v1/user/${id}/targets/preview`)
+      .set('Authorization', auth)
+      .send({ weight_kg: 70 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.bmr).toBe(1680);
+    expect(mockUpdates).toHaveLength(0);
+  });
+
+  it('reports missing inputs on preview', async () => {
+    mockUsers[id] = { id, gender: 'female' };
+    const res = await request(app)
+      .post(`/api/v1/user/${id}/targets/preview`)
+      .set('Authorization', auth)
+      .send({ age: 28 });
+
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('INCOMPLETE_PROFILE');
+    expect(res.body.details.missing).toEqual(['height_cm', 'weight_kg']);
+  });
+
+  it('rejects out-of-range profile values', async () => {
+    const res = await request(app)
+      .put(`/api/v1/user/${id}/profile`)
+      .set('Authorization', auth)
+      .send({ weight_kg: 5 });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,201 @@
+// tests/trends.test.ts
+
+const mockMeals: any[] = [];
+const mockPages: Array<[number, number]> = [];
+
+jest.mock('@/database/supabase', () => ({
+  getSupabase: () => ({
+    from: () => {
+      let start = '';
+      let end = '';
+      const q: any = {
+        select: () => q,
+        eq: () => q,
+        gte: (_c: string, v: string) => ((start = v), q),
+        lt: (_c: string, v: string) => ((end = v), q),
+        order: () => q,
+        single: async () => ({
+          data: {
+            timezone: 'Asia/Kolkata',
+            daily_calorie_target: 2000,
+            macro_targets: { protein: 120, carbs: 250, fats: 60 },
+          },
+          error: null,
+        }),
+        // Meals in the range, one page at a time
+        range: async (from: number, to: number) => {
+          mockPages.push([from, to]);
+          return {
+            data: mockMeals
+              .filter((m) => m.logged_at >= start && m.logged_at < end)
+              .slice(from, to + 1),
+            error: null,
+          };
+        },
+      };
+      return q;
+    },
+  }),
+}));
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import { aggregateTrends, bucketStart } from '@/services/trendsService';
+import type { DailyTotals } from '@/services/dailyStatsService';
+
+const day = (kcal: number, p = 0, c = 0, f = 0): DailyTotals => ({
+  calories_consumed: kcal,
+  protein_consumed: p,
+  carbs_consumed: c,
+  fats_consumed: f,
+  fiber_consumed: 0,
+  sugar_consumed: 0,
+  sodium_consumed: 0,
+});
+
+const opts = {
+  timezone: 'Asia/Kolkata',
+  targets: { daily_calorie_target: 2000 },
+};
+
+describe('aggregateTrends', () => {
+  it('buckets by Monday-based weeks and months', () => {
+    expect(bucketStart('2025-03-09', 'week')).toBe('2025-03-03'); // Sunday
+    expect(bucketStart('2025-03-10', 'week')).toBe('2025-03-10'); // Monday
+    expect(bucketStart('2025-03-19', 'month')).toBe('2025-03-01');
+  });
+
+  it('averages over logged days and compares weeks', () => {
+    const byDay = new Map([
+      ['2025-03-03', day(2000, 100, 250, 60)],
+      ['2025-03-04', day(1800, 100, 200, 60)],
+      ['2025-03-10', day(2300)],
+    ]);
+    const t = aggregateTrends(byDay, {
+      ...opts,
+      from: '2025-03-03',
+      to: '2025-03-16',
+      granularity: 'week',
+    });
+
+    expect(t.buckets).toHaveLength(2);
+    const [w1, w2] = t.buckets;
+    expect(w1).toMatchObject({
+      start: '2025-03-03',
+      end: '2025-03-09',
+      days: 7,
+      logged_days: 2,
+      adherent_days: 2,
+      total_calories: 3800,
+      pct_of_target: 95,
+      change_pct: null,
+    });
+    expect(w1.average).toEqual({
+      calories: 1900,
+      protein: 100,
+      carbs: 225,
+      fats: 60,
+    });
+    // 400 kcal protein, 900 carbs, 540 fat → 1840 kcal from macros
+    expect(w1.macro_split).toEqual({
+      protein_pct: 21.7,
+      carbs_pct: 48.9,
+      fats_pct: 29.3,
+    });
+    expect(w2.change_pct).toBe(21.1);
+    expect(t.summary.adherence_rate).toBe(66.7);
+  });
+
+  it('tracks current and longest adherence streaks', () => {
+    const byDay = new Map([
+      ['2025-03-01', day(2000)],
+      ['2025-03-02', day(2100)],
+      ['2025-03-03', day(1950)],
+      ['2025-03-04', day(3000)],
+      ['2025-03-05', day(1900)],
+      ['2025-03-06', day(2050)],
+    ]);
+    const t = aggregateTrends(byDay, {
+      ...opts,
+      from: '2025-03-01',
+      to: '2025-03-07',
+      granularity: 'day',
+      today: '2025-03-07', // nothing logged yet today
+    });
+    expect(t.summary.streaks).toEqual({ current: 2, longest: 3 });
+    expect(t.buckets).toHaveLength(7);
+    expect(t.buckets[6].logged_days).toBe(0);
+  });
+});
+
+describe('GET /api/v1/user/:userId/trends', () => {
+  const id = 'user-trends';
+  const auth = `Bearer ${signAccessToken({ id, phone: '+919800000030' })}`;
+
+  beforeEach(() => {
+    mockMeals.length = 0;
+    mockPages.length = 0;
+  });
+
+  it('groups meals by the local day', async () => {
+    mockMeals.push(
+      // 2025-03-01 23:00 IST
+      { logged_at: '2025-03-01T17:30:00.000Z', nutrition_total: { kcal: 500 } },
+      // 2025-03-02 00:30 IST
+      { logged_at: '2025-03-01T19:00:00.000Z', nutrition_total: { kcal: 700 } }
+    );
+
+    const res = await request(app)
+      .get(`/api/v1/user/${id}/trends?from=2025-03-01&to=2025-03-02`)
+      .set('Authorization', auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.buckets.map((b: any) => b.total_calories)).toEqual([
+      500, 700,
+    ]);
+    expect(res.body.data.buckets[0].target.protein).toBe(120);
+  });
+
+  it('validates the query', async () => {
+    const bad = await request(app)
+      .get(`/api/v1/user/${id}/trends?granularity=year`)
+      .set('Authorization', auth);
+    expect(bad.status).toBe(400);
+
+    const reversed = await request(app)
+      .get(`/api/v1/user/${id}/trends?from=2025-03-05&to=2025-03-01`)
+      .set('Authorization', auth);
+    expect(reversed.status).toBe(400);
+
+    // `to` defaults to today, so this spans decades
+    const openEnded = await request(app)
+      .get(`/api/v1/user/${id}/trends?from=2000-01-01`)
+      .set('Authorization', auth);
+    expect(openEnded.status).toBe(400);
+    expect(openEnded.body.error).toMatch(/limited to 366 days/);
+  });
+
+  it('reads every meal in a long range, page by page', async () => {
+    // 1500 meals of 100 kcal across January
+    for (let i = 0; i < 1500; i++) {
+      const at = new Date(Date.UTC(2025, 0, 1, 6) + (i % 31) * 86400000);
+      mockMeals.push({
+        logged_at: at.toISOString(),
+        nutrition_total: { kcal: 100 },
+      });
+    }
+
+    const res = await request(app)
+      .get(
+        `/api/v1/user/${id}/trends?from=2025-01-01&to=2025-01-31&granularity=month`
+      )
+      .set('Authorization', auth);
+
+    expect(res.body.data.buckets[0].total_calories).toBe(150000);
+    expect(mockPages).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+  });
+});
@@ -0,0 +1,338 @@
+// tests/userServings.test.ts
+
+const mockServings: any[] = [];
+const mockMeals: any[] = [];
+
+jest.mock('@/database/supabase', () => {
+  const DAL = '44444444-4444-4444-8444-444444444444';
+  let clock = 0;
+  const stamp = () => `2026-01-01T00:00:${String(clock++).padStart(2, '0')}Z`;
+  const tables: Record<string, () => any[]> = {
+    ifct_foods: () => [{ id: DAL, canonical_name: 'dal' }],
+    user_servings: () => mockServings,
+    meal_logs: () => mockMeals,
+    users: () => [],
+  };
+  const duplicate = (row: any) =>
+    mockServings.some(
+      (s) =>
+        s.id !== row.id &&
+        s.user_id === row.user_id &&
+        s.ingredient_id === row.ingredient_id &&
+        s.label.toLowerCase() === row.label.toLowerCase()
+    );
+
+  // Chainable, awaitable query; update/delete apply when it resolves
+  const query = (table: string, op: { patch?: any; remove?: boolean } = {}) => {
+    const filters: Array<(r: any) => boolean> = [];
+    let sort: ((a: any, b: any) => number) | null = null;
+    const run = () => {
+      const rows = tables[table]().filter((r) => filters.every((f) => f(r)));
+      if (sort) rows.sort(sort);
+      if (op.patch) {
+        const next = rows.map((r) => ({ ...r, ...op.patch }));
+        if (next.some(duplicate)) {
+          return { data: null, error: { code: '23505' } };
+        }
+        rows.forEach((r) =>
+          Object.assign(r, op.patch, { updated_at: stamp() })
+        );
+      }
+      if (op.remove) {
+        for (const r of rows) mockServings.splice(mockServings.indexOf(r), 1);
+      }
+      return { data: rows, error: null };
+    };
+    const q: any = {
+      select: () => q,
+      eq: (c: string, v: any) => (filters.push((r) => r[c] === v), q),
+      in: (c: string, vs: any[]) => (filters.push((r) => vs.includes(r[c])), q),
+      order: (c: string, o?: { ascending?: boolean }) => {
+        const dir = o?.ascending === false ? -1 : 1;
+        sort = (a, b) => (a[c] < b[c] ? -dir : a[c] > b[c] ? dir : 0);
+        return q;
+      },
+      limit: () => q,
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      single: async () => {
+        const { data, error } = run();
+        return data?.[0]
+          ? { data: data[0], error: null }
+          : { data: null, error: error || { code: 'PGRST116' } };
+      },
+      then: (resolve: any) => resolve(run()),
+    };
+    return q;
+  };
+
+  return {
+    getSupabase: () => ({
+      from: (table: string) => ({
+        select: () => query(table),
+        update: (patch: any) => query(table, { patch }),
+        delete: () => query(table, { remove: true }),
+        insert: (row: any) => ({
+          select: () => ({
+            single: async () => {
+              if (duplicate(row)) {
+                return { data: null, error: { code: '23505' } };
+              }
+              const created = {
+                id: `00000000-0000-4000-8000-${String(
+                  mockServings.length + 1
+                ).padStart(12, '0')}`,
+                ...row,
+                updated_at: stamp(),
+              };
+              mockServings.push(created);
+              return { data: created, error: null };
+            },
+          }),
+        }),
+      }),
+    }),
+  };
+});
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import {
+  applyPortionDefaults,
+  suggestServings,
+} from '@/services/portionDefaultsService';
+import { getIFCTFoodByName } from '@/services/ifctService';
+import type { DetectedFoodItem } from '@/types';
+
+const DAL = '44444444-4444-4444-8444-444444444444';
+const id = 'user-servings';
+const auth = `Bearer ${signAccessToken({ id, phone: '+919800000060' })}`;
+const base = `/api/v1/user/${id}/servings`;
+
+const correction = (from: number, to: number, at: string) => ({
+  user_id: id,
+  adjustments: [
+    {
+      adjusted_at: at,
+      items: [
+        { name: 'dal', original: { grams: from }, adjusted: { grams: to } },
+      ],
+    },
+  ],
+});
+
+const dal = (grams: number): DetectedFoodItem => ({
+  itemId: 1,
+  name: 'dal',
+  confidence: 0.6,
+  region: { x: 0, y: 0, width: 100, height: 100 },
+  nutrition: {
+    calories: grams,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+    cholesterol: 0,
+  },
+  alternatives: [],
+  portionSize: {
+    estimatedGrams: grams,
+    confidenceRange: { min: grams, max: grams },
+    servingSizeCategory: 'medium',
+    source: 'default',
+  },
+  ingredients: [],
+});
+
+beforeEach(() => {
+  mockServings.length = 0;
+  mockMeals.length = 0;
+  // tests/setup.ts resolves every name to the same food; make it dal's id
+  (getIFCTFoodByName as jest.Mock).mockResolvedValue({
+    code: null,
+    ingredient_id: DAL,
+    name: 'dal',
+    energy_kcal_per_100g: 116,
+    protein_g_per_100g: 7,
+    fat_g_per_100g: 0.4,
+    carbs_g_per_100g: 20,
+    serving_size_g: 150,
+  });
+});
+
+describe('serving endpoints', () => {
+  it('creates, lists, updates and deletes servings', async () => {
+    const created = await request(app)
+      .post(base)
+      .set('Authorization', auth)
+      .send({ ingredient_id: DAL, label: '1 katori', grams: 180 });
+    expect(created.status).toBe(201);
+    const serving = created.body.data.serving;
+    expect(serving).toMatchObject({ label: '1 katori', grams: 180 });
+
+    const updated = await request(app)
+      .put(`${base}/${serving.id}`)
+      .set('Authorization', auth)
+      .send({ grams: 200 });
+    expect(updated.body.data.serving.grams).toBe(200);
+
+    const list = await request(app)
+      .get(`${base}?ingredient_id=${DAL}`)
+      .set('Authorization', auth);
+    expect(list.body.data.servings).toHaveLength(1);
+
+    const removed = await request(app)
+      .delete(`${base}/${serving.id}`)
+      .set('Authorization', auth);
+    expect(removed.status).toBe(200);
+    const again = await request(app)
+      .delete(`${base}/${serving.id}`)
+      .set('Authorization', auth);
+    expect(again.status).toBe(404);
+  });
+
+  it('rejects serving ids that are not uuids', async () => {
+    const edit = await request(app)
+      .put(`${base}/not-a-uuid`)
+      .set('Authorization', auth)
+      .send({ grams: 200 });
+    expect(edit.status).toBe(400);
+    expect(edit.body.code).toBe('INVALID_ID');
+
+    const remove = await request(app)
+      .delete(`${base}/not-a-uuid`)
+      .set('Authorization', auth);
+    expect(remove.status).toBe(400);
+  });
+
+  it('rejects unknown foods, duplicate labels and bad input', async () => {
+    const unknown = await request(app)
+      .post(base)
+      .set('Authorization', auth)
+      .send({
+        ingredient_id: '55555555-5555-4555-8555-555555555555',
+        label: '1 katori',
+        grams: 180,
+      });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.code).toBe('UNKNOWN_FOOD');
+
+    await request(app)
+      .post(base)
+      .set('Authorization', auth)
+      .send({ ingredient_id: DAL, label: '1 katori', grams: 180 });
+    const dup = await request(app)
+      .post(base)
+      .set('Authorization', auth)
+      .send({ ingredient_id: DAL, label: '1 KATORI', grams: 150 });
+    expect(dup.status).toBe(409);
+
+    const empty = await request(app)
+      .put(`${base}/s1`)
+      .set('Authorization', auth)
+      .send({});
+    expect(empty.status).toBe(400);
+  });
+
+  it("keeps other users' servings out of reach", async () => {
+    const other = `Bearer ${signAccessToken({
+      id: 'someone-else',
+      phone: '+919800000061',
+    })}`;
+    const res = await request(app).get(base).set('Authorization', other);
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('servings as default portions', () => {
+  it('uses the latest saved serving before learned or regional ones', async () => {
+    mockServings.push(
+      {
+        id: 's1',
+        user_id: id,
+        ingredient_id: DAL,
+        label: '1 bowl',
+        grams: 250,
+        updated_at: '2026-01-01T00:00:00Z',
+      },
+      {
+        id: 's2',
+        user_id: id,
+        ingredient_id: DAL,
+        label: '1 katori',
+        grams: 180,
+        updated_at: '2026-02-01T00:00:00Z',
+      }
+    );
+    mockMeals.push(
+      correction(150, 120, '2026-03-02T08:00:00Z'),
+      correction(150, 120, '2026-03-01T08:00:00Z')
+    );
+
+    const [item] = await applyPortionDefaults([dal(150)], {
+      userId: id,
+      context: { location: 'Delhi' },
+    });
+    expect(item.portionSize).toMatchObject({
+      estimatedGrams: 180,
+      source: 'saved',
+    });
+    expect(item.nutrition.calories).toBe(180);
+  });
+
+  it("replaces the model's generic estimate on a photo item", async () => {
+    mockServings.push({
+      id: 's1',
+      user_id: id,
+      ingredient_id: DAL,
+      label: '1 katori',
+      grams: 180,
+      updated_at: '2026-02-01T00:00:00Z',
+    });
+    const photo = dal(250);
+    const model = {
+      ...photo,
+      portionSize: { ...photo.portionSize, source: 'model' as const },
+    };
+
+    const [item] = await applyPortionDefaults([model], { userId: id });
+    expect(item.portionSize).toMatchObject({
+      estimatedGrams: 180,
+      source: 'saved',
+    });
+    expect(item.nutrition.calories).toBe(180);
+
+    // Without a saved serving the model's grams stand
+    mockServings.length = 0;
+    expect(await applyPortionDefaults([model], { userId: id })).toEqual([
+      model,
+    ]);
+  });
+
+  it('suggests a serving once the same correction repeats', async () => {
+    mockMeals.push(correction(150, 120, '2026-03-01T08:00:00Z'));
+    expect(await suggestServings(id, ['dal'])).toEqual([]);
+
+    mockMeals.push(correction(150, 130, '2026-03-02T08:00:00Z'));
+    expect(await suggestServings(id, ['Dal'])).toEqual([
+      { ingredient_id: DAL, food_name: 'dal', label: '1 serving', grams: 125 },
+    ]);
+
+    const res = await request(app)
+      .get(`${base}/suggestions`)
+      .set('Authorization', auth);
+    expect(res.body.data.suggestions).toHaveLength(1);
+
+    // A saved serving near the learned weight settles it
+    await request(app)
+      .post(base)
+      .set('Authorization', auth)
+      .send({ ingredient_id: DAL, label: '1 katori', grams: 120 });
+    expect(await suggestServings(id)).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+// tests/water.test.ts
+
+const mockWater: any[] = [];
+const mockStats: Record<string, any> = {};
+
+jest.mock('@/database/supabase', () => {
+  // Chainable, awaitable filter over an in-memory table
+  const query = (rows: () => any[]) => {
+    const filters: Array<(r: any) => boolean> = [];
+    const q: any = {
+      eq: (c: string, v: any) => (filters.push((r) => r[c] === v), q),
+      gte: (c: string, v: any) => (filters.push((r) => r[c] >= v), q),
+      lt: (c: string, v: any) => (filters.push((r) => r[c] < v), q),
+      order: () => q,
+      single: async () => {
+        const row = rows().find((r) => filters.every((f) => f(r)));
+        return row
+          ? { data: row, error: null }
+          : { data: null, error: { code: 'PGRST116' } };
+      },
+      maybeSingle: async () => ({
+        data: rows().find((r) => filters.every((f) => f(r))) ?? null,
+        error: null,
+      }),
+      then: (resolve: any) =>
+        resolve({
+          data: rows().filter((r) => filters.every((f) => f(r))),
+          error: null,
+        }),
+    };
+    return q;
+  };
+
+  return {
+    getSupabase: () => ({
+      from: (table: string) => {
+        if (table === 'users') {
+          return {
+            select: () =>
+              query(() => [
+                {
+                  id: 'user-water',
+                  timezone: 'Asia/Kolkata',
+                  weight_kg: 60,
+                  activity_level: 'moderate',
+                },
+              ]),
+          };
+        }
+        if (table === 'user_daily_stats') {
+          return {
+            upsert: async (row: any) => {
+              const key = `${row.user_id}:${row.date}`;
+              mockStats[key] = { ...mockStats[key], ...row };
+              return { error: null };
+            },
+            select: () => ({
+              eq: (_c: string, userId: string) => ({
+                eq: (_c2: string, date: string) => ({
+                  single: async () => {
+                    const row = mockStats[`${userId}:${date}`];
+                    return row
+                      ? { data: row, error: null }
+                      : { data: null, error: { code: 'PGRST116' } };
+                  },
+                }),
+              }),
+            }),
+          };
+        }
+        // water_logs
+        return {
+          insert: (row: any) => ({
+            select: () => ({
+              single: async () => {
+                const n = String(mockWater.length + 1).padStart(12, '0');
+                const created = { id: `00000000-0000-4000-8000-${n}`, ...row };
+                mockWater.push(created);
+                return { data: created, error: null };
+              },
+            }),
+          }),
+          select: () => query(() => mockWater),
+          delete: () => ({
+            eq: async (_c: string, id: string) => {
+              const i = mockWater.findIndex((w) => w.id === id);
+              if (i >= 0) mockWater.splice(i, 1);
+              return { error: null };
+            },
+          }),
+        };
+      },
+    }),
+  };
+});
+
+import request from 'supertest';
+import app from '@/server';
+import { signAccessToken } from '@/services/authService';
+import { waterTargetMl } from '@/services/waterService';
+
+const id = 'user-water';
+const auth = `Bearer ${signAccessToken({ id, phone: '+919800000040' })}`;
+const at = '2025-03-02T06:00:00.000Z'; // 11:30 IST
+
+beforeEach(() => {
+  mockWater.length = 0;
+  for (const k of Object.keys(mockStats)) delete mockStats[k];
+});
+
+describe('waterTargetMl', () => {
+  it('scales with weight and activity', () => {
+    expect(waterTargetMl({ weight_kg: 60, activity_level: 'sedentary' })).toBe(
+      2100
+    );
+    expect(
+      waterTargetMl({ weight_kg: 60, activity_level: 'very_active' })
+    ).toBe(2850);
+    expect(waterTargetMl({ weight_kg: 200 })).toBe(5000);
+    expect(waterTargetMl({})).toBe(2500);
+  });
+});
+
+describe('water endpoints', () => {
+  it('adds presets and custom amounts, folding them into daily stats', async () => {
+    const glass = await request(app)
+      .post(`/api/v1/user/${id}/water`)
+      .set('Authorization', auth)
+      .send({ preset: 'glass', logged_at: at });
+    expect(glass.status).toBe(201);
+    expect(glass.body.data).toMatchObject({
+      date: '2025-03-02',
+      water_intake_ml: 250,
+      water_target_ml: 2600,
+    });
+
+    const custom = await request(app)
+      .post(`/api/v1/user/${id}/water`)
+      .set('Authorization', auth)
+      .send({ preset: 'ml', amount_ml: 330, logged_at: at });
+    expect(custom.body.data.water_intake_ml).toBe(580);
+
+    const stats = await request(app)
+      .get(`/api/v1/user/${id}/daily-stats?date=2025-03-02`)
+      .set('Authorization', auth);
+    expect(stats.body.data).toMatchObject({
+      water_intake_ml: 580,
+      water_target_ml: 2600,
+    });
+  });
+
+  it('deletes an entry and lowers the total', async () => {
+    const added = await request(app)
+      .post(`/api/v1/user/${id}/water`)
+      .set('Authorization', auth)
+      .send({ preset: 'bottle', logged_at: at });
+
+    const res = await request(app)
+      .delete(`/api/v1/user/${id}/water/${added.body.data.entry.id}`)
+      .set('Authorization', auth);
+    expect(res.status).toBe(200);
+    expect(res.body.data.water_intake_ml).toBe(0);
+
+    const again = await request(app)
+      .delete(`/api/v1/user/${id}/water/${added.body.data.entry.id}`)
+      .set('Authorization', auth);
+    expect(again.status).toBe(404);
+
+    const bad = await request(app)
+      .delete(`/api/v1/user/${id}/water/not-a-uuid`)
+      .set('Authorization', auth);
+    expect(bad.status).toBe(400);
+    expect(bad.body.code).toBe('INVALID_ID');
+  });
+
+  it('requires amount_ml only for the ml preset', async () => {
+    const missing = await request(app)
+      .post(`/api/v1/user/${id}/water`)
+      .set('Authorization', auth)
+      .send({ preset: 'ml' });
+    expect(missing.status).toBe(400);
+
+    const extra = await request(app)
+      .post(`/api/v1/user/${id}/water`)
+      .set('Authorization', auth)
+      .send({ preset: 'glass', amount_ml: 900 });
+    expect(extra.status).toBe(400);
+  });
+});
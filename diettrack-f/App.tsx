@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 
 // Import all screens
@@ -14,6 +15,18 @@ import CameraScreen from './src/screens/CameraScreen';
 import FoodAnalysisScreen from './src/screens/FoodAnalysisScreen';
 import TextMealEntryScreen from './src/screens/TextMealEntryScreen';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
+import {
+  getUserProfile,
+  updateUserProfile,
+  type LoginResult,
+  type UserProfile,
+} from './src/api';
+import {
+  loadSession,
+  updateSession,
+  setSessionExpiredHandler,
+} from './src/session';
+import { startQueueSync } from './src/offlineQueue';
 
 type AppState =
   | 'splash'
@@ -37,18 +50,70 @@ interface UserData {
   goal?: string;
 }
 
+// A profile counts as onboarded once every onboarding answer is stored
+function hasCompletedOnboarding(p: Partial<UserProfile> | null | undefined) {
+  return !!(
+    p?.age &&
+    p.gender &&
+    p.height_cm &&
+    p.weight_kg &&
+    p.activity_level &&
+    p.fitness_goal
+  );
+}
+
 export default function App() {
   const [currentScreen, setCurrentScreen] = useState<AppState>('splash');
   const [userData, setUserData] = useState<UserData>({});
+  const [userId, setUserId] = useState<string | undefined>();
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
   const [capturedImageUri, setCapturedImageUri] = useState<
     string | undefined
   >();
 
-  const handleSplashFinish = () => {
-    setCurrentScreen('login');
+  // Back to login whenever the stored session can no longer be refreshed
+  useEffect(() => {
+    setSessionExpiredHandler(() => {
+      setUserId(undefined);
+      setCurrentScreen('login');
+    });
+    return () => setSessionExpiredHandler(null);
+  }, []);
+
+  // Upload meals captured while offline once someone is signed in
+  useEffect(() => {
+    if (!userId) return;
+    return startQueueSync();
+  }, [userId]);
+
+  const handleSplashFinish = async () => {
+    const session = await loadSession();
+    if (!session) {
+      setCurrentScreen('login');
+      return;
+    }
+    setUserId(session.user.id);
+    setCurrentScreen(session.onboarded ? 'main-home' : 'onboarding-age');
   };
 
-  const handleLogin = () => {
+  const handleLogin = async ({ session, isNewUser }: LoginResult) => {
+    setUserId(session.user.id);
+    if (isNewUser) {
+      setCurrentScreen('onboarding-age');
+      return;
+    }
+
+    // Returning users skip onboarding if their profile is already filled in
+    try {
+      const profile = await getUserProfile(session.user.id);
+      if (hasCompletedOnboarding(profile)) {
+        await updateSession({ onboarded: true });
+        setCurrentScreen('main-home');
+        return;
+      }
+    } catch (error) {
+      console.warn('Could not load profile after login:', error);
+    }
     setCurrentScreen('onboarding-age');
   };
 
@@ -84,9 +149,33 @@ export default function App() {
     setCurrentScreen('onboarding-height');
   };
 
-  const handleGoalNext = (goal: string) => {
-    setUserData((prev) => ({ ...prev, goal }));
-    setCurrentScreen('main-home');
+  const handleGoalNext = async (goal: string) => {
+    const answers = { ...userData, goal };
+    setUserData(answers);
+    if (!userId || isSavingProfile) return;
+
+    setIsSavingProfile(true);
+    try {
+      await updateUserProfile(userId, {
+        age: answers.age,
+        gender: answers.gender,
+        height_cm: answers.height,
+        weight_kg: answers.weight,
+        activity_level: answers.activity,
+        fitness_goal: answers.goal,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      await updateSession({ onboarded: true });
+      setCurrentScreen('main-home');
+    } catch (error) {
+      console.error('Saving onboarding profile failed:', error);
+      Alert.alert(
+        'Could not save your profile',
+        'Please check your connection and try again.'
+      );
+    } finally {
+      setIsSavingProfile(false);
+    }
   };
 
   const handleGoalBack = () => {
@@ -180,6 +269,7 @@ export default function App() {
       case 'main-home':
         return (
           <HomeScreen
+            userId={userId}
             onNavigateToCamera={() => setCurrentScreen('camera')}
             onNavigateToTextEntry={() => setCurrentScreen('text-meal-entry')}
             onNavigateToProfile={handleProfileNavigation}
@@ -217,6 +307,7 @@ export default function App() {
       default:
         return (
           <HomeScreen
+            userId={userId}
             onNavigateToCamera={() => setCurrentScreen('camera')}
             onNavigateToTextEntry={() => setCurrentScreen('text-meal-entry')}
           />
@@ -1,6 +1,14 @@
 // src/lib/api.ts
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import {
+  getSession,
+  saveSession,
+  clearSession,
+  notifySessionExpired,
+  type Session,
+  type SessionUser,
+} from './session';
 
 function normalize(url: string) {
   return url.replace(/\/+$/, '');
@@ -38,17 +46,202 @@ async function asJson<T>(res: Response): Promise<T> {
   }
 }
 
+// ──────────────────────────────────────────────────────────────────────────────
+// Authenticated fetch: attaches the bearer token and refreshes it once on 401
+// ──────────────────────────────────────────────────────────────────────────────
+let refreshing: Promise<boolean> | null = null;
+
+async function refreshSession(): Promise<boolean> {
+  const session = getSession();
+  if (!session?.refreshToken) return false;
+  try {
+    const res = await fetch(`${API}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: session.refreshToken }),
+    });
+    if (!res.ok) return false;
+    const json = await asJson<{
+      success: boolean;
+      data: { accessToken: string; refreshToken: string };
+    }>(res);
+    await saveSession({
+      ...session,
+      accessToken: json.data.accessToken,
+      refreshToken: json.data.refreshToken,
+    });
+    return true;
+  } catch (e) {
+    console.warn('Token refresh failed:', e);
+    return false;
+  }
+}
+
+async function request(url: string, init: RequestInit = {}) {
+  const send = () => {
+    const token = getSession()?.accessToken;
+    return fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init.headers as Record<string, string> | undefined),
+      },
+    });
+  };
+
+  const res = await send();
+  if (res.status !== 401 || !getSession()) return res;
+
+  // Concurrent 401s share one refresh round-trip
+  refreshing = refreshing || refreshSession();
+  const ok = await refreshing.finally(() => (refreshing = null));
+  if (ok) return send();
+
+  await clearSession();
+  notifySessionExpired();
+  return res;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Phone OTP login (first verification of a new number creates the account)
+// ──────────────────────────────────────────────────────────────────────────────
+export type LoginResult = { session: Session; isNewUser: boolean };
+
+async function failure(res: Response, label: string): Promise<Error> {
+  const text = await res.text();
+  let message = text.slice(0, 200);
+  let code: string | undefined;
+  try {
+    const json = JSON.parse(text);
+    message = json?.error || message;
+    code = json?.code;
+  } catch {}
+  const err = new Error(`${label} (${res.status}): ${message}`);
+  (err as any).code = code;
+  (err as any).status = res.status;
+  return err;
+}
+
+export async function requestOtp(
+  phone: string
+): Promise<{ phone: string; expires_in: number }> {
+  const res = await fetch(`${API}/auth/otp/request`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ phone }),
+  });
+  if (!res.ok) throw await failure(res, 'OTP request failed');
+  const json = await asJson<{
+    success: boolean;
+    data: { phone: string; expires_in: number };
+  }>(res);
+  return json.data;
+}
+
+export async function verifyOtp(
+  phone: string,
+  code: string,
+  name?: string
+): Promise<LoginResult> {
+  const res = await fetch(`${API}/auth/otp/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(name ? { phone, code, name } : { phone, code }),
+  });
+  if (!res.ok) throw await failure(res, 'OTP verification failed');
+  const json = await asJson<{
+    success: boolean;
+    data: {
+      user: SessionUser;
+      is_new_user: boolean;
+      accessToken: string;
+      refreshToken: string;
+    };
+  }>(res);
+
+  const session: Session = {
+    accessToken: json.data.accessToken,
+    refreshToken: json.data.refreshToken,
+    user: json.data.user,
+    onboarded: false,
+  };
+  await saveSession(session);
+  return { session, isNewUser: json.data.is_new_user };
+}
+
+export async function logout(): Promise<void> {
+  await clearSession();
+}
+
+export type CookingMethod =
+  | 'raw'
+  | 'boiled'
+  | 'steamed'
+  | 'fried'
+  | 'deep_fried'
+  | 'grilled'
+  | 'roasted'
+  | 'pressure_cooked'
+  | 'tandoor'
+  | 'fermented';
+
+export const COOKING_METHODS: CookingMethod[] = [
+  'raw',
+  'boiled',
+  'steamed',
+  'fried',
+  'deep_fried',
+  'grilled',
+  'roasted',
+  'pressure_cooked',
+  'tandoor',
+  'fermented',
+];
+
+/** Factors the server applied to an item for its cooking method */
+export type CookingModifier = {
+  method: CookingMethod;
+  oilFactor: number;
+  calorieModifier: number;
+  nutrientRetention: number;
+};
+
+/** One entry of an adjust request: new portion, cooking method or values */
+export type AdjustedItem = {
+  itemId: number;
+  portionSize?: { estimatedGrams: number };
+  cookingMethod?: CookingMethod;
+  nutrition?: {
+    calories?: number;
+    protein?: number;
+    carbs?: number;
+    fat?: number;
+  };
+};
+
+/** Advisory notice on an analysis; `fix` can be sent back as-is */
+export type AnalysisWarning = {
+  code: string;
+  severity: 'info' | 'warning' | 'critical';
+  message: string;
+  itemId?: number;
+  fix?: AdjustedItem;
+};
+
 export type AnalyzeResponse = {
   success: boolean;
   data?: {
-    analysisId: string;
-    detectedItems: any[];
+    meal_log_id: string;
+    logged_at: string;
+    items: any[];
     nutritionSummary?: {
       total_calories: number;
       total_protein: number;
       total_carbs: number;
       total_fat: number;
     };
+    warnings?: AnalysisWarning[];
   };
   error?: string;
   code?: string;
@@ -57,28 +250,29 @@ export type AnalyzeResponse = {
 export async function analyze({
   imageBase64,
   prompt,
-  userId = 'u_demo',
+  loggedAt,
+  idempotencyKey,
 }: {
   imageBase64?: string;
   prompt?: string;
-  userId?: string;
+  /** When the meal was captured; defaults to now on the server */
+  loggedAt?: string;
+  /** Reuse the same key when retrying so the meal is only logged once */
+  idempotencyKey?: string;
 }): Promise<AnalyzeResponse> {
-  const body: any = { userId };
+  const body: any = {};
   if (imageBase64) body.image = imageBase64;
   if (prompt) body.prompt = prompt;
+  if (loggedAt) body.loggedAt = loggedAt;
 
-  const res = await fetch(`${API}/analysis`, {
+  const res = await request(`${API}/analysis`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {},
     body: JSON.stringify(body),
   });
 
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(
-      `Analyze failed (${res.status}): ${msg.slice(0, 200)} → ${API}/analysis`
-    );
-  }
+  // Errors carry .status so callers can tell transient failures apart
+  if (!res.ok) throw await failure(res, 'Analyze failed');
   return asJson<AnalyzeResponse>(res);
 }
 
@@ -88,10 +282,7 @@ export async function saveAdjusted({
   ingredientAddOns,
 }: {
   id: string;
-  adjustedItems: Array<{
-    itemId: number;
-    portionSize: { estimatedGrams: number };
-  }>;
+  adjustedItems: AdjustedItem[];
   ingredientAddOns?: Array<{
     name?: string;
     calories?: number;
@@ -100,9 +291,8 @@ export async function saveAdjusted({
     fat?: number;
   }>;
 }) {
-  const res = await fetch(`${API}/analysis/${id}/adjusted`, {
+  const res = await request(`${API}/analysis/${id}/adjusted`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       adjustedItems,
       ingredientAddOns: ingredientAddOns || [],
@@ -137,7 +327,7 @@ export async function lookupIngredient(
   const url = `${API}/ingredients/lookup?name=${encodeURIComponent(
     name
   )}&limit=${limit}`;
-  const res = await fetch(url, { method: 'GET' });
+  const res = await request(url, { method: 'GET' });
   if (!res.ok) {
     const msg = await res.text();
     throw new Error(`Lookup failed (${res.status}): ${msg.slice(0, 200)}`);
@@ -154,6 +344,7 @@ export type UserProfile = {
   id: string;
   name: string;
   email: string;
+  timezone?: string;
   age: number;
   gender: string;
   height_cm: number;
@@ -180,6 +371,7 @@ export type DailyStats = {
   sugar_consumed: number;
   sodium_consumed: number;
   water_intake_ml: number;
+  water_target_ml?: number;
 };
 
 export type RecentMeal = {
@@ -194,9 +386,8 @@ export type RecentMeal = {
 };
 
 export async function getUserProfile(userId: string): Promise<UserProfile> {
-  const res = await fetch(`${API}/user/${userId}/profile`, {
+  const res = await request(`${API}/user/${userId}/profile`, {
     method: 'GET',
-    headers: { 'Content-Type': 'application/json' },
   });
 
   if (!res.ok) {
@@ -216,10 +407,7 @@ export async function getUserDailyStats(
     ? `${API}/user/${userId}/daily-stats?date=${encodeURIComponent(date)}`
     : `${API}/user/${userId}/daily-stats`;
 
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: { 'Content-Type': 'application/json' },
-  });
+  const res = await request(url, { method: 'GET' });
 
   if (!res.ok) {
     const msg = await res.text();
@@ -236,10 +424,10 @@ export async function getUserRecentMeals(
   userId: string,
   limit = 10
 ): Promise<RecentMeal[]> {
-  const res = await fetch(`${API}/user/${userId}/recent-meals?limit=${limit}`, {
-    method: 'GET',
-    headers: { 'Content-Type': 'application/json' },
-  });
+  const res = await request(
+    `${API}/user/${userId}/recent-meals?limit=${limit}`,
+    { method: 'GET' }
+  );
 
   if (!res.ok) {
     const msg = await res.text();
@@ -256,9 +444,8 @@ export async function updateUserProfile(
   userId: string,
   updates: Partial<UserProfile>
 ): Promise<UserProfile> {
-  const res = await fetch(`${API}/user/${userId}/profile`, {
+  const res = await request(`${API}/user/${userId}/profile`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(updates),
   });
 
@@ -273,16 +460,110 @@ export async function updateUserProfile(
   return json.data;
 }
 
+export type WaterPreset = 'glass' | 'bottle' | 'ml';
+
+export type WaterResult = {
+  entry?: { id: string; amount_ml: number; preset: WaterPreset };
+  date: string;
+  water_intake_ml: number;
+  water_target_ml: number;
+};
+
+export async function logWater(
+  userId: string,
+  preset: WaterPreset,
+  amountMl?: number
+): Promise<WaterResult> {
+  const res = await request(`${API}/user/${userId}/water`, {
+    method: 'POST',
+    body: JSON.stringify(
+      preset === 'ml' ? { preset, amount_ml: amountMl } : { preset }
+    ),
+  });
+
+  if (!res.ok) {
+    const msg = await res.text();
+    throw new Error(`Log water failed (${res.status}): ${msg.slice(0, 200)}`);
+  }
+
+  const json = await asJson<{ success: boolean; data: WaterResult }>(res);
+  return json.data;
+}
+
+export async function deleteWater(
+  userId: string,
+  entryId: string
+): Promise<WaterResult> {
+  const res = await request(`${API}/user/${userId}/water/${entryId}`, {
+    method: 'DELETE',
+  });
+
+  if (!res.ok) {
+    const msg = await res.text();
+    throw new Error(
+      `Delete water failed (${res.status}): ${msg.slice(0, 200)}`
+    );
+  }
+
+  const json = await asJson<{ success: boolean; data: WaterResult }>(res);
+  return json.data;
+}
+
+export type TrendBucket = {
+  start: string;
+  end: string;
+  days: number;
+  logged_days: number;
+  adherent_days: number;
+  total_calories: number;
+  average: { calories: number; protein: number; carbs: number; fats: number };
+  target: { calories: number | null };
+  pct_of_target: number | null;
+  macro_split: { protein_pct: number; carbs_pct: number; fats_pct: number };
+  change_pct: number | null;
+};
+
+export type Trends = {
+  from: string;
+  to: string;
+  granularity: 'day' | 'week' | 'month';
+  buckets: TrendBucket[];
+  summary: {
+    logged_days: number;
+    adherence_rate: number | null;
+    streaks: { current: number; longest: number };
+  };
+};
+
+export async function getUserTrends(
+  userId: string,
+  opts: { from?: string; to?: string; granularity?: Trends['granularity'] } = {}
+): Promise<Trends> {
+  const qs = Object.entries(opts)
+    .filter(([, v]) => v)
+    .map(([k, v]) => `${k}=${encodeURIComponent(String(v))}`)
+    .join('&');
+  const res = await request(
+    `${API}/user/${userId}/trends${qs ? `?${qs}` : ''}`,
+    { method: 'GET' }
+  );
+
+  if (!res.ok) {
+    const msg = await res.text();
+    throw new Error(`Get trends failed (${res.status}): ${msg.slice(0, 200)}`);
+  }
+
+  const json = await asJson<{ success: boolean; data: Trends }>(res);
+  return json.data;
+}
+
 export async function getAnalysisHistory(
   userId: string,
   limit = 10
 ): Promise<RecentMeal[]> {
-  const res = await fetch(
+  const res = await request(
     `${API}/analysis/history?userId=${userId}&limit=${limit}`,
-    {
-      method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
-    }
+    { method: 'GET' }
   );
 
   if (!res.ok) {
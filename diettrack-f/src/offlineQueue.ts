@@ -0,0 +1,272 @@
+// src/offlineQueue.ts
+// Meal captures waiting to reach the server. The queue lives in AsyncStorage
+// so it survives restarts; each entry's id doubles as its Idempotency-Key,
+// reused on every retry so the backend logs the meal exactly once. Entries
+// retry on a backoff timer, and right away when connectivity returns.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+import { analyze } from './api';
+import { getSession } from './session';
+
+export type PendingMeal = {
+  /** Client-generated; sent as the Idempotency-Key header */
+  id: string;
+  userId: string;
+  /** Local file for the thumbnail; the upload itself is stored separately */
+  imageUri?: string;
+  hasImage: boolean;
+  prompt?: string;
+  capturedAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'pending' | 'syncing' | 'failed';
+  lastError?: string;
+};
+
+const INDEX_KEY = 'diettrack.pendingMeals';
+// Images are kept one per key: Android caps a single AsyncStorage value at ~2MB
+const imageKey = (id: string) => `${INDEX_KEY}.${id}.image`;
+
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 10 * 60_000;
+
+let queue: PendingMeal[] = [];
+let loading: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const listeners = new Set<(pending: PendingMeal[]) => void>();
+const syncedListeners = new Set<(meal: PendingMeal) => void>();
+
+/** RFC 4122 v4-shaped random id. */
+export function newIdempotencyKey(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Worth retrying later: no response at all (offline, timeout), a transient
+ * server status, or 409 while the same key is still being processed. Other
+ * 4xx answers won't change on retry.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as any)?.status as number | undefined;
+  if (!status) return true;
+  return status >= 500 || [408, 409, 429].includes(status);
+}
+
+export function backoffDelay(attempts: number): number {
+  const exp = BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  const jitter = Math.random() * BASE_DELAY_MS;
+  return Math.min(MAX_DELAY_MS, exp + jitter);
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ──────────────────────────────────────────────────────────────────────────────
+function loadQueue(): Promise<void> {
+  loading =
+    loading ||
+    AsyncStorage.getItem(INDEX_KEY)
+      .then((raw) => {
+        const saved: PendingMeal[] = raw ? JSON.parse(raw) : [];
+        // An app kill mid-upload leaves entries marked as syncing
+        queue = saved.map((m) =>
+          m.status === 'syncing' ? { ...m, status: 'pending' } : m
+        );
+      })
+      .catch((e) => {
+        console.warn('Failed to read pending meals:', e);
+        queue = [];
+      });
+  return loading;
+}
+
+async function persist() {
+  listeners.forEach((fn) => fn(queue));
+  try {
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(queue));
+  } catch (e) {
+    console.warn('Failed to save pending meals:', e);
+  }
+}
+
+async function update(id: string, patch: Partial<PendingMeal>) {
+  queue = queue.map((m) => (m.id === id ? { ...m, ...patch } : m));
+  await persist();
+}
+
+async function remove(id: string) {
+  queue = queue.filter((m) => m.id !== id);
+  await AsyncStorage.removeItem(imageKey(id)).catch(() => {});
+  await persist();
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Public API
+// ──────────────────────────────────────────────────────────────────────────────
+export async function enqueueMeal(input: {
+  id?: string;
+  imageBase64?: string;
+  imageUri?: string;
+  prompt?: string;
+  capturedAt?: string;
+}): Promise<PendingMeal | null> {
+  const session = getSession();
+  if (!session) return null;
+  await loadQueue();
+
+  const id = input.id || newIdempotencyKey();
+  const existing = queue.find((m) => m.id === id);
+  if (existing) return existing;
+
+  if (input.imageBase64) {
+    await AsyncStorage.setItem(imageKey(id), input.imageBase64);
+  }
+  const meal: PendingMeal = {
+    id,
+    userId: session.user.id,
+    imageUri: input.imageUri,
+    hasImage: !!input.imageBase64,
+    prompt: input.prompt,
+    capturedAt: input.capturedAt || new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    status: 'pending',
+  };
+  queue = [...queue, meal];
+  await persist();
+  scheduleFlush();
+  return meal;
+}
+
+export function getPendingMeals(): PendingMeal[] {
+  return queue;
+}
+
+/** Called with the current queue on every change; returns an unsubscribe. */
+export function subscribePendingMeals(
+  fn: (pending: PendingMeal[]) => void
+): () => void {
+  listeners.add(fn);
+  loadQueue().then(() => fn(queue));
+  return () => listeners.delete(fn);
+}
+
+/** Called once per entry the server has accepted. */
+export function onMealSynced(fn: (meal: PendingMeal) => void): () => void {
+  syncedListeners.add(fn);
+  return () => syncedListeners.delete(fn);
+}
+
+export async function retryPendingMeal(id: string): Promise<void> {
+  await update(id, { status: 'pending', nextAttemptAt: Date.now() });
+  await flushQueue();
+}
+
+export async function discardPendingMeal(id: string): Promise<void> {
+  await remove(id);
+}
+
+/**
+ * Uploads every due entry for the signed-in user, oldest first. `force`
+ * ignores backoff, e.g. when the app returns to the foreground.
+ */
+export function flushQueue(force = false): Promise<void> {
+  flushing =
+    flushing ||
+    runFlush(force).finally(() => {
+      flushing = null;
+      scheduleFlush();
+    });
+  return flushing;
+}
+
+async function runFlush(force: boolean) {
+  await loadQueue();
+  const session = getSession();
+  if (!session) return;
+
+  for (const meal of [...queue]) {
+    if (meal.userId !== session.user.id || meal.status === 'failed') continue;
+    if (!force && meal.nextAttemptAt > Date.now()) continue;
+
+    await update(meal.id, { status: 'syncing' });
+    try {
+      const imageBase64 = meal.hasImage
+        ? await AsyncStorage.getItem(imageKey(meal.id))
+        : null;
+      if (meal.hasImage && !imageBase64) {
+        // Nothing left to upload
+        await remove(meal.id);
+        continue;
+      }
+      await analyze({
+        imageBase64: imageBase64 || undefined,
+        prompt: meal.prompt,
+        loggedAt: meal.capturedAt,
+        idempotencyKey: meal.id,
+      });
+      await remove(meal.id);
+      syncedListeners.forEach((fn) => fn(meal));
+    } catch (error) {
+      const attempts = meal.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!isRetryableError(error)) {
+        await update(meal.id, {
+          status: 'failed',
+          attempts,
+          lastError: message,
+        });
+        continue;
+      }
+      await update(meal.id, {
+        status: 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + backoffDelay(attempts),
+        lastError: message,
+      });
+      // Still offline; the rest would fail the same way
+      if (!(error as any)?.status) break;
+    }
+  }
+}
+
+function scheduleFlush() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const userId = getSession()?.user.id;
+  const due = queue
+    .filter((m) => m.userId === userId && m.status === 'pending')
+    .map((m) => m.nextAttemptAt);
+  if (due.length === 0) return;
+  const delay = Math.max(0, Math.min(...due) - Date.now());
+  timer = setTimeout(() => flushQueue(), delay);
+}
+
+/**
+ * Starts background syncing: flushes now, whenever the app comes back to the
+ * foreground and whenever connectivity returns. Returns a stop function.
+ */
+export function startQueueSync(): () => void {
+  flushQueue(true);
+  const sub = AppState.addEventListener('change', (state) => {
+    if (state === 'active') flushQueue(true);
+  });
+  // NetInfo reports the current state first; only a change to online counts
+  let online: boolean | null = null;
+  const stopNetInfo = NetInfo.addEventListener((net) => {
+    const now = !!net.isConnected && net.isInternetReachable !== false;
+    if (online === false && now) flushQueue(true);
+    online = now;
+  });
+  return () => {
+    sub.remove();
+    stopNetInfo();
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+}
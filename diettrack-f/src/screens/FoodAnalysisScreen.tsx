@@ -18,7 +18,20 @@ import {
   ErrorState,
   ErrorAction,
 } from '../components/ErrorState';
-import { analyze } from '../api';
+import {
+  analyze,
+  saveAdjusted,
+  COOKING_METHODS,
+  AdjustedItem,
+  AnalysisWarning,
+  CookingMethod,
+  CookingModifier,
+} from '../api';
+import {
+  enqueueMeal,
+  isRetryableError,
+  newIdempotencyKey,
+} from '../offlineQueue';
 
 interface Props {
   onBack: () => void;
@@ -57,9 +70,36 @@ interface DetectedItem {
     sodium: number;
     cholesterol: number;
   };
+  cookingMethod?: CookingMethod;
+  cookingModifier?: CookingModifier | null;
   ingredients?: string[];
 }
 
+const methodLabel = (m: CookingMethod) =>
+  m.charAt(0).toUpperCase() + m.slice(1).replace(/_/g, ' ');
+
+// "Oil ×3.5 · Calories ×1.6" for factors that actually change something
+const describeModifier = (mod?: CookingModifier | null) => {
+  if (!mod) return 'No adjustment for this method';
+  const parts = [
+    mod.oilFactor !== 1 && `Oil ×${mod.oilFactor}`,
+    mod.calorieModifier !== 1 && `Calories ×${mod.calorieModifier}`,
+    mod.nutrientRetention !== 1 &&
+      `Protein kept ${Math.round(mod.nutrientRetention * 100)}%`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'No adjustment for this method';
+};
+
+const severityColor = (severity: AnalysisWarning['severity']) =>
+  severity === 'critical'
+    ? figmaColors.error
+    : severity === 'warning'
+    ? figmaColors.warning
+    : figmaColors.primary;
+
+// Shown as a banner above everything else rather than with the other warnings
+const DIET_WARNING_CODES = ['ALLERGY_CONFLICT', 'DIET_CONFLICT'];
+
 type ScreenState = 'loading' | 'error' | 'success' | 'manual_entry';
 
 export default function FoodAnalysisScreen({
@@ -71,6 +111,9 @@ export default function FoodAnalysisScreen({
 }: Props) {
   const [screenState, setScreenState] = useState<ScreenState>('loading');
   const [analysisData, setAnalysisData] = useState<DetectedItem[]>([]);
+  const [mealLogId, setMealLogId] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<AnalysisWarning[]>([]);
+  const [updatingItemId, setUpdatingItemId] = useState<number | null>(null);
   const [servings, setServings] = useState(1);
   const [cookingFat, setCookingFat] = useState('');
   const [fatAmount, setFatAmount] = useState('0');
@@ -95,11 +138,16 @@ export default function FoodAnalysisScreen({
     setScreenState('loading');
     setErrorState(null);
 
+    // One key per capture, shared by this attempt and any queued retry
+    const idempotencyKey = newIdempotencyKey();
+    const capturedAt = new Date().toISOString();
+    let base64: string | undefined;
+
     try {
       // Convert image URI to base64 data URL
       const response = await fetch(imageUri);
       const blob = await response.blob();
-      const base64 = await new Promise<string>((resolve) => {
+      base64 = await new Promise<string>((resolve) => {
         const reader = new FileReader();
         reader.onloadend = () => {
           const base64String = reader.result as string;
@@ -111,23 +159,21 @@ export default function FoodAnalysisScreen({
 
       // Call the backend API with timeout
       const result = (await Promise.race([
-        analyze({ imageBase64: base64 }),
+        analyze({ imageBase64: base64, idempotencyKey, loggedAt: capturedAt }),
         new Promise((_, reject) =>
           setTimeout(() => reject(new Error('Analysis timeout')), 30000)
         ),
       ])) as any;
 
-      if (
-        result.success &&
-        result.data?.detectedItems &&
-        result.data.detectedItems.length > 0
-      ) {
-        setAnalysisData(result.data.detectedItems);
+      if (result.success && result.data?.items?.length > 0) {
+        setAnalysisData(result.data.items);
+        setMealLogId(result.data.meal_log_id);
+        setWarnings(result.data.warnings || []);
         setScreenState('success');
 
         // Initialize editing nutrition with detected values
         const totalNutrition = calculateTotalNutrition(
-          result.data.detectedItems,
+          result.data.items,
           servings
         );
         setEditingNutrition(totalNutrition);
@@ -136,6 +182,19 @@ export default function FoodAnalysisScreen({
       }
     } catch (error) {
       console.error('Analysis error:', error);
+      // Offline or the server is struggling: keep the photo and sync later
+      if (base64 && isRetryableError(error)) {
+        const queued = await enqueueMeal({
+          id: idempotencyKey,
+          imageBase64: base64,
+          imageUri,
+          capturedAt,
+        }).catch(() => null);
+        if (queued) {
+          handleQueued();
+          return;
+        }
+      }
       handleAnalysisError(
         error instanceof Error ? error.message : 'Analysis failed'
       );
@@ -159,6 +218,17 @@ export default function FoodAnalysisScreen({
     setScreenState('error');
   };
 
+  const handleQueued = () => {
+    setErrorState({
+      type: 'network',
+      title: 'Saved for later',
+      message:
+        "We couldn't reach the server. Your photo is saved and will be analyzed automatically once you're back online.",
+      actions: [{ label: 'Back to Home', action: 'dismiss', style: 'primary' }],
+    });
+    setScreenState('error');
+  };
+
   const handleErrorAction = (action: string) => {
     switch (action) {
       case 'retry':
@@ -200,6 +270,32 @@ export default function FoodAnalysisScreen({
     setEditingNutrition(totalNutrition);
   };
 
+  // Saves one item's change; the server re-derives its nutrition and
+  // re-checks the meal, so warnings are replaced too
+  const adjustItem = async (adjustment: AdjustedItem) => {
+    if (!mealLogId || updatingItemId !== null) return;
+    setUpdatingItemId(adjustment.itemId);
+    try {
+      const result = await saveAdjusted({
+        id: mealLogId,
+        adjustedItems: [adjustment],
+      });
+      const items: DetectedItem[] = result?.data?.items || analysisData;
+      setAnalysisData(items);
+      setWarnings(result?.data?.warnings || []);
+      setEditingNutrition(calculateTotalNutrition(items, servings));
+    } catch (error) {
+      console.error('Meal adjustment failed:', error);
+    } finally {
+      setUpdatingItemId(null);
+    }
+  };
+
+  const changeCookingMethod = (item: DetectedItem, method: CookingMethod) => {
+    if (item.cookingMethod === method) return;
+    adjustItem({ itemId: item.itemId, cookingMethod: method });
+  };
+
   const updateNutritionValue = (
     key: keyof typeof editingNutrition,
     value: string
@@ -292,8 +388,34 @@ export default function FoodAnalysisScreen({
     </ScrollView>
   );
 
+  const dietWarnings = warnings.filter((w) =>
+    DIET_WARNING_CODES.includes(w.code)
+  );
+  const otherWarnings = warnings.filter(
+    (w) => !DIET_WARNING_CODES.includes(w.code)
+  );
+  const hasAllergy = dietWarnings.some((w) => w.code === 'ALLERGY_CONFLICT');
+  const dietColor = hasAllergy ? figmaColors.error : figmaColors.warning;
+
   const renderSuccessState = () => (
     <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      {/* Allergy / diet conflicts */}
+      {dietWarnings.length > 0 && (
+        <View style={[styles.dietBanner, { borderColor: dietColor }]}>
+          <Text style={[styles.dietBannerTitle, { color: dietColor }]}>
+            {hasAllergy ? 'Allergy alert' : "Doesn't fit your diet"}
+          </Text>
+          {dietWarnings.map((warning, index) => (
+            <Text
+              key={`${warning.code}-${warning.itemId}-${index}`}
+              style={styles.dietBannerText}
+            >
+              • {warning.message}
+            </Text>
+          ))}
+        </View>
+      )}
+
       {/* Food Image */}
       {imageUri ? (
         <View style={styles.foodImageContainer}>
@@ -330,6 +452,28 @@ export default function FoodAnalysisScreen({
           </View>
         </View>
 
+        {/* Plausibility warnings, each with an optional one-tap fix */}
+        {otherWarnings.map((warning, index) => (
+          <View
+            key={`${warning.code}-${warning.itemId ?? 'meal'}-${index}`}
+            style={[
+              styles.warningCard,
+              { borderLeftColor: severityColor(warning.severity) },
+            ]}
+          >
+            <Text style={styles.warningText}>{warning.message}</Text>
+            {warning.fix && mealLogId && (
+              <TouchableOpacity
+                style={styles.warningFixButton}
+                disabled={updatingItemId !== null}
+                onPress={() => warning.fix && adjustItem(warning.fix)}
+              >
+                <Text style={styles.warningFixText}>Apply fix</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
         {/* Editable Nutrition Grid */}
         <View style={styles.nutritionGrid}>
           <TouchableOpacity style={styles.nutritionCard}>
@@ -377,6 +521,60 @@ export default function FoodAnalysisScreen({
           </TouchableOpacity>
         </View>
 
+        {/* Cooking method per item */}
+        {mealLogId && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Cooking Method</Text>
+            {analysisData.map((item) => (
+              <View key={item.itemId} style={styles.cookingItem}>
+                <View style={styles.cookingItemHeader}>
+                  <Text style={styles.ingredientName}>{item.name}</Text>
+                  {updatingItemId === item.itemId && (
+                    <ActivityIndicator
+                      size="small"
+                      color={figmaColors.primary}
+                    />
+                  )}
+                </View>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.methodChips}
+                >
+                  {COOKING_METHODS.map((method) => {
+                    const selected = item.cookingMethod === method;
+                    return (
+                      <TouchableOpacity
+                        key={method}
+                        style={[
+                          styles.methodChip,
+                          selected && styles.methodChipSelected,
+                        ]}
+                        disabled={updatingItemId !== null}
+                        onPress={() => changeCookingMethod(item, method)}
+                      >
+                        <Text
+                          style={[
+                            styles.methodChipText,
+                            selected && styles.methodChipTextSelected,
+                          ]}
+                        >
+                          {methodLabel(method)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+                {item.cookingMethod && (
+                  <Text style={styles.modifierText}>
+                    {describeModifier(item.cookingModifier)}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Ingredients */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Ingredients</Text>
@@ -618,6 +816,91 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: figmaColors.textPrimary,
   },
+  dietBanner: {
+    marginHorizontal: 24,
+    marginTop: 8,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    backgroundColor: figmaColors.surface,
+  },
+  dietBannerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  dietBannerText: {
+    fontSize: 15,
+    color: figmaColors.textPrimary,
+    marginTop: 4,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: figmaColors.surface,
+    borderWidth: 1,
+    borderColor: figmaColors.border,
+    borderLeftWidth: 4,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: figmaColors.textPrimary,
+  },
+  warningFixButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: figmaColors.primary,
+  },
+  warningFixText: {
+    color: figmaColors.surface,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cookingItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: figmaColors.border,
+  },
+  cookingItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  methodChips: {
+    gap: 8,
+  },
+  methodChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: figmaColors.border,
+    backgroundColor: figmaColors.surface,
+  },
+  methodChipSelected: {
+    backgroundColor: figmaColors.primary,
+    borderColor: figmaColors.primary,
+  },
+  methodChipText: {
+    fontSize: 14,
+    color: figmaColors.textPrimary,
+  },
+  methodChipTextSelected: {
+    color: figmaColors.surface,
+    fontWeight: '600',
+  },
+  modifierText: {
+    fontSize: 13,
+    color: figmaColors.textSecondary,
+    marginTop: 8,
+  },
   noIngredientsText: {
     fontSize: 14,
     color: figmaColors.textSecondary,
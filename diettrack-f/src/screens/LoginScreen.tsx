@@ -15,53 +15,73 @@ import { AppGradient } from '../components/AppGradient';
 import { figmaColors } from '../theme/figma-colors';
 import { Icon } from '../components/icons/Icons';
 import { FormField } from '../components/ui/FormField';
+import { requestOtp, verifyOtp, type LoginResult } from '../api';
 
 interface Props {
-  onLogin: () => void;
+  onLogin: (result: LoginResult) => void;
 }
 
+type Step = 'phone' | 'code';
+
+const OTP_MESSAGES: Record<string, string> = {
+  OTP_INVALID: 'That code is not correct',
+  OTP_EXPIRED: 'The code has expired, please request a new one',
+  OTP_LOCKED: 'Too many attempts, please request a new code',
+  OTP_COOLDOWN: 'Please wait a moment before requesting another code',
+  INVALID_PHONE: 'Enter a valid mobile number',
+};
+
 export default function LoginScreen({ onLogin }: Props) {
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
+  const [step, setStep] = useState<Step>('phone');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [errors, setErrors] = useState({ email: '', password: '' });
-
-  const handleLogin = async () => {
-    // Clear previous errors
-    setErrors({ email: '', password: '' });
+  const [errors, setErrors] = useState({ phone: '', code: '' });
 
-    // Minimal validation - just check if fields are not empty
-    let newErrors = { email: '', password: '' };
-    if (!email.trim()) {
-      newErrors.email = 'Email is required';
-    }
-    if (!password.trim()) {
-      newErrors.password = 'Password is required';
+  const sendCode = async () => {
+    setErrors({ phone: '', code: '' });
+    if (!phone.trim()) {
+      setErrors({ phone: 'Mobile number is required', code: '' });
+      return;
     }
 
-    setErrors(newErrors);
+    setIsLoading(true);
+    try {
+      await requestOtp(phone.trim());
+      setCode('');
+      setStep('code');
+    } catch (error: any) {
+      console.error('OTP request error:', error);
+      setErrors({
+        phone: OTP_MESSAGES[error?.code] || 'Could not send the code',
+        code: '',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-    if (newErrors.email || newErrors.password) {
+  const handleVerify = async () => {
+    setErrors({ phone: '', code: '' });
+    if (!/^\d{6}$/.test(code.trim())) {
+      setErrors({ phone: '', code: 'Enter the 6-digit code' });
       return;
     }
 
     setIsLoading(true);
-
     try {
-      // TODO: Implement real authentication API call
-      // For now, simulate a network request
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Store user session (in a real app, this would be a JWT token)
-      // For demo purposes, we'll just proceed to onboarding
-      onLogin();
-    } catch (error) {
+      const result = await verifyOtp(phone.trim(), code.trim());
+      onLogin(result);
+    } catch (error: any) {
       console.error('Login error:', error);
-      Alert.alert(
-        'Login Failed',
-        'Please check your credentials and try again.'
-      );
+      if (OTP_MESSAGES[error?.code]) {
+        setErrors({ phone: '', code: OTP_MESSAGES[error.code] });
+      } else {
+        Alert.alert(
+          'Login Failed',
+          'Please check your connection and try again.'
+        );
+      }
     } finally {
       setIsLoading(false);
     }
@@ -89,77 +109,107 @@ export default function LoginScreen({ onLogin }: Props) {
             </View>
 
             <View style={styles.form}>
-              <Text style={styles.formTitle}>Log in</Text>
-
-              <FormField
-                value={email}
-                onChangeText={setEmail}
-                placeholder="Enter your email or username"
-                keyboardType="default"
-                autoCapitalize="none"
-                error={errors.email}
-              />
+              <Text style={styles.formTitle}>
+                {step === 'phone' ? 'Log in or sign up' : 'Enter code'}
+              </Text>
 
-              <FormField
-                value={password}
-                onChangeText={setPassword}
-                placeholder="Password"
-                secureTextEntry={!showPassword}
-                showPasswordToggle={true}
-                onTogglePassword={() => setShowPassword(!showPassword)}
-                showPassword={showPassword}
-                error={errors.password}
-              />
+              {step === 'phone' ? (
+                <FormField
+                  value={phone}
+                  onChangeText={setPhone}
+                  placeholder="Mobile number"
+                  keyboardType="phone-pad"
+                  autoCapitalize="none"
+                  error={errors.phone}
+                />
+              ) : (
+                <>
+                  <Text style={styles.codeHint}>
+                    We sent a 6-digit code to {phone.trim()}
+                  </Text>
+                  <FormField
+                    value={code}
+                    onChangeText={setCode}
+                    placeholder="6-digit code"
+                    keyboardType="numeric"
+                    autoCapitalize="none"
+                    error={errors.code}
+                  />
+                </>
+              )}
 
               <TouchableOpacity
                 style={[
                   styles.continueButton,
                   isLoading && styles.continueButtonDisabled,
                 ]}
-                onPress={handleLogin}
+                onPress={step === 'phone' ? sendCode : handleVerify}
                 disabled={isLoading}
               >
                 {isLoading ? (
                   <ActivityIndicator color={figmaColors.surface} size="small" />
                 ) : (
-                  <Text style={styles.continueButtonText}>Continue</Text>
+                  <Text style={styles.continueButtonText}>
+                    {step === 'phone' ? 'Send code' : 'Continue'}
+                  </Text>
                 )}
               </TouchableOpacity>
 
-              <TouchableOpacity style={styles.forgotPassword}>
-                <Text style={styles.forgotPasswordText}>Forget password?</Text>
-              </TouchableOpacity>
+              {step === 'code' && (
+                <View style={styles.signupPrompt}>
+                  <TouchableOpacity onPress={sendCode} disabled={isLoading}>
+                    <Text style={styles.signupLink}>Resend code</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.signupText}> · </Text>
+                  <TouchableOpacity
+                    onPress={() => setStep('phone')}
+                    disabled={isLoading}
+                  >
+                    <Text style={styles.signupLink}>Change number</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
 
-              <Text style={styles.orText}>or</Text>
+              {step === 'phone' && (
+                <>
+                  <Text style={styles.orText}>or</Text>
 
-              <View style={styles.socialButtons}>
-                <TouchableOpacity
-                  style={styles.socialButton}
-                  onPress={() => handleSocialLogin('Google')}
-                >
-                  <View style={styles.socialButtonContent}>
-                    <Icon name="google" size={18} style={styles.socialIcon} />
-                    <Text style={styles.socialButtonText}>Google</Text>
-                  </View>
-                </TouchableOpacity>
+                  <View style={styles.socialButtons}>
+                    <TouchableOpacity
+                      style={styles.socialButton}
+                      onPress={() => handleSocialLogin('Google')}
+                    >
+                      <View style={styles.socialButtonContent}>
+                        <Icon
+                          name="google"
+                          size={18}
+                          style={styles.socialIcon}
+                        />
+                        <Text style={styles.socialButtonText}>Google</Text>
+                      </View>
+                    </TouchableOpacity>
 
-                <TouchableOpacity
-                  style={styles.socialButton}
-                  onPress={() => handleSocialLogin('Apple')}
-                >
-                  <View style={styles.socialButtonContent}>
-                    <Icon name="apple" size={18} style={styles.socialIcon} />
-                    <Text style={styles.socialButtonText}>Apple</Text>
+                    <TouchableOpacity
+                      style={styles.socialButton}
+                      onPress={() => handleSocialLogin('Apple')}
+                    >
+                      <View style={styles.socialButtonContent}>
+                        <Icon
+                          name="apple"
+                          size={18}
+                          style={styles.socialIcon}
+                        />
+                        <Text style={styles.socialButtonText}>Apple</Text>
+                      </View>
+                    </TouchableOpacity>
                   </View>
-                </TouchableOpacity>
-              </View>
 
-              <View style={styles.signupPrompt}>
-                <Text style={styles.signupText}>New here? </Text>
-                <TouchableOpacity>
-                  <Text style={styles.signupLink}>Create an account</Text>
-                </TouchableOpacity>
-              </View>
+                  <Text style={styles.signupText}>
+                    New here? Your account is created when you verify your
+                    number.
+                  </Text>
+                </>
+              )}
             </View>
           </ScrollView>
         </KeyboardAvoidingView>
@@ -242,13 +292,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  forgotPassword: {
-    alignItems: 'center',
-    marginBottom: 24,
-  },
-  forgotPasswordText: {
+  codeHint: {
     color: figmaColors.textSecondary,
     fontSize: 14,
+    marginBottom: 12,
+    textAlign: 'center',
   },
   orText: {
     textAlign: 'center',
@@ -291,6 +339,7 @@ const styles = StyleSheet.create({
   signupText: {
     color: figmaColors.textSecondary,
     fontSize: 14,
+    textAlign: 'center',
   },
   signupLink: {
     color: figmaColors.primary,
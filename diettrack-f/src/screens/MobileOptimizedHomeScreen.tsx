@@ -27,12 +27,25 @@ import {
   getUserProfile,
   getUserDailyStats,
   getUserRecentMeals,
+  getUserTrends,
+  logWater,
+  deleteWater,
+  type Trends,
+  type WaterPreset,
   type UserProfile,
   type DailyStats,
   type RecentMeal,
 } from '../api';
+import {
+  subscribePendingMeals,
+  onMealSynced,
+  retryPendingMeal,
+  discardPendingMeal,
+  type PendingMeal,
+} from '../offlineQueue';
 
 interface Props {
+  userId?: string;
   onNavigateToCamera?: () => void;
   onNavigateToTextEntry?: () => void;
   onNavigateToResults?: (data: any) => void;
@@ -42,6 +55,7 @@ interface Props {
 const { width } = Dimensions.get('window');
 
 export default function MobileOptimizedHomeScreen({
+  userId,
   onNavigateToCamera,
   onNavigateToTextEntry,
   onNavigateToResults,
@@ -54,10 +68,16 @@ export default function MobileOptimizedHomeScreen({
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [dailyStats, setDailyStats] = useState<DailyStats | null>(null);
   const [recentFoods, setRecentFoods] = useState<RecentMeal[]>([]);
+  const [weekTrends, setWeekTrends] = useState<Trends | null>(null);
+  // Entries added from this screen, newest last, so "Undo" can remove them
+  const [waterEntryIds, setWaterEntryIds] = useState<string[]>([]);
+  const [waterBusy, setWaterBusy] = useState(false);
+  const [pendingMeals, setPendingMeals] = useState<PendingMeal[]>([]);
   const [loading, setLoading] = useState(true);
 
-  // DEMO//
+  // Signed-in user; the demo id only backs the offline mock fallback
   const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000';
+  const currentUserId = userId || DEMO_USER_ID;
 
   // Fetch user data and recent foods on component mount
   useEffect(() => {
@@ -68,9 +88,9 @@ export default function MobileOptimizedHomeScreen({
         // Try real API calls first
         try {
           const [profile, stats, meals] = await Promise.all([
-            getUserProfile(DEMO_USER_ID),
-            getUserDailyStats(DEMO_USER_ID),
-            getUserRecentMeals(DEMO_USER_ID, 5),
+            getUserProfile(currentUserId),
+            getUserDailyStats(currentUserId),
+            getUserRecentMeals(currentUserId, 5),
           ]);
           setUserProfile(profile);
           setDailyStats(stats);
@@ -80,7 +100,7 @@ export default function MobileOptimizedHomeScreen({
 
           // Fallback to mock data
           setUserProfile({
-            id: DEMO_USER_ID,
+            id: currentUserId,
             name: 'Demo User',
             email: 'demo@example.com',
             age: 25,
@@ -112,7 +132,7 @@ export default function MobileOptimizedHomeScreen({
       } catch (error) {
         console.error('Error fetching user data:', error);
         setUserProfile({
-          id: DEMO_USER_ID,
+          id: currentUserId,
           name: 'Demo User',
           email: 'demo@example.com',
           age: 25,
@@ -144,7 +164,91 @@ export default function MobileOptimizedHomeScreen({
     };
 
     fetchUserData();
-  }, [DEMO_USER_ID]);
+  }, [currentUserId]);
+
+  // Offline captures waiting to sync; refresh today's numbers as they land
+  useEffect(() => {
+    if (!userId) return;
+    const unsubscribe = subscribePendingMeals((queue) =>
+      setPendingMeals(queue.filter((m) => m.userId === userId))
+    );
+    const unsubscribeSynced = onMealSynced(() => {
+      Promise.all([getUserDailyStats(userId), getUserRecentMeals(userId, 5)])
+        .then(([stats, meals]) => {
+          setDailyStats(stats);
+          setRecentFoods(meals);
+        })
+        .catch((e) => console.warn('Refresh after sync failed:', e));
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeSynced();
+    };
+  }, [userId]);
+
+  // Last week + this week, for the week-over-week card
+  useEffect(() => {
+    if (!userId) return;
+    const ymd = (d: Date) =>
+      [d.getFullYear(), d.getMonth() + 1, d.getDate()]
+        .map((n) => String(n).padStart(2, '0'))
+        .join('-');
+    const today = new Date();
+    const lastMonday = new Date(today);
+    lastMonday.setDate(today.getDate() - ((today.getDay() + 6) % 7) - 7);
+
+    getUserTrends(userId, {
+      from: ymd(lastMonday),
+      to: ymd(today),
+      granularity: 'week',
+    })
+      .then(setWeekTrends)
+      .catch((e) => console.warn('Trends unavailable:', e));
+  }, [userId]);
+
+  const thisWeek = weekTrends?.buckets[weekTrends.buckets.length - 1];
+
+  const waterIntake = dailyStats?.water_intake_ml ?? 0;
+  const waterTarget = dailyStats?.water_target_ml ?? 2500;
+
+  const applyWater = (total: number) =>
+    setDailyStats((prev) =>
+      prev ? { ...prev, water_intake_ml: total } : prev
+    );
+
+  const handleAddWater = useCallback(
+    async (preset: WaterPreset) => {
+      if (!userId || waterBusy) return;
+      setWaterBusy(true);
+      try {
+        const result = await logWater(userId, preset);
+        applyWater(result.water_intake_ml);
+        if (result.entry) {
+          setWaterEntryIds((ids) => [...ids, result.entry!.id]);
+        }
+      } catch (e) {
+        console.warn('Logging water failed:', e);
+      } finally {
+        setWaterBusy(false);
+      }
+    },
+    [userId, waterBusy]
+  );
+
+  const handleUndoWater = useCallback(async () => {
+    const last = waterEntryIds[waterEntryIds.length - 1];
+    if (!userId || !last || waterBusy) return;
+    setWaterBusy(true);
+    try {
+      const result = await deleteWater(userId, last);
+      applyWater(result.water_intake_ml);
+      setWaterEntryIds((ids) => ids.slice(0, -1));
+    } catch (e) {
+      console.warn('Undo water failed:', e);
+    } finally {
+      setWaterBusy(false);
+    }
+  }, [userId, waterEntryIds, waterBusy]);
 
   // Calculate progress and remaining calories
   const progress = useMemo(() => {
@@ -351,11 +455,80 @@ export default function MobileOptimizedHomeScreen({
           </View>
         </View>
 
+        {/* Water */}
+        <View style={styles.waterCard}>
+          <View style={styles.waterHeader}>
+            <Text style={styles.waterTitle}>Water</Text>
+            <Text style={styles.waterAmount}>
+              {waterIntake} / {waterTarget} ml
+            </Text>
+          </View>
+          <View style={styles.waterTrack}>
+            <View
+              style={[
+                styles.waterFill,
+                {
+                  width: `${Math.min(100, (waterIntake / waterTarget) * 100)}%`,
+                },
+              ]}
+            />
+          </View>
+          <View style={styles.waterButtons}>
+            <TouchableOpacity
+              style={styles.waterButton}
+              onPress={() => handleAddWater('glass')}
+              disabled={!userId || waterBusy}
+            >
+              <Text style={styles.waterButtonText}>+ Glass 250 ml</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.waterButton}
+              onPress={() => handleAddWater('bottle')}
+              disabled={!userId || waterBusy}
+            >
+              <Text style={styles.waterButtonText}>+ Bottle 500 ml</Text>
+            </TouchableOpacity>
+            {waterEntryIds.length > 0 && (
+              <TouchableOpacity
+                style={styles.waterUndo}
+                onPress={handleUndoWater}
+                disabled={waterBusy}
+              >
+                <Text style={styles.waterUndoText}>Undo</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* Week-over-week */}
+        {thisWeek && thisWeek.logged_days > 0 && (
+          <View style={styles.trendCard}>
+            <Text style={styles.trendTitle}>This week</Text>
+            <Text style={styles.trendValue}>
+              {thisWeek.average.calories} kcal/day
+              {thisWeek.pct_of_target !== null
+                ? ` · ${thisWeek.pct_of_target}% of target`
+                : ''}
+            </Text>
+            <View style={styles.trendRow}>
+              {thisWeek.change_pct !== null && (
+                <Text style={styles.trendDetail}>
+                  {thisWeek.change_pct > 0 ? '+' : ''}
+                  {thisWeek.change_pct}% vs last week
+                </Text>
+              )}
+              <Text style={styles.trendDetail}>
+                {weekTrends!.summary.streaks.current} day streak on target
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Recently Uploaded Section */}
         <View style={styles.recentSection}>
           <Text style={styles.recentTitle}>Recently uploaded</Text>
 
-          {recentFoods.length === 0 ? (
+          {recentFoods.length === 0 && pendingMeals.length === 0 ? (
             <EmptyState
               icon="plate"
               title="No meals logged yet"
@@ -365,6 +538,82 @@ export default function MobileOptimizedHomeScreen({
             />
           ) : (
             <View style={styles.foodList}>
+              {pendingMeals.map((meal) => (
+                <View key={meal.id} style={styles.foodItem}>
+                  <View style={styles.foodImageContainer}>
+                    {meal.imageUri ? (
+                      <Image
+                        source={{ uri: meal.imageUri }}
+                        style={styles.foodImage}
+                      />
+                    ) : (
+                      <View style={[styles.foodImage, styles.pendingIcon]}>
+                        <Icon
+                          name={meal.hasImage ? 'camera' : 'plate'}
+                          size={24}
+                          color={figmaColors.textSecondary}
+                        />
+                      </View>
+                    )}
+                  </View>
+                  <View style={styles.foodInfo}>
+                    <Text style={styles.foodName} numberOfLines={1}>
+                      {meal.prompt || 'Photo meal'}
+                    </Text>
+                    <Text style={styles.foodMacros}>
+                      Captured{' '}
+                      {new Date(meal.capturedAt).toLocaleTimeString([], {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </Text>
+                    <View
+                      style={[
+                        styles.syncBadge,
+                        meal.status === 'failed' && styles.syncBadgeFailed,
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.syncBadgeText,
+                          meal.status === 'failed' &&
+                            styles.syncBadgeTextFailed,
+                        ]}
+                      >
+                        {meal.status === 'syncing'
+                          ? 'Syncing…'
+                          : meal.status === 'failed'
+                          ? 'Sync failed'
+                          : 'Waiting to sync'}
+                      </Text>
+                    </View>
+                  </View>
+                  {meal.status === 'failed' ? (
+                    <View>
+                      <TouchableOpacity
+                        style={styles.viewButton}
+                        onPress={() => retryPendingMeal(meal.id)}
+                      >
+                        <Text style={styles.viewButtonText}>Retry</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.viewButton}
+                        onPress={() => discardPendingMeal(meal.id)}
+                      >
+                        <Text style={styles.discardText}>Discard</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    meal.status === 'syncing' && (
+                      <ActivityIndicator
+                        size="small"
+                        color={figmaColors.primary}
+                        style={styles.viewButton}
+                      />
+                    )
+                  )}
+                </View>
+              ))}
               {recentFoods.map((food) => (
                 <View key={food.id} style={styles.foodItem}>
                   <View style={styles.foodImageContainer}>
@@ -596,6 +845,102 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xl,
     gap: spacing.sm,
   },
+  waterCard: {
+    backgroundColor: figmaColors.surface,
+    borderRadius: 16,
+    padding: spacing.md,
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.lg,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  waterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  waterTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: figmaColors.textPrimary,
+  },
+  waterAmount: {
+    fontSize: fontSize.sm,
+    color: figmaColors.textSecondary,
+  },
+  waterTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: figmaColors.border,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  waterFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: figmaColors.primary,
+  },
+  waterButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  waterButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: figmaColors.primary,
+    borderRadius: 12,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+  waterButtonText: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+    color: figmaColors.primary,
+  },
+  waterUndo: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  waterUndoText: {
+    fontSize: fontSize.sm,
+    color: figmaColors.textSecondary,
+  },
+  trendCard: {
+    backgroundColor: figmaColors.surface,
+    borderRadius: 16,
+    padding: spacing.md,
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.xl,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  trendTitle: {
+    fontSize: fontSize.sm,
+    color: figmaColors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  trendValue: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: figmaColors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  trendRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  trendDetail: {
+    fontSize: fontSize.sm,
+    color: figmaColors.textSecondary,
+  },
   macroCard: {
     flex: 1,
     backgroundColor: figmaColors.surface,
@@ -691,6 +1036,34 @@ const styles = StyleSheet.create({
     color: figmaColors.primary,
     fontWeight: '600',
   },
+  pendingIcon: {
+    backgroundColor: figmaColors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  syncBadge: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: figmaColors.border,
+  },
+  syncBadgeFailed: {
+    backgroundColor: figmaColors.error,
+  },
+  syncBadgeText: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    color: figmaColors.textSecondary,
+  },
+  syncBadgeTextFailed: {
+    color: figmaColors.surface,
+  },
+  discardText: {
+    fontSize: fontSize.sm,
+    color: figmaColors.textSecondary,
+  },
   floatingPlusButton: {
     position: 'absolute',
     bottom: 30,
@@ -30,6 +30,22 @@ interface MealData {
   serving: string;
 }
 
+interface ParsedItem {
+  name: string;
+  portionSize: { estimatedGrams: number };
+  nutrition: { calories: number; protein: number; carbs: number; fat: number };
+}
+
+const sum = (items: ParsedItem[], key: keyof ParsedItem['nutrition']) =>
+  Math.round(items.reduce((s, it) => s + (it.nutrition[key] || 0), 0) * 10) /
+  10;
+
+// "roti 80 g · dal 225 g"
+const describeServing = (items: ParsedItem[]) =>
+  items
+    .map((it) => `${it.name} ${Math.round(it.portionSize.estimatedGrams)} g`)
+    .join(' · ');
+
 export default function TextMealEntryScreen({ onBack, onSave }: Props) {
   const [mealText, setMealText] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -51,22 +67,27 @@ export default function TextMealEntryScreen({ onBack, onSave }: Props) {
       // Call backend API for text analysis
       const result = await analyze({ prompt: mealText });
 
-      if (result.success && result.data?.detectedItems?.length > 0) {
-        const item = result.data.detectedItems[0];
+      if (result.success && result.data?.items?.length) {
+        // One item per typed phrase, each weighed from its own quantity
+        const items: ParsedItem[] = result.data.items;
+        const totals = {
+          calories: Math.round(sum(items, 'calories')),
+          protein: sum(items, 'protein'),
+          carbs: sum(items, 'carbs'),
+          fat: sum(items, 'fat'),
+        };
+        const serving = describeServing(items);
         setMealData({
-          name: item.name,
-          calories: item.nutrition.calories,
-          protein: item.nutrition.protein,
-          carbs: item.nutrition.carbs,
-          fat: item.nutrition.fat,
-          serving: '1 serving',
+          name: items.map((it) => it.name).join(', '),
+          ...totals,
+          serving,
         });
         setNutrition({
-          calories: item.nutrition.calories.toString(),
-          protein: item.nutrition.protein.toString(),
-          carbs: item.nutrition.carbs.toString(),
-          fat: item.nutrition.fat.toString(),
-          serving: '1 serving',
+          calories: totals.calories.toString(),
+          protein: totals.protein.toString(),
+          carbs: totals.carbs.toString(),
+          fat: totals.fat.toString(),
+          serving,
         });
       } else {
         // Fallback to manual entry
@@ -164,7 +185,7 @@ export default function TextMealEntryScreen({ onBack, onSave }: Props) {
                 <Text style={styles.sectionTitle}>What did you eat?</Text>
                 <TextInput
                   style={styles.textInput}
-                  placeholder="e.g., Grilled chicken with rice and vegetables"
+                  placeholder="e.g., 2 rotis, 1 katori dal and 200ml lassi"
                   value={mealText}
                   onChangeText={setMealText}
                   multiline
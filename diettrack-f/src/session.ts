@@ -0,0 +1,62 @@
+// src/session.ts
+// Persisted login session. Tokens live in the platform keychain/keystore via
+// expo-secure-store; api.ts reads the in-memory copy on every request.
+import * as SecureStore from 'expo-secure-store';
+
+export type SessionUser = {
+  id: string;
+  phone: string;
+  name?: string | null;
+};
+
+export type Session = {
+  accessToken: string;
+  refreshToken: string;
+  user: SessionUser;
+  /** Onboarding answers have been saved to the profile */
+  onboarded: boolean;
+};
+
+const KEY = 'diettrack.session';
+
+let current: Session | null = null;
+let onExpired: (() => void) | null = null;
+
+export function getSession(): Session | null {
+  return current;
+}
+
+export async function loadSession(): Promise<Session | null> {
+  try {
+    const raw = await SecureStore.getItemAsync(KEY);
+    current = raw ? (JSON.parse(raw) as Session) : null;
+  } catch (e) {
+    console.warn('Failed to read session:', e);
+    current = null;
+  }
+  return current;
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  current = session;
+  await SecureStore.setItemAsync(KEY, JSON.stringify(session));
+}
+
+export async function updateSession(patch: Partial<Session>): Promise<void> {
+  if (!current) return;
+  await saveSession({ ...current, ...patch });
+}
+
+export async function clearSession(): Promise<void> {
+  current = null;
+  await SecureStore.deleteItemAsync(KEY);
+}
+
+/** Called by api.ts when the refresh token is rejected too. */
+export function setSessionExpiredHandler(fn: (() => void) | null) {
+  onExpired = fn;
+}
+
+export function notifySessionExpired() {
+  onExpired?.();
+}